@@ -0,0 +1,13 @@
+import nextJest from "next/jest.js";
+
+const createJestConfig = nextJest({
+  dir: "./",
+});
+
+/** @type {import("jest").Config} */
+const config = {
+  testEnvironment: "jsdom",
+  testMatch: ["<rootDir>/src/**/__tests__/**/*.test.{ts,tsx}"],
+};
+
+export default createJestConfig(config);
@@ -0,0 +1,122 @@
+// Review Reminder Service Worker
+// Shows the daily review reminder with the number of highlights due
+// The app sends the reminder settings, with the time each highlight next falls due so the count
+// follows the app's own rule, and asks for a check at the reminder time; periodic background sync,
+// where the browser offers it, covers days the app is not open
+
+const STATE_CACHE = 'review-reminder';
+const STATE_URL = '/review-reminder/state';
+const NOTIFICATION_TAG = 'review-reminder';
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('message', (event) => {
+  const message = event.data || {};
+
+  if (message.type === 'configure') {
+    event.waitUntil(updateState({
+      enabled: message.enabled,
+      reviewTime: message.reviewTime,
+      dueTimes: message.dueTimes
+    }));
+  } else if (message.type === 'check') {
+    // The app falls back to its in-app reminder unless told the notification has been shown
+    const reply = event.ports[0];
+    event.waitUntil(
+      updateState({ dueTimes: message.dueTimes })
+        .then(remindIfDue)
+        .catch((error) => {
+          console.error('Review reminder: Failed to show the notification:', error);
+          return false;
+        })
+        .then((shown) => reply && reply.postMessage({ shown }))
+    );
+  }
+});
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === NOTIFICATION_TAG) {
+    event.waitUntil(remindIfDue());
+  }
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(openReview());
+});
+
+/**
+ * Show today's reminder once the reminder time has passed, unless it was already shown.
+ * With nothing due yet, nothing is shown and a later check tries again
+ * @returns Whether today's reminder has been shown
+ */
+async function remindIfDue() {
+  const state = await readState();
+  if (!state.enabled || !state.reviewTime) return false;
+  if (Notification.permission !== 'granted') return false;
+
+  const now = new Date();
+  const today = getDayKey(now);
+  if (state.lastShown === today) return true;
+  if (now < getReminderTime(state.reviewTime, now)) return false;
+
+  const due = (state.dueTimes || []).filter((time) => time <= now.getTime()).length;
+  if (due === 0) return false;
+
+  await self.registration.showNotification('Time to review', {
+    body: `${due} highlight${due === 1 ? ' is' : 's are'} due for review`,
+    tag: NOTIFICATION_TAG,
+    icon: '/file.svg',
+    data: { url: '/review' }
+  });
+  await updateState({ lastShown: today });
+  return true;
+}
+
+async function openReview() {
+  const url = new URL('/review', self.location.origin).href;
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+
+  const existing = windows.find((client) => client.url === url) || windows[0];
+  if (existing) {
+    await existing.focus();
+    if (existing.url !== url && 'navigate' in existing) {
+      await existing.navigate(url);
+    }
+    return;
+  }
+  await self.clients.openWindow(url);
+}
+
+async function readState() {
+  const cache = await caches.open(STATE_CACHE);
+  const response = await cache.match(STATE_URL);
+  return response ? response.json() : {};
+}
+
+async function updateState(changes) {
+  const state = { ...(await readState()), ...changes };
+  const cache = await caches.open(STATE_CACHE);
+  await cache.put(STATE_URL, new Response(JSON.stringify(state), {
+    headers: { 'Content-Type': 'application/json' }
+  }));
+}
+
+function getReminderTime(reviewTime, now) {
+  const [hours, minutes] = reviewTime.split(':').map(Number);
+  const time = new Date(now);
+  time.setHours(hours, minutes, 0, 0);
+  return time;
+}
+
+function getDayKey(date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
@@ -0,0 +1,125 @@
+// API Route: Import from a Kobo database
+// Reads an uploaded KoboReader.sqlite and returns highlights and reading progress for the library's books
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Book } from '@/types';
+import { AnnotationMapper } from '@/lib/import/AnnotationMapper';
+import { BookMatcher } from '@/lib/import/BookMatcher';
+import { KoboDatabaseParser, KoboVolume } from '@/lib/import/KoboDatabaseParser';
+import {
+  ImportedAnnotation,
+  ImportPreviewBook,
+  KoboImportReportBook,
+  KoboImportResponse
+} from '@/lib/import/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const booksField = formData.get('books');
+    const dryRun = formData.get('dryRun') !== 'false';
+
+    if (!(file instanceof Blob) || file.size === 0) {
+      return NextResponse.json(
+        { error: 'A KoboReader.sqlite file is required' },
+        { status: 400 }
+      );
+    }
+
+    const books: Book[] = typeof booksField === 'string' ? JSON.parse(booksField) : [];
+
+    let database;
+    try {
+      database = new KoboDatabaseParser().parse(new Uint8Array(await file.arrayBuffer()));
+    } catch (error) {
+      console.error('Failed to read Kobo database:', error);
+      return NextResponse.json(
+        { error: 'The file is not a readable Kobo database' },
+        { status: 400 }
+      );
+    }
+
+    const previewBooks = buildPreviewBooks(database.volumes, database.annotations, books);
+
+    const response: KoboImportResponse = {
+      dryRun,
+      totalEntries: database.annotations.length,
+      report: previewBooks.map(buildReportBook),
+      books: dryRun ? undefined : previewBooks
+    };
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Failed to import Kobo database:', error);
+    return NextResponse.json(
+      { error: 'Failed to import Kobo database' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Highlights grouped per book, with the device's reading progress attached. Books that
+ * were only read (no annotations) are included when they match the library
+ */
+function buildPreviewBooks(
+  volumes: KoboVolume[],
+  annotations: ImportedAnnotation[],
+  books: Book[]
+): ImportPreviewBook[] {
+  const previewBooks = new AnnotationMapper('kobo').buildPreviewBooks(annotations, books);
+  const previewByKey = new Map(previewBooks.map(previewBook => [previewBook.key, previewBook]));
+  const matcher = new BookMatcher(books);
+
+  volumes.forEach(volume => {
+    const key = AnnotationMapper.getBookKey(volume.title, volume.author);
+    const previewBook = previewByKey.get(key);
+
+    if (previewBook) {
+      previewBook.readingState = volume.readingState;
+      return;
+    }
+
+    const match = volume.readingState.lastRead ? matcher.match(volume.title, volume.author) : null;
+    if (match) {
+      const readOnlyBook: ImportPreviewBook = {
+        key,
+        title: volume.title,
+        author: volume.author,
+        match,
+        highlights: [],
+        duplicates: 0,
+        bookmarks: 0,
+        readingState: volume.readingState
+      };
+      previewByKey.set(key, readOnlyBook);
+      previewBooks.push(readOnlyBook);
+    }
+  });
+
+  // Unmatched books with nothing but dog-ears would only produce an empty placeholder
+  return previewBooks
+    .filter(previewBook => previewBook.match || previewBook.highlights.length > 0)
+    .sort((a, b) => a.title.localeCompare(b.title));
+}
+
+function buildReportBook(previewBook: ImportPreviewBook): KoboImportReportBook {
+  return {
+    key: previewBook.key,
+    title: previewBook.title,
+    author: previewBook.author,
+    match: previewBook.match
+      ? {
+          bookId: previewBook.match.book.id,
+          title: previewBook.match.book.title,
+          score: previewBook.match.score
+        }
+      : null,
+    highlights: previewBook.highlights.filter(highlight => !highlight.tags.includes('note')).length,
+    notes: previewBook.highlights.filter(highlight => highlight.notes?.length || highlight.tags.includes('note')).length,
+    bookmarks: previewBook.bookmarks,
+    readingState: previewBook.readingState
+  };
+}
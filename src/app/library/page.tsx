@@ -10,13 +10,26 @@ import { Navigation } from '@/components/common/Navigation';
 import { BookUploadService, UploadProgress } from '@/lib/services/bookUpload';
 import { GoogleDriveService } from '@/lib/services/googleDriveService';
 import { SearchService } from '@/lib/services/searchService';
+import { HighlightPaletteService } from '@/lib/services/highlightPaletteService';
+import { TrashService } from '@/lib/services/trashService';
+import { ReviewService } from '@/lib/services/reviewService';
 import { IndexedDBService } from '@/lib/storage/indexedDB';
 import { CoverManager } from '@/components/books/CoverManager';
 import { CoverManager as CoverManagerService } from '@/lib/services/coverManager';
 import { CollectionsManager } from '@/components/library/CollectionsManager';
 import { BookEditModal } from '@/components/library/BookEditModal';
 import { AdvancedSearch } from '@/components/library/AdvancedSearch';
-import { Book, Collection, Tag, SearchFilters, SearchOptions, BookEditData } from '@/types';
+import { ImportHighlightsModal } from '@/components/library/ImportHighlightsModal';
+import { AnkiExportModal } from '@/components/library/AnkiExportModal';
+import { HighlightPaletteModal } from '@/components/library/HighlightPaletteModal';
+import { DuplicateHighlightsModal } from '@/components/library/DuplicateHighlightsModal';
+import { TrashModal } from '@/components/library/TrashModal';
+import { DailyDigest } from '@/components/common/DailyDigest';
+import { ExportMenu } from '@/components/common/ExportMenu';
+import { HighlightExporter, ObsidianVaultExporter } from '@/lib/export';
+import { ImportResult } from '@/lib/import';
+import { matchesTagFilter, renameTagPath, REVIEW_SCHEDULER_NAMES } from '@/lib/readers/shared';
+import { Book, Collection, Tag, SearchFilters, SearchOptions, BookEditData, ExportFormat, ReviewScheduler } from '@/types';
 
 export default function LibraryPage() {
   const { isAuthenticated, isLoading, user, driveInfo, signOut, accessToken } = useAuth();
@@ -25,6 +38,9 @@ export default function LibraryPage() {
   const [uploadService, setUploadService] = useState<BookUploadService | null>(null);
   const [driveService, setDriveService] = useState<GoogleDriveService | null>(null);
   const [searchService, setSearchService] = useState<SearchService | null>(null);
+  const [indexedDBService, setIndexedDBService] = useState<IndexedDBService | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('markdown');
+  const [reviewScheduler, setReviewScheduler] = useState<ReviewScheduler>('sm2');
   const [coverManagerService, setCoverManagerService] = useState<CoverManagerService | null>(null);
   const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
   const [isUploading, setIsUploading] = useState(false);
@@ -35,11 +51,18 @@ export default function LibraryPage() {
   // New state for Phase 1 features
   const [collections, setCollections] = useState<Collection[]>([]);
   const [tags, setTags] = useState<Tag[]>([]);
+  const [highlightTagCounts, setHighlightTagCounts] = useState<Record<string, number>>({});
   const [collectionsManagerOpen, setCollectionsManagerOpen] = useState(false);
   const [bookEditModalOpen, setBookEditModalOpen] = useState(false);
   const [selectedBookForEdit, setSelectedBookForEdit] = useState<Book | null>(null);
   const [advancedSearchOpen, setAdvancedSearchOpen] = useState(false);
+  const [importModalOpen, setImportModalOpen] = useState(false);
+  const [ankiExportOpen, setAnkiExportOpen] = useState(false);
+  const [paletteModalOpen, setPaletteModalOpen] = useState(false);
+  const [duplicatesModalOpen, setDuplicatesModalOpen] = useState(false);
+  const [trashModalOpen, setTrashModalOpen] = useState(false);
   const [selectedCollection, setSelectedCollection] = useState<string | null>(null);
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
   const [sortBy, setSortBy] = useState<'title' | 'author' | 'uploadDate' | 'lastRead' | 'progress' | 'rating' | 'fileSize'>('title');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
   const [isRefreshingCovers, setIsRefreshingCovers] = useState(false);
@@ -84,9 +107,19 @@ export default function LibraryPage() {
         }
         
         await indexedDB.initialize();
+        await new HighlightPaletteService(indexedDB).migrate();
+        const reviewSvc = new ReviewService(indexedDB);
+        await reviewSvc.migrate();
+        setReviewScheduler(await reviewSvc.getScheduler());
+        setIndexedDBService(indexedDB);
         const searchSvc = new SearchService(indexedDB);
         setSearchService(searchSvc);
 
+        const preferences = await indexedDB.getPreferences();
+        if (preferences?.exportFormat) {
+          setExportFormat(preferences.exportFormat);
+        }
+
         // Initialize cover manager service
         const coverMgr = new CoverManagerService();
         await coverMgr.initialize();
@@ -98,6 +131,15 @@ export default function LibraryPage() {
         
         setCoverManagerService(coverMgr);
 
+        // Pick up deletions from other devices and purge what has been in the trash too long
+        try {
+          const trashSvc = new TrashService(indexedDB, driveSvc);
+          await trashSvc.syncFromDrive();
+          await trashSvc.purgeExpired();
+        } catch (error) {
+          console.error('Library: Failed to purge expired trash:', error);
+        }
+
         // Load books (local + remote metadata)
         console.log('Library: About to load books with driveSvc:', !!driveSvc);
         const allBooks = await uploadSvc.getAllBooksWithDrive(driveSvc);
@@ -110,6 +152,7 @@ export default function LibraryPage() {
         const loadedTags = await uploadSvc.getAllTags();
         setCollections(loadedCollections);
         setTags(loadedTags);
+        setHighlightTagCounts(await uploadSvc.getHighlightTagCounts());
       } catch (error) {
         console.error('Failed to initialize services:', error);
       }
@@ -183,6 +226,11 @@ export default function LibraryPage() {
   };
 
   const handleBookClick = (book: Book) => {
+    if (book.isPlaceholder) {
+      alert('This book was created from imported highlights and has no file attached. Upload the book to read it.');
+      return;
+    }
+
     // Navigate to reader page with book
     router.push(`/reader/${book.id}`);
   };
@@ -217,6 +265,11 @@ export default function LibraryPage() {
       );
     }
 
+    // Apply tag filter; a parent tag includes its children
+    if (selectedTag) {
+      filtered = filtered.filter(book => matchesTagFilter(book.tags, [selectedTag]));
+    }
+
     // Apply sorting
     filtered.sort((a, b) => {
       let aValue: any, bValue: any;
@@ -260,25 +313,36 @@ export default function LibraryPage() {
     });
 
     return filtered;
-  }, [books, searchQuery, selectedCollection, sortBy, sortOrder]);
+  }, [books, searchQuery, selectedCollection, selectedTag, sortBy, sortOrder]);
+
+  const handleReviewSchedulerChange = async (scheduler: ReviewScheduler) => {
+    if (!indexedDBService) return;
+
+    try {
+      await new ReviewService(indexedDBService).setScheduler(scheduler);
+      setReviewScheduler(scheduler);
+    } catch (error) {
+      console.error('Failed to change review scheduler:', error);
+    }
+  };
 
   const handleDeleteBook = async (book: Book, event: React.MouseEvent) => {
     event.stopPropagation(); // Prevent triggering the book click
     
-    if (!uploadService) {
-      console.error('Upload service not available');
+    if (!indexedDBService) {
+      console.error('IndexedDB service not available');
       return;
     }
 
     const confirmed = window.confirm(
-      `Are you sure you want to delete "${book.title}"? This action cannot be undone.`
+      `Move "${book.title}" and its highlights to the trash? You can restore them from the trash until they are deleted for good.`
     );
 
     if (confirmed) {
       try {
-        console.log('Deleting book:', book.id);
-        await uploadService.deleteBook(book.id);
-        console.log('Book deleted successfully');
+        console.log('Moving book to trash:', book.id);
+        await new TrashService(indexedDBService, driveService).trashBook(book);
+        console.log('Book moved to trash successfully');
         
         // Refresh the books list
         await loadBooks();
@@ -458,6 +522,70 @@ export default function LibraryPage() {
     setSelectedCollection(collectionId);
   };
 
+  // Tag Management
+  const refreshTags = async () => {
+    if (!uploadService) return;
+    await loadBooks();
+    setTags(await uploadService.getAllTags());
+    setHighlightTagCounts(await uploadService.getHighlightTagCounts());
+  };
+
+  const handleRenameTag = async (from: string, to: string) => {
+    if (!uploadService) return from;
+    const newPath = await uploadService.renameTag(from, to);
+    setSelectedTag(current => current && renameTagPath(current, from, newPath));
+    await refreshTags();
+    return newPath;
+  };
+
+  const handleMoveTag = async (path: string, parentPath: string) => {
+    if (!uploadService) return path;
+    const newPath = await uploadService.moveTag(path, parentPath);
+    setSelectedTag(current => current && renameTagPath(current, path, newPath));
+    await refreshTags();
+    return newPath;
+  };
+
+  const handleTagFilter = (path: string | null) => {
+    setSelectedTag(path);
+    setCollectionsManagerOpen(false);
+  };
+
+  // Highlight export
+  const handleExportLibrary = async (format: ExportFormat) => {
+    if (!indexedDBService) return;
+
+    const allHighlights = await indexedDBService.getAllHighlights();
+    if (allHighlights.length === 0) {
+      alert('There are no highlights to export yet.');
+      return;
+    }
+
+    const exporter = new HighlightExporter();
+    const result = exporter.exportLibrary(books, allHighlights, format);
+    HighlightExporter.download(result);
+  };
+
+  const handleExportVault = async () => {
+    if (!indexedDBService) return;
+
+    const allHighlights = await indexedDBService.getAllHighlights();
+    if (allHighlights.length === 0) {
+      alert('There are no highlights to export yet.');
+      return;
+    }
+
+    const result = await new ObsidianVaultExporter().exportVault(books, allHighlights);
+    HighlightExporter.download(result);
+  };
+
+  // Highlight import
+  const handleHighlightsImported = async (result: ImportResult) => {
+    if (result.booksCreated > 0 || result.progressUpdated > 0) {
+      await loadBooks();
+    }
+  };
+
   // Sorting
   const handleSort = (newSortBy: typeof sortBy, newSortOrder?: typeof sortOrder) => {
     setSortBy(newSortBy);
@@ -555,6 +683,9 @@ export default function LibraryPage() {
           </div>
         </div>
 
+        {/* Daily Digest */}
+        {indexedDBService && <DailyDigest indexedDB={indexedDBService} className="mb-8" />}
+
         {/* Modern Search Section */}
         <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-6 mb-8">
           <div className="flex flex-col lg:flex-row lg:items-center gap-4">
@@ -621,6 +752,66 @@ export default function LibraryPage() {
               >
                 🔍 Advanced Search
               </button>
+              <button
+                onClick={() => setImportModalOpen(true)}
+                className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors text-sm font-medium"
+              >
+                📥 Import Highlights
+              </button>
+              <ExportMenu
+                onExport={handleExportLibrary}
+                defaultFormat={exportFormat}
+                disabled={!indexedDBService}
+              />
+              <button
+                onClick={() => setAnkiExportOpen(true)}
+                disabled={!indexedDBService}
+                className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors text-sm font-medium disabled:opacity-50"
+              >
+                🃏 Export to Anki
+              </button>
+              <button
+                onClick={handleExportVault}
+                disabled={!indexedDBService}
+                className="px-4 py-2 bg-violet-600 text-white rounded-lg hover:bg-violet-700 transition-colors text-sm font-medium disabled:opacity-50"
+              >
+                🗂️ Obsidian Vault (.zip)
+              </button>
+              <button
+                onClick={() => setPaletteModalOpen(true)}
+                disabled={!indexedDBService}
+                className="px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700 transition-colors text-sm font-medium disabled:opacity-50"
+              >
+                🎨 Highlight Colors
+              </button>
+              <select
+                value={reviewScheduler}
+                onChange={(e) => handleReviewSchedulerChange(e.target.value as ReviewScheduler)}
+                disabled={!indexedDBService}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+                aria-label="Review scheduling"
+                title="Spaced-repetition algorithm for highlight review"
+              >
+                {(Object.keys(REVIEW_SCHEDULER_NAMES) as ReviewScheduler[]).map(scheduler => (
+                  <option key={scheduler} value={scheduler}>
+                    Review with {REVIEW_SCHEDULER_NAMES[scheduler]}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => setDuplicatesModalOpen(true)}
+                disabled={!indexedDBService}
+                className="px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors text-sm font-medium disabled:opacity-50"
+              >
+                🧹 Find Duplicates
+              </button>
+              <button
+                onClick={() => setTrashModalOpen(true)}
+                disabled={!indexedDBService}
+                className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors text-sm font-medium disabled:opacity-50"
+              >
+                🗑️ Trash
+              </button>
             </div>
           </div>
 
@@ -656,6 +847,22 @@ export default function LibraryPage() {
             </div>
           </div>
 
+          {/* Tag Filter */}
+          {selectedTag && (
+            <div className="mb-4 flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-700">Tagged</span>
+              <span className="px-3 py-1 rounded-full text-sm font-medium bg-blue-100 text-blue-800 border border-blue-300">
+                #{selectedTag}
+              </span>
+              <button
+                onClick={() => setSelectedTag(null)}
+                className="text-sm text-gray-500 hover:text-gray-700"
+              >
+                Clear
+              </button>
+            </div>
+          )}
+
           {/* Sorting Controls */}
           <div className="flex flex-col sm:flex-row gap-4">
             <div className="flex-1">
@@ -875,6 +1082,11 @@ export default function LibraryPage() {
                           <span className="px-2 py-1 bg-gray-100 text-gray-600 rounded-full font-medium">
                             {book.fileType.toUpperCase()}
                           </span>
+                          {book.isPlaceholder && (
+                            <span className="px-2 py-1 rounded-full font-medium text-xs bg-amber-100 text-amber-700">
+                              Highlights only
+                            </span>
+                          )}
                           {book.isFromDrive && (
                             <span className={`px-2 py-1 rounded-full font-medium text-xs ${
                               book.isDownloaded 
@@ -1046,6 +1258,11 @@ export default function LibraryPage() {
         onDeleteCollection={handleDeleteCollection}
         onAddBookToCollection={handleAddBookToCollection}
         onRemoveBookFromCollection={handleRemoveBookFromCollection}
+        tags={tags}
+        highlightTagCounts={highlightTagCounts}
+        onRenameTag={handleRenameTag}
+        onMoveTag={handleMoveTag}
+        onFilterByTag={handleTagFilter}
       />
 
       {/* Book Edit Modal */}
@@ -1069,6 +1286,50 @@ export default function LibraryPage() {
         onSearch={handleAdvancedSearch}
         onResults={handleSearchResults}
       />
+
+      {/* Import Highlights Modal */}
+      <ImportHighlightsModal
+        isOpen={importModalOpen}
+        onClose={() => setImportModalOpen(false)}
+        books={books}
+        indexedDBService={indexedDBService}
+        onImported={handleHighlightsImported}
+      />
+
+      {/* Anki Export Modal */}
+      <AnkiExportModal
+        isOpen={ankiExportOpen}
+        onClose={() => setAnkiExportOpen(false)}
+        books={books}
+        indexedDBService={indexedDBService}
+      />
+
+      {/* Highlight Palette Modal */}
+      <HighlightPaletteModal
+        isOpen={paletteModalOpen}
+        onClose={() => setPaletteModalOpen(false)}
+        indexedDBService={indexedDBService}
+        driveService={driveService}
+      />
+
+      {/* Duplicate Highlights Modal */}
+      <DuplicateHighlightsModal
+        isOpen={duplicatesModalOpen}
+        onClose={() => setDuplicatesModalOpen(false)}
+        books={books}
+        indexedDBService={indexedDBService}
+        driveService={driveService}
+      />
+
+      {/* Trash Modal */}
+      <TrashModal
+        isOpen={trashModalOpen}
+        onClose={() => setTrashModalOpen(false)}
+        books={books}
+        indexedDBService={indexedDBService}
+        driveService={driveService}
+        onBooksChanged={loadBooks}
+      />
     </div>
   );
 }
@@ -1,25 +1,67 @@
 'use client';
 
-import { useEffect } from 'react';
+// Home Page
+// Today's digest of resurfaced highlights, with the way into the library and review; users who
+// prefer the library as their start page are sent straight there
+
+import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/lib/auth/GoogleAuthContext';
+import { Navigation } from '@/components/common/Navigation';
+import { DailyDigest } from '@/components/common/DailyDigest';
+import { IndexedDBService } from '@/lib/storage/indexedDB';
+import { PreferencesService } from '@/lib/services/preferencesService';
 
 export default function Home() {
-  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { isAuthenticated, isLoading: authLoading, user } = useAuth();
   const router = useRouter();
+  const [indexedDBService, setIndexedDBService] = useState<IndexedDBService | null>(null);
+  const [startInLibrary, setStartInLibrary] = useState<boolean | null>(null);
 
-  // Redirect to library if authenticated, login if not
+  // Redirect to login if not authenticated
   useEffect(() => {
-    if (!authLoading) {
-      if (isAuthenticated) {
-        router.push('/library');
-      } else {
-        router.push('/login');
-      }
+    if (!authLoading && !isAuthenticated) {
+      router.push('/login');
     }
   }, [isAuthenticated, authLoading, router]);
 
-  if (authLoading) {
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const initializeStorage = async () => {
+      try {
+        const db = new IndexedDBService();
+        db.setCurrentUser(user?.id || null);
+        await db.initialize();
+
+        const { startPage } = await new PreferencesService(db).getPreferences();
+        if (startPage === 'library') {
+          router.push('/library');
+          return;
+        }
+        setIndexedDBService(db);
+        setStartInLibrary(false);
+      } catch (error) {
+        console.error('Failed to initialize storage:', error);
+        setStartInLibrary(false);
+      }
+    };
+
+    initializeStorage();
+  }, [isAuthenticated, user?.id, router]);
+
+  const handleStartPageChange = async (library: boolean) => {
+    if (!indexedDBService) return;
+
+    try {
+      await new PreferencesService(indexedDBService).updatePreferences({ startPage: library ? 'library' : 'home' });
+      setStartInLibrary(library);
+    } catch (error) {
+      console.error('Failed to change the start page:', error);
+    }
+  };
+
+  if (authLoading || !isAuthenticated || startInLibrary === null) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-500"></div>
@@ -28,11 +70,44 @@ export default function Home() {
   }
 
   return (
-    <div className="min-h-screen flex items-center justify-center">
-      <div className="text-center">
-        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-500 mx-auto"></div>
-        <p className="mt-4 text-gray-600">Redirecting...</p>
-      </div>
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">
+              Welcome back{user?.name ? `, ${user.name.split(' ')[0]}` : ''}
+            </h1>
+            <p className="text-gray-600 mt-2">Here is what to revisit today</p>
+            <label className="inline-flex items-center gap-2 mt-2 text-sm text-gray-500">
+              <input
+                type="checkbox"
+                checked={startInLibrary}
+                onChange={(e) => handleStartPageChange(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              Open the library instead of this page
+            </label>
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={() => router.push('/review')}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Start review
+            </button>
+            <button
+              onClick={() => router.push('/library')}
+              className="px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+            >
+              Open library →
+            </button>
+          </div>
+        </div>
+
+        {indexedDBService && <DailyDigest indexedDB={indexedDBService} />}
+      </main>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -4,17 +4,29 @@
 // Displays the book reader with highlighting functionality
 
 import { useState, useEffect } from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { useAuth } from '@/lib/auth/GoogleAuthContext';
 import { EPUBReader } from '@/lib/readers/web/EPUBReader';
-import { Highlight } from '@/lib/readers/shared';
+import {
+  Highlight,
+  HighlightColorDefinition,
+  HighlightManager as SharedHighlightManager,
+  Position,
+  DEFAULT_HIGHLIGHT_COLORS
+} from '@/lib/readers/shared';
 import { BookUploadService } from '@/lib/services/bookUpload';
 import { IndexedDBService } from '@/lib/storage/indexedDB';
 import { GoogleDriveService } from '@/lib/services/googleDriveService';
 import { HighlightSyncService } from '@/lib/services/highlightSyncService';
+import { HighlightPaletteService } from '@/lib/services/highlightPaletteService';
+import { HighlightLinkService, ResolvedHighlightLink } from '@/lib/services/highlightLinkService';
 import { Navigation } from '@/components/common/Navigation';
 import { HighlightManager } from '@/components/reader/HighlightManager';
+import { HighlightLinkModal } from '@/components/reader/HighlightLinkModal';
 import { SyncStatus } from '@/components/sync/SyncStatus';
+import { ExportMenu } from '@/components/common/ExportMenu';
+import { HighlightExporter } from '@/lib/export';
+import { ExportFormat } from '@/types';
 import dynamic from 'next/dynamic';
 
 // Dynamically import PDFReader to avoid loading PDF.js when not needed
@@ -26,16 +38,25 @@ const PDFReader = dynamic(() => import('@/lib/readers/web/PDFReader').then(mod =
 export default function ReaderPage() {
   const { bookId } = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const { isAuthenticated, isLoading: authLoading, accessToken, user } = useAuth();
   const [bookData, setBookData] = useState<Uint8Array | null>(null);
   const [book, setBook] = useState<any>(null);
   const [highlights, setHighlights] = useState<Highlight[]>([]);
   const [uploadService, setUploadService] = useState<BookUploadService | null>(null);
-  const [indexedDB, setIndexedDB] = useState<IndexedDBService | null>(null);
   const [driveService, setDriveService] = useState<GoogleDriveService | null>(null);
   const [syncService, setSyncService] = useState<HighlightSyncService | null>(null);
+  const [highlightManager, setHighlightManager] = useState<SharedHighlightManager | null>(null);
+  const [indexedDBService, setIndexedDBService] = useState<IndexedDBService | null>(null);
+  const [linkService, setLinkService] = useState<HighlightLinkService | null>(null);
+  const [links, setLinks] = useState<ResolvedHighlightLink[]>([]);
+  const [linkSource, setLinkSource] = useState<Highlight | null>(null);
+  const [navigationTarget, setNavigationTarget] = useState<Position | null>(null);
+  const [palette, setPalette] = useState<HighlightColorDefinition[]>(DEFAULT_HIGHLIGHT_COLORS);
+  const [defaultHighlightColor, setDefaultHighlightColor] = useState<string | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(true);
   const [showHighlights, setShowHighlights] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('markdown');
   const [syncStatus, setSyncStatus] = useState({
     isSyncing: false,
     lastSyncTime: null as Date | null,
@@ -82,7 +103,27 @@ export default function ReaderPage() {
         }
         
         await db.initialize();
-        setIndexedDB(db);
+        setIndexedDBService(db);
+
+        // Storage-backed highlight manager shared by the reader, highlights panel and sync
+        const manager = new SharedHighlightManager(db);
+        setHighlightManager(manager);
+
+        const highlightLinks = new HighlightLinkService(db);
+        setLinkService(highlightLinks);
+
+        // User-defined highlight colors (moves highlights onto the palette the first time)
+        const paletteService = new HighlightPaletteService(db, manager);
+        await paletteService.migrate();
+        const highlightPalette = await paletteService.getPalette();
+        manager.setPalette(highlightPalette.colors);
+        setPalette(highlightPalette.colors);
+        setDefaultHighlightColor(await paletteService.getDefaultColorId());
+
+        const preferences = await db.getPreferences();
+        if (preferences?.exportFormat) {
+          setExportFormat(preferences.exportFormat);
+        }
         
         // Initialize Google Drive service if authenticated
         if (accessToken) {
@@ -92,9 +133,19 @@ export default function ReaderPage() {
           
           // Initialize sync service
           console.log('Initializing sync service...');
-          const sync = new HighlightSyncService(db, drive);
+          const sync = new HighlightSyncService(db, drive, manager);
           await sync.initialize();
           setSyncService(sync);
+
+          try {
+            const syncedPalette = await sync.syncPalette(highlightPalette);
+            if (await paletteService.applySyncedPalette(syncedPalette)) {
+              setPalette(syncedPalette.colors);
+              setDefaultHighlightColor(await paletteService.getDefaultColorId());
+            }
+          } catch (error) {
+            console.error('Failed to sync highlight palette:', error);
+          }
         }
         
         // Load book data
@@ -109,9 +160,10 @@ export default function ReaderPage() {
           
           // Load existing highlights from IndexedDB
           console.log('Loading highlights for book:', bookId);
-          const existingHighlights = await db.getHighlightsForBook(bookId as string);
+          const existingHighlights = await manager.loadFromStorage(bookId as string);
           console.log('Retrieved highlights:', existingHighlights);
           setHighlights(existingHighlights);
+          setLinks(await highlightLinks.getLinksForBook(bookId as string));
         } else if (bookId.toString().startsWith('drive-') && driveService) {
           // Book is from Google Drive but not downloaded yet
           console.log('Book is from Google Drive, downloading...');
@@ -132,8 +184,9 @@ export default function ReaderPage() {
               console.log('Book downloaded and loaded successfully');
               
               // Load existing highlights from IndexedDB
-              const existingHighlights = await db.getHighlightsForBook(bookId as string);
+              const existingHighlights = await manager.loadFromStorage(bookId as string);
               setHighlights(existingHighlights);
+              setLinks(await highlightLinks.getLinksForBook(bookId as string));
             } else {
               throw new Error('Failed to download book from Drive');
             }
@@ -181,18 +234,48 @@ export default function ReaderPage() {
     handleUserChange();
   }, [user?.id, uploadService]);
 
+  // Open at a highlight when arriving from a link in another book
+  useEffect(() => {
+    const highlightId = searchParams.get('highlight');
+    if (!highlightId || !highlightManager || isLoading) return;
+
+    const target = highlightManager.getHighlight(highlightId);
+    if (target) {
+      setNavigationTarget({ ...target.position });
+    }
+  }, [searchParams, highlightManager, isLoading]);
+
+  // Keep highlights in step with the manager and auto-sync local changes
+  useEffect(() => {
+    if (!highlightManager || !bookId) return;
+
+    return highlightManager.subscribe((event) => {
+      if (event.bookId && event.bookId !== bookId) return;
+
+      setHighlights(highlightManager.getHighlightsForBook(bookId as string));
+
+      // Changes may touch linked highlights. A deleted highlight keeps its links while it is in the
+      // trash, hidden with it, so restoring or undoing brings them back; purging removes them
+      if (linkService) {
+        linkService.getLinksForBook(bookId as string)
+          .then(setLinks)
+          .catch(error => console.error('Failed to refresh highlight links:', error));
+      }
+
+      // Auto-sync if sync service is available (sync results are not re-synced)
+      if (syncService && event.type !== 'synced' && event.type !== 'loaded') {
+        syncService.autoSync(bookId as string)
+          .then(() => setSyncStatus(syncService.getSyncStatus()))
+          .catch(error => console.error('Auto-sync failed:', error));
+      }
+    });
+  }, [highlightManager, syncService, linkService, bookId]);
+
   const handleHighlightCreate = async (highlight: Highlight) => {
     try {
-      if (indexedDB) {
-        await indexedDB.storeHighlight(highlight);
-        setHighlights(prev => [...prev, highlight]);
+      if (highlightManager) {
+        await highlightManager.saveHighlight(highlight);
         console.log('New highlight created and stored:', highlight);
-        
-        // Auto-sync if sync service is available
-        if (syncService && bookId) {
-          await syncService.autoSync(bookId as string);
-          setSyncStatus(syncService.getSyncStatus());
-        }
       }
     } catch (error) {
       console.error('Failed to create highlight:', error);
@@ -201,16 +284,9 @@ export default function ReaderPage() {
 
   const handleHighlightUpdate = async (highlight: Highlight) => {
     try {
-      if (indexedDB) {
-        await indexedDB.updateHighlight(highlight.id, highlight);
-        setHighlights(prev => prev.map(h => h.id === highlight.id ? highlight : h));
+      if (highlightManager) {
+        await highlightManager.updateHighlight(highlight.id, highlight);
         console.log('Highlight updated and stored:', highlight);
-        
-        // Auto-sync if sync service is available
-        if (syncService && bookId) {
-          await syncService.autoSync(bookId as string);
-          setSyncStatus(syncService.getSyncStatus());
-        }
       }
     } catch (error) {
       console.error('Failed to update highlight:', error);
@@ -219,22 +295,79 @@ export default function ReaderPage() {
 
   const handleHighlightDelete = async (highlightId: string) => {
     try {
-      if (indexedDB) {
-        await indexedDB.deleteHighlight(highlightId);
-        setHighlights(prev => prev.filter(h => h.id !== highlightId));
+      if (highlightManager) {
+        await highlightManager.deleteHighlight(highlightId);
         console.log('Highlight deleted:', highlightId);
-        
-        // Auto-sync if sync service is available
-        if (syncService && bookId) {
-          await syncService.autoSync(bookId as string);
-          setSyncStatus(syncService.getSyncStatus());
-        }
       }
     } catch (error) {
       console.error('Failed to delete highlight:', error);
     }
   };
 
+  // Undo and redo highlight changes with Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS)
+  useEffect(() => {
+    if (!highlightManager) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+
+      // Leave text fields their own undo
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      event.preventDefault();
+      (event.shiftKey ? highlightManager.redo() : highlightManager.undo())
+        .catch(error => console.error('Failed to undo highlight change:', error));
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [highlightManager]);
+
+  const refreshLinks = async () => {
+    if (linkService && bookId) {
+      setLinks(await linkService.getLinksForBook(bookId as string));
+      syncService?.autoSync(bookId as string)
+        .then(() => setSyncStatus(syncService.getSyncStatus()))
+        .catch(error => console.error('Auto-sync failed:', error));
+    }
+  };
+
+  const handleLinkCreate = async (target: Highlight, relation: string) => {
+    if (!linkService || !linkSource) return;
+
+    // Errors reach the link modal, which shows them
+    await linkService.createLink(linkSource, target, relation);
+    await refreshLinks();
+  };
+
+  const handleLinkDelete = async (linkId: string) => {
+    if (!linkService) return;
+
+    try {
+      await linkService.deleteLink(linkId);
+      await refreshLinks();
+    } catch (error) {
+      console.error('Failed to remove highlight link:', error);
+    }
+  };
+
+  const handleLinkClick = (resolved: ResolvedHighlightLink) => {
+    if (resolved.other.bookId === bookId) {
+      setNavigationTarget({ ...resolved.other.position });
+    } else {
+      router.push(`/reader/${resolved.other.bookId}?highlight=${encodeURIComponent(resolved.other.id)}`);
+    }
+  };
+
+  const handleExportHighlights = (format: ExportFormat) => {
+    if (!book) return;
+
+    const exporter = new HighlightExporter();
+    const result = exporter.exportBook(book, highlights, format);
+    HighlightExporter.download(result);
+  };
+
   // Sync functions
   const handleSync = async () => {
     if (syncService && bookId) {
@@ -295,6 +428,9 @@ export default function ReaderPage() {
             bookTitle={book.title}
             bookAuthor={book.author}
             highlights={highlights}
+            palette={palette}
+            defaultHighlightColor={defaultHighlightColor}
+            navigationTarget={navigationTarget}
             onHighlightCreate={handleHighlightCreate}
             onHighlightUpdate={handleHighlightUpdate}
             onHighlightDelete={handleHighlightDelete}
@@ -306,6 +442,8 @@ export default function ReaderPage() {
             bookData={bookData}
             bookId={book.id}
             highlights={highlights}
+            palette={palette}
+            navigationTarget={navigationTarget}
             onHighlightCreate={handleHighlightCreate}
             onHighlightUpdate={handleHighlightUpdate}
             onHighlightDelete={handleHighlightDelete}
@@ -445,15 +583,43 @@ export default function ReaderPage() {
                     Your Highlights
                   </h3>
                   <p className="text-sm text-gray-600 mt-1">{highlights.length} highlights created</p>
+                  <div className="mt-4 flex items-center gap-2">
+                    <ExportMenu
+                      onExport={handleExportHighlights}
+                      defaultFormat={exportFormat}
+                      disabled={highlights.length === 0}
+                      label="Export"
+                    />
+                    <button
+                      onClick={() => highlightManager?.undo()}
+                      disabled={!highlightManager?.canUndo()}
+                      className="px-3 py-2 text-sm text-gray-700 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-40"
+                      title="Undo (Ctrl+Z)"
+                    >
+                      ↶
+                    </button>
+                    <button
+                      onClick={() => highlightManager?.redo()}
+                      disabled={!highlightManager?.canRedo()}
+                      className="px-3 py-2 text-sm text-gray-700 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-40"
+                      title="Redo (Ctrl+Shift+Z)"
+                    >
+                      ↷
+                    </button>
+                  </div>
                 </div>
                 <HighlightManager
                   highlights={highlights}
+                  highlightManager={highlightManager}
+                  bookId={bookId as string}
+                  palette={palette}
+                  links={links}
                   onHighlightUpdate={handleHighlightUpdate}
                   onHighlightDelete={handleHighlightDelete}
-                  onHighlightClick={(highlight) => {
-                    // TODO: Navigate to highlight position in reader
-                    console.log('Navigate to highlight:', highlight);
-                  }}
+                  onHighlightClick={(highlight) => setNavigationTarget({ ...highlight.position })}
+                  onLinkCreate={linkService ? setLinkSource : undefined}
+                  onLinkClick={handleLinkClick}
+                  onLinkDelete={handleLinkDelete}
                 />
               </div>
             </div>
@@ -461,6 +627,14 @@ export default function ReaderPage() {
         </div>
 
       </main>
+
+      <HighlightLinkModal
+        isOpen={!!linkSource}
+        source={linkSource}
+        indexedDBService={indexedDBService}
+        onClose={() => setLinkSource(null)}
+        onCreate={handleLinkCreate}
+      />
     </div>
   );
 }
@@ -0,0 +1,263 @@
+'use client';
+
+// Review Analytics Page
+// Retention by interval, a 30-day forecast of due reviews, time spent and the hardest highlights
+
+import { useState, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/lib/auth/GoogleAuthContext';
+import { Navigation } from '@/components/common/Navigation';
+import { IndexedDBService } from '@/lib/storage/indexedDB';
+import { ClozeCardService } from '@/lib/services/clozeCardService';
+import {
+  Highlight,
+  HighlightManager,
+  buildTagTree,
+  computeReviewAnalytics,
+  flattenTagTree,
+  getDisplayText
+} from '@/lib/readers/shared';
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export default function ReviewAnalyticsPage() {
+  const router = useRouter();
+  const { isAuthenticated, isLoading: authLoading, user } = useAuth();
+  const [highlights, setHighlights] = useState<Highlight[]>([]);
+  const [clozeService, setClozeService] = useState<ClozeCardService | null>(null);
+  const [bookTitles, setBookTitles] = useState<Record<string, string>>({});
+  const [bookId, setBookId] = useState('');
+  const [tag, setTag] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Load every highlight; the analytics are computed from their review history, and the forecast
+  // from the cards the review queue makes of them
+  useEffect(() => {
+    const loadHighlights = async () => {
+      try {
+        const db = new IndexedDBService();
+        db.setCurrentUser(user?.id || null);
+        await db.initialize();
+
+        const books = await db.getAllBooks();
+        setBookTitles(Object.fromEntries(books.map(book => [book.id, book.title])));
+
+        const manager = new HighlightManager(db);
+        await manager.loadFromStorage();
+        setClozeService(new ClozeCardService(manager));
+        setHighlights(manager.getAllHighlights());
+      } catch (error) {
+        console.error('Failed to load review analytics:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadHighlights();
+  }, [user?.id]);
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/login');
+    }
+  }, [isAuthenticated, authLoading, router]);
+
+  const analytics = useMemo(
+    () => computeReviewAnalytics(
+      highlights,
+      { bookId: bookId || undefined, tags: tag ? [tag] : undefined },
+      clozeService ? highlight => clozeService.getCards(highlight) : undefined
+    ),
+    [highlights, clozeService, bookId, tag]
+  );
+  const tagPaths = useMemo(
+    () => flattenTagTree(buildTagTree(highlights.flatMap(highlight => highlight.tags))).map(node => node.path),
+    [highlights]
+  );
+  const bookIds = useMemo(
+    () => Array.from(new Set(highlights.map(highlight => highlight.bookId))),
+    [highlights]
+  );
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  const maxForecast = Math.max(1, ...analytics.forecast.map(day => day.due));
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Review Analytics</h1>
+            <p className="text-gray-600 mt-2">
+              {analytics.totalReviews} reviews of {analytics.highlights} highlights
+            </p>
+          </div>
+          <button
+            onClick={() => router.push('/review')}
+            className="px-4 py-2 text-blue-600 hover:text-blue-800 transition-colors"
+          >
+            ← Back to Review
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap gap-3 mb-6">
+          <select
+            value={bookId}
+            onChange={(e) => setBookId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm bg-white"
+          >
+            <option value="">All books</option>
+            {bookIds.map(id => (
+              <option key={id} value={id}>{bookTitles[id] || 'Unknown book'}</option>
+            ))}
+          </select>
+          <select
+            value={tag}
+            onChange={(e) => setTag(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm bg-white"
+          >
+            <option value="">All tags</option>
+            {tagPaths.map(path => (
+              <option key={path} value={path}>{path}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Retention by interval */}
+          <section className="bg-white p-6 rounded-lg border border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900 mb-1">Retention</h2>
+            <p className="text-sm text-gray-500 mb-4">Share of reviews recalled, by days since the last review</p>
+            <div className="space-y-3">
+              {analytics.retention.map(bucket => (
+                <div key={bucket.label} className="flex items-center gap-3 text-sm">
+                  <span className="w-20 text-gray-600">{bucket.label}</span>
+                  <div className="flex-1 h-4 bg-gray-100 rounded">
+                    {bucket.retention !== null && (
+                      <div
+                        className="h-4 bg-green-500 rounded"
+                        style={{ width: `${Math.round(bucket.retention * 100)}%` }}
+                      />
+                    )}
+                  </div>
+                  <span className="w-24 text-right text-gray-700">
+                    {bucket.retention !== null
+                      ? `${Math.round(bucket.retention * 100)}% of ${bucket.reviews}`
+                      : '-'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          {/* Time spent */}
+          <section className="bg-white p-6 rounded-lg border border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Time Spent</h2>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <div className="text-2xl font-bold text-gray-900">
+                  {formatDuration(analytics.timeSpent.last30DaysSeconds)}
+                </div>
+                <div className="text-sm text-gray-600">Last 30 days</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-gray-900">
+                  {formatDuration(analytics.timeSpent.totalSeconds)}
+                </div>
+                <div className="text-sm text-gray-600">All time</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-gray-900">
+                  {formatDuration(analytics.timeSpent.averageSeconds)}
+                </div>
+                <div className="text-sm text-gray-600">Per card</div>
+              </div>
+            </div>
+            {analytics.timeSpent.timedReviews < analytics.totalReviews && (
+              <p className="mt-4 text-xs text-gray-500">
+                {analytics.totalReviews - analytics.timeSpent.timedReviews} earlier reviews were not timed.
+              </p>
+            )}
+          </section>
+
+          {/* Forecast */}
+          <section className="bg-white p-6 rounded-lg border border-gray-200 lg:col-span-2">
+            <h2 className="text-lg font-semibold text-gray-900 mb-1">Forecast</h2>
+            <p className="text-sm text-gray-500 mb-4">Reviews due over the next 30 days; today includes overdue cards</p>
+            <div className="flex items-end gap-1 h-40">
+              {analytics.forecast.map((day, index) => (
+                <div
+                  key={index}
+                  className="flex-1 flex flex-col justify-end h-full"
+                  title={`${day.date.toLocaleDateString()}: ${day.due} due`}
+                >
+                  <div
+                    className={`rounded-t ${index === 0 ? 'bg-orange-400' : 'bg-blue-400'}`}
+                    style={{ height: `${(day.due / maxForecast) * 100}%` }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between mt-2 text-xs text-gray-500">
+              <span>Today ({analytics.forecast[0].due})</span>
+              <span>{analytics.forecast[analytics.forecast.length - 1].date.toLocaleDateString()}</span>
+            </div>
+          </section>
+
+          {/* Hardest highlights */}
+          <section className="bg-white p-6 rounded-lg border border-gray-200 lg:col-span-2">
+            <h2 className="text-lg font-semibold text-gray-900 mb-1">Hardest Highlights</h2>
+            <p className="text-sm text-gray-500 mb-4">Most often forgotten after being recalled</p>
+            {analytics.hardest.length === 0 ? (
+              <p className="text-sm text-gray-500 italic">No lapses yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {analytics.hardest.map(entry => (
+                  <li key={entry.card?.id || entry.highlight.id} className="py-3 flex items-start gap-4">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-900 line-clamp-2">{getDisplayText(entry.highlight)}</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {bookTitles[entry.highlight.bookId] || 'Unknown book'}
+                        {entry.card && <> &middot; cloze card &ldquo;{entry.card.term}&rdquo;</>}
+                      </p>
+                    </div>
+                    <div className="text-right text-sm flex-shrink-0">
+                      <div className="font-medium text-red-600">{entry.lapses} lapses</div>
+                      <div className="text-xs text-gray-500">{entry.reviews} reviews</div>
+                    </div>
+                    <button
+                      onClick={() => router.push(`/reader/${entry.highlight.bookId}?highlight=${entry.highlight.id}`)}
+                      className="text-sm text-blue-600 hover:text-blue-800 flex-shrink-0"
+                    >
+                      Show in book →
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,435 @@
+'use client';
+
+// Review Page
+// Daily review session across the library, one card at a time, within the daily limits
+
+import { useState, useEffect, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/lib/auth/GoogleAuthContext';
+import { Navigation } from '@/components/common/Navigation';
+import { ReviewCard } from '@/components/review/ReviewCard';
+import { IndexedDBService } from '@/lib/storage/indexedDB';
+import { GoogleDriveService } from '@/lib/services/googleDriveService';
+import { HighlightSyncService } from '@/lib/services/highlightSyncService';
+import { ClozeCardService } from '@/lib/services/clozeCardService';
+import {
+  ReminderPermission,
+  ReviewReminderService,
+  ReviewReminderSettings
+} from '@/lib/services/reviewReminderService';
+import {
+  DailyReviewLimits,
+  ReviewItem,
+  ReviewService,
+  ReviewStreak,
+  getReviewHistory
+} from '@/lib/services/reviewService';
+import {
+  HighlightManager as SharedHighlightManager,
+  Highlight,
+  REVIEW_GRADES,
+  REVIEW_SCHEDULER_NAMES,
+  getNoteText
+} from '@/lib/readers/shared';
+import { ReviewDay, ReviewScheduler } from '@/types';
+
+const MAX_CARD_SECONDS = 300; // Any longer and the user has most likely stepped away
+
+export default function ReviewPage() {
+  const router = useRouter();
+  const { isAuthenticated, isLoading: authLoading, accessToken, user } = useAuth();
+  const [clozeService, setClozeService] = useState<ClozeCardService | null>(null);
+  const [reviewService, setReviewService] = useState<ReviewService | null>(null);
+  const [syncService, setSyncService] = useState<HighlightSyncService | null>(null);
+  const [bookTitles, setBookTitles] = useState<Record<string, string>>({});
+  const [queue, setQueue] = useState<ReviewItem[]>([]);
+  const [dueCount, setDueCount] = useState(0);
+  const [today, setToday] = useState<ReviewDay | null>(null);
+  const [streak, setStreak] = useState<ReviewStreak>({ current: 0, longest: 0 });
+  const [limits, setLimits] = useState<DailyReviewLimits>({ newCards: 20, reviews: 100 });
+  const [limitsDraft, setLimitsDraft] = useState({ newCards: '20', reviews: '100' });
+  const [scheduler, setScheduler] = useState<ReviewScheduler>('sm2');
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [reminderService, setReminderService] = useState<ReviewReminderService | null>(null);
+  const [reminder, setReminder] = useState<ReviewReminderSettings>({ enabled: false, reviewTime: '09:00' });
+  const [reminderPermission, setReminderPermission] = useState<ReminderPermission>('default');
+  const [isGrading, setIsGrading] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load every due highlight and today's progress
+  useEffect(() => {
+    const initializeReview = async () => {
+      try {
+        setIsLoading(true);
+
+        const db = new IndexedDBService();
+        db.setCurrentUser(user?.id || null);
+        await db.initialize();
+
+        const manager = new SharedHighlightManager(db);
+        await manager.loadFromStorage();
+        const cloze = new ClozeCardService(manager);
+        setClozeService(cloze);
+
+        const service = new ReviewService(db);
+        await service.migrate();
+        setReviewService(service);
+
+        const books = await db.getAllBooks();
+        setBookTitles(Object.fromEntries(books.map(book => [book.id, book.title])));
+
+        const [dailyLimits, todayTally, currentStreak, reviewScheduler] = await Promise.all([
+          service.getDailyLimits(),
+          service.getToday(),
+          service.getStreak(),
+          service.getScheduler()
+        ]);
+        const due = cloze.getDueItems();
+        setDueCount(due.length);
+        setQueue(service.buildSession(due, todayTally, dailyLimits));
+        setLimits(dailyLimits);
+        setLimitsDraft({ newCards: String(dailyLimits.newCards), reviews: String(dailyLimits.reviews) });
+        setToday(todayTally);
+        setStreak(currentStreak);
+        setScheduler(reviewScheduler);
+
+        const reminders = new ReviewReminderService(db);
+        setReminderService(reminders);
+        setReminder(await reminders.getSettings());
+        setReminderPermission(reminders.getPermission());
+
+        if (accessToken) {
+          const sync = new HighlightSyncService(db, new GoogleDriveService(accessToken), manager);
+          await sync.initialize();
+          setSyncService(sync);
+        }
+      } catch (error) {
+        console.error('Failed to initialize review session:', error);
+        setError('Failed to load the review session');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    initializeReview();
+  }, [accessToken, user?.id]);
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/login');
+    }
+  }, [isAuthenticated, authLoading, router]);
+
+  const current = queue[0];
+  const shownAt = useRef(Date.now());
+
+  // Time each card from when it is shown
+  useEffect(() => {
+    shownAt.current = Date.now();
+  }, [current]);
+
+  // Grade the current card and move on to the next
+  const handleGrade = async (grade: number) => {
+    if (!clozeService || !reviewService || !current) return;
+
+    setIsGrading(true);
+    try {
+      const isNew = getReviewHistory(current).length === 0;
+      const duration = Math.min(Math.round((Date.now() - shownAt.current) / 1000), MAX_CARD_SECONDS);
+      await clozeService.review(current, grade, scheduler, duration);
+      setToday(await reviewService.recordReview(isNew));
+      setStreak(await reviewService.getStreak());
+      setQueue(prev => prev.slice(1));
+      setDueCount(prev => prev - 1);
+      setShowAnswer(false);
+      syncService?.autoSync(current.highlight.bookId);
+    } catch (error) {
+      console.error('Failed to grade review:', error);
+      setError('Failed to save the review');
+    } finally {
+      setIsGrading(false);
+    }
+  };
+
+  // Save the daily limits and rebuild what is left of today's session
+  const handleSaveLimits = async () => {
+    if (!clozeService || !reviewService || !today) return;
+
+    const updated = { newCards: Number(limitsDraft.newCards), reviews: Number(limitsDraft.reviews) };
+    try {
+      await reviewService.setDailyLimits(updated);
+      setLimits(updated);
+      const due = clozeService.getDueItems();
+      setDueCount(due.length);
+      setQueue(reviewService.buildSession(due, today, updated));
+      setShowAnswer(false);
+      setShowSettings(false);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save the daily limits');
+    }
+  };
+
+  // Turn the daily reminder on or off, or move it; turning it on asks for notification permission
+  const handleChangeReminder = async (settings: ReviewReminderSettings) => {
+    if (!reminderService) return;
+
+    try {
+      if (settings.enabled) {
+        setReminderPermission(await reminderService.enable(settings.reviewTime));
+      } else {
+        await reminderService.disable();
+      }
+      setReminder(settings);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save the reminder');
+    }
+  };
+
+  // Mark or unmark a blank; the highlight's cards change, so its items are replaced by the new ones
+  const handleChangeBlanks = async (change: (service: ClozeCardService) => Promise<Highlight>) => {
+    if (!clozeService) return;
+
+    try {
+      const highlight = await change(clozeService);
+      const items = clozeService.getDueItems().filter(item => item.highlight.id === highlight.id);
+      setQueue(prev => [...items, ...prev.filter(item => item.highlight.id !== highlight.id)]);
+      setShowAnswer(false);
+      setError(null);
+      syncService?.autoSync(highlight.bookId);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to change the blanks');
+    }
+  };
+
+  const handleShowInBook = (highlight: Highlight) => {
+    router.push(`/reader/${highlight.bookId}?highlight=${highlight.id}`);
+  };
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  const highlight = current?.highlight;
+  const notes = highlight ? getNoteText(highlight) : '';
+  const location = highlight?.chapter || (highlight?.pageNumber ? `Page ${highlight.pageNumber}` : null);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Daily Review</h1>
+            <p className="text-gray-600 mt-2">
+              Scheduled with {REVIEW_SCHEDULER_NAMES[scheduler]}
+            </p>
+          </div>
+          <div className="flex items-center">
+            <button
+              onClick={() => router.push('/review/analytics')}
+              className="px-4 py-2 text-blue-600 hover:text-blue-800 transition-colors"
+            >
+              📊 Analytics
+            </button>
+            <button
+              onClick={() => setShowSettings(!showSettings)}
+              className="px-4 py-2 text-blue-600 hover:text-blue-800 transition-colors"
+            >
+              ⚙️ Settings
+            </button>
+          </div>
+        </div>
+
+        {/* Progress and streak */}
+        <div className="grid grid-cols-3 gap-4 mb-6">
+          <div className="bg-white p-4 rounded-lg border border-gray-200">
+            <div className="text-2xl font-bold text-gray-900">
+              {today?.reviews || 0}
+              <span className="text-base font-normal text-gray-500"> / {limits.reviews}</span>
+            </div>
+            <div className="text-sm text-gray-600">Reviewed today</div>
+          </div>
+          <div className="bg-white p-4 rounded-lg border border-gray-200">
+            <div className="text-2xl font-bold text-gray-900">
+              {today?.newCards || 0}
+              <span className="text-base font-normal text-gray-500"> / {limits.newCards}</span>
+            </div>
+            <div className="text-sm text-gray-600">New today</div>
+          </div>
+          <div className="bg-white p-4 rounded-lg border border-gray-200">
+            <div className="text-2xl font-bold text-gray-900">🔥 {streak.current}</div>
+            <div className="text-sm text-gray-600">
+              Day streak{streak.longest > streak.current ? ` (best ${streak.longest})` : ''}
+            </div>
+          </div>
+        </div>
+
+        {/* Daily limits and reminder */}
+        {showSettings && (
+          <div className="mb-6 p-4 bg-white rounded-lg border border-gray-200">
+            <div className="grid grid-cols-2 gap-4">
+              <label className="text-sm text-gray-700">
+                New cards per day
+                <input
+                  type="number"
+                  min={0}
+                  value={limitsDraft.newCards}
+                  onChange={(e) => setLimitsDraft({ ...limitsDraft, newCards: e.target.value })}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </label>
+              <label className="text-sm text-gray-700">
+                Reviews per day
+                <input
+                  type="number"
+                  min={1}
+                  value={limitsDraft.reviews}
+                  onChange={(e) => setLimitsDraft({ ...limitsDraft, reviews: e.target.value })}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </label>
+            </div>
+            <div className="mt-4 flex justify-end">
+              <button
+                onClick={handleSaveLimits}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+              >
+                Save
+              </button>
+            </div>
+
+            <div className="mt-4 pt-4 border-t border-gray-200">
+              <div className="flex items-center gap-4 text-sm text-gray-700">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={reminder.enabled}
+                    onChange={(e) => handleChangeReminder({ ...reminder, enabled: e.target.checked })}
+                  />
+                  Remind me to review every day at
+                </label>
+                <input
+                  type="time"
+                  value={reminder.reviewTime}
+                  onChange={(e) => e.target.value && handleChangeReminder({ ...reminder, reviewTime: e.target.value })}
+                  className="px-2 py-1 border border-gray-300 rounded-md"
+                />
+              </div>
+              {reminder.enabled && reminderPermission !== 'granted' && (
+                <p className="mt-2 text-xs text-gray-500">
+                  {reminderPermission === 'unsupported'
+                    ? 'This browser cannot show notifications, so the reminder appears in BookLever while it is open.'
+                    : 'Notifications are blocked for BookLever, so the reminder appears in BookLever while it is open. Allow notifications in your browser settings to be reminded when it is closed.'}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {/* Current card */}
+        {current && highlight && clozeService ? (
+          <div className="bg-white rounded-lg border border-gray-200 shadow-sm">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between text-sm">
+              <div className="min-w-0">
+                <div className="font-medium text-gray-900 truncate">
+                  {bookTitles[highlight.bookId] || 'Unknown book'}
+                </div>
+                {location && <div className="text-gray-500 truncate">{location}</div>}
+              </div>
+              <div className="flex items-center gap-4 flex-shrink-0">
+                <span className="text-gray-500">{queue.length} left</span>
+                <button
+                  onClick={() => handleShowInBook(highlight)}
+                  className="text-blue-600 hover:text-blue-800"
+                >
+                  Show in book →
+                </button>
+              </div>
+            </div>
+
+            <div className="px-6 py-8">
+              <ReviewCard
+                key={highlight.id}
+                item={current}
+                cards={clozeService.getCards(highlight)}
+                showAnswer={showAnswer}
+                onMarkTerm={(term) => handleChangeBlanks(service => service.markTerm(highlight.id, term))}
+                onUnmarkTerm={(cardId) => handleChangeBlanks(service => service.unmarkTerm(highlight.id, cardId))}
+              />
+
+              {showAnswer && (
+                <div className="mt-6 pt-4 border-t border-gray-100 text-gray-700 whitespace-pre-wrap">
+                  {notes || <span className="italic text-gray-400">No notes</span>}
+                </div>
+              )}
+            </div>
+
+            <div className="px-6 py-4 border-t border-gray-200 bg-gray-50 rounded-b-lg">
+              {showAnswer ? (
+                <div className="flex flex-wrap justify-center gap-2">
+                  {REVIEW_GRADES[scheduler].map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => handleGrade(option.value)}
+                      disabled={isGrading}
+                      title={option.description}
+                      className="px-4 py-2 bg-white border border-gray-300 rounded-md text-sm font-medium text-gray-800 hover:bg-gray-100 disabled:opacity-50"
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <div className="flex justify-center">
+                  <button
+                    onClick={() => setShowAnswer(true)}
+                    className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+                  >
+                    {current.card ? 'Show answer' : 'Show notes'}
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+            <div className="text-5xl mb-4">🎉</div>
+            <h2 className="text-xl font-semibold text-gray-900">All done for today</h2>
+            <p className="text-gray-600 mt-2">
+              {dueCount > 0
+                ? `${dueCount} more due, held back by the daily limits.`
+                : 'Nothing else is due. Come back tomorrow to keep the streak going.'}
+            </p>
+            <button
+              onClick={() => router.push('/library')}
+              className="mt-6 px-4 py-2 text-blue-600 hover:text-blue-800 transition-colors"
+            >
+              ← Back to Library
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -10,6 +10,8 @@ import { Navigation } from '@/components/common/Navigation';
 import { SearchInterface } from '@/components/search/SearchInterface';
 import { SearchService, SearchResult, SearchFilters, SearchOptions } from '@/lib/services/searchService';
 import { IndexedDBService } from '@/lib/storage/indexedDB';
+import { HighlightPaletteService } from '@/lib/services/highlightPaletteService';
+import { HighlightColorDefinition, DEFAULT_HIGHLIGHT_COLORS } from '@/lib/readers/shared';
 
 export default function SearchPage() {
   const router = useRouter();
@@ -23,6 +25,7 @@ export default function SearchPage() {
     totalSearchableContent: 0
   });
   const [initialQuery, setInitialQuery] = useState('');
+  const [palette, setPalette] = useState<HighlightColorDefinition[]>(DEFAULT_HIGHLIGHT_COLORS);
 
   // Initialize search service and handle URL parameters
   useEffect(() => {
@@ -33,6 +36,9 @@ export default function SearchPage() {
         
         const service = new SearchService(indexedDB);
         setSearchService(service);
+
+        const highlightPalette = await new HighlightPaletteService(indexedDB).getPalette();
+        setPalette(highlightPalette.colors);
         
         // Get search statistics
         const stats = await service.getSearchStats();
@@ -180,6 +186,7 @@ export default function SearchPage() {
             onResultClick={handleResultClick}
             isSearching={isSearching}
             initialQuery={initialQuery}
+            palette={palette}
           />
         )}
 
@@ -0,0 +1,102 @@
+'use client';
+
+// Daily Digest Component
+// Today's resurfaced highlights, including those highlighted on this day in earlier years
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { RegionImage } from '@/components/reader/RegionImage';
+import { IndexedDBService } from '@/lib/storage/indexedDB';
+import { DigestEntry, DigestService } from '@/lib/services/digestService';
+import { getDisplayText, isRegionHighlight } from '@/lib/readers/shared';
+
+interface DailyDigestProps {
+  indexedDB: IndexedDBService;
+  className?: string;
+}
+
+const DIGEST_SIZES = [3, 5, 10];
+
+export function DailyDigest({ indexedDB, className = '' }: DailyDigestProps) {
+  const router = useRouter();
+  const [entries, setEntries] = useState<DigestEntry[]>([]);
+  const [size, setSize] = useState(5);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadDigest = async () => {
+      try {
+        const service = new DigestService(indexedDB);
+        setSize(await service.getDigestSize());
+        setEntries(await service.getDigest());
+      } catch (error) {
+        console.error('Failed to load daily digest:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadDigest();
+  }, [indexedDB]);
+
+  const handleSizeChange = async (newSize: number) => {
+    try {
+      const service = new DigestService(indexedDB);
+      await service.setDigestSize(newSize);
+      setSize(newSize);
+      setEntries(await service.getDigest());
+    } catch (error) {
+      console.error('Failed to change digest size:', error);
+    }
+  };
+
+  if (isLoading || entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Daily Digest</h3>
+          <p className="text-sm text-gray-500">Highlights worth another look today</p>
+        </div>
+        <select
+          value={size}
+          onChange={(e) => handleSizeChange(Number(e.target.value))}
+          className="px-2 py-1 border border-gray-300 rounded-md text-sm bg-white"
+          title="Highlights per day"
+        >
+          {Array.from(new Set([...DIGEST_SIZES, size])).sort((a, b) => a - b).map(option => (
+            <option key={option} value={option}>{option} a day</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {entries.map(({ highlight, book, yearsAgo }) => (
+          <button
+            key={highlight.id}
+            onClick={() => router.push(`/reader/${highlight.bookId}?highlight=${highlight.id}`)}
+            className="text-left p-4 bg-white rounded-xl border border-gray-200 hover:border-blue-300 hover:shadow-md transition-all duration-200"
+          >
+            {yearsAgo ? (
+              <div className="mb-2 text-xs font-medium text-purple-600">
+                📅 On this day, {yearsAgo} year{yearsAgo === 1 ? '' : 's'} ago
+              </div>
+            ) : null}
+            {isRegionHighlight(highlight) ? (
+              <RegionImage highlight={highlight} />
+            ) : (
+              <p className="text-sm text-gray-900 line-clamp-4">&ldquo;{getDisplayText(highlight)}&rdquo;</p>
+            )}
+            <p className="mt-2 text-xs text-gray-500 truncate">
+              {book ? `${book.title}${book.author ? ` · ${book.author}` : ''}` : 'Unknown book'}
+              {highlight.chapter && ` · ${highlight.chapter}`}
+            </p>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
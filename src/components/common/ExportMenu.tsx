@@ -0,0 +1,72 @@
+'use client';
+
+// Export Menu Component
+// Format picker and download button for highlight exports
+
+import React, { useState, useEffect } from 'react';
+import { ExportFormat } from '@/types';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => Promise<void> | void;
+  defaultFormat?: ExportFormat;
+  disabled?: boolean;
+  label?: string;
+}
+
+const FORMAT_OPTIONS: Array<{ value: ExportFormat; label: string }> = [
+  { value: 'markdown', label: 'Markdown (.md)' },
+  { value: 'json', label: 'JSON (.json)' },
+  { value: 'csv', label: 'CSV (.csv)' },
+  { value: 'txt', label: 'Plain text (.txt)' }
+];
+
+export function ExportMenu({
+  onExport,
+  defaultFormat = 'markdown',
+  disabled = false,
+  label = 'Export Highlights'
+}: ExportMenuProps) {
+  const [format, setFormat] = useState<ExportFormat>(defaultFormat);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Follow the preference once it has loaded
+  useEffect(() => {
+    setFormat(defaultFormat);
+  }, [defaultFormat]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExport(format);
+    } catch (error) {
+      console.error('Failed to export highlights:', error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        disabled={disabled || isExporting}
+        className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+        aria-label="Export format"
+      >
+        {FORMAT_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={handleExport}
+        disabled={disabled || isExporting}
+        className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isExporting ? 'Exporting...' : `📤 ${label}`}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+// Review Reminder Component
+// Starts the daily review reminder and, where notifications are blocked or unsupported, shows it in the app
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { useAuth } from '@/lib/auth/GoogleAuthContext';
+import { IndexedDBService } from '@/lib/storage/indexedDB';
+import { ReviewReminderService, getReminderTime } from '@/lib/services/reviewReminderService';
+import { getReviewDayKey } from '@/lib/services/reviewService';
+
+const CHECK_INTERVAL = 60 * 1000;
+const SHOWN_KEY = 'review_reminder_shown'; // Day the reminder was last shown, as a notification or in the app
+
+export function ReviewReminder() {
+  const { isAuthenticated, user } = useAuth();
+  const pathname = usePathname();
+  const [dueCount, setDueCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    let service: ReviewReminderService | null = null;
+    let checking = false;
+
+    // Once the reminder time has passed each day: a notification, or else the in-app reminder
+    const check = async () => {
+      if (!service || checking) return;
+      checking = true;
+      try {
+        const settings = await service.getSettings();
+        const now = new Date();
+        if (!settings.enabled || now < getReminderTime(settings.reviewTime, now)) return;
+
+        // Done for today: nothing more to load
+        const today = getReviewDayKey(now);
+        if (localStorage.getItem(SHOWN_KEY) === today) return;
+        if (await service.notify()) {
+          localStorage.setItem(SHOWN_KEY, today);
+          return;
+        }
+
+        // Nothing due yet: a later check tries again
+        const due = await service.countDueHighlights(now);
+        if (due > 0) {
+          localStorage.setItem(SHOWN_KEY, today);
+          setDueCount(due);
+        }
+      } catch (error) {
+        console.error('Failed to check the review reminder:', error);
+      } finally {
+        checking = false;
+      }
+    };
+
+    const initializeReminder = async () => {
+      try {
+        const db = new IndexedDBService();
+        db.setCurrentUser(user?.id || null);
+        await db.initialize();
+
+        service = new ReviewReminderService(db);
+        await service.start();
+        await check();
+      } catch (error) {
+        console.error('Failed to start the review reminder:', error);
+      }
+    };
+
+    initializeReminder();
+    const interval = setInterval(check, CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isAuthenticated, user?.id]);
+
+  if (dueCount === null || pathname.startsWith('/review')) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 max-w-sm bg-white border border-gray-200 rounded-lg shadow-lg p-4 flex items-start gap-3">
+      <div className="text-2xl">🧠</div>
+      <div className="flex-1">
+        <div className="font-medium text-gray-900">Time to review</div>
+        <div className="text-sm text-gray-600">
+          {dueCount} highlight{dueCount === 1 ? ' is' : 's are'} due for review
+        </div>
+        <Link
+          href="/review"
+          onClick={() => setDueCount(null)}
+          className="inline-block mt-2 text-sm font-medium text-blue-600 hover:text-blue-800"
+        >
+          Start review →
+        </Link>
+      </div>
+      <button
+        onClick={() => setDueCount(null)}
+        className="text-gray-400 hover:text-gray-600"
+        title="Dismiss"
+      >
+        ×
+      </button>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@
 
 import { useState, useEffect } from 'react';
 import { SearchFilters, SearchOptions, Collection, Tag, Book } from '@/types';
+import { normalizeTagPath } from '@/lib/readers/shared';
 
 interface AdvancedSearchProps {
   isOpen: boolean;
@@ -73,10 +74,11 @@ export function AdvancedSearch({
   };
 
   const handleAddNewTag = () => {
-    if (newTag.trim() && !filters.tags?.includes(newTag.trim())) {
+    const path = normalizeTagPath(newTag);
+    if (path && !filters.tags?.includes(path)) {
       setFilters({
         ...filters,
-        tags: [...(filters.tags || []), newTag.trim()]
+        tags: [...(filters.tags || []), path]
       });
       setNewTag('');
     }
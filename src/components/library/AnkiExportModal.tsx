@@ -0,0 +1,253 @@
+'use client';
+
+// Anki Export Modal Component
+// Picks books/tags and card options, then downloads an Anki import file
+
+import { useState, useEffect, useMemo } from 'react';
+import { Book } from '@/types';
+import { Highlight, buildTagTree, flattenTagTree } from '@/lib/readers/shared';
+import { IndexedDBService } from '@/lib/storage/indexedDB';
+import {
+  AnkiExporter,
+  AnkiExportOptions,
+  DEFAULT_ANKI_OPTIONS,
+  HighlightExporter
+} from '@/lib/export';
+
+interface AnkiExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  books: Book[];
+  indexedDBService: IndexedDBService | null;
+}
+
+export function AnkiExportModal({
+  isOpen,
+  onClose,
+  books,
+  indexedDBService
+}: AnkiExportModalProps) {
+  const [highlights, setHighlights] = useState<Highlight[]>([]);
+  const [options, setOptions] = useState<AnkiExportOptions>(DEFAULT_ANKI_OPTIONS);
+  const [selectedBookIds, setSelectedBookIds] = useState<Set<string>>(new Set());
+  const [selectedTags, setSelectedTags] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!isOpen || !indexedDBService) return;
+
+    const loadHighlights = async () => {
+      try {
+        setHighlights(await indexedDBService.getAllHighlights());
+      } catch (error) {
+        console.error('Failed to load highlights for Anki export:', error);
+      }
+    };
+    loadHighlights();
+  }, [isOpen, indexedDBService]);
+
+  const booksWithHighlights = useMemo(() => {
+    const bookIds = new Set(highlights.map(highlight => highlight.bookId));
+    return books
+      .filter(book => bookIds.has(book.id))
+      .sort((a, b) => a.title.localeCompare(b.title));
+  }, [books, highlights]);
+
+  // Parent tags are offered too; picking one includes every tag below it
+  const availableTags = useMemo(() => {
+    const paths = highlights.flatMap(highlight => highlight.tags);
+    return flattenTagTree(buildTagTree(paths)).map(node => node.path);
+  }, [highlights]);
+
+  const exportOptions: AnkiExportOptions = {
+    ...options,
+    bookIds: Array.from(selectedBookIds),
+    tags: Array.from(selectedTags)
+  };
+  const noteCounts = new AnkiExporter().countNotes(
+    highlights.filter(highlight => booksWithHighlights.some(book => book.id === highlight.bookId)),
+    exportOptions
+  );
+
+  const toggle = (set: Set<string>, value: string, update: (next: Set<string>) => void) => {
+    const next = new Set(set);
+    if (next.has(value)) {
+      next.delete(value);
+    } else {
+      next.add(value);
+    }
+    update(next);
+  };
+
+  const handleExport = () => {
+    const result = new AnkiExporter().export(books, highlights, exportOptions);
+    HighlightExporter.download(result);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-2xl font-bold text-gray-900">Export to Anki</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-6">
+          {/* Deck */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Deck name</label>
+              <input
+                type="text"
+                value={options.deckName}
+                onChange={(e) => setOptions({ ...options, deckName: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div className="flex flex-col justify-end gap-2 text-sm text-gray-700">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={options.splitByBook}
+                  onChange={(e) => setOptions({ ...options, splitByBook: e.target.checked })}
+                />
+                One subdeck per book
+              </label>
+            </div>
+          </div>
+
+          {/* Card Types */}
+          <div className="space-y-2 text-sm text-gray-700">
+            <label className="block text-sm font-medium text-gray-700">Cards</label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={options.includeBasic}
+                onChange={(e) => setOptions({ ...options, includeBasic: e.target.checked })}
+              />
+              Basic cards (front/back)
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={options.includeCloze}
+                onChange={(e) => setOptions({ ...options, includeCloze: e.target.checked })}
+              />
+              Cloze cards from words marked in the note with ==word== or **word**
+            </label>
+          </div>
+
+          {/* Templates */}
+          <details className="text-sm">
+            <summary className="cursor-pointer font-medium text-gray-700">Card templates</summary>
+            <p className="text-xs text-gray-500 mt-2">
+              Fields: {'{{text}}'}, {'{{note}}'}, {'{{title}}'}, {'{{author}}'}, {'{{chapter}}'}, {'{{page}}'}.
+              Wrap optional parts in {'{{#field}}...{{/field}}'}.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-2">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Front</label>
+                <textarea
+                  value={options.frontTemplate}
+                  onChange={(e) => setOptions({ ...options, frontTemplate: e.target.value })}
+                  rows={4}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Back</label>
+                <textarea
+                  value={options.backTemplate}
+                  onChange={(e) => setOptions({ ...options, backTemplate: e.target.value })}
+                  rows={4}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs"
+                />
+              </div>
+            </div>
+          </details>
+
+          {/* Books */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Books <span className="text-gray-500 font-normal">(none selected = all)</span>
+            </label>
+            <div className="max-h-48 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+              {booksWithHighlights.length === 0 && (
+                <p className="p-3 text-sm text-gray-500">No books have highlights yet.</p>
+              )}
+              {booksWithHighlights.map((book) => (
+                <label key={book.id} className="flex items-center gap-3 p-3 text-sm cursor-pointer hover:bg-gray-50">
+                  <input
+                    type="checkbox"
+                    checked={selectedBookIds.has(book.id)}
+                    onChange={() => toggle(selectedBookIds, book.id, setSelectedBookIds)}
+                  />
+                  <span className="flex-1 truncate">{book.title}</span>
+                  <span className="text-xs text-gray-500">
+                    {highlights.filter(highlight => highlight.bookId === book.id).length}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Tags */}
+          {availableTags.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Tags <span className="text-gray-500 font-normal">(none selected = all)</span>
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {availableTags.map((tag) => (
+                  <button
+                    key={tag}
+                    onClick={() => toggle(selectedTags, tag, setSelectedTags)}
+                    className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                      selectedTags.has(tag)
+                        ? 'bg-blue-100 text-blue-800 border border-blue-300'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between gap-3 p-6 border-t border-gray-200">
+          <p className="text-sm text-gray-600">
+            {noteCounts.basic} basic, {noteCounts.cloze} cloze notes
+          </p>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={!options.deckName.trim() || noteCounts.basic + noteCounts.cloze === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Download for Anki
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@
 
 import { useState, useEffect } from 'react';
 import { Book, Collection, Tag, BookEditData } from '@/types';
+import { normalizeTagPath } from '@/lib/readers/shared';
 
 interface BookEditModalProps {
   isOpen: boolean;
@@ -94,10 +95,11 @@ export function BookEditModal({
   };
 
   const handleAddNewTag = (tagName: string) => {
-    if (tagName.trim() && !formData.tags?.includes(tagName.trim())) {
+    const path = normalizeTagPath(tagName);
+    if (path && !formData.tags?.includes(path)) {
       setFormData({
         ...formData,
-        tags: [...(formData.tags || []), tagName.trim()]
+        tags: [...(formData.tags || []), path]
       });
     }
   };
@@ -263,7 +265,7 @@ export function BookEditModal({
                   <div className="flex space-x-2">
                     <input
                       type="text"
-                      placeholder="Enter tag name"
+                      placeholder="Tag name, e.g. philosophy/stoicism"
                       className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                       onKeyPress={(e) => {
                         if (e.key === 'Enter') {
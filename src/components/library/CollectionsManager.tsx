@@ -1,10 +1,11 @@
 'use client';
 
 // Collections Manager Component
-// Manages book collections and organization
+// Manages book collections, and browses the tag tree
 
 import { useState, useEffect } from 'react';
-import { Collection, Book } from '@/types';
+import { Collection, Book, Tag } from '@/types';
+import { TagTreeBrowser } from '@/components/library/TagTreeBrowser';
 
 interface CollectionsManagerProps {
   isOpen: boolean;
@@ -16,6 +17,11 @@ interface CollectionsManagerProps {
   onDeleteCollection: (id: string) => Promise<void>;
   onAddBookToCollection: (bookId: string, collectionId: string) => Promise<void>;
   onRemoveBookFromCollection: (bookId: string, collectionId: string) => Promise<void>;
+  tags: Tag[];
+  highlightTagCounts: Record<string, number>;
+  onRenameTag: (from: string, to: string) => Promise<string>;
+  onMoveTag: (path: string, parentPath: string) => Promise<string>;
+  onFilterByTag?: (path: string) => void;
 }
 
 export function CollectionsManager({
@@ -27,8 +33,14 @@ export function CollectionsManager({
   onUpdateCollection,
   onDeleteCollection,
   onAddBookToCollection,
-  onRemoveBookFromCollection
+  onRemoveBookFromCollection,
+  tags,
+  highlightTagCounts,
+  onRenameTag,
+  onMoveTag,
+  onFilterByTag
 }: CollectionsManagerProps) {
+  const [view, setView] = useState<'collections' | 'tags'>('collections');
   const [isCreating, setIsCreating] = useState(false);
   const [editingCollection, setEditingCollection] = useState<Collection | null>(null);
   const [selectedCollection, setSelectedCollection] = useState<Collection | null>(null);
@@ -87,14 +99,33 @@ export function CollectionsManager({
       <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-hidden">
         {/* Header */}
         <div className="flex items-center justify-between p-6 border-b border-gray-200">
-          <h2 className="text-2xl font-bold text-gray-900">Manage Collections</h2>
+          <div className="flex items-center gap-4">
+            <h2 className="text-2xl font-bold text-gray-900">
+              {view === 'collections' ? 'Manage Collections' : 'Browse Tags'}
+            </h2>
+            <div className="flex rounded-lg border border-gray-200 overflow-hidden text-sm">
+              {(['collections', 'tags'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`px-3 py-1 capitalize transition-colors ${
+                    view === option ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </div>
           <div className="flex items-center gap-3">
-            <button
-              onClick={() => setIsCreating(true)}
-              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              + New Collection
-            </button>
+            {view === 'collections' && (
+              <button
+                onClick={() => setIsCreating(true)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                + New Collection
+              </button>
+            )}
             <button
               onClick={onClose}
               className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
@@ -106,137 +137,150 @@ export function CollectionsManager({
           </div>
         </div>
 
-        <div className="flex h-[calc(90vh-120px)]">
-          {/* Collections List */}
-          <div className="w-1/3 border-r border-gray-200 overflow-y-auto">
-            <div className="p-4 space-y-3">
-              {collections.map((collection) => (
-                <div
-                  key={collection.id}
-                  className={`p-4 rounded-lg border-2 cursor-pointer transition-all ${
-                    selectedCollection?.id === collection.id
-                      ? 'border-blue-500 bg-blue-50'
-                      : 'border-gray-200 hover:border-gray-300'
-                  }`}
-                  onClick={() => setSelectedCollection(collection)}
-                >
-                  <div className="flex items-center justify-between mb-2">
-                    <div className="flex items-center gap-2">
-                      <span className="text-xl">{collection.icon}</span>
-                      <h3 className="font-semibold text-gray-900">{collection.name}</h3>
+        {view === 'tags' ? (
+          <div className="h-[calc(90vh-120px)]">
+            <TagTreeBrowser
+              tags={tags}
+              books={books}
+              highlightTagCounts={highlightTagCounts}
+              onRenameTag={onRenameTag}
+              onMoveTag={onMoveTag}
+              onFilterByTag={onFilterByTag}
+            />
+          </div>
+        ) : (
+          <div className="flex h-[calc(90vh-120px)]">
+            {/* Collections List */}
+            <div className="w-1/3 border-r border-gray-200 overflow-y-auto">
+              <div className="p-4 space-y-3">
+                {collections.map((collection) => (
+                  <div
+                    key={collection.id}
+                    className={`p-4 rounded-lg border-2 cursor-pointer transition-all ${
+                      selectedCollection?.id === collection.id
+                        ? 'border-blue-500 bg-blue-50'
+                        : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                    onClick={() => setSelectedCollection(collection)}
+                  >
+                    <div className="flex items-center justify-between mb-2">
+                      <div className="flex items-center gap-2">
+                        <span className="text-xl">{collection.icon}</span>
+                        <h3 className="font-semibold text-gray-900">{collection.name}</h3>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setEditingCollection(collection);
+                          }}
+                          className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
+                          title="Edit collection"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                          </svg>
+                        </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDeleteCollection(collection);
+                          }}
+                          className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                          title="Delete collection"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                        </button>
+                      </div>
                     </div>
-                    <div className="flex items-center gap-1">
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          setEditingCollection(collection);
-                        }}
-                        className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
-                        title="Edit collection"
-                      >
-                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                        </svg>
-                      </button>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleDeleteCollection(collection);
-                        }}
-                        className="p-1 text-gray-400 hover:text-red-600 transition-colors"
-                        title="Delete collection"
-                      >
-                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                        </svg>
-                      </button>
+                    <p className="text-sm text-gray-600 mb-2">{collection.description}</p>
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-gray-500">
+                        {collection.bookCount} books
+                      </span>
+                      <div
+                        className="w-4 h-4 rounded-full"
+                        style={{ backgroundColor: collection.color }}
+                      />
                     </div>
                   </div>
-                  <p className="text-sm text-gray-600 mb-2">{collection.description}</p>
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm font-medium text-gray-500">
-                      {collection.bookCount} books
-                    </span>
-                    <div
-                      className="w-4 h-4 rounded-full"
-                      style={{ backgroundColor: collection.color }}
-                    />
-                  </div>
-                </div>
-              ))}
+                ))}
+              </div>
             </div>
-          </div>
 
-          {/* Collection Details */}
-          <div className="flex-1 p-6">
-            {selectedCollection ? (
-              <div className="space-y-6">
-                <div>
-                  <h3 className="text-xl font-bold text-gray-900 mb-2">
-                    {selectedCollection.name}
-                  </h3>
-                  <p className="text-gray-600">{selectedCollection.description}</p>
-                </div>
+            {/* Collection Details */}
+            <div className="flex-1 p-6">
+              {selectedCollection ? (
+                <div className="space-y-6">
+                  <div>
+                    <h3 className="text-xl font-bold text-gray-900 mb-2">
+                      {selectedCollection.name}
+                    </h3>
+                    <p className="text-gray-600">{selectedCollection.description}</p>
+                  </div>
 
-                {/* Books in Collection */}
-                <div>
-                  <h4 className="font-semibold text-gray-900 mb-3">
-                    Books in Collection ({getBooksInCollection(selectedCollection.id).length})
-                  </h4>
-                  <div className="space-y-2 max-h-60 overflow-y-auto">
-                    {getBooksInCollection(selectedCollection.id).map((book) => (
-                      <div
-                        key={book.id}
-                        className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
-                      >
-                        <div>
-                          <h5 className="font-medium text-gray-900">{book.title}</h5>
-                          <p className="text-sm text-gray-600">{book.author}</p>
-                        </div>
-                        <button
-                          onClick={() => onRemoveBookFromCollection(book.id, selectedCollection.id)}
-                          className="px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded transition-colors"
+                  {/* Books in Collection */}
+                  <div>
+                    <h4 className="font-semibold text-gray-900 mb-3">
+                      Books in Collection ({getBooksInCollection(selectedCollection.id).length})
+                    </h4>
+                    <div className="space-y-2 max-h-60 overflow-y-auto">
+                      {getBooksInCollection(selectedCollection.id).map((book) => (
+                        <div
+                          key={book.id}
+                          className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
                         >
-                          Remove
-                        </button>
-                      </div>
-                    ))}
+                          <div>
+                            <h5 className="font-medium text-gray-900">{book.title}</h5>
+                            <p className="text-sm text-gray-600">{book.author}</p>
+                          </div>
+                          <button
+                            onClick={() => onRemoveBookFromCollection(book.id, selectedCollection.id)}
+                            className="px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded transition-colors"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      ))}
+                    </div>
                   </div>
-                </div>
 
-                {/* Add Books to Collection */}
-                <div>
-                  <h4 className="font-semibold text-gray-900 mb-3">
-                    Add Books to Collection
-                  </h4>
-                  <div className="space-y-2 max-h-60 overflow-y-auto">
-                    {getBooksNotInCollection(selectedCollection.id).map((book) => (
-                      <div
-                        key={book.id}
-                        className="flex items-center justify-between p-3 bg-white border border-gray-200 rounded-lg hover:bg-gray-50"
-                      >
-                        <div>
-                          <h5 className="font-medium text-gray-900">{book.title}</h5>
-                          <p className="text-sm text-gray-600">{book.author}</p>
-                        </div>
-                        <button
-                          onClick={() => onAddBookToCollection(book.id, selectedCollection.id)}
-                          className="px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                  {/* Add Books to Collection */}
+                  <div>
+                    <h4 className="font-semibold text-gray-900 mb-3">
+                      Add Books to Collection
+                    </h4>
+                    <div className="space-y-2 max-h-60 overflow-y-auto">
+                      {getBooksNotInCollection(selectedCollection.id).map((book) => (
+                        <div
+                          key={book.id}
+                          className="flex items-center justify-between p-3 bg-white border border-gray-200 rounded-lg hover:bg-gray-50"
                         >
-                          Add
-                        </button>
-                      </div>
-                    ))}
+                          <div>
+                            <h5 className="font-medium text-gray-900">{book.title}</h5>
+                            <p className="text-sm text-gray-600">{book.author}</p>
+                          </div>
+                          <button
+                            onClick={() => onAddBookToCollection(book.id, selectedCollection.id)}
+                            className="px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                          >
+                            Add
+                          </button>
+                        </div>
+                      ))}
+                    </div>
                   </div>
                 </div>
-              </div>
-            ) : (
-              <div className="flex items-center justify-center h-full text-gray-500">
-                Select a collection to manage its books
-              </div>
-            )}
+              ) : (
+                <div className="flex items-center justify-center h-full text-gray-500">
+                  Select a collection to manage its books
+                </div>
+              )}
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Create Collection Modal */}
         {isCreating && (
@@ -0,0 +1,185 @@
+'use client';
+
+// Duplicate Highlights Modal Component
+// Scans the library for highlights marking the same passage twice and merges them or keeps them apart
+
+import { useState, useEffect } from 'react';
+import { Book } from '@/types';
+import { getNoteThread } from '@/lib/readers/shared';
+import { IndexedDBService } from '@/lib/storage/indexedDB';
+import { GoogleDriveService } from '@/lib/services/googleDriveService';
+import { DuplicateCluster, HighlightDedupService } from '@/lib/services/highlightDedupService';
+
+interface DuplicateHighlightsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  books: Book[];
+  indexedDBService: IndexedDBService | null;
+  driveService: GoogleDriveService | null;
+}
+
+export function DuplicateHighlightsModal({
+  isOpen,
+  onClose,
+  books,
+  indexedDBService,
+  driveService
+}: DuplicateHighlightsModalProps) {
+  const [clusters, setClusters] = useState<DuplicateCluster[]>([]);
+  // Highlight to keep in each cluster, by cluster ID
+  const [keepIds, setKeepIds] = useState<Record<string, string>>({});
+  const [isScanning, setIsScanning] = useState(false);
+  const [busyClusterId, setBusyClusterId] = useState<string | null>(null);
+  const [mergedCount, setMergedCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !indexedDBService) return;
+
+    const scan = async () => {
+      setIsScanning(true);
+      try {
+        const found = await new HighlightDedupService(indexedDBService).findDuplicates();
+        setClusters(found);
+        setKeepIds({});
+      } catch (error) {
+        console.error('Failed to scan for duplicate highlights:', error);
+        setError('Failed to scan for duplicate highlights.');
+      } finally {
+        setIsScanning(false);
+      }
+    };
+    setError(null);
+    setMergedCount(0);
+    scan();
+  }, [isOpen, indexedDBService]);
+
+  const resolveCluster = async (cluster: DuplicateCluster, merge: boolean) => {
+    if (!indexedDBService) return;
+
+    setBusyClusterId(cluster.id);
+    setError(null);
+    try {
+      const dedupService = new HighlightDedupService(indexedDBService, driveService);
+      if (merge) {
+        await dedupService.mergeCluster(cluster, keepIds[cluster.id]);
+        setMergedCount(count => count + cluster.highlights.length - 1);
+      } else {
+        await dedupService.keepSeparate(cluster);
+      }
+      setClusters(prev => prev.filter(candidate => candidate.id !== cluster.id));
+    } catch (error) {
+      console.error('Failed to resolve duplicate highlights:', error);
+      setError(error instanceof Error ? error.message : 'Failed to resolve duplicate highlights.');
+    } finally {
+      setBusyClusterId(null);
+    }
+  };
+
+  const getBookTitle = (bookId: string) => books.find(book => book.id === bookId)?.title || 'Unknown book';
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Duplicate Highlights</h2>
+            <p className="text-sm text-gray-600">
+              Merging keeps the chosen text and combines the notes, tags and review history of all copies
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+          {mergedCount > 0 && (
+            <p className="text-sm text-green-700">Merged away {mergedCount} duplicate highlights</p>
+          )}
+
+          {isScanning ? (
+            <p className="text-sm text-gray-500 text-center py-10">Scanning highlights...</p>
+          ) : clusters.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-10">No duplicate highlights found</p>
+          ) : (
+            clusters.map(cluster => {
+              const keepId = keepIds[cluster.id] || cluster.highlights[0].id;
+              return (
+                <div key={cluster.id} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="font-semibold text-gray-900">{getBookTitle(cluster.bookId)}</h3>
+                    <span className="text-xs text-gray-500">{cluster.highlights.length} copies</span>
+                  </div>
+
+                  <div className="space-y-2 mb-4">
+                    {cluster.highlights.map(highlight => {
+                      const notes = getNoteThread(highlight);
+                      return (
+                        <label
+                          key={highlight.id}
+                          className={`flex gap-3 p-3 rounded-lg border cursor-pointer ${
+                            keepId === highlight.id ? 'border-blue-400 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                          }`}
+                        >
+                          <input
+                            type="radio"
+                            name={`keep-${cluster.id}`}
+                            checked={keepId === highlight.id}
+                            onChange={() => setKeepIds(prev => ({ ...prev, [cluster.id]: highlight.id }))}
+                            className="mt-1"
+                          />
+                          <div className="flex-1 text-sm">
+                            <p className="text-gray-800 italic">&quot;{highlight.text}&quot;</p>
+                            <p className="text-xs text-gray-500 mt-1">
+                              {new Date(highlight.createdAt).toLocaleString()}
+                              {highlight.pageNumber ? ` · Page ${highlight.pageNumber}` : ''}
+                              {highlight.chapter ? ` · ${highlight.chapter}` : ''}
+                              {notes.length > 0 ? ` · ${notes.length} notes` : ''}
+                              {highlight.reviewHistory.length > 0 ? ` · ${highlight.reviewHistory.length} reviews` : ''}
+                            </p>
+                            {highlight.tags.length > 0 && (
+                              <p className="text-xs text-gray-500">{highlight.tags.map(tag => `#${tag}`).join(' ')}</p>
+                            )}
+                          </div>
+                        </label>
+                      );
+                    })}
+                  </div>
+
+                  <div className="flex justify-end gap-3">
+                    <button
+                      onClick={() => resolveCluster(cluster, false)}
+                      disabled={busyClusterId !== null}
+                      className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors disabled:opacity-50"
+                    >
+                      Keep separate
+                    </button>
+                    <button
+                      onClick={() => resolveCluster(cluster, true)}
+                      disabled={busyClusterId !== null}
+                      className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                      {busyClusterId === cluster.id ? 'Working...' : 'Merge'}
+                    </button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+'use client';
+
+// Highlight Palette Modal Component
+// Edits the user's highlight colors (name, meaning, hex) and syncs the palette to Drive when connected
+
+import { useState, useEffect } from 'react';
+import { HighlightColorDefinition } from '@/types';
+import { IndexedDBService } from '@/lib/storage/indexedDB';
+import { GoogleDriveService } from '@/lib/services/googleDriveService';
+import { HighlightPaletteService } from '@/lib/services/highlightPaletteService';
+import { HighlightSyncService } from '@/lib/services/highlightSyncService';
+
+interface HighlightPaletteModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  indexedDBService: IndexedDBService | null;
+  driveService: GoogleDriveService | null;
+}
+
+export function HighlightPaletteModal({
+  isOpen,
+  onClose,
+  indexedDBService,
+  driveService
+}: HighlightPaletteModalProps) {
+  const [colors, setColors] = useState<HighlightColorDefinition[]>([]);
+  const [defaultColorId, setDefaultColorId] = useState<string>('');
+  const [usage, setUsage] = useState<Record<string, number>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !indexedDBService) return;
+
+    const loadPalette = async () => {
+      try {
+        const paletteService = new HighlightPaletteService(indexedDBService);
+        const palette = await paletteService.getPalette();
+        setColors(palette.colors);
+        setDefaultColorId(await paletteService.getDefaultColorId());
+
+        const counts: Record<string, number> = {};
+        (await indexedDBService.getAllHighlights()).forEach(highlight => {
+          counts[highlight.color] = (counts[highlight.color] || 0) + 1;
+        });
+        setUsage(counts);
+      } catch (error) {
+        console.error('Failed to load highlight palette:', error);
+      }
+    };
+    setError(null);
+    loadPalette();
+  }, [isOpen, indexedDBService]);
+
+  const updateColor = (id: string, updates: Partial<HighlightColorDefinition>) => {
+    setColors(prev => prev.map(color => (color.id === id ? { ...color, ...updates } : color)));
+  };
+
+  const handleAdd = () => {
+    setColors(prev => [
+      ...prev,
+      { id: `color-${Date.now().toString(36)}`, name: 'New color', meaning: '', hex: '#FCA5A5' }
+    ]);
+  };
+
+  const handleRemove = (id: string) => {
+    setColors(prev => prev.filter(color => color.id !== id));
+    if (defaultColorId === id) {
+      setDefaultColorId('');
+    }
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    setColors(prev => {
+      const next = [...prev];
+      const [color] = next.splice(index, 1);
+      next.splice(index + offset, 0, color);
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!indexedDBService) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const paletteService = new HighlightPaletteService(indexedDBService);
+      const palette = await paletteService.savePalette(
+        colors.map(color => ({ ...color, name: color.name.trim(), meaning: color.meaning?.trim() || undefined })),
+        defaultColorId || undefined
+      );
+
+      if (driveService) {
+        try {
+          const syncService = new HighlightSyncService(indexedDBService, driveService);
+          await syncService.initialize();
+          await syncService.syncPalette(palette);
+        } catch (error) {
+          console.error('Failed to sync highlight palette:', error);
+        }
+      }
+
+      onClose();
+    } catch (error) {
+      console.error('Failed to save highlight palette:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save highlight palette.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const removedInUse = Object.entries(usage)
+    .filter(([id]) => !colors.some(color => color.id === id))
+    .reduce((sum, [, count]) => sum + count, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-2xl font-bold text-gray-900">Highlight Colors</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-3">
+          <p className="text-sm text-gray-600">
+            Give each color a meaning, e.g. &quot;Definition&quot; or &quot;Disagree&quot;. The selected default is used for new highlights.
+          </p>
+
+          {colors.map((color, index) => (
+            <div key={color.id} className="flex items-start gap-3 p-3 rounded-lg border border-gray-200">
+              <input
+                type="color"
+                value={color.hex.length === 7 ? color.hex : '#000000'}
+                onChange={(e) => updateColor(color.id, { hex: e.target.value.toUpperCase() })}
+                className="w-10 h-10 rounded cursor-pointer"
+                title="Color"
+              />
+              <div className="flex-1 space-y-2">
+                <input
+                  type="text"
+                  value={color.name}
+                  onChange={(e) => updateColor(color.id, { name: e.target.value })}
+                  className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm font-medium"
+                  placeholder="Name"
+                />
+                <input
+                  type="text"
+                  value={color.meaning || ''}
+                  onChange={(e) => updateColor(color.id, { meaning: e.target.value })}
+                  className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+                  placeholder="What this color means (optional)"
+                />
+                <div className="flex items-center gap-4 text-xs text-gray-600">
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="radio"
+                      name="defaultColor"
+                      checked={(defaultColorId || colors[0]?.id) === color.id}
+                      onChange={() => setDefaultColorId(color.id)}
+                    />
+                    Default
+                  </label>
+                  <span>{usage[color.id] || 0} highlights</span>
+                </div>
+              </div>
+              <div className="flex flex-col gap-1">
+                <button
+                  onClick={() => handleMove(index, -1)}
+                  disabled={index === 0}
+                  className="px-2 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                  title="Move up"
+                >
+                  ▲
+                </button>
+                <button
+                  onClick={() => handleMove(index, 1)}
+                  disabled={index === colors.length - 1}
+                  className="px-2 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                  title="Move down"
+                >
+                  ▼
+                </button>
+                <button
+                  onClick={() => handleRemove(color.id)}
+                  disabled={colors.length === 1}
+                  className="px-2 text-gray-500 hover:text-red-600 disabled:opacity-30"
+                  title="Remove color"
+                >
+                  🗑️
+                </button>
+              </div>
+            </div>
+          ))}
+
+          <button
+            onClick={handleAdd}
+            className="w-full py-2 border-2 border-dashed border-gray-300 rounded-lg text-sm text-gray-600 hover:border-gray-400 hover:text-gray-800 transition-colors"
+          >
+            + Add color
+          </button>
+
+          {removedInUse > 0 && (
+            <p className="text-sm text-amber-700">
+              {removedInUse} highlights use removed colors and will be moved to the default color.
+            </p>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || colors.length === 0 || !indexedDBService}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save Colors'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
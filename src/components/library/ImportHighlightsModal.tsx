@@ -0,0 +1,392 @@
+'use client';
+
+// Import Highlights Modal Component
+// Reads Kindle "My Clippings.txt", KOReader sidecar files or a Kobo database, previews book matches and duplicates, then imports on confirm
+
+import { useState } from 'react';
+import { Book } from '@/types';
+import { IndexedDBService } from '@/lib/storage/indexedDB';
+import {
+  HighlightImporter,
+  KindleClippingsParser,
+  KOReaderSidecarParser,
+  ImportedAnnotation,
+  ImportPreview,
+  ImportResult,
+  ImportSource,
+  KoboImportResponse,
+  requestKoboImport
+} from '@/lib/import';
+
+const SOURCE_OPTIONS: Array<{ value: ImportSource; label: string; accept: string; multiple: boolean; hint: string }> = [
+  {
+    value: 'kindle',
+    label: 'Kindle',
+    accept: '.txt,text/plain',
+    multiple: false,
+    hint: 'Choose the "My Clippings.txt" file from your Kindle\'s documents folder'
+  },
+  {
+    value: 'koreader',
+    label: 'KOReader',
+    accept: '.lua',
+    multiple: true,
+    hint: 'Choose one or more metadata.*.lua files from the books\' .sdr folders'
+  },
+  {
+    value: 'kobo',
+    label: 'Kobo',
+    accept: '.sqlite',
+    multiple: false,
+    hint: 'Choose KoboReader.sqlite from the hidden .kobo folder on your Kobo'
+  }
+];
+
+interface ImportHighlightsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  books: Book[];
+  indexedDBService: IndexedDBService | null;
+  onImported: (result: ImportResult) => Promise<void> | void;
+}
+
+export function ImportHighlightsModal({
+  isOpen,
+  onClose,
+  books,
+  indexedDBService,
+  onImported
+}: ImportHighlightsModalProps) {
+  const [source, setSource] = useState<ImportSource>('kindle');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [koboFile, setKoboFile] = useState<File | null>(null);
+  const [koboReport, setKoboReport] = useState<KoboImportResponse | null>(null);
+  const [excludedBooks, setExcludedBooks] = useState<Set<string>>(new Set());
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setFileName(null);
+    setPreview(null);
+    setKoboFile(null);
+    setKoboReport(null);
+    setExcludedBooks(new Set());
+    setResult(null);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleSourceChange = (value: ImportSource) => {
+    reset();
+    setSource(value);
+  };
+
+  const parseFiles = async (files: File[]): Promise<ImportedAnnotation[]> => {
+    if (source === 'kindle') {
+      return new KindleClippingsParser().parse(await files[0].text());
+    }
+
+    const parser = new KOReaderSidecarParser();
+    const annotations: ImportedAnnotation[] = [];
+    for (const file of files) {
+      annotations.push(...parser.parse(await file.text(), file.webkitRelativePath || file.name));
+    }
+    return annotations;
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    if (files.length === 0 || !indexedDBService) return;
+
+    reset();
+    setFileName(files.length === 1 ? files[0].name : `${files.length} files`);
+    setIsWorking(true);
+
+    try {
+      if (source === 'kobo') {
+        // The server reads the database; nothing is written until the dry run is confirmed
+        const report = await requestKoboImport(files[0], books, true);
+        if (report.report.length === 0) {
+          setError('No annotations or reading progress for your library were found in this database.');
+          return;
+        }
+        setKoboFile(files[0]);
+        setKoboReport(report);
+        return;
+      }
+
+      const annotations = await parseFiles(files);
+      if (annotations.length === 0) {
+        setError(source === 'kindle'
+          ? 'No clippings were found in this file. Make sure it is the "My Clippings.txt" file from your Kindle.'
+          : 'No annotations were found in these files.');
+        return;
+      }
+
+      const importer = new HighlightImporter(indexedDBService);
+      setPreview(await importer.preview(source, annotations, books));
+    } catch (error) {
+      console.error('Failed to read annotations:', error);
+      setError(source === 'kobo' && error instanceof Error ? error.message : 'Failed to read the selected files.');
+    } finally {
+      setIsWorking(false);
+      event.target.value = '';
+    }
+  };
+
+  const toggleBook = (key: string) => {
+    setExcludedBooks(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleConfirm = async () => {
+    if ((!preview && !koboReport) || !indexedDBService) return;
+
+    setIsWorking(true);
+    try {
+      const importer = new HighlightImporter(indexedDBService);
+      let confirmedPreview = preview;
+
+      if (koboReport && koboFile) {
+        const response = await requestKoboImport(koboFile, books, false);
+        confirmedPreview = await importer.checkDuplicates('kobo', response.books || [], response.totalEntries);
+      }
+
+      const selectedBooks = confirmedPreview!.books.filter(book => !excludedBooks.has(book.key));
+      const importResult = await importer.commit({
+        ...confirmedPreview!,
+        books: selectedBooks,
+        duplicates: selectedBooks.reduce((sum, book) => sum + book.duplicates, 0)
+      });
+      setResult(importResult);
+      setPreview(null);
+      setKoboReport(null);
+      await onImported(importResult);
+    } catch (error) {
+      console.error('Failed to import highlights:', error);
+      setError('Failed to import highlights.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const sourceOption = SOURCE_OPTIONS.find(option => option.value === source)!;
+
+  const selectedCount = preview
+    ? preview.books
+        .filter(book => !excludedBooks.has(book.key))
+        .reduce((sum, book) => sum + book.highlights.length, 0)
+    : 0;
+
+  const selectedKoboBooks = koboReport
+    ? koboReport.report.filter(book => !excludedBooks.has(book.key)).length
+    : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-2xl font-bold text-gray-900">Import Highlights</h2>
+          <button
+            onClick={handleClose}
+            className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-4">
+          {/* Source */}
+          <div className="flex gap-2">
+            {SOURCE_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => handleSourceChange(option.value)}
+                disabled={isWorking}
+                className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                  source === option.value
+                    ? 'bg-blue-100 text-blue-800 border border-blue-300'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {/* File Picker */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {sourceOption.hint}
+            </label>
+            <input
+              key={source}
+              type="file"
+              accept={sourceOption.accept}
+              multiple={sourceOption.multiple}
+              onChange={handleFileSelected}
+              disabled={isWorking || !indexedDBService}
+              className="block w-full text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+            />
+            {fileName && <p className="text-xs text-gray-500 mt-1">{fileName}</p>}
+          </div>
+
+          {isWorking && <p className="text-sm text-gray-600">Working...</p>}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {/* Preview */}
+          {preview && (
+            <div className="space-y-3">
+              <div className="p-4 bg-gray-50 rounded-lg text-sm text-gray-700">
+                Found {preview.totalEntries} entries across {preview.books.length} books:{' '}
+                <span className="font-semibold">{preview.newHighlights} new</span>,{' '}
+                {preview.duplicates} already imported
+                {preview.bookmarks > 0 && `, ${preview.bookmarks} bookmarks (not imported)`}.
+              </div>
+
+              {preview.books.map((book) => (
+                <label
+                  key={book.key}
+                  className={`flex items-start gap-3 p-4 rounded-lg border-2 cursor-pointer transition-all ${
+                    excludedBooks.has(book.key) ? 'border-gray-200 opacity-60' : 'border-blue-200 bg-blue-50/40'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={!excludedBooks.has(book.key)}
+                    onChange={() => toggleBook(book.key)}
+                    disabled={book.highlights.length === 0}
+                    className="mt-1"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{book.title}</p>
+                    {book.author && <p className="text-xs text-gray-600">{book.author}</p>}
+                    <p className="text-xs mt-1">
+                      {book.match ? (
+                        <span className="text-green-700">
+                          Matches &quot;{book.match.book.title}&quot; ({Math.round(book.match.score * 100)}%)
+                        </span>
+                      ) : (
+                        <span className="text-amber-700">No match in library - a placeholder book will be created</span>
+                      )}
+                    </p>
+                  </div>
+                  <div className="text-right text-xs text-gray-600 whitespace-nowrap">
+                    <p className="font-semibold text-gray-900">{book.highlights.length} new</p>
+                    {book.duplicates > 0 && <p>{book.duplicates} duplicates</p>}
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {/* Kobo dry run */}
+          {koboReport && (
+            <div className="space-y-3">
+              <div className="p-4 bg-gray-50 rounded-lg text-sm text-gray-700">
+                Dry run: found {koboReport.totalEntries} entries and reading progress for{' '}
+                {koboReport.report.length} books. Nothing has been imported yet; highlights already in your
+                library will be skipped, and progress is only applied to downloaded books read more recently on the Kobo.
+              </div>
+
+              {koboReport.report.map((book) => (
+                <label
+                  key={book.key}
+                  className={`flex items-start gap-3 p-4 rounded-lg border-2 cursor-pointer transition-all ${
+                    excludedBooks.has(book.key) ? 'border-gray-200 opacity-60' : 'border-blue-200 bg-blue-50/40'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={!excludedBooks.has(book.key)}
+                    onChange={() => toggleBook(book.key)}
+                    className="mt-1"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{book.title}</p>
+                    {book.author && <p className="text-xs text-gray-600">{book.author}</p>}
+                    <p className="text-xs mt-1">
+                      {book.match ? (
+                        <span className="text-green-700">
+                          Matches &quot;{book.match.title}&quot; ({Math.round(book.match.score * 100)}%)
+                        </span>
+                      ) : (
+                        <span className="text-amber-700">No match in library - a placeholder book will be created</span>
+                      )}
+                    </p>
+                    {book.readingState?.lastRead && (
+                      <p className="text-xs text-gray-600 mt-1">
+                        {book.readingState.progress}% read, last opened {book.readingState.lastRead.toLocaleDateString()}
+                      </p>
+                    )}
+                  </div>
+                  <div className="text-right text-xs text-gray-600 whitespace-nowrap">
+                    <p className="font-semibold text-gray-900">{book.highlights} highlights</p>
+                    {book.notes > 0 && <p>{book.notes} notes</p>}
+                    {book.bookmarks > 0 && <p>{book.bookmarks} bookmarks</p>}
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {/* Result */}
+          {result && (
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+              Imported {result.highlightsImported} highlights
+              {result.booksCreated > 0 && ` and created ${result.booksCreated} placeholder books`}.
+              {result.duplicatesSkipped > 0 && ` Skipped ${result.duplicatesSkipped} duplicates.`}
+              {result.progressUpdated > 0 && ` Updated reading progress for ${result.progressUpdated} books.`}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={handleClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            {result ? 'Done' : 'Cancel'}
+          </button>
+          {preview && (
+            <button
+              onClick={handleConfirm}
+              disabled={isWorking || selectedCount === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Import {selectedCount} Highlights
+            </button>
+          )}
+          {koboReport && (
+            <button
+              onClick={handleConfirm}
+              disabled={isWorking || selectedKoboBooks === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Import {selectedKoboBooks} Books
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
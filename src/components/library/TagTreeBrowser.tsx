@@ -0,0 +1,238 @@
+'use client';
+
+// Tag Tree Browser Component
+// Browses nested tags and renames or moves them, with every tag below following along
+
+import { useState, useMemo } from 'react';
+import { Book, Tag } from '@/types';
+import {
+  TagTreeNode,
+  buildTagTree,
+  countTags,
+  flattenTagTree,
+  getParentTagPath,
+  isTagWithin,
+  matchesTagFilter
+} from '@/lib/readers/shared';
+
+interface TagTreeBrowserProps {
+  tags: Tag[];
+  books: Book[];
+  // Highlights carrying each tag or a tag below it
+  highlightTagCounts: Record<string, number>;
+  onRenameTag: (from: string, to: string) => Promise<string>;
+  onMoveTag: (path: string, parentPath: string) => Promise<string>;
+  onFilterByTag?: (path: string) => void;
+}
+
+export function TagTreeBrowser({
+  tags,
+  books,
+  highlightTagCounts,
+  onRenameTag,
+  onMoveTag,
+  onFilterByTag
+}: TagTreeBrowserProps) {
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [renameValue, setRenameValue] = useState('');
+  const [moveTarget, setMoveTarget] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const bookTagCounts = useMemo(() => countTags(books, true), [books]);
+
+  const tree = useMemo(() => buildTagTree([
+    ...tags.map(tag => tag.name),
+    ...Object.keys(bookTagCounts),
+    ...Object.keys(highlightTagCounts)
+  ]), [tags, bookTagCounts, highlightTagCounts]);
+
+  const allNodes = useMemo(() => flattenTagTree(tree), [tree]);
+  const selected = allNodes.find(node => node.path === selectedPath) || null;
+
+  const selectTag = (node: TagTreeNode) => {
+    setSelectedPath(node.path);
+    setRenameValue(node.path);
+    setMoveTarget(getParentTagPath(node.path));
+    setError(null);
+  };
+
+  const toggleCollapsed = (path: string) => {
+    const next = new Set(collapsed);
+    if (next.has(path)) {
+      next.delete(path);
+    } else {
+      next.add(path);
+    }
+    setCollapsed(next);
+  };
+
+  const applyChange = async (change: () => Promise<string>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const newPath = await change();
+      setSelectedPath(newPath);
+      setRenameValue(newPath);
+      setMoveTarget(getParentTagPath(newPath));
+    } catch (err) {
+      console.error('Failed to change tag:', err);
+      setError(err instanceof Error ? err.message : 'Failed to change tag');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderNode = (node: TagTreeNode) => (
+    <div key={node.path}>
+      <div
+        className={`flex items-center gap-1 py-1 pr-2 rounded cursor-pointer ${
+          selectedPath === node.path ? 'bg-blue-50 text-blue-800' : 'hover:bg-gray-50 text-gray-800'
+        }`}
+        style={{ paddingLeft: `${node.depth * 16 + 4}px` }}
+        onClick={() => selectTag(node)}
+      >
+        {node.children.length > 0 ? (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              toggleCollapsed(node.path);
+            }}
+            className="w-5 text-xs text-gray-500 hover:text-gray-800"
+            title={collapsed.has(node.path) ? 'Expand' : 'Collapse'}
+          >
+            {collapsed.has(node.path) ? '▸' : '▾'}
+          </button>
+        ) : (
+          <span className="w-5" />
+        )}
+        <span className="flex-1 text-sm truncate">#{node.name}</span>
+        <span className="text-xs text-gray-500">{bookTagCounts[node.path] || 0}</span>
+      </div>
+      {!collapsed.has(node.path) && node.children.map(renderNode)}
+    </div>
+  );
+
+  if (tree.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-full text-gray-500">
+        No tags yet. Use &quot;/&quot; in a tag name to nest it, e.g. philosophy/stoicism
+      </div>
+    );
+  }
+
+  const taggedBooks = selected ? books.filter(book => matchesTagFilter(book.tags, [selected.path])) : [];
+  // A tag cannot move under itself or anything below it
+  const moveTargets = selected ? allNodes.filter(node => !isTagWithin(node.path, selected.path)) : [];
+
+  return (
+    <div className="flex h-full">
+      {/* Tag Tree */}
+      <div className="w-1/3 border-r border-gray-200 overflow-y-auto p-4">
+        {tree.map(renderNode)}
+      </div>
+
+      {/* Tag Details */}
+      <div className="flex-1 p-6 overflow-y-auto">
+        {selected ? (
+          <div className="space-y-6">
+            <div>
+              <h3 className="text-xl font-bold text-gray-900 mb-1">#{selected.path}</h3>
+              <p className="text-sm text-gray-600">
+                {taggedBooks.length} books · {highlightTagCounts[selected.path] || 0} highlights, including tags below it
+              </p>
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600">{error}</p>
+            )}
+
+            {/* Rename */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Rename
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={renameValue}
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                  onClick={() => applyChange(() => onRenameTag(selected.path, renameValue))}
+                  disabled={isSaving || !renameValue.trim() || renameValue === selected.path}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  Rename
+                </button>
+              </div>
+            </div>
+
+            {/* Move */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Move under
+              </label>
+              <div className="flex gap-2">
+                <select
+                  value={moveTarget}
+                  onChange={(e) => setMoveTarget(e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">(top level)</option>
+                  {moveTargets.map(node => (
+                    <option key={node.path} value={node.path}>{node.path}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => applyChange(() => onMoveTag(selected.path, moveTarget))}
+                  disabled={isSaving || moveTarget === getParentTagPath(selected.path)}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  Move
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Tags below it move along, on every book and highlight
+              </p>
+            </div>
+
+            {/* Books with this tag */}
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="font-semibold text-gray-900">
+                  Books ({taggedBooks.length})
+                </h4>
+                {onFilterByTag && (
+                  <button
+                    onClick={() => onFilterByTag(selected.path)}
+                    className="px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                  >
+                    Show in library
+                  </button>
+                )}
+              </div>
+              <div className="space-y-2 max-h-60 overflow-y-auto">
+                {taggedBooks.map((book) => (
+                  <div
+                    key={book.id}
+                    className="p-3 bg-gray-50 rounded-lg"
+                  >
+                    <h5 className="font-medium text-gray-900">{book.title}</h5>
+                    <p className="text-sm text-gray-600">{book.author}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center justify-center h-full text-gray-500">
+            Select a tag to see its books, rename it or move it
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
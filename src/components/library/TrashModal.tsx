@@ -0,0 +1,265 @@
+'use client';
+
+// Trash Modal Component
+// Lists deleted books and highlights until they are purged, restores them or deletes them for good
+
+import { useState, useEffect, useCallback } from 'react';
+import { Book, TrashedBook } from '@/types';
+import { Highlight, getDisplayText, getDaysUntilPurge } from '@/lib/readers/shared';
+import { IndexedDBService } from '@/lib/storage/indexedDB';
+import { GoogleDriveService } from '@/lib/services/googleDriveService';
+import { TrashService } from '@/lib/services/trashService';
+
+interface TrashModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  books: Book[];
+  indexedDBService: IndexedDBService | null;
+  driveService: GoogleDriveService | null;
+  // Called after books come back from, or leave, the trash
+  onBooksChanged: () => void;
+}
+
+export function TrashModal({
+  isOpen,
+  onClose,
+  books,
+  indexedDBService,
+  driveService,
+  onBooksChanged
+}: TrashModalProps) {
+  const [trashedBooks, setTrashedBooks] = useState<TrashedBook[]>([]);
+  const [trashedHighlights, setTrashedHighlights] = useState<Highlight[]>([]);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [retentionInput, setRetentionInput] = useState('30');
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    if (!indexedDBService) return;
+
+    setIsLoading(true);
+    try {
+      const trashService = new TrashService(indexedDBService);
+      const [loadedBooks, loadedHighlights, days] = await Promise.all([
+        trashService.getTrashedBooks(),
+        trashService.getTrashedHighlights(),
+        trashService.getRetentionDays()
+      ]);
+      // Highlights deleted along with a book are restored with it
+      const trashedBookIds = new Set(loadedBooks.map(entry => entry.id));
+      setTrashedBooks(loadedBooks);
+      setTrashedHighlights(loadedHighlights.filter(highlight => !trashedBookIds.has(highlight.bookId)));
+      setRetentionDays(days);
+      setRetentionInput(String(days));
+    } catch (error) {
+      console.error('Failed to load trash:', error);
+      setError('Failed to load the trash.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [indexedDBService]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    loadTrash();
+  }, [isOpen, loadTrash]);
+
+  const runAction = async (id: string, action: (trashService: TrashService) => Promise<void>, booksChanged: boolean) => {
+    if (!indexedDBService) return;
+
+    setBusyId(id);
+    setError(null);
+    try {
+      await action(new TrashService(indexedDBService, driveService));
+      await loadTrash();
+      if (booksChanged) {
+        onBooksChanged();
+      }
+    } catch (error) {
+      console.error('Failed to update trash:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update the trash.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRestoreBook = (entry: TrashedBook) =>
+    runAction(entry.id, trashService => trashService.restoreBook(entry), true);
+
+  const handlePurgeBook = (entry: TrashedBook) => {
+    if (!window.confirm(`Delete "${entry.title}" and its highlights for good? This cannot be undone.`)) return;
+    runAction(entry.id, trashService => trashService.purgeBook(entry), true);
+  };
+
+  const handleRestoreHighlight = (highlight: Highlight) =>
+    runAction(highlight.id, trashService => trashService.restoreHighlights([highlight]), false);
+
+  const handlePurgeHighlight = (highlight: Highlight) => {
+    if (!window.confirm('Delete this highlight for good? This cannot be undone.')) return;
+    runAction(highlight.id, trashService => trashService.purgeHighlights([highlight]), false);
+  };
+
+  const handleEmptyTrash = () => {
+    if (!window.confirm('Delete everything in the trash for good? This cannot be undone.')) return;
+    runAction('all', async trashService => {
+      for (const entry of trashedBooks) {
+        await trashService.purgeBook(entry);
+      }
+      await trashService.purgeHighlights(trashedHighlights);
+    }, true);
+  };
+
+  const handleSaveRetention = () =>
+    runAction('retention', trashService => trashService.setRetentionDays(Number(retentionInput)), false);
+
+  const getBookTitle = (bookId: string) => books.find(book => book.id === bookId)?.title || 'Unknown book';
+
+  const formatDaysLeft = (deletedAt: Date) => {
+    const days = getDaysUntilPurge(deletedAt, retentionDays);
+    return days === 1 ? 'Deleted for good in 1 day' : `Deleted for good in ${days} days`;
+  };
+
+  if (!isOpen) return null;
+
+  const isEmpty = trashedBooks.length === 0 && trashedHighlights.length === 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Trash</h2>
+            <p className="text-sm text-gray-600">
+              Deleted books and highlights stay here for {retentionDays} days before they are deleted for good
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          {/* Retention */}
+          <div className="flex items-end gap-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Keep deleted items for (days)
+              </label>
+              <input
+                type="number"
+                min={1}
+                value={retentionInput}
+                onChange={(e) => setRetentionInput(e.target.value)}
+                className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <button
+              onClick={handleSaveRetention}
+              disabled={busyId !== null || retentionInput === String(retentionDays)}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+
+          {isLoading ? (
+            <p className="text-sm text-gray-500 text-center py-10">Loading trash...</p>
+          ) : isEmpty ? (
+            <p className="text-sm text-gray-500 text-center py-10">The trash is empty</p>
+          ) : (
+            <>
+              {/* Books */}
+              {trashedBooks.length > 0 && (
+                <div>
+                  <h3 className="font-semibold text-gray-900 mb-3">Books ({trashedBooks.length})</h3>
+                  <div className="space-y-2">
+                    {trashedBooks.map(entry => (
+                      <div key={entry.id} className="flex items-center gap-3 p-3 border border-gray-200 rounded-lg">
+                        <div className="flex-1">
+                          <h4 className="font-medium text-gray-900">{entry.title}</h4>
+                          <p className="text-sm text-gray-600">{entry.author}</p>
+                          <p className="text-xs text-gray-500">{formatDaysLeft(entry.trashedAt)}</p>
+                        </div>
+                        <button
+                          onClick={() => handleRestoreBook(entry)}
+                          disabled={busyId !== null}
+                          className="px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded transition-colors disabled:opacity-50"
+                        >
+                          Restore
+                        </button>
+                        <button
+                          onClick={() => handlePurgeBook(entry)}
+                          disabled={busyId !== null}
+                          className="px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded transition-colors disabled:opacity-50"
+                        >
+                          Delete forever
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Highlights */}
+              {trashedHighlights.length > 0 && (
+                <div>
+                  <h3 className="font-semibold text-gray-900 mb-3">Highlights ({trashedHighlights.length})</h3>
+                  <div className="space-y-2">
+                    {trashedHighlights.map(highlight => (
+                      <div key={highlight.id} className="flex items-center gap-3 p-3 border border-gray-200 rounded-lg">
+                        <div className="flex-1 text-sm">
+                          <p className="text-gray-800 italic line-clamp-2">&quot;{getDisplayText(highlight)}&quot;</p>
+                          <p className="text-xs text-gray-500 mt-1">
+                            {getBookTitle(highlight.bookId)} · {formatDaysLeft(highlight.deletedAt!)}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => handleRestoreHighlight(highlight)}
+                          disabled={busyId !== null}
+                          className="px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded transition-colors disabled:opacity-50"
+                        >
+                          Restore
+                        </button>
+                        <button
+                          onClick={() => handlePurgeHighlight(highlight)}
+                          disabled={busyId !== null}
+                          className="px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded transition-colors disabled:opacity-50"
+                        >
+                          Delete forever
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end p-6 border-t border-gray-200">
+          <button
+            onClick={handleEmptyTrash}
+            disabled={busyId !== null || isEmpty}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+          >
+            Empty Trash
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+// Highlight Bulk Actions Component
+// Toolbar for the highlights selected in the highlights panel: recolor, tag, rate, copy or delete them together
+
+import React, { useState } from 'react';
+import { HighlightColorDefinition, normalizeTagPath } from '@/lib/readers/shared';
+
+interface HighlightBulkActionsProps {
+  selectedCount: number;
+  totalCount: number;
+  palette: HighlightColorDefinition[];
+  isWorking: boolean;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onRecolor: (colorId: string) => void;
+  onAddTag: (tag: string) => void;
+  onRemoveTag: (tag: string) => void;
+  onSetImportance: (importance: number) => void;
+  onCopyMarkdown: () => void;
+  onDelete: () => void;
+}
+
+export function HighlightBulkActions({
+  selectedCount,
+  totalCount,
+  palette,
+  isWorking,
+  onSelectAll,
+  onClearSelection,
+  onRecolor,
+  onAddTag,
+  onRemoveTag,
+  onSetImportance,
+  onCopyMarkdown,
+  onDelete
+}: HighlightBulkActionsProps) {
+  const [tagInput, setTagInput] = useState('');
+  const tag = normalizeTagPath(tagInput);
+  const disabled = isWorking || selectedCount === 0;
+
+  return (
+    <div className="mb-4 p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-900">{selectedCount} selected</span>
+        <div className="flex gap-2 text-xs">
+          <button
+            onClick={onSelectAll}
+            disabled={isWorking || selectedCount === totalCount}
+            className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          >
+            Select all
+          </button>
+          <button
+            onClick={onClearSelection}
+            disabled={disabled}
+            className="text-gray-600 hover:text-gray-800 disabled:opacity-50"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {/* Recolor */}
+      <div className="flex flex-wrap gap-1">
+        {palette.map(color => (
+          <button
+            key={color.id}
+            onClick={() => onRecolor(color.id)}
+            disabled={disabled}
+            className="px-2 py-0.5 rounded-full text-xs font-medium text-gray-900 disabled:opacity-50"
+            style={{ backgroundColor: color.hex }}
+            title={`Recolor as ${color.name}${color.meaning ? ` - ${color.meaning}` : ''}`}
+          >
+            {color.name}
+          </button>
+        ))}
+      </div>
+
+      {/* Tags */}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          placeholder="Tag, e.g. philosophy/stoicism"
+          className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded text-sm"
+        />
+        <button
+          onClick={() => {
+            onAddTag(tag);
+            setTagInput('');
+          }}
+          disabled={disabled || !tag}
+          className="px-2 py-1 text-blue-600 hover:bg-blue-50 rounded disabled:opacity-50"
+        >
+          Add
+        </button>
+        <button
+          onClick={() => {
+            onRemoveTag(tag);
+            setTagInput('');
+          }}
+          disabled={disabled || !tag}
+          className="px-2 py-1 text-gray-600 hover:bg-gray-100 rounded disabled:opacity-50"
+        >
+          Remove
+        </button>
+      </div>
+
+      {/* Importance, copy and delete */}
+      <div className="flex items-center gap-2">
+        <select
+          value=""
+          onChange={(e) => onSetImportance(Number(e.target.value))}
+          disabled={disabled}
+          className="px-2 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+        >
+          <option value="" disabled>Importance...</option>
+          {[1, 2, 3, 4, 5].map(level => (
+            <option key={level} value={level}>{'★'.repeat(level)}</option>
+          ))}
+        </select>
+        <button
+          onClick={onCopyMarkdown}
+          disabled={disabled}
+          className="px-2 py-1 text-gray-700 hover:bg-gray-100 rounded disabled:opacity-50"
+          title="Copy as Markdown"
+        >
+          📋 Copy
+        </button>
+        <button
+          onClick={onDelete}
+          disabled={disabled}
+          className="ml-auto px-2 py-1 text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+        >
+          🗑️ Delete
+        </button>
+      </div>
+    </div>
+  );
+}
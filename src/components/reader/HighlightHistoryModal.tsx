@@ -0,0 +1,140 @@
+'use client';
+
+// Highlight History Modal Component
+// Lists a highlight's earlier versions and restores any of them
+
+import { useState, useEffect } from 'react';
+import {
+  Highlight,
+  HighlightRevision,
+  HighlightColorDefinition,
+  HighlightManager as SharedHighlightManager,
+  getHighlightColor,
+  getNoteText,
+  isPageNote,
+  isRegionHighlight
+} from '@/lib/readers/shared';
+import { RegionImage } from '@/components/reader/RegionImage';
+
+interface HighlightHistoryModalProps {
+  highlight: Highlight | null;
+  highlightManager: SharedHighlightManager;
+  palette: HighlightColorDefinition[];
+  onClose: () => void;
+}
+
+const ACTION_LABELS: Record<HighlightRevision['action'], string> = {
+  created: 'Created',
+  updated: 'Edited',
+  deleted: 'Deleted',
+  restored: 'Restored'
+};
+
+export function HighlightHistoryModal({
+  highlight,
+  highlightManager,
+  palette,
+  onClose
+}: HighlightHistoryModalProps) {
+  const [revisions, setRevisions] = useState<HighlightRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!highlight) return;
+
+    const loadRevisions = async () => {
+      setIsLoading(true);
+      try {
+        const history = await highlightManager.getRevisions(highlight.id);
+        setRevisions([...history].reverse());
+      } catch (error) {
+        console.error('Failed to load highlight history:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadRevisions();
+  }, [highlight, highlightManager, reloadKey]);
+
+  const handleRestore = async (revision: HighlightRevision) => {
+    setRestoringId(revision.id);
+    try {
+      await highlightManager.restoreRevision(revision);
+      setReloadKey(key => key + 1);
+    } catch (error) {
+      console.error('Failed to restore highlight version:', error);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (!highlight) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-lg mx-4 max-h-[90vh] flex flex-col">
+        <h4 className="text-lg font-semibold mb-4">Highlight History</h4>
+
+        <div className="flex-1 overflow-y-auto space-y-3 mb-4">
+          {isLoading ? (
+            <p className="text-sm text-gray-500 text-center py-6">Loading history...</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">No earlier versions recorded</p>
+          ) : (
+            revisions.map((revision, index) => {
+              const { snapshot } = revision;
+              const color = getHighlightColor(palette, snapshot.color);
+              const note = getNoteText(snapshot, ' / ');
+              return (
+                <div key={revision.id} className="p-3 rounded-lg border border-gray-200 text-sm">
+                  <div className="flex items-center gap-2 mb-2">
+                    <span className="font-medium text-gray-900">{ACTION_LABELS[revision.action]}</span>
+                    <span className="text-xs text-gray-500">{new Date(revision.createdAt).toLocaleString()}</span>
+                    {index === 0 && <span className="text-xs text-gray-500">(latest)</span>}
+                    <span
+                      className="ml-auto px-2 py-0.5 rounded-full text-xs font-medium text-gray-900"
+                      style={{ backgroundColor: color.hex }}
+                    >
+                      {color.name}
+                    </span>
+                  </div>
+                  {isRegionHighlight(snapshot) && <RegionImage highlight={snapshot} className="max-h-32" />}
+                  {!isPageNote(snapshot) && !isRegionHighlight(snapshot) && (
+                    <p className="text-gray-800 italic line-clamp-3">&quot;{snapshot.text}&quot;</p>
+                  )}
+                  {note && <p className="text-gray-600 mt-1 line-clamp-2"><strong>Note:</strong> {note}</p>}
+                  {snapshot.tags.length > 0 && (
+                    <p className="text-xs text-gray-500 mt-1">{snapshot.tags.map(tag => `#${tag}`).join(' ')}</p>
+                  )}
+                  {index > 0 && (
+                    <div className="flex justify-end mt-2">
+                      <button
+                        onClick={() => handleRestore(revision)}
+                        disabled={restoringId !== null}
+                        className="px-3 py-1 text-xs bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:opacity-50"
+                      >
+                        {restoringId === revision.id ? 'Restoring...' : 'Restore this version'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+// Highlight Link Modal Component
+// Picks a highlight from any book in the library and a relation to link it with
+
+import { useState, useEffect, useMemo } from 'react';
+import { Highlight, getNoteText, getDisplayText } from '@/lib/readers/shared';
+import { IndexedDBService } from '@/lib/storage/indexedDB';
+import { HIGHLIGHT_LINK_RELATIONS } from '@/lib/services/highlightLinkService';
+
+interface HighlightLinkModalProps {
+  isOpen: boolean;
+  source: Highlight | null;
+  indexedDBService: IndexedDBService | null;
+  onClose: () => void;
+  onCreate: (target: Highlight, relation: string) => Promise<void>;
+}
+
+const MAX_RESULTS = 50;
+
+export function HighlightLinkModal({
+  isOpen,
+  source,
+  indexedDBService,
+  onClose,
+  onCreate
+}: HighlightLinkModalProps) {
+  const [candidates, setCandidates] = useState<Highlight[]>([]);
+  const [bookTitles, setBookTitles] = useState<Record<string, string>>({});
+  const [query, setQuery] = useState('');
+  const [relation, setRelation] = useState(HIGHLIGHT_LINK_RELATIONS[0]);
+  const [target, setTarget] = useState<Highlight | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !indexedDBService || !source) return;
+
+    const loadCandidates = async () => {
+      try {
+        const [highlights, books] = await Promise.all([
+          indexedDBService.getAllHighlights(),
+          indexedDBService.getAllBooks()
+        ]);
+        setCandidates(highlights.filter(highlight => highlight.id !== source.id));
+        setBookTitles(Object.fromEntries(books.map(book => [book.id, book.title])));
+      } catch (error) {
+        console.error('Failed to load highlights to link:', error);
+      }
+    };
+
+    setQuery('');
+    setTarget(null);
+    setError(null);
+    loadCandidates();
+  }, [isOpen, indexedDBService, source]);
+
+  const results = useMemo(() => {
+    const normalized = query.trim().toLowerCase();
+    return candidates
+      .filter(highlight =>
+        !normalized ||
+        highlight.text.toLowerCase().includes(normalized) ||
+        getNoteText(highlight).toLowerCase().includes(normalized) ||
+        (bookTitles[highlight.bookId] || '').toLowerCase().includes(normalized)
+      )
+      .slice(0, MAX_RESULTS);
+  }, [candidates, bookTitles, query]);
+
+  const handleCreate = async () => {
+    if (!target) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onCreate(target, relation);
+      onClose();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to link highlights.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen || !source) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-lg mx-4 max-h-[90vh] flex flex-col">
+        <h4 className="text-lg font-semibold mb-4">Link Highlight</h4>
+
+        <p className="p-2 bg-gray-100 rounded text-sm italic mb-4 line-clamp-3">
+          {getDisplayText(source)}
+        </p>
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Relation:</label>
+          <input
+            type="text"
+            list="highlight-link-relations"
+            value={relation}
+            onChange={(e) => setRelation(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            placeholder="e.g. answers, contradicts"
+          />
+          <datalist id="highlight-link-relations">
+            {HIGHLIGHT_LINK_RELATIONS.map(option => (
+              <option key={option} value={option} />
+            ))}
+          </datalist>
+        </div>
+
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm mb-2"
+          placeholder="Search highlights in any book..."
+        />
+
+        <div className="flex-1 overflow-y-auto space-y-2 mb-4 min-h-[8rem]">
+          {results.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">No highlights found</p>
+          ) : (
+            results.map(highlight => (
+              <button
+                key={highlight.id}
+                onClick={() => setTarget(highlight)}
+                className={`w-full text-left p-2 rounded border text-sm transition-colors ${
+                  target?.id === highlight.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <span className="block text-xs text-gray-500 mb-1">
+                  {bookTitles[highlight.bookId] || 'Unknown book'}
+                  {highlight.chapter ? ` · ${highlight.chapter}` : ''}
+                </span>
+                <span className="line-clamp-2">{getDisplayText(highlight)}</span>
+              </button>
+            ))
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+        <div className="flex gap-3 justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={!target || !relation.trim() || isSaving}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Linking...' : 'Link'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
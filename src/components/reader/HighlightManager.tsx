@@ -3,80 +3,259 @@
 // Highlight Manager Component
 // Displays and manages highlights for a book
 
-import React, { useState } from 'react';
-import { Highlight } from '@/lib/readers/shared';
+import React, { useState, useEffect } from 'react';
+import {
+  Highlight,
+  HighlightNote,
+  HighlightColorDefinition,
+  HighlightManager as SharedHighlightManager,
+  DEFAULT_HIGHLIGHT_COLORS,
+  getHighlightColor,
+  getHighlightStyle,
+  getHighlightStyleCSS,
+  withAlpha,
+  getNoteEntries,
+  getNoteThread,
+  getDisplayText,
+  isPageNote,
+  isRegionHighlight,
+  addNoteEntry,
+  editNoteEntry,
+  removeNoteEntry
+} from '@/lib/readers/shared';
+import { MarkdownFormatter } from '@/lib/export';
+import { ResolvedHighlightLink } from '@/lib/services/highlightLinkService';
+import { HighlightHistoryModal } from '@/components/reader/HighlightHistoryModal';
+import { HighlightBulkActions } from '@/components/reader/HighlightBulkActions';
+import { HighlightStylePicker } from '@/components/reader/HighlightStylePicker';
+import { RegionImage } from '@/components/reader/RegionImage';
+import { HighlightStyle } from '@/types';
 
 interface HighlightManagerProps {
-  highlights: Highlight[];
+  highlights?: Highlight[];
+  // When provided, the panel reads from and writes to the shared manager directly
+  highlightManager?: SharedHighlightManager | null;
+  bookId?: string;
+  palette?: HighlightColorDefinition[];
+  // Links and backlinks of the highlights in this book
+  links?: ResolvedHighlightLink[];
   onHighlightUpdate?: (highlight: Highlight) => void;
   onHighlightDelete?: (highlightId: string) => void;
   onHighlightClick?: (highlight: Highlight) => void;
+  onLinkCreate?: (highlight: Highlight) => void;
+  onLinkClick?: (link: ResolvedHighlightLink) => void;
+  onLinkDelete?: (linkId: string) => void;
 }
 
 export function HighlightManager({
-  highlights,
+  highlights: highlightsProp = [],
+  highlightManager,
+  bookId,
+  palette = DEFAULT_HIGHLIGHT_COLORS,
+  links = [],
   onHighlightUpdate,
   onHighlightDelete,
-  onHighlightClick
+  onHighlightClick,
+  onLinkCreate,
+  onLinkClick,
+  onLinkDelete
 }: HighlightManagerProps) {
   const [selectedHighlight, setSelectedHighlight] = useState<Highlight | null>(null);
   const [isEditing, setIsEditing] = useState(false);
-  const [editNote, setEditNote] = useState('');
+  const [editColor, setEditColor] = useState<string>('');
+  const [editStyle, setEditStyle] = useState<HighlightStyle>('fill');
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [editNoteText, setEditNoteText] = useState('');
+  const [historyHighlight, setHistoryHighlight] = useState<Highlight | null>(null);
+  const [managedHighlights, setManagedHighlights] = useState<Highlight[] | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isBulkWorking, setIsBulkWorking] = useState(false);
+  const [bulkMessage, setBulkMessage] = useState<string | null>(null);
+
+  // Subscribe to the shared manager so edits from anywhere show up here
+  useEffect(() => {
+    if (!highlightManager || !bookId) {
+      setManagedHighlights(null);
+      return;
+    }
+
+    setManagedHighlights(highlightManager.getHighlightsForBook(bookId));
+    return highlightManager.subscribe((event) => {
+      if (!event.bookId || event.bookId === bookId) {
+        setManagedHighlights(highlightManager.getHighlightsForBook(bookId));
+      }
+    });
+  }, [highlightManager, bookId]);
+
+  const highlights = managedHighlights ?? highlightsProp;
+  // Highlights deleted elsewhere drop out of the selection
+  const selectedHighlights = highlights.filter(highlight => selectedIds.has(highlight.id));
+
+  const saveChanges = async (highlight: Highlight, updates: Partial<Highlight>) => {
+    if (highlightManager) {
+      try {
+        await highlightManager.updateHighlight(highlight.id, updates);
+      } catch (error) {
+        console.error('Failed to save highlight:', error);
+      }
+    } else if (onHighlightUpdate) {
+      onHighlightUpdate({
+        ...highlight,
+        ...updates,
+        updatedAt: new Date(),
+        lastModified: new Date()
+      });
+    }
+  };
+
+  // The legacy single note is folded into the thread on the first edit
+  const saveNotes = (highlight: Highlight, notes: HighlightNote[]) =>
+    saveChanges(highlight, { note: undefined, notes });
 
   const handleEditClick = (highlight: Highlight) => {
     setSelectedHighlight(highlight);
-    setEditNote(highlight.note || '');
+    setEditColor(highlight.color);
+    setEditStyle(getHighlightStyle(highlight));
     setIsEditing(true);
   };
 
-  const handleSaveNote = () => {
-    if (selectedHighlight && onHighlightUpdate) {
-      const updatedHighlight = {
-        ...selectedHighlight,
-        note: editNote,
-        updatedAt: new Date()
-      };
-      onHighlightUpdate(updatedHighlight);
+  const handleSaveEdit = async () => {
+    if (selectedHighlight) {
+      await saveChanges(selectedHighlight, { color: editColor, style: editStyle });
     }
     setIsEditing(false);
     setSelectedHighlight(null);
-    setEditNote('');
   };
 
-  const handleDeleteClick = (highlightId: string) => {
-    if (onHighlightDelete && confirm('Are you sure you want to delete this highlight?')) {
-      onHighlightDelete(highlightId);
+  const handleAddNote = async (highlight: Highlight) => {
+    const text = replyText.trim();
+    if (!text) return;
+
+    await saveNotes(highlight, addNoteEntry(getNoteEntries(highlight), text, 'web'));
+    setReplyingTo(null);
+    setReplyText('');
+  };
+
+  const handleSaveNoteEdit = async (highlight: Highlight, noteId: string) => {
+    const text = editNoteText.trim();
+    if (!text) return;
+
+    await saveNotes(highlight, editNoteEntry(getNoteEntries(highlight), noteId, text));
+    setEditingNoteId(null);
+    setEditNoteText('');
+  };
+
+  const handleDeleteNote = async (highlight: Highlight, noteId: string) => {
+    if (!confirm('Delete this note?')) return;
+    await saveNotes(highlight, removeNoteEntry(getNoteEntries(highlight), noteId));
+  };
+
+  const handleDeleteClick = async (highlightId: string) => {
+    if (!highlightManager && !onHighlightDelete) return;
+    if (!confirm('Are you sure you want to delete this highlight?')) return;
+
+    if (highlightManager) {
+      try {
+        await highlightManager.deleteHighlight(highlightId);
+      } catch (error) {
+        console.error('Failed to delete highlight:', error);
+      }
+    } else {
+      onHighlightDelete?.(highlightId);
+    }
+  };
+
+  const toggleSelected = (highlightId: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(highlightId)) {
+      next.delete(highlightId);
+    } else {
+      next.add(highlightId);
     }
+    setSelectedIds(next);
   };
 
-  const getColorClass = (color: Highlight['color']) => {
-    switch (color) {
-      case 'yellow':
-        return 'bg-yellow-200 border-yellow-300';
-      case 'blue':
-        return 'bg-blue-200 border-blue-300';
-      case 'pink':
-        return 'bg-pink-200 border-pink-300';
-      case 'green':
-        return 'bg-green-200 border-green-300';
-      default:
-        return 'bg-gray-200 border-gray-300';
+  const exitSelection = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+    setBulkMessage(null);
+  };
+
+  const runBulk = async (action: () => Promise<void>, message: string) => {
+    setIsBulkWorking(true);
+    setBulkMessage(null);
+    try {
+      await action();
+      setBulkMessage(message);
+    } catch (error) {
+      console.error('Bulk highlight action failed:', error);
+      setBulkMessage('Failed to update the selected highlights');
+    } finally {
+      setIsBulkWorking(false);
     }
   };
 
-  const getColorEmoji = (color: Highlight['color']) => {
-    switch (color) {
-      case 'yellow':
-        return '💛';
-      case 'blue':
-        return '💙';
-      case 'pink':
-        return '💗';
-      case 'green':
-        return '💚';
-      default:
-        return '💛';
+  // With the shared manager the whole selection is written, synced and undone as one change
+  const bulkUpdate = (
+    targets: Highlight[],
+    updates: (highlight: Highlight) => Partial<Highlight>,
+    message: string
+  ) => runBulk(async () => {
+    if (targets.length === 0) return;
+    if (highlightManager) {
+      await highlightManager.updateHighlights(targets.map(highlight => highlight.id), updates);
+    } else {
+      for (const highlight of targets) {
+        await saveChanges(highlight, updates(highlight));
+      }
     }
+  }, message);
+
+  const handleBulkRecolor = (colorId: string) => {
+    // Page notes have no color of their own to change
+    const targets = selectedHighlights.filter(highlight => !isPageNote(highlight));
+    bulkUpdate(targets, () => ({ color: colorId }), `Recolored ${targets.length} highlights`);
+  };
+
+  const handleBulkAddTag = (tag: string) => {
+    const targets = selectedHighlights.filter(highlight => !highlight.tags.includes(tag));
+    bulkUpdate(targets, highlight => ({ tags: [...highlight.tags, tag] }), `Tagged ${targets.length} highlights #${tag}`);
+  };
+
+  const handleBulkRemoveTag = (tag: string) => {
+    const targets = selectedHighlights.filter(highlight => highlight.tags.includes(tag));
+    bulkUpdate(
+      targets,
+      highlight => ({ tags: highlight.tags.filter(existing => existing !== tag) }),
+      `Removed #${tag} from ${targets.length} highlights`
+    );
+  };
+
+  const handleBulkImportance = (importance: number) => {
+    const targets = selectedHighlights.filter(highlight => highlight.importance !== importance);
+    bulkUpdate(targets, () => ({ importance }), `Set importance of ${targets.length} highlights`);
+  };
+
+  const handleBulkCopy = () => runBulk(async () => {
+    await navigator.clipboard.writeText(new MarkdownFormatter().renderHighlights(selectedHighlights));
+  }, `Copied ${selectedHighlights.length} highlights as Markdown`);
+
+  const handleBulkDelete = () => {
+    if (!highlightManager && !onHighlightDelete) return;
+    if (!confirm(`Delete ${selectedHighlights.length} highlights? You can restore them from the trash in the library.`)) return;
+
+    const ids = selectedHighlights.map(highlight => highlight.id);
+    runBulk(async () => {
+      if (highlightManager) {
+        await highlightManager.deleteHighlights(ids);
+      } else {
+        ids.forEach(id => onHighlightDelete?.(id));
+      }
+      setSelectedIds(new Set());
+    }, `Deleted ${ids.length} highlights`);
   };
 
   if (highlights.length === 0) {
@@ -95,120 +274,367 @@ export function HighlightManager({
         <h3 className="text-lg font-semibold text-gray-900">
           Highlights ({highlights.length})
         </h3>
+        <button
+          onClick={() => (isSelecting ? exitSelection() : setIsSelecting(true))}
+          className="px-2 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded transition-colors"
+        >
+          {isSelecting ? 'Done' : 'Select'}
+        </button>
       </div>
 
+      {isSelecting && (
+        <>
+          <HighlightBulkActions
+            selectedCount={selectedHighlights.length}
+            totalCount={highlights.length}
+            palette={palette}
+            isWorking={isBulkWorking}
+            onSelectAll={() => setSelectedIds(new Set(highlights.map(highlight => highlight.id)))}
+            onClearSelection={() => setSelectedIds(new Set())}
+            onRecolor={handleBulkRecolor}
+            onAddTag={handleBulkAddTag}
+            onRemoveTag={handleBulkRemoveTag}
+            onSetImportance={handleBulkImportance}
+            onCopyMarkdown={handleBulkCopy}
+            onDelete={handleBulkDelete}
+          />
+          {bulkMessage && (
+            <p className="mb-3 text-xs text-gray-600">{bulkMessage}</p>
+          )}
+        </>
+      )}
+
       <div className="space-y-3">
-        {highlights.map((highlight) => (
-          <div
-            key={highlight.id}
-            className={`p-3 rounded-lg border ${getColorClass(highlight.color)} cursor-pointer hover:shadow-md transition-shadow`}
-            onClick={() => onHighlightClick?.(highlight)}
-          >
-            <div className="flex items-start justify-between">
-              <div className="flex-1">
-                <div className="flex items-center gap-2 mb-2">
-                  <span className="text-lg">{getColorEmoji(highlight.color)}</span>
-                  <span className="text-sm text-gray-600">
-                    {highlight.chapter || `Page ${highlight.pageNumber || 'Unknown'}`}
-                  </span>
-                  <span className="text-xs text-gray-500">
-                    {new Date(highlight.createdAt).toLocaleDateString()}
-                  </span>
-                </div>
-                
-                <p className="text-gray-800 mb-2 leading-relaxed">
-                  "{highlight.text}"
-                </p>
-                
-                {highlight.note && (
-                  <div className="bg-white bg-opacity-50 p-2 rounded text-sm text-gray-700">
-                    <strong>Note:</strong> {highlight.note}
-                  </div>
+        {highlights.map((highlight) => {
+          const color = getHighlightColor(palette, highlight.color);
+          const thread = getNoteThread(highlight);
+          const highlightLinks = links.filter(link => link.highlightId === highlight.id);
+          return (
+            <div
+              key={highlight.id}
+              className="p-3 rounded-lg border cursor-pointer hover:shadow-md transition-shadow"
+              style={{
+                backgroundColor: withAlpha(color.hex, 0.35),
+                borderColor: color.hex
+              }}
+              onClick={() => (isSelecting ? toggleSelected(highlight.id) : onHighlightClick?.(highlight))}
+            >
+              <div className="flex items-start justify-between">
+                {isSelecting && (
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(highlight.id)}
+                    onChange={() => toggleSelected(highlight.id)}
+                    onClick={(e) => e.stopPropagation()}
+                    className="mt-1 mr-3"
+                    aria-label="Select highlight"
+                  />
                 )}
-                
-                {highlight.tags && highlight.tags.length > 0 && (
-                  <div className="flex flex-wrap gap-1 mt-2">
-                    {highlight.tags.map((tag, index) => (
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 mb-2">
+                    {isPageNote(highlight) ? (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium text-gray-900 bg-white">
+                        📝 Page note
+                      </span>
+                    ) : (
                       <span
-                        key={index}
-                        className="px-2 py-1 bg-white bg-opacity-50 rounded-full text-xs text-gray-600"
+                        className="px-2 py-0.5 rounded-full text-xs font-medium text-gray-900"
+                        style={{ backgroundColor: color.hex }}
+                        title={color.meaning}
                       >
-                        #{tag}
+                        {color.name}
                       </span>
-                    ))}
+                    )}
+                    <span className="text-sm text-gray-600">
+                      {highlight.chapter || `Page ${highlight.pageNumber || 'Unknown'}`}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {new Date(highlight.createdAt).toLocaleDateString()}
+                    </span>
                   </div>
-                )}
-              </div>
+                
+                  {isRegionHighlight(highlight) && <RegionImage highlight={highlight} className="mb-2" />}
+
+                  {!isPageNote(highlight) && !isRegionHighlight(highlight) && (
+                    <p className="text-gray-800 mb-2 leading-relaxed">
+                      <span style={getHighlightStyle(highlight) === 'fill' ? undefined : getHighlightStyleCSS(getHighlightStyle(highlight), color.hex)}>
+                        "{highlight.text}"
+                      </span>
+                    </p>
+                  )}
+                
+                  {/* Note thread */}
+                  {(thread.length > 0 || replyingTo === highlight.id) && (
+                    <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+                      {thread.map(entry => (
+                        <div key={entry.id} className="bg-white bg-opacity-50 p-2 rounded text-sm text-gray-700">
+                          {editingNoteId === entry.id ? (
+                            <>
+                              <textarea
+                                value={editNoteText}
+                                onChange={(e) => setEditNoteText(e.target.value)}
+                                className="w-full p-2 border border-gray-300 rounded text-sm"
+                                rows={2}
+                              />
+                              <div className="flex justify-end gap-2 mt-1 text-xs">
+                                <button onClick={() => setEditingNoteId(null)} className="text-gray-600 hover:text-gray-800">
+                                  Cancel
+                                </button>
+                                <button
+                                  onClick={() => handleSaveNoteEdit(highlight, entry.id)}
+                                  className="text-blue-600 hover:text-blue-800 font-medium"
+                                >
+                                  Save
+                                </button>
+                              </div>
+                            </>
+                          ) : (
+                            <>
+                              <p className="whitespace-pre-wrap">{entry.text}</p>
+                              <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
+                                <span title={entry.platform}>{entry.platform === 'mobile' ? '📱' : '💻'}</span>
+                                <span>{new Date(entry.createdAt).toLocaleString()}</span>
+                                {new Date(entry.updatedAt).getTime() !== new Date(entry.createdAt).getTime() && (
+                                  <span>(edited)</span>
+                                )}
+                                <button
+                                  onClick={() => {
+                                    setEditingNoteId(entry.id);
+                                    setEditNoteText(entry.text);
+                                  }}
+                                  className="ml-auto hover:text-blue-600"
+                                  title="Edit note"
+                                >
+                                  ✏️
+                                </button>
+                                <button
+                                  onClick={() => handleDeleteNote(highlight, entry.id)}
+                                  className="hover:text-red-600"
+                                  title="Delete note"
+                                >
+                                  ✕
+                                </button>
+                              </div>
+                            </>
+                          )}
+                        </div>
+                      ))}
+
+                      {replyingTo === highlight.id && (
+                        <div>
+                          <textarea
+                            value={replyText}
+                            onChange={(e) => setReplyText(e.target.value)}
+                            className="w-full p-2 border border-gray-300 rounded text-sm"
+                            rows={2}
+                            placeholder={thread.length > 0 ? 'Add to the thread...' : 'Add a note...'}
+                            autoFocus
+                          />
+                          <div className="flex justify-end gap-2 mt-1 text-xs">
+                            <button onClick={() => setReplyingTo(null)} className="text-gray-600 hover:text-gray-800">
+                              Cancel
+                            </button>
+                            <button
+                              onClick={() => handleAddNote(highlight)}
+                              disabled={!replyText.trim()}
+                              className="text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+                            >
+                              Add note
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                
+                  {/* Links and backlinks */}
+                  {highlightLinks.length > 0 && (
+                    <div className="mt-2 space-y-1" onClick={(e) => e.stopPropagation()}>
+                      {highlightLinks.map(resolved => (
+                        <div
+                          key={`${resolved.link.id}-${resolved.direction}`}
+                          className="flex items-start gap-2 bg-white bg-opacity-50 p-2 rounded text-xs text-gray-700"
+                        >
+                          <button
+                            onClick={() => onLinkClick?.(resolved)}
+                            className="flex-1 text-left hover:text-blue-700"
+                            title={resolved.direction === 'incoming' ? 'Backlink - open linked highlight' : 'Open linked highlight'}
+                          >
+                            <span className="font-medium">
+                              {resolved.direction === 'outgoing' ? `→ ${resolved.link.relation}` : `← ${resolved.link.relation} this`}
+                            </span>{' '}
+                            <span className="italic line-clamp-2">{getDisplayText(resolved.other)}</span>
+                            {resolved.other.bookId !== highlight.bookId && (
+                              <span className="block text-gray-500">📖 {resolved.otherBookTitle}</span>
+                            )}
+                          </button>
+                          {onLinkDelete && (
+                            <button
+                              onClick={() => onLinkDelete(resolved.link.id)}
+                              className="text-gray-500 hover:text-red-600"
+                              title="Remove link"
+                            >
+                              ✕
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {highlight.tags && highlight.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {highlight.tags.map((tag, index) => (
+                        <span
+                          key={index}
+                          className="px-2 py-1 bg-white bg-opacity-50 rounded-full text-xs text-gray-600"
+                        >
+                          #{tag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
               
-              <div className="flex gap-2 ml-3">
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    handleEditClick(highlight);
-                  }}
-                  className="p-1 text-gray-600 hover:text-blue-600 transition-colors"
-                  title="Edit note"
-                >
-                  ✏️
-                </button>
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    handleDeleteClick(highlight.id);
-                  }}
-                  className="p-1 text-gray-600 hover:text-red-600 transition-colors"
-                  title="Delete highlight"
-                >
-                  🗑️
-                </button>
+                <div className="flex gap-2 ml-3">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setReplyingTo(highlight.id);
+                      setReplyText('');
+                    }}
+                    className="p-1 text-gray-600 hover:text-blue-600 transition-colors"
+                    title="Add note"
+                  >
+                    💬
+                  </button>
+                  {highlightManager && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setHistoryHighlight(highlight);
+                      }}
+                      className="p-1 text-gray-600 hover:text-blue-600 transition-colors"
+                      title="Edit history"
+                    >
+                      🕘
+                    </button>
+                  )}
+                  {onLinkCreate && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onLinkCreate(highlight);
+                      }}
+                      className="p-1 text-gray-600 hover:text-blue-600 transition-colors"
+                      title="Link to another highlight"
+                    >
+                      🔗
+                    </button>
+                  )}
+                  {!isPageNote(highlight) && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleEditClick(highlight);
+                      }}
+                      className="p-1 text-gray-600 hover:text-blue-600 transition-colors"
+                      title="Edit highlight"
+                    >
+                      ✏️
+                    </button>
+                  )}
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDeleteClick(highlight.id);
+                    }}
+                    className="p-1 text-gray-600 hover:text-red-600 transition-colors"
+                    title="Delete highlight"
+                  >
+                    🗑️
+                  </button>
+                </div>
               </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
 
+      {highlightManager && (
+        <HighlightHistoryModal
+          highlight={historyHighlight}
+          highlightManager={highlightManager}
+          palette={palette}
+          onClose={() => setHistoryHighlight(null)}
+        />
+      )}
+
       {/* Edit Modal */}
       {isEditing && selectedHighlight && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4">
-            <h4 className="text-lg font-semibold mb-4">Edit Highlight Note</h4>
+            <h4 className="text-lg font-semibold mb-4">Edit Highlight</h4>
             
             <div className="mb-4">
-              <p className="text-sm text-gray-600 mb-2">Highlighted text:</p>
-              <p className="p-2 bg-gray-100 rounded text-sm italic">
-                "{selectedHighlight.text}"
-              </p>
+              {isRegionHighlight(selectedHighlight) ? (
+                <>
+                  <p className="text-sm text-gray-600 mb-2">Clipped region:</p>
+                  <RegionImage highlight={selectedHighlight} className="max-h-48" />
+                </>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-600 mb-2">Highlighted text:</p>
+                  <p className="p-2 bg-gray-100 rounded text-sm italic">
+                    "{selectedHighlight.text}"
+                  </p>
+                </>
+              )}
             </div>
             
             <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Note:
-              </label>
-              <textarea
-                value={editNote}
-                onChange={(e) => setEditNote(e.target.value)}
-                className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                rows={3}
-                placeholder="Add a note to this highlight..."
+              <p className="text-sm text-gray-600 mb-2">Color:</p>
+              <div className="flex flex-wrap gap-2">
+                {palette.map(color => (
+                  <button
+                    key={color.id}
+                    onClick={() => setEditColor(color.id)}
+                    className={`px-2 py-1 rounded-full text-xs font-medium text-gray-900 border-2 ${
+                      editColor === color.id ? 'border-gray-800' : 'border-transparent'
+                    }`}
+                    style={{ backgroundColor: color.hex }}
+                    title={color.meaning}
+                  >
+                    {color.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="mb-4">
+              <p className="text-sm text-gray-600 mb-2">Style:</p>
+              <HighlightStylePicker
+                value={editStyle}
+                onChange={setEditStyle}
+                hex={getHighlightColor(palette, editColor).hex}
               />
             </div>
-            
+
             <div className="flex gap-3 justify-end">
               <button
                 onClick={() => {
                   setIsEditing(false);
                   setSelectedHighlight(null);
-                  setEditNote('');
                 }}
                 className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
               >
                 Cancel
               </button>
               <button
-                onClick={handleSaveNote}
+                onClick={handleSaveEdit}
                 className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
               >
-                Save Note
+                Save
               </button>
             </div>
           </div>
@@ -0,0 +1,33 @@
+'use client';
+
+// Highlight Style Picker Component
+// Row of buttons choosing how a highlight is drawn, each previewed in the chosen color
+
+import { HighlightStyle } from '@/types';
+import { HIGHLIGHT_STYLES, getHighlightStyleCSS } from '@/lib/readers/shared';
+
+interface HighlightStylePickerProps {
+  value: HighlightStyle;
+  onChange: (style: HighlightStyle) => void;
+  // Color the previews are drawn in
+  hex: string;
+}
+
+export function HighlightStylePicker({ value, onChange, hex }: HighlightStylePickerProps) {
+  return (
+    <div className="flex gap-1">
+      {HIGHLIGHT_STYLES.map(style => (
+        <button
+          key={style.id}
+          onClick={() => onChange(style.id)}
+          className={`w-8 h-8 rounded border-2 text-sm font-semibold text-gray-900 bg-white ${
+            value === style.id ? 'border-gray-800' : 'border-gray-200 hover:border-gray-400'
+          }`}
+          title={style.name}
+        >
+          <span style={getHighlightStyleCSS(style.id, hex)}>{style.symbol}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+// Page Note Editor Component
+// Writes a new page note, or shows an existing one when its margin marker is clicked
+
+import { useState, useEffect } from 'react';
+import { Highlight, getNoteThread } from '@/lib/readers/shared';
+
+interface PageNoteEditorProps {
+  isOpen: boolean;
+  // Where the note is anchored, e.g. "Page 12" or a chapter title
+  locationLabel: string;
+  // An existing page note to show instead of an empty editor
+  pageNote?: Highlight | null;
+  onSave?: (text: string) => Promise<void>;
+  onClose: () => void;
+}
+
+export function PageNoteEditor({
+  isOpen,
+  locationLabel,
+  pageNote,
+  onSave,
+  onClose
+}: PageNoteEditorProps) {
+  const [text, setText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setText('');
+    }
+  }, [isOpen]);
+
+  const handleSave = async () => {
+    if (!onSave || !text.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await onSave(text.trim());
+      onClose();
+    } catch (error) {
+      console.error('Failed to save page note:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4">
+        <h4 className="text-lg font-semibold mb-1">📝 Page Note</h4>
+        <p className="text-xs text-gray-500 mb-4">{locationLabel}</p>
+
+        {pageNote ? (
+          <div className="space-y-2 mb-4 max-h-80 overflow-y-auto">
+            {getNoteThread(pageNote).map(entry => (
+              <div key={entry.id} className="p-2 bg-yellow-50 rounded text-sm">
+                <p className="text-gray-800 whitespace-pre-wrap">{entry.text}</p>
+                <p className="text-xs text-gray-500 mt-1">{new Date(entry.createdAt).toLocaleString()}</p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm mb-4"
+            rows={5}
+            placeholder="Write a note about this page..."
+            autoFocus
+          />
+        )}
+
+        <div className="flex gap-3 justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            {pageNote ? 'Close' : 'Cancel'}
+          </button>
+          {!pageNote && (
+            <button
+              onClick={handleSave}
+              disabled={!text.trim() || isSaving}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
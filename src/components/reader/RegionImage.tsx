@@ -0,0 +1,31 @@
+'use client';
+
+// Region Image Component
+// Shows the clipped PNG of a region highlight at the aspect ratio of the clipped area
+
+import Image from 'next/image';
+import { Highlight } from '@/lib/readers/shared';
+
+interface RegionImageProps {
+  highlight: Highlight;
+  className?: string;
+}
+
+export function RegionImage({ highlight, className = '' }: RegionImageProps) {
+  if (!highlight.image) return null;
+
+  const coords = highlight.position.primary?.type === 'coordinates' && typeof highlight.position.primary.value === 'object'
+    ? highlight.position.primary.value
+    : null;
+
+  return (
+    <Image
+      src={highlight.image}
+      alt={`Clipped region on page ${highlight.pageNumber || '?'}`}
+      width={Math.round(coords?.width || 400)}
+      height={Math.round(coords?.height || 300)}
+      unoptimized // Data URLs cannot go through the image optimizer
+      className={`w-auto h-auto max-w-full rounded border border-gray-200 bg-white ${className}`}
+    />
+  );
+}
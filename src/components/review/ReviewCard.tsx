@@ -0,0 +1,107 @@
+'use client';
+
+// Review Card Component
+// Shows a highlight, or one of its cloze cards with the term blanked, and lets the user pick the terms to blank
+
+import React, { useState } from 'react';
+import { RegionImage } from '@/components/reader/RegionImage';
+import { buildClozeSegments } from '@/lib/export';
+import { ClozeCard, isRegionHighlight } from '@/lib/readers/shared';
+import { ReviewItem } from '@/lib/services/reviewService';
+
+interface ReviewCardProps {
+  item: ReviewItem;
+  cards: ClozeCard[]; // Every cloze card of the highlight
+  showAnswer: boolean;
+  onMarkTerm: (term: string) => void;
+  onUnmarkTerm: (cardId: string) => void;
+}
+
+export function ReviewCard({ item, cards, showAnswer, onMarkTerm, onUnmarkTerm }: ReviewCardProps) {
+  const [isEditingBlanks, setIsEditingBlanks] = useState(false);
+  const { highlight, card } = item;
+  const segments = card ? buildClozeSegments(highlight.text, [card.term]) : null;
+  const storedIds = new Set((highlight.clozeCards || []).map(stored => stored.id));
+
+  const handleBlankSelection = () => {
+    const selected = window.getSelection()?.toString().trim();
+    if (selected) {
+      onMarkTerm(selected);
+    }
+  };
+
+  if (isRegionHighlight(highlight)) {
+    return <RegionImage highlight={highlight} className="mx-auto" />;
+  }
+
+  return (
+    <div>
+      <blockquote className="text-lg text-gray-900 leading-relaxed">
+        &ldquo;
+        {segments
+          ? segments.map((segment, index) => segment.clozeIndex ? (
+              <span
+                key={index}
+                className={showAnswer
+                  ? 'px-1 rounded bg-yellow-200 font-medium'
+                  : 'px-3 rounded bg-gray-200 text-gray-500'}
+              >
+                {showAnswer ? segment.text : '…'}
+              </span>
+            ) : (
+              <span key={index}>{segment.text}</span>
+            ))
+          : highlight.text}
+        &rdquo;
+      </blockquote>
+
+      <div className="mt-4 text-sm">
+        <button
+          onClick={() => setIsEditingBlanks(!isEditingBlanks)}
+          className="text-gray-500 hover:text-gray-700"
+        >
+          ✂️ {cards.length > 0 ? `${cards.length} cloze card${cards.length === 1 ? '' : 's'}` : 'Make cloze cards'}
+        </button>
+
+        {isEditingBlanks && (
+          <div className="mt-2 p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-2">
+            <div className="flex flex-wrap gap-1">
+              {cards.map(clozeCard => (
+                <span
+                  key={clozeCard.id}
+                  className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs ${
+                    clozeCard.source === 'marked' ? 'bg-blue-100 text-blue-800' : 'bg-gray-200 text-gray-700'
+                  }`}
+                  title={clozeCard.source === 'marked' ? 'Marked by you' : 'Picked from key terms'}
+                >
+                  {clozeCard.term}
+                  {clozeCard.source === 'marked' && storedIds.has(clozeCard.id) && (
+                    <button
+                      onClick={() => onUnmarkTerm(clozeCard.id)}
+                      className="text-blue-600 hover:text-blue-900"
+                      title="Remove this blank"
+                    >
+                      ×
+                    </button>
+                  )}
+                </span>
+              ))}
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs text-gray-500">
+                Select words in the passage to blank them; marked words replace the automatic picks.
+              </span>
+              <button
+                onMouseDown={(e) => e.preventDefault()} // Keep the text selection
+                onClick={handleBlankSelection}
+                className="flex-shrink-0 px-2 py-1 text-blue-600 hover:bg-blue-50 rounded"
+              >
+                Blank selection
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,12 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { SearchResult, SearchFilters, SearchOptions } from '@/lib/services/searchService';
+import {
+  HighlightColorDefinition,
+  DEFAULT_HIGHLIGHT_COLORS,
+  getHighlightColor,
+  getNoteThread
+} from '@/lib/readers/shared';
 
 interface SearchInterfaceProps {
   onSearch: (query: string, filters?: SearchFilters, options?: SearchOptions) => Promise<SearchResult[]>;
@@ -12,6 +18,7 @@ interface SearchInterfaceProps {
   onResultClick: (result: SearchResult) => void;
   isSearching?: boolean;
   initialQuery?: string;
+  palette?: HighlightColorDefinition[];
 }
 
 export function SearchInterface({ 
@@ -19,7 +26,8 @@ export function SearchInterface({
   onGetSuggestions, 
   onResultClick, 
   isSearching = false,
-  initialQuery = ''
+  initialQuery = '',
+  palette = DEFAULT_HIGHLIGHT_COLORS
 }: SearchInterfaceProps) {
   const [query, setQuery] = useState(initialQuery);
   const [results, setResults] = useState<SearchResult[]>([]);
@@ -107,14 +115,15 @@ export function SearchInterface({
   }, [initialQuery]);
 
   const getResultIcon = (result: SearchResult) => {
-    if (result.type === 'highlight') {
-      const colorEmoji = {
-        yellow: '💛',
-        blue: '💙',
-        pink: '💗',
-        green: '💚'
-      };
-      return colorEmoji[result.highlight?.color || 'yellow'];
+    if (result.type === 'highlight' && result.highlight) {
+      const color = getHighlightColor(palette, result.highlight.color);
+      return (
+        <span
+          className="inline-block w-4 h-4 rounded-full align-middle"
+          style={{ backgroundColor: color.hex }}
+          title={color.name}
+        />
+      );
     }
     return '📖';
   };
@@ -192,29 +201,27 @@ export function SearchInterface({
               <label className="block text-xs font-medium text-gray-700 mb-2">
                 Highlight Colors
               </label>
-              <div className="flex gap-2">
-                {['yellow', 'blue', 'pink', 'green'].map(color => (
+              <div className="flex flex-wrap gap-2">
+                {palette.map(color => (
                   <button
-                    key={color}
+                    key={color.id}
                     onClick={() => {
                       const colors = filters.highlightColors || [];
-                      const newColors = colors.includes(color)
-                        ? colors.filter(c => c !== color)
-                        : [...colors, color];
+                      const newColors = colors.includes(color.id)
+                        ? colors.filter(c => c !== color.id)
+                        : [...colors, color.id];
                       setFilters({ ...filters, highlightColors: newColors.length > 0 ? newColors : undefined });
                     }}
-                    className={`w-6 h-6 rounded-full border-2 ${
-                      filters.highlightColors?.includes(color)
+                    className={`px-2 py-0.5 rounded-full border-2 text-xs text-gray-900 ${
+                      filters.highlightColors?.includes(color.id)
                         ? 'border-gray-800'
                         : 'border-gray-300'
-                    } ${
-                      color === 'yellow' ? 'bg-yellow-300' :
-                      color === 'blue' ? 'bg-blue-300' :
-                      color === 'pink' ? 'bg-pink-300' :
-                      'bg-green-300'
                     }`}
-                    title={color}
-                  />
+                    style={{ backgroundColor: color.hex }}
+                    title={color.meaning}
+                  >
+                    {color.name}
+                  </button>
                 ))}
               </div>
             </div>
@@ -310,7 +317,7 @@ export function SearchInterface({
                         <span>
                           {new Date(result.highlight.createdAt).toLocaleDateString()}
                         </span>
-                        {result.highlight.note && (
+                        {getNoteThread(result.highlight).length > 0 && (
                           <>
                             <span>•</span>
                             <span>Has note</span>
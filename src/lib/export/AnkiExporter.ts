@@ -0,0 +1,181 @@
+// Anki Exporter - Renders highlights as an Anki text import file
+// Produces Basic notes from front/back templates and optional Cloze notes from words marked in the note
+
+import { Book } from '@/types';
+import { Highlight, TAG_SEPARATOR, getNoteText, isPageNote, isRegionHighlight, matchesTagFilter } from '@/lib/readers/shared';
+import { AnkiExportOptions, ExportResult } from './types';
+import { buildClozeSegments, extractMarkedTerms, stripMarks } from './cloze';
+import { formatExportDate, slugify } from './utils';
+
+/**
+ * Templates use Anki's own syntax: {{field}} and {{#field}}...{{/field}} sections
+ * that are dropped when the field is empty. Fields: text, note, title, author, chapter, page
+ */
+export const DEFAULT_ANKI_FRONT_TEMPLATE = '{{text}}';
+export const DEFAULT_ANKI_BACK_TEMPLATE =
+  '{{#note}}{{note}}<br><br>{{/note}}<i>{{title}}</i> by {{author}}{{#chapter}} &middot; {{chapter}}{{/chapter}}';
+
+export const DEFAULT_ANKI_OPTIONS: AnkiExportOptions = {
+  deckName: 'BookLever',
+  splitByBook: true,
+  includeBasic: true,
+  includeCloze: false,
+  frontTemplate: DEFAULT_ANKI_FRONT_TEMPLATE,
+  backTemplate: DEFAULT_ANKI_BACK_TEMPLATE
+};
+
+const BASIC_NOTE_TYPE = 'Basic';
+const CLOZE_NOTE_TYPE = 'Cloze';
+
+export class AnkiExporter {
+  /**
+   * Build an Anki import file for the selected books/tags
+   * @param books - Books in the library
+   * @param highlights - Highlights to choose from
+   * @param options - Deck, card type and template options
+   * @returns Tab-separated notes with Anki import headers
+   */
+  export(books: Book[], highlights: Highlight[], options: AnkiExportOptions): ExportResult {
+    const booksById = new Map(books.map(book => [book.id, book]));
+    const rows: string[][] = [];
+
+    this.selectHighlights(highlights, options).forEach(highlight => {
+      const book = booksById.get(highlight.bookId);
+      if (!book) return;
+
+      const deck = options.splitByBook
+        ? `${options.deckName}::${book.title.replace(/::/g, ':')}`
+        : options.deckName;
+      const tags = this.buildTags(book, highlight).join(' ');
+      const fields = this.buildFields(book, highlight);
+
+      if (options.includeBasic) {
+        rows.push([
+          highlight.id,
+          BASIC_NOTE_TYPE,
+          deck,
+          this.renderTemplate(options.frontTemplate, fields),
+          this.renderTemplate(options.backTemplate, fields),
+          tags
+        ]);
+      }
+
+      if (options.includeCloze) {
+        const cloze = this.buildCloze(highlight);
+        if (cloze) {
+          rows.push([
+            `${highlight.id}-cloze`,
+            CLOZE_NOTE_TYPE,
+            deck,
+            cloze,
+            this.renderTemplate(options.backTemplate, { ...fields, text: '' }),
+            tags
+          ]);
+        }
+      }
+    });
+
+    const header = [
+      '#separator:tab',
+      '#html:true',
+      '#guid column:1',
+      '#notetype column:2',
+      '#deck column:3',
+      '#tags column:6'
+    ];
+
+    return {
+      fileName: `${slugify(options.deckName)}-anki-${formatExportDate(new Date())}.txt`,
+      mimeType: 'text/plain',
+      content: [...header, ...rows.map(row => row.map(field => this.sanitizeField(field)).join('\t'))].join('\n') + '\n'
+    };
+  }
+
+  /**
+   * Count the notes an export would contain, for previews
+   */
+  countNotes(highlights: Highlight[], options: AnkiExportOptions): { basic: number; cloze: number } {
+    const selected = this.selectHighlights(highlights, options);
+    return {
+      basic: options.includeBasic ? selected.length : 0,
+      cloze: options.includeCloze ? selected.filter(highlight => this.buildCloze(highlight) !== null).length : 0
+    };
+  }
+
+  private selectHighlights(highlights: Highlight[], options: AnkiExportOptions): Highlight[] {
+    const bookIds = options.bookIds && options.bookIds.length > 0 ? new Set(options.bookIds) : null;
+    const tags = options.tags && options.tags.length > 0 ? options.tags : null;
+
+    return highlights
+      .filter(highlight => !isPageNote(highlight)) // No passage to study
+      .filter(highlight => !bookIds || bookIds.has(highlight.bookId))
+      .filter(highlight => !tags || matchesTagFilter(highlight.tags, tags))
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  /**
+   * Template fields, already HTML-escaped
+   */
+  private buildFields(book: Book, highlight: Highlight): Record<string, string> {
+    return {
+      text: isRegionHighlight(highlight) && highlight.image
+        ? `<img src="${highlight.image}">`
+        : this.toHtml(highlight.text),
+      note: this.toHtml(stripMarks(getNoteText(highlight))),
+      title: this.toHtml(book.title),
+      author: this.toHtml(book.author),
+      chapter: this.toHtml(highlight.chapter || ''),
+      page: highlight.pageNumber ? String(highlight.pageNumber) : ''
+    };
+  }
+
+  /**
+   * Cloze text with each marked term as its own card (c1, c2, ...)
+   */
+  private buildCloze(highlight: Highlight): string | null {
+    const segments = buildClozeSegments(highlight.text, extractMarkedTerms(getNoteText(highlight)));
+    if (!segments) return null;
+
+    return segments
+      .map(segment => segment.clozeIndex
+        ? `{{c${segment.clozeIndex}::${this.toHtml(segment.text)}}}`
+        : this.toHtml(segment.text))
+      .join('');
+  }
+
+  private renderTemplate(template: string, fields: Record<string, string>): string {
+    return template
+      .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_match, field, content) =>
+        fields[field] ? content : '')
+      .replace(/\{\{(\w+)\}\}/g, (_match, field) => fields[field] ?? '');
+  }
+
+  /**
+   * Anki tags cannot contain spaces; hierarchical tags use "::"
+   */
+  private buildTags(book: Book, highlight: Highlight): string[] {
+    return [
+      'booklever',
+      `book::${slugify(book.title)}`,
+      ...highlight.tags
+        .map(tag => tag.trim().replace(/\s+/g, '_').split(TAG_SEPARATOR).join('::'))
+        .filter(Boolean)
+    ];
+  }
+
+  private toHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/\r?\n/g, '<br>');
+  }
+
+  /**
+   * Fields are HTML, so tabs and stray newlines only need flattening
+   */
+  private sanitizeField(value: string): string {
+    return value.replace(/\t/g, ' ').replace(/\r?\n/g, '<br>');
+  }
+}
@@ -0,0 +1,82 @@
+// CSV Formatter - Renders highlights as one spreadsheet row per highlight
+
+import { ExportDocument, HighlightFormatter } from './types';
+import { Highlight, getHighlightStyle, getNoteText, isPageNote, isRegionHighlight } from '@/lib/readers/shared';
+import { formatExportDate } from './utils';
+
+const COLUMNS = [
+  'Book Title',
+  'Author',
+  'ISBN',
+  'Publisher',
+  'Section',
+  'Page',
+  'Highlight',
+  'Note',
+  'Tags',
+  'Color',
+  'Importance',
+  'Created',
+  'Highlight ID',
+  'Type',
+  'Style',
+  'Image'
+];
+
+export class CSVFormatter implements HighlightFormatter {
+  format = 'csv' as const;
+  fileExtension = 'csv';
+  mimeType = 'text/csv';
+
+  /**
+   * Render an export document to CSV (RFC 4180 quoting)
+   * @param document - Grouped highlights to render
+   * @returns CSV text with a header row
+   */
+  render(document: ExportDocument): string {
+    const rows: string[][] = [COLUMNS];
+
+    document.books.forEach(({ book, sections }) => {
+      sections.forEach(section => {
+        section.highlights.forEach(highlight => {
+          rows.push([
+            book.title,
+            book.author,
+            book.metadata?.isbn || '',
+            book.metadata?.publisher || '',
+            section.title,
+            highlight.pageNumber ? String(highlight.pageNumber) : '',
+            highlight.text,
+            getNoteText(highlight),
+            highlight.tags.join('; '),
+            highlight.color,
+            highlight.importance ? String(highlight.importance) : '',
+            formatExportDate(highlight.createdAt),
+            highlight.id,
+            this.getType(highlight),
+            isPageNote(highlight) ? '' : getHighlightStyle(highlight),
+            highlight.image || ''
+          ]);
+        });
+      });
+    });
+
+    return rows.map(row => row.map(cell => this.escape(cell)).join(',')).join('\r\n') + '\r\n';
+  }
+
+  private getType(highlight: Highlight): string {
+    if (isPageNote(highlight)) return 'Page note';
+    if (isRegionHighlight(highlight)) return 'Region';
+    return 'Highlight';
+  }
+
+  /**
+   * Quote a cell when it contains separators, quotes or line breaks
+   */
+  private escape(value: string): string {
+    if (/[",\r\n]/.test(value)) {
+      return `"${value.replace(/"/g, '""')}"`;
+    }
+    return value;
+  }
+}
@@ -0,0 +1,191 @@
+// Highlight Exporter - Renders per-book and whole-library highlight exports
+// Groups highlights by chapter/page and hands them to the formatter for the requested format
+
+import { Book, ExportFormat } from '@/types';
+import { Highlight, compareCFI, isValidCFI } from '@/lib/readers/shared';
+import {
+  BookExport,
+  ExportDocument,
+  ExportResult,
+  HighlightFormatter,
+  HighlightSection
+} from './types';
+import { MarkdownFormatter } from './MarkdownFormatter';
+import { JSONFormatter } from './JSONFormatter';
+import { CSVFormatter } from './CSVFormatter';
+import { TextFormatter } from './TextFormatter';
+import { formatExportDate, slugify } from './utils';
+
+export class HighlightExporter {
+  private formatters: Map<ExportFormat, HighlightFormatter> = new Map();
+
+  constructor() {
+    [
+      new MarkdownFormatter(),
+      new JSONFormatter(),
+      new CSVFormatter(),
+      new TextFormatter()
+    ].forEach(formatter => {
+      this.formatters.set(formatter.format, formatter);
+    });
+  }
+
+  /**
+   * Get the formats this exporter can produce
+   */
+  getSupportedFormats(): ExportFormat[] {
+    return Array.from(this.formatters.keys());
+  }
+
+  /**
+   * Export the highlights of a single book
+   * @param book - Book the highlights belong to
+   * @param highlights - Highlights to export (other books' highlights are ignored)
+   * @param format - Output format
+   * @returns Rendered file
+   */
+  exportBook(book: Book, highlights: Highlight[], format: ExportFormat): ExportResult {
+    const formatter = this.getFormatter(format);
+    const document: ExportDocument = {
+      scope: 'book',
+      exportedAt: new Date(),
+      books: [this.buildBookExport(book, highlights.filter(h => h.bookId === book.id))]
+    };
+
+    return {
+      fileName: `${slugify(book.title)}-highlights.${formatter.fileExtension}`,
+      mimeType: formatter.mimeType,
+      content: formatter.render(document)
+    };
+  }
+
+  /**
+   * Export highlights across the whole library
+   * @param books - Books in the library
+   * @param highlights - All highlights
+   * @param format - Output format
+   * @returns Rendered file; books without highlights are left out
+   */
+  exportLibrary(books: Book[], highlights: Highlight[], format: ExportFormat): ExportResult {
+    const formatter = this.getFormatter(format);
+    const highlightsByBook = new Map<string, Highlight[]>();
+
+    highlights.forEach(highlight => {
+      const bookHighlights = highlightsByBook.get(highlight.bookId) || [];
+      bookHighlights.push(highlight);
+      highlightsByBook.set(highlight.bookId, bookHighlights);
+    });
+
+    const exportedAt = new Date();
+    const document: ExportDocument = {
+      scope: 'library',
+      exportedAt,
+      books: books
+        .filter(book => highlightsByBook.has(book.id))
+        .sort((a, b) => a.title.localeCompare(b.title))
+        .map(book => this.buildBookExport(book, highlightsByBook.get(book.id)!))
+    };
+
+    return {
+      fileName: `booklever-highlights-${formatExportDate(exportedAt)}.${formatter.fileExtension}`,
+      mimeType: formatter.mimeType,
+      content: formatter.render(document)
+    };
+  }
+
+  /**
+   * Trigger a browser download for an export result
+   * @param result - Rendered export
+   */
+  static download(result: ExportResult): void {
+    const type = typeof result.content === 'string' ? `${result.mimeType};charset=utf-8` : result.mimeType;
+    const blob = new Blob([result.content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+
+    link.href = url;
+    link.download = result.fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    // Give the browser a moment to start the download before revoking
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  /**
+   * Look up the formatter for a format
+   */
+  private getFormatter(format: ExportFormat): HighlightFormatter {
+    const formatter = this.formatters.get(format);
+    if (!formatter) {
+      throw new Error(`Unsupported export format: ${format}`);
+    }
+    return formatter;
+  }
+
+  /**
+   * Group a book's highlights into chapter/page sections in reading order
+   * @param book - Book the highlights belong to
+   * @param highlights - The book's highlights, in any order
+   * @returns Sections in reading order
+   */
+  buildBookExport(book: Book, highlights: Highlight[]): BookExport {
+    const ordered = [...highlights].sort((a, b) => {
+      const pageDiff = (a.pageNumber ?? Number.MAX_SAFE_INTEGER) - (b.pageNumber ?? Number.MAX_SAFE_INTEGER);
+      if (pageDiff !== 0) return pageDiff;
+
+      // Highlights without a valid CFI come after all those with one, so the order stays consistent
+      const cfiA = a.position.primary?.type === 'cfi' ? String(a.position.primary.value) : '';
+      const cfiB = b.position.primary?.type === 'cfi' ? String(b.position.primary.value) : '';
+      const validA = isValidCFI(cfiA);
+      const validB = isValidCFI(cfiB);
+      if (validA !== validB) return validA ? -1 : 1;
+      if (validA) {
+        const cfiDiff = compareCFI(cfiA, cfiB);
+        if (cfiDiff !== 0) return cfiDiff;
+      }
+
+      const offsetDiff = (a.position.primary?.textOffset ?? 0) - (b.position.primary?.textOffset ?? 0);
+      if (offsetDiff !== 0) return offsetDiff;
+
+      const createdDiff = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+      if (createdDiff !== 0) return createdDiff;
+
+      return a.id.localeCompare(b.id);
+    });
+
+    const sections: HighlightSection[] = [];
+    const sectionsByTitle = new Map<string, HighlightSection>();
+
+    ordered.forEach(highlight => {
+      const title = this.getSectionTitle(highlight);
+      let section = sectionsByTitle.get(title);
+      if (!section) {
+        section = { title, highlights: [] };
+        sectionsByTitle.set(title, section);
+        sections.push(section);
+      }
+      section.highlights.push(highlight);
+    });
+
+    return {
+      book,
+      sections,
+      totalHighlights: ordered.length
+    };
+  }
+
+  /**
+   * Section heading for a highlight: its chapter, else its page
+   */
+  private getSectionTitle(highlight: Highlight): string {
+    if (highlight.chapter) {
+      return highlight.chapter;
+    }
+    if (highlight.pageNumber) {
+      return `Page ${highlight.pageNumber}`;
+    }
+    return 'Other Highlights';
+  }
+}
@@ -0,0 +1,64 @@
+// JSON Formatter - Renders highlights as structured JSON for re-import and tooling
+
+import { ExportDocument, HighlightFormatter } from './types';
+import { getHighlightStyle, getNoteText, getNoteThread } from '@/lib/readers/shared';
+
+export class JSONFormatter implements HighlightFormatter {
+  format = 'json' as const;
+  fileExtension = 'json';
+  mimeType = 'application/json';
+
+  /**
+   * Render an export document to JSON, keeping the chapter/page grouping
+   * @param document - Grouped highlights to render
+   * @returns Pretty-printed JSON
+   */
+  render(document: ExportDocument): string {
+    const output = {
+      source: 'booklever',
+      version: 1,
+      scope: document.scope,
+      exportedAt: document.exportedAt.toISOString(),
+      books: document.books.map(({ book, sections, totalHighlights }) => ({
+        book: {
+          id: book.id,
+          title: book.title,
+          author: book.author,
+          fileType: book.fileType,
+          rating: book.rating,
+          status: book.status,
+          tags: book.tags || [],
+          metadata: book.metadata || {}
+        },
+        totalHighlights,
+        sections: sections.map(section => ({
+          title: section.title,
+          highlights: section.highlights.map(highlight => ({
+            id: highlight.id,
+            kind: highlight.kind || 'highlight',
+            text: highlight.text,
+            image: highlight.image,
+            note: getNoteText(highlight),
+            notes: getNoteThread(highlight).map(entry => ({
+              text: entry.text,
+              platform: entry.platform,
+              createdAt: entry.createdAt,
+              updatedAt: entry.updatedAt
+            })),
+            tags: highlight.tags,
+            color: highlight.color,
+            style: getHighlightStyle(highlight),
+            importance: highlight.importance,
+            pageNumber: highlight.pageNumber,
+            chapter: highlight.chapter,
+            position: highlight.position,
+            createdAt: highlight.createdAt,
+            updatedAt: highlight.updatedAt
+          }))
+        }))
+      }))
+    };
+
+    return JSON.stringify(output, null, 2);
+  }
+}
@@ -0,0 +1,108 @@
+// Markdown Formatter - Renders highlights as a readable Markdown document
+// Books become headings, chapters/pages become sub-headings and highlights become blockquotes
+
+import { Highlight, getNoteText, isPageNote, isRegionHighlight } from '@/lib/readers/shared';
+import { BookExport, ExportDocument, HighlightFormatter } from './types';
+import { formatExportDate, getBookMetadataEntries, getHighlightAppearance } from './utils';
+
+export class MarkdownFormatter implements HighlightFormatter {
+  format = 'markdown' as const;
+  fileExtension = 'md';
+  mimeType = 'text/markdown';
+
+  /**
+   * Render an export document to Markdown
+   * @param document - Grouped highlights to render
+   * @returns Markdown text
+   */
+  render(document: ExportDocument): string {
+    const lines: string[] = [];
+
+    if (document.scope === 'library') {
+      lines.push('# BookLever Highlights', '');
+      lines.push(`*Exported ${formatExportDate(document.exportedAt)} · ${document.books.length} books*`, '');
+      document.books.forEach(bookExport => {
+        lines.push(...this.renderBook(bookExport, 2));
+      });
+    } else {
+      document.books.forEach(bookExport => {
+        lines.push(...this.renderBook(bookExport, 1));
+      });
+      lines.push(`*Exported from BookLever on ${formatExportDate(document.exportedAt)}*`, '');
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Render highlights on their own, without book or section headings, e.g. for the clipboard
+   * @param highlights - Highlights to render, in the order given
+   * @returns Markdown text
+   */
+  renderHighlights(highlights: Highlight[]): string {
+    return highlights.flatMap(highlight => this.renderHighlight(highlight)).join('\n');
+  }
+
+  /**
+   * Render a single book starting at the given heading level
+   */
+  private renderBook(bookExport: BookExport, level: number): string[] {
+    const { book, sections, totalHighlights } = bookExport;
+    const lines: string[] = [];
+
+    lines.push(`${'#'.repeat(level)} ${book.title}`, '');
+    lines.push(`*by ${book.author}*`, '');
+
+    getBookMetadataEntries(book).forEach(([label, value]) => {
+      lines.push(`- **${label}:** ${value}`);
+    });
+    lines.push(`- **Highlights:** ${totalHighlights}`, '');
+
+    sections.forEach(section => {
+      lines.push(`${'#'.repeat(level + 1)} ${section.title}`, '');
+      section.highlights.forEach(highlight => {
+        lines.push(...this.renderHighlight(highlight));
+      });
+    });
+
+    return lines;
+  }
+
+  /**
+   * Render a highlight as a blockquote followed by its details; page notes have no quote and
+   * regions are embedded as images
+   */
+  private renderHighlight(highlight: Highlight): string[] {
+    const lines: string[] = [];
+    const pageNote = isPageNote(highlight);
+
+    if (isRegionHighlight(highlight)) {
+      if (highlight.image) {
+        lines.push(`![Clipped region, page ${highlight.pageNumber || '?'}](${highlight.image})`, '');
+      }
+    } else if (!pageNote) {
+      highlight.text.split(/\r?\n/).forEach(line => {
+        lines.push(`> ${line}`);
+      });
+      lines.push('');
+    }
+
+    const note = getNoteText(highlight);
+    if (note) {
+      lines.push(`**${pageNote ? 'Page note' : 'Note'}:** ${note}`, '');
+    }
+
+    const details = getHighlightAppearance(highlight);
+    if (highlight.importance) details.push(`Importance: ${highlight.importance}/5`);
+    if (highlight.pageNumber) details.push(`Page ${highlight.pageNumber}`);
+    details.push(formatExportDate(highlight.createdAt));
+    lines.push(`<sub>${details.join(' · ')}</sub>`);
+
+    if (highlight.tags.length > 0) {
+      lines.push('', highlight.tags.map(tag => `#${tag.replace(/\s+/g, '-')}`).join(' '));
+    }
+
+    lines.push('', '---', '');
+    return lines;
+  }
+}
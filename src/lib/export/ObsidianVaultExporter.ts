@@ -0,0 +1,215 @@
+// Obsidian Vault Exporter - Writes one Markdown note per book into a ZIP
+// Output depends only on the books and highlights, so re-exporting overwrites the same files in place
+
+import { Book } from '@/types';
+import { Highlight, getNoteText, isPageNote, isRegionHighlight } from '@/lib/readers/shared';
+import { BookExport, ExportResult } from './types';
+import { HighlightExporter } from './HighlightExporter';
+import { dataUrlToBytes, formatExportDate, getHighlightAppearance } from './utils';
+
+const VAULT_FOLDER = 'BookLever';
+const ATTACHMENTS_FOLDER = 'attachments';
+
+export class ObsidianVaultExporter {
+  private highlightExporter = new HighlightExporter();
+
+  /**
+   * Build a ZIP with one Markdown file per book that has highlights
+   * @param books - Books in the library
+   * @param highlights - Highlights to include
+   * @returns ZIP archive ready for download
+   */
+  async exportVault(books: Book[], highlights: Highlight[]): Promise<ExportResult> {
+    const JSZip = (await import('jszip')).default;
+    const zip = new JSZip();
+
+    // No implicit folder entries: they would be stamped with the current time
+    this.buildFiles(books, highlights).forEach(file => {
+      zip.file(`${VAULT_FOLDER}/${file.name}`, file.content, { date: file.date, createFolders: false });
+    });
+
+    const content = await zip.generateAsync({
+      type: 'blob',
+      mimeType: 'application/zip',
+      compression: 'DEFLATE'
+    });
+
+    return {
+      fileName: 'booklever-obsidian-vault.zip',
+      mimeType: 'application/zip',
+      content
+    };
+  }
+
+  /**
+   * Render the vault files without zipping them: a note per book, plus a PNG attachment per region highlight
+   * @returns Files sorted by name; each dated by its latest highlight change
+   */
+  buildFiles(books: Book[], highlights: Highlight[]): Array<{ name: string; content: string | Uint8Array; date: Date }> {
+    const highlightsByBook = new Map<string, Highlight[]>();
+    highlights.forEach(highlight => {
+      const bookHighlights = highlightsByBook.get(highlight.bookId) || [];
+      bookHighlights.push(highlight);
+      highlightsByBook.set(highlight.bookId, bookHighlights);
+    });
+
+    const usedNames = new Set<string>();
+
+    const notes = books
+      .filter(book => highlightsByBook.has(book.id))
+      .sort((a, b) => a.title.localeCompare(b.title) || a.id.localeCompare(b.id))
+      .map(book => {
+        const bookHighlights = highlightsByBook.get(book.id)!;
+        const bookExport = this.highlightExporter.buildBookExport(book, bookHighlights);
+        const latestChange = Math.max(
+          ...bookHighlights.map(highlight => new Date(highlight.lastModified).getTime())
+        );
+
+        return {
+          name: this.getFileName(book, usedNames),
+          content: this.renderBook(bookExport),
+          date: new Date(latestChange)
+        };
+      });
+
+    const attachments = highlights
+      .filter(highlight => isRegionHighlight(highlight) && highlight.image && books.some(book => book.id === highlight.bookId))
+      .map(highlight => ({
+        name: `${ATTACHMENTS_FOLDER}/${this.getAttachmentName(highlight)}`,
+        content: dataUrlToBytes(highlight.image!),
+        date: new Date(highlight.lastModified)
+      }));
+
+    return [...notes, ...attachments].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Title-based file name, made unique with the author and then the book ID
+   */
+  private getFileName(book: Book, usedNames: Set<string>): string {
+    const candidates = [
+      this.sanitizeFileName(book.title),
+      this.sanitizeFileName(`${book.title} (${book.author})`),
+      this.sanitizeFileName(`${book.title} (${book.id})`)
+    ];
+    const name = candidates.find(candidate => !usedNames.has(candidate.toLowerCase())) || candidates[2];
+    usedNames.add(name.toLowerCase());
+    return `${name}.md`;
+  }
+
+  /**
+   * Strip characters Obsidian does not allow in note names
+   */
+  private sanitizeFileName(value: string): string {
+    const name = value
+      .replace(/[*"\\/<>:|?#^[\]]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .slice(0, 120)
+      .trim();
+    return name || 'Untitled';
+  }
+
+  private renderBook(bookExport: BookExport): string {
+    const { book, sections } = bookExport;
+    const lines: string[] = [...this.renderFrontmatter(bookExport), ''];
+
+    lines.push(`# ${book.title}`, '');
+
+    sections.forEach(section => {
+      lines.push(`## ${section.title}`, '');
+      section.highlights.forEach(highlight => {
+        lines.push(...this.renderHighlight(highlight));
+      });
+    });
+
+    return lines.join('\n').replace(/\n+$/, '\n');
+  }
+
+  /**
+   * YAML frontmatter from the book and its metadata; empty fields are left out
+   */
+  private renderFrontmatter(bookExport: BookExport): string[] {
+    const { book, totalHighlights } = bookExport;
+    const lines = ['---'];
+    const addScalar = (key: string, value: string | number | undefined) => {
+      if (value === undefined || value === '') return;
+      lines.push(`${key}: ${typeof value === 'number' ? value : this.yamlString(value)}`);
+    };
+
+    addScalar('title', book.title);
+    addScalar('author', book.author);
+    addScalar('isbn', book.metadata?.isbn);
+    addScalar('series', book.metadata?.series);
+    addScalar('volume', book.metadata?.volume);
+    if (book.tags && book.tags.length > 0) {
+      lines.push('tags:');
+      [...book.tags].sort().forEach(tag => lines.push(`  - ${this.yamlString(tag.replace(/\s+/g, '-'))}`));
+    }
+    addScalar('rating', book.rating);
+    addScalar('status', book.status);
+    addScalar('highlights', totalHighlights);
+    addScalar('booklever-id', book.id);
+    lines.push('---');
+
+    return lines;
+  }
+
+  /**
+   * Render a highlight as a blockquote anchored with its block ID, followed by its details.
+   * Page notes have no quote, so the note itself carries the block ID; regions embed their attachment
+   */
+  private renderHighlight(highlight: Highlight): string[] {
+    const lines: string[] = [];
+    const note = getNoteText(highlight);
+
+    if (isPageNote(highlight)) {
+      lines.push(`**Page note:** ${note}`, '', `^${this.getBlockId(highlight)}`, '');
+    } else if (isRegionHighlight(highlight)) {
+      if (highlight.image) {
+        lines.push(`![[${this.getAttachmentName(highlight)}]]`);
+      }
+      lines.push('', `^${this.getBlockId(highlight)}`, '');
+
+      if (note) {
+        lines.push(`**Note:** ${note}`, '');
+      }
+    } else {
+      highlight.text.split(/\r?\n/).forEach(line => {
+        lines.push(`> ${line}`);
+      });
+      lines.push('', `^${this.getBlockId(highlight)}`, '');
+
+      if (note) {
+        lines.push(`**Note:** ${note}`, '');
+      }
+    }
+
+    const details = getHighlightAppearance(highlight);
+    if (highlight.importance) details.push(`Importance: ${highlight.importance}/5`);
+    if (highlight.pageNumber) details.push(`Page ${highlight.pageNumber}`);
+    details.push(formatExportDate(highlight.createdAt));
+    if (highlight.tags.length > 0) {
+      details.push([...highlight.tags].sort().map(tag => `#${tag.replace(/\s+/g, '-')}`).join(' '));
+    }
+    lines.push(details.join(' · '), '');
+
+    return lines;
+  }
+
+  private getAttachmentName(highlight: Highlight): string {
+    return `${this.getBlockId(highlight)}.png`;
+  }
+
+  /**
+   * Obsidian block IDs may only contain letters, numbers and dashes
+   */
+  private getBlockId(highlight: Highlight): string {
+    const id = highlight.id.replace(/[^A-Za-z0-9-]/g, '-');
+    return id.startsWith('highlight-') ? id : `highlight-${id}`;
+  }
+
+  private yamlString(value: string): string {
+    return JSON.stringify(value);
+  }
+}
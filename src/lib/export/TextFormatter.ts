@@ -0,0 +1,65 @@
+// Text Formatter - Renders highlights as plain text for pasting anywhere
+
+import { BookExport, ExportDocument, HighlightFormatter } from './types';
+import { getNoteText, isPageNote, isRegionHighlight } from '@/lib/readers/shared';
+import { formatExportDate, getBookMetadataEntries, getHighlightAppearance } from './utils';
+
+export class TextFormatter implements HighlightFormatter {
+  format = 'txt' as const;
+  fileExtension = 'txt';
+  mimeType = 'text/plain';
+
+  /**
+   * Render an export document to plain text
+   * @param document - Grouped highlights to render
+   * @returns Plain text
+   */
+  render(document: ExportDocument): string {
+    const blocks = document.books.map(bookExport => this.renderBook(bookExport));
+
+    blocks.push(`Exported from BookLever on ${formatExportDate(document.exportedAt)}`);
+    return blocks.join('\n\n') + '\n';
+  }
+
+  /**
+   * Render a single book with an underlined title and indented details
+   */
+  private renderBook({ book, sections, totalHighlights }: BookExport): string {
+    const lines: string[] = [];
+    const heading = `${book.title} — ${book.author}`;
+
+    lines.push(heading, '='.repeat(heading.length));
+    getBookMetadataEntries(book).forEach(([label, value]) => {
+      lines.push(`${label}: ${value}`);
+    });
+    lines.push(`Highlights: ${totalHighlights}`);
+
+    sections.forEach(section => {
+      lines.push('', section.title, '-'.repeat(section.title.length));
+
+      section.highlights.forEach(highlight => {
+        const note = getNoteText(highlight, '\n          ');
+        if (isPageNote(highlight)) {
+          lines.push('', `Page note: ${note}`);
+        } else {
+          // Plain text cannot hold the image, so a region is named instead
+          lines.push('', isRegionHighlight(highlight) ? `[Clipped region, page ${highlight.pageNumber || '?'}]` : `"${highlight.text}"`);
+          if (note) {
+            lines.push(`    Note: ${note}`);
+          }
+        }
+        if (highlight.tags.length > 0) {
+          lines.push(`    Tags: ${highlight.tags.join(', ')}`);
+        }
+
+        const details = getHighlightAppearance(highlight);
+        if (highlight.importance) details.push(`Importance: ${highlight.importance}/5`);
+        if (highlight.pageNumber) details.push(`Page ${highlight.pageNumber}`);
+        details.push(formatExportDate(highlight.createdAt));
+        lines.push(`    ${details.join(' | ')}`);
+      });
+    });
+
+    return lines.join('\n');
+  }
+}
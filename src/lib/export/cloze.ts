@@ -0,0 +1,77 @@
+// Cloze helpers - Words marked in a highlight's note become blanks in its text
+// Marks use Markdown emphasis: ==term== or **term**
+
+import { ClozeSegment } from './types';
+
+const MARK_PATTERN = /==(.+?)==|\*\*(.+?)\*\*/g;
+
+/**
+ * Get the terms marked in a note, in order and without duplicates
+ */
+export function extractMarkedTerms(note?: string): string[] {
+  if (!note) return [];
+
+  const terms: string[] = [];
+  for (const match of note.matchAll(MARK_PATTERN)) {
+    const term = (match[1] ?? match[2]).trim();
+    if (term && !terms.some(existing => existing.toLowerCase() === term.toLowerCase())) {
+      terms.push(term);
+    }
+  }
+  return terms;
+}
+
+/**
+ * Remove the mark syntax from a note, keeping the marked words
+ */
+export function stripMarks(note?: string): string {
+  if (!note) return '';
+  return note.replace(MARK_PATTERN, (_match, equals, bold) => equals ?? bold);
+}
+
+/**
+ * Split text into plain and blanked segments, blanking the first occurrence of each term
+ * @param text - Highlight text
+ * @param terms - Terms to blank; terms not found in the text are skipped
+ * @returns Segments in text order, or null if no term was found
+ */
+export function buildClozeSegments(text: string, terms: string[]): ClozeSegment[] | null {
+  const ranges: Array<{ start: number; end: number }> = [];
+  const lowerText = text.toLowerCase();
+
+  terms.forEach(term => {
+    let from = 0;
+    while (from < lowerText.length) {
+      const start = lowerText.indexOf(term.toLowerCase(), from);
+      if (start === -1) return;
+
+      const end = start + term.length;
+      if (!ranges.some(range => start < range.end && range.start < end)) {
+        ranges.push({ start, end });
+        return;
+      }
+      from = start + 1;
+    }
+  });
+
+  if (ranges.length === 0) {
+    return null;
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+
+  const segments: ClozeSegment[] = [];
+  let cursor = 0;
+  ranges.forEach((range, index) => {
+    if (range.start > cursor) {
+      segments.push({ text: text.slice(cursor, range.start) });
+    }
+    segments.push({ text: text.slice(range.start, range.end), clozeIndex: index + 1 });
+    cursor = range.end;
+  });
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor) });
+  }
+
+  return segments;
+}
@@ -0,0 +1,25 @@
+// Highlight Export - Main export file
+
+export { HighlightExporter } from './HighlightExporter';
+export { MarkdownFormatter } from './MarkdownFormatter';
+export { JSONFormatter } from './JSONFormatter';
+export { CSVFormatter } from './CSVFormatter';
+export { TextFormatter } from './TextFormatter';
+export { ObsidianVaultExporter } from './ObsidianVaultExporter';
+export {
+  AnkiExporter,
+  DEFAULT_ANKI_OPTIONS,
+  DEFAULT_ANKI_FRONT_TEMPLATE,
+  DEFAULT_ANKI_BACK_TEMPLATE
+} from './AnkiExporter';
+export { extractMarkedTerms, stripMarks, buildClozeSegments } from './cloze';
+
+export type {
+  HighlightSection,
+  BookExport,
+  ExportDocument,
+  HighlightFormatter,
+  ExportResult,
+  AnkiExportOptions,
+  ClozeSegment
+} from './types';
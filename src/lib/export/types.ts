@@ -0,0 +1,51 @@
+// Highlight Export Types
+// Shared shapes for rendering highlights into the formats offered by UserPreferences.exportFormat
+
+import { Book, ExportFormat } from '@/types';
+import { Highlight } from '@/lib/readers/shared';
+
+export interface HighlightSection {
+  title: string; // Chapter name, or "Page N" when no chapter is known
+  highlights: Highlight[];
+}
+
+export interface BookExport {
+  book: Book;
+  sections: HighlightSection[];
+  totalHighlights: number;
+}
+
+export interface ExportDocument {
+  scope: 'book' | 'library';
+  exportedAt: Date;
+  books: BookExport[];
+}
+
+export interface HighlightFormatter {
+  format: ExportFormat;
+  fileExtension: string;
+  mimeType: string;
+  render(document: ExportDocument): string;
+}
+
+export interface ExportResult {
+  fileName: string;
+  mimeType: string;
+  content: string | Blob; // Blob for archives such as the vault ZIP
+}
+
+export interface AnkiExportOptions {
+  deckName: string;
+  splitByBook: boolean; // One subdeck per book ("Deck::Book Title")
+  includeBasic: boolean;
+  includeCloze: boolean;
+  frontTemplate: string;
+  backTemplate: string;
+  bookIds?: string[]; // Limit to these books (all books when empty)
+  tags?: string[]; // Limit to highlights with any of these tags (all when empty)
+}
+
+export interface ClozeSegment {
+  text: string;
+  clozeIndex?: number; // 1-based; unset for plain text
+}
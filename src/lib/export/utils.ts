@@ -0,0 +1,71 @@
+// Export helpers shared by the highlight formatters
+
+import { format } from 'date-fns';
+import { Book } from '@/types';
+import { Highlight, getHighlightStyle, getHighlightStyleName, isPageNote } from '@/lib/readers/shared';
+
+/**
+ * Format a date (or serialized date) as YYYY-MM-DD
+ */
+export function formatExportDate(date: Date | string): string {
+  return format(new Date(date), 'yyyy-MM-dd');
+}
+
+/**
+ * Get the book metadata worth printing in an export header, in display order
+ */
+export function getBookMetadataEntries(book: Book): Array<[string, string]> {
+  const entries: Array<[string, string]> = [];
+  const metadata = book.metadata || {};
+
+  if (metadata.series) {
+    entries.push(['Series', metadata.volume ? `${metadata.series} #${metadata.volume}` : metadata.series]);
+  }
+  if (metadata.publisher) entries.push(['Publisher', metadata.publisher]);
+  if (metadata.publicationDate) entries.push(['Published', formatExportDate(metadata.publicationDate)]);
+  if (metadata.isbn) entries.push(['ISBN', metadata.isbn]);
+  if (metadata.language) entries.push(['Language', metadata.language]);
+  if (metadata.genre) entries.push(['Genre', metadata.genre]);
+  if (book.rating) entries.push(['Rating', `${book.rating}/5`]);
+  if (book.status) entries.push(['Status', book.status]);
+  if (book.tags && book.tags.length > 0) entries.push(['Tags', book.tags.join(', ')]);
+  entries.push(['Format', book.fileType.toUpperCase()]);
+
+  return entries;
+}
+
+/**
+ * Color and, when it is not a plain fill, style of a highlight as detail entries; page notes have neither
+ */
+export function getHighlightAppearance(highlight: Highlight): string[] {
+  if (isPageNote(highlight)) {
+    return [];
+  }
+
+  const style = getHighlightStyle(highlight);
+  const details = [`Color: ${highlight.color}`];
+  if (style !== 'fill') details.push(`Style: ${getHighlightStyleName(style)}`);
+  return details;
+}
+
+/**
+ * Decode a base64 data URL, e.g. a region highlight's PNG, into bytes
+ */
+export function dataUrlToBytes(dataUrl: string): Uint8Array {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * Turn a title into a safe file name fragment
+ */
+export function slugify(value: string): string {
+  const slug = value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  return slug || 'untitled';
+}
@@ -0,0 +1,208 @@
+// Annotation Mapper - Groups parsed annotations by book and turns them into highlight records
+// Has no storage dependencies, so it runs both in the browser importer and in API routes
+
+import { Book } from '@/types';
+import { Highlight, Position, createNoteEntry } from '@/lib/readers/shared';
+import { BookMatcher } from './BookMatcher';
+import {
+  BookMatch,
+  ImportedAnnotation,
+  ImportPreviewBook,
+  ImportSource
+} from './types';
+import { hashString, normalizeText } from './utils';
+
+// Imported text has no rendered position yet, only the text to search for
+const IMPORTED_POSITION_CONFIDENCE = 0.3;
+// Page coordinates from another reader's layout are close, but not exact
+const IMPORTED_RECT_CONFIDENCE = 0.7;
+
+/**
+ * Annotations for one source book, with the library book they will be attached to
+ */
+export interface AnnotationGroup {
+  key: string;
+  title: string;
+  author?: string;
+  match: BookMatch | null;
+  placeholder?: Book;
+  bookId: string;
+  annotations: ImportedAnnotation[];
+}
+
+export class AnnotationMapper {
+  private source: ImportSource;
+
+  constructor(source: ImportSource) {
+    this.source = source;
+  }
+
+  /**
+   * Group annotations by source book and match each group against the library
+   * @param annotations - Parsed annotations
+   * @param books - Books to match against
+   * @returns One group per source book; unmatched groups carry a placeholder book
+   */
+  groupByBook(annotations: ImportedAnnotation[], books: Book[]): AnnotationGroup[] {
+    const matcher = new BookMatcher(books);
+    const groups = new Map<string, ImportedAnnotation[]>();
+
+    annotations.forEach(annotation => {
+      const key = AnnotationMapper.getBookKey(annotation.bookTitle, annotation.bookAuthor);
+      if (!groups.has(key)) {
+        groups.set(key, []);
+      }
+      groups.get(key)!.push(annotation);
+    });
+
+    return Array.from(groups, ([key, group]) => {
+      const { bookTitle, bookAuthor } = group[0];
+      const match = matcher.match(bookTitle, bookAuthor);
+      const placeholder = match ? undefined : this.createPlaceholderBook(key, bookTitle, bookAuthor);
+
+      return {
+        key,
+        title: bookTitle,
+        author: bookAuthor,
+        match,
+        placeholder,
+        bookId: match ? match.book.id : placeholder!.id,
+        annotations: group
+      };
+    });
+  }
+
+  /**
+   * Build preview entries without checking for duplicates, for callers that cannot
+   * see the local database (duplicates are counted later by HighlightImporter)
+   * @param annotations - Parsed annotations
+   * @param books - Books to match against
+   * @returns Preview entries sorted by title, with every non-bookmark entry as a highlight
+   */
+  buildPreviewBooks(annotations: ImportedAnnotation[], books: Book[]): ImportPreviewBook[] {
+    return this.groupByBook(annotations, books)
+      .map(group => ({
+        key: group.key,
+        title: group.title,
+        author: group.author,
+        match: group.match,
+        placeholder: group.placeholder,
+        highlights: group.annotations
+          .filter(annotation => annotation.kind !== 'bookmark')
+          .map(annotation => this.createHighlight(group.bookId, annotation)),
+        duplicates: 0,
+        bookmarks: group.annotations.filter(annotation => annotation.kind === 'bookmark').length
+      }))
+      .sort((a, b) => a.title.localeCompare(b.title));
+  }
+
+  /**
+   * Build a highlight whose ID is derived from the source entry, so re-importing
+   * the same file produces the same IDs
+   */
+  createHighlight(bookId: string, annotation: ImportedAnnotation): Highlight {
+    const now = new Date();
+    const isStandaloneNote = annotation.kind === 'note';
+    const fingerprint = [
+      normalizeText(annotation.bookTitle),
+      annotation.kind,
+      this.getAnchor(annotation),
+      normalizeText(annotation.text)
+    ].join('|');
+
+    const id = `${this.source}-${hashString(fingerprint)}`;
+
+    return {
+      id,
+      bookId,
+      text: annotation.text,
+      color: annotation.color || 'yellow',
+      style: annotation.style,
+      notes: annotation.note
+        ? [createNoteEntry(annotation.note, 'web', `${id}-note`, annotation.createdAt || now)]
+        : [],
+      tags: [...(annotation.tags || []), ...(isStandaloneNote ? ['note'] : [])],
+      pageNumber: annotation.pageNumber,
+      chapter: annotation.chapter,
+      position: this.createPosition(annotation),
+      createdAt: annotation.createdAt || now,
+      updatedAt: now,
+      lastModified: now,
+      platform: 'web',
+      reviewHistory: []
+    };
+  }
+
+  /**
+   * Key identifying a source book by its normalized title and author
+   */
+  static getBookKey(title: string, author?: string): string {
+    return `${normalizeText(title)}|${normalizeText(author || '')}`;
+  }
+
+  /**
+   * Metadata-only book for annotations that do not match anything in the library
+   */
+  private createPlaceholderBook(key: string, title: string, author?: string): Book {
+    return {
+      id: `${this.source}-book-${hashString(key)}`,
+      title,
+      author: author || 'Unknown Author',
+      fileType: 'epub',
+      fileSize: 0,
+      uploadDate: new Date(),
+      progress: 0,
+      isPlaceholder: true
+    };
+  }
+
+  /**
+   * Best position available without the book's file: the PDF rectangle if there is one,
+   * otherwise just the text to search for
+   */
+  private createPosition(annotation: ImportedAnnotation): Position {
+    const fallback = {
+      textContent: annotation.text,
+      pageNumber: annotation.pageNumber
+    };
+
+    if (annotation.rect) {
+      return {
+        primary: {
+          type: 'coordinates',
+          value: { ...annotation.rect }
+        },
+        fallback: {
+          ...fallback,
+          chapterId: `page-${annotation.rect.pageNumber}`,
+          pageNumber: annotation.rect.pageNumber
+        },
+        confidence: IMPORTED_RECT_CONFIDENCE
+      };
+    }
+
+    return {
+      fallback,
+      confidence: IMPORTED_POSITION_CONFIDENCE
+    };
+  }
+
+  /**
+   * Where the entry sits in the source, as recorded by the source device
+   */
+  private getAnchor(annotation: ImportedAnnotation): string {
+    if (annotation.sourceId) {
+      return annotation.sourceId;
+    }
+    if (annotation.location) {
+      return `${annotation.location.start}-${annotation.location.end}`;
+    }
+    if (annotation.xpointer) {
+      return `${annotation.xpointer.start}-${annotation.xpointer.end}`;
+    }
+    if (annotation.rect) {
+      return `${annotation.rect.pageNumber}:${annotation.rect.x},${annotation.rect.y}`;
+    }
+    return '';
+  }
+}
@@ -0,0 +1,92 @@
+// Book Matcher - Fuzzy matches imported titles/authors against books in the library
+// Tolerates subtitles, edition suffixes and "Last, First" author formatting
+
+import { Book } from '@/types';
+import { BookMatch } from './types';
+import { normalizeText, similarity } from './utils';
+
+const MATCH_THRESHOLD = 0.75;
+const TITLE_WEIGHT = 0.8;
+const UNKNOWN_AUTHOR = 'unknown author';
+
+export class BookMatcher {
+  private books: Book[];
+
+  constructor(books: Book[]) {
+    this.books = books;
+  }
+
+  /**
+   * Find the library book that best matches a title and optional author
+   * @param title - Title as written by the source device
+   * @param author - Author as written by the source device
+   * @returns The best match above the threshold, or null
+   */
+  match(title: string, author?: string): BookMatch | null {
+    let best: BookMatch | null = null;
+
+    for (const book of this.books) {
+      const score = this.score(title, author, book);
+      if (score >= MATCH_THRESHOLD && (!best || score > best.score)) {
+        best = { book, score };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Score how well a title/author pair describes a book
+   */
+  private score(title: string, author: string | undefined, book: Book): number {
+    const titleScore = Math.max(
+      similarity(BookMatcher.normalizeTitle(title), BookMatcher.normalizeTitle(book.title)),
+      similarity(BookMatcher.mainTitle(title), BookMatcher.mainTitle(book.title))
+    );
+
+    const importedAuthor = author ? BookMatcher.normalizeAuthor(author) : '';
+    const bookAuthor = book.author ? BookMatcher.normalizeAuthor(book.author) : '';
+
+    // Without both authors we can only trust the title, and slightly less so
+    if (!importedAuthor || !bookAuthor || bookAuthor === UNKNOWN_AUTHOR) {
+      return titleScore * 0.95;
+    }
+
+    const authorScore = similarity(importedAuthor, bookAuthor);
+    return titleScore * TITLE_WEIGHT + authorScore * (1 - TITLE_WEIGHT);
+  }
+
+  /**
+   * Normalize a title, dropping bracketed suffixes and leading articles
+   */
+  static normalizeTitle(title: string): string {
+    const withoutBrackets = title.replace(/\([^)]*\)|\[[^\]]*\]/g, ' ');
+    return normalizeText(withoutBrackets).replace(/^(the|a|an) /, '');
+  }
+
+  /**
+   * Normalize only the part of a title before its subtitle
+   */
+  static mainTitle(title: string): string {
+    return BookMatcher.normalizeTitle(title.split(/:| - /)[0]);
+  }
+
+  /**
+   * Normalize an author name so that "Orwell, George" and "George Orwell" compare equal
+   */
+  static normalizeAuthor(author: string): string {
+    const names = author
+      .split(/;|&| and /)
+      .map(name => {
+        const [last, first] = name.split(',');
+        return first ? `${first} ${last}` : name;
+      })
+      .map(normalizeText)
+      .filter(Boolean);
+
+    return names
+      .map(name => name.split(' ').sort().join(' '))
+      .sort()
+      .join(' ');
+  }
+}
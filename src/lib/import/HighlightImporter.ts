@@ -0,0 +1,235 @@
+// Highlight Importer - Turns parsed annotations into books and highlights
+// Builds a preview (book matches, new vs. duplicate highlights) and writes it once confirmed
+
+import { Book } from '@/types';
+import { Highlight } from '@/lib/readers/shared';
+import { IndexedDBService } from '@/lib/storage/indexedDB';
+import { AnnotationMapper } from './AnnotationMapper';
+import { XPointerResolver } from './XPointerResolver';
+import {
+  ImportedAnnotation,
+  ImportedReadingState,
+  ImportPreview,
+  ImportPreviewBook,
+  ImportResult,
+  ImportSource
+} from './types';
+import { normalizeText } from './utils';
+
+export class HighlightImporter {
+  private indexedDB: IndexedDBService;
+
+  constructor(indexedDB: IndexedDBService) {
+    this.indexedDB = indexedDB;
+  }
+
+  /**
+   * Match annotations to library books and work out which highlights are new
+   * @param source - Where the annotations came from
+   * @param annotations - Parsed annotations
+   * @param books - Books to match against (usually the current library)
+   * @returns A preview that can be shown to the user and passed to commit()
+   */
+  async preview(source: ImportSource, annotations: ImportedAnnotation[], books: Book[]): Promise<ImportPreview> {
+    const mapper = new AnnotationMapper(source);
+    const previewBooks: ImportPreviewBook[] = [];
+
+    for (const group of mapper.groupByBook(annotations, books)) {
+      const { seenIds, seenTexts } = await this.getExistingHighlights(group.bookId);
+
+      const highlights: Highlight[] = [];
+      let duplicates = 0;
+      let bookmarks = 0;
+      const resolver = group.match ? await this.getXPointerResolver(group.bookId, group.annotations) : null;
+
+      for (const annotation of group.annotations) {
+        if (annotation.kind === 'bookmark') {
+          bookmarks++;
+          continue;
+        }
+
+        const highlight = mapper.createHighlight(group.bookId, annotation);
+        const normalizedText = normalizeText(highlight.text);
+        if (seenIds.has(highlight.id) || seenTexts.has(normalizedText)) {
+          duplicates++;
+          continue;
+        }
+
+        if (resolver && annotation.xpointer) {
+          const resolved = await resolver.resolve(annotation.xpointer, annotation.text);
+          if (resolved) {
+            highlight.position = {
+              ...resolved,
+              fallback: { ...resolved.fallback, pageNumber: annotation.pageNumber }
+            };
+          }
+        }
+
+        seenIds.add(highlight.id);
+        seenTexts.add(normalizedText);
+        highlights.push(highlight);
+      }
+
+      previewBooks.push({
+        key: group.key,
+        title: group.title,
+        author: group.author,
+        match: group.match,
+        placeholder: group.placeholder,
+        highlights,
+        duplicates,
+        bookmarks
+      });
+    }
+
+    previewBooks.sort((a, b) => a.title.localeCompare(b.title));
+
+    return this.summarize(source, previewBooks, annotations.length);
+  }
+
+  /**
+   * Drop highlights that are already in the library from preview entries built elsewhere
+   * (e.g. by an API route with AnnotationMapper.buildPreviewBooks)
+   * @param source - Where the annotations came from
+   * @param previewBooks - Preview entries whose duplicates have not been counted yet
+   * @param totalEntries - Number of entries read from the source
+   * @returns A preview that can be shown to the user and passed to commit()
+   */
+  async checkDuplicates(source: ImportSource, previewBooks: ImportPreviewBook[], totalEntries: number): Promise<ImportPreview> {
+    const checkedBooks: ImportPreviewBook[] = [];
+
+    for (const previewBook of previewBooks) {
+      const bookId = previewBook.match ? previewBook.match.book.id : previewBook.placeholder!.id;
+      const { seenIds, seenTexts } = await this.getExistingHighlights(bookId);
+
+      const highlights = previewBook.highlights.filter(highlight => {
+        const normalizedText = normalizeText(highlight.text);
+        if (seenIds.has(highlight.id) || seenTexts.has(normalizedText)) {
+          return false;
+        }
+        seenIds.add(highlight.id);
+        seenTexts.add(normalizedText);
+        return true;
+      });
+
+      checkedBooks.push({
+        ...previewBook,
+        highlights,
+        duplicates: previewBook.duplicates + previewBook.highlights.length - highlights.length
+      });
+    }
+
+    return this.summarize(source, checkedBooks, totalEntries);
+  }
+
+  /**
+   * Write a confirmed preview to IndexedDB
+   * @param preview - Preview returned by preview(), optionally with books removed
+   * @returns Counts of what was written
+   */
+  async commit(preview: ImportPreview): Promise<ImportResult> {
+    let booksCreated = 0;
+    let highlightsImported = 0;
+    let progressUpdated = 0;
+
+    for (const previewBook of preview.books) {
+      if (previewBook.match && previewBook.readingState) {
+        if (await this.applyReadingState(previewBook.match.book.id, previewBook.readingState)) {
+          progressUpdated++;
+        }
+      }
+
+      if (previewBook.highlights.length === 0) {
+        continue;
+      }
+
+      if (previewBook.placeholder) {
+        const now = new Date();
+        await this.indexedDB.storeBook({
+          ...previewBook.placeholder,
+          ...previewBook.readingState,
+          fileData: new Uint8Array(0),
+          cachedAt: now,
+          lastAccessed: now
+        });
+        booksCreated++;
+      }
+
+      for (const highlight of previewBook.highlights) {
+        await this.indexedDB.storeHighlight(highlight);
+        highlightsImported++;
+      }
+    }
+
+    console.log(`HighlightImporter: Imported ${highlightsImported} highlights (${booksCreated} new books) from ${preview.source}`);
+
+    return {
+      booksCreated,
+      highlightsImported,
+      duplicatesSkipped: preview.duplicates,
+      progressUpdated
+    };
+  }
+
+  /**
+   * Copy reading progress from the source device onto a locally stored book,
+   * unless the book has been read more recently here
+   */
+  private async applyReadingState(bookId: string, readingState: ImportedReadingState): Promise<boolean> {
+    const storedBook = await this.indexedDB.getBook(bookId);
+    if (!storedBook || !readingState.lastRead) {
+      return false;
+    }
+
+    if (storedBook.lastRead && new Date(storedBook.lastRead).getTime() >= readingState.lastRead.getTime()) {
+      return false;
+    }
+
+    await this.indexedDB.storeBook({
+      ...storedBook,
+      progress: readingState.progress,
+      lastRead: readingState.lastRead,
+      status: readingState.status || storedBook.status
+    });
+    return true;
+  }
+
+  /**
+   * IDs and normalized texts of the highlights a book already has, including ones merged away,
+   * so a re-import does not bring back duplicates that were merged
+   */
+  private async getExistingHighlights(bookId: string): Promise<{ seenIds: Set<string>; seenTexts: Set<string> }> {
+    const existing = await this.indexedDB.getHighlightsForBook(bookId, true);
+    return {
+      seenIds: new Set(existing.map(highlight => highlight.id)),
+      seenTexts: new Set(existing.map(highlight => normalizeText(highlight.text)))
+    };
+  }
+
+  private summarize(source: ImportSource, previewBooks: ImportPreviewBook[], totalEntries: number): ImportPreview {
+    return {
+      source,
+      books: previewBooks,
+      totalEntries,
+      newHighlights: previewBooks.reduce((sum, book) => sum + book.highlights.length, 0),
+      duplicates: previewBooks.reduce((sum, book) => sum + book.duplicates, 0),
+      bookmarks: previewBooks.reduce((sum, book) => sum + book.bookmarks, 0)
+    };
+  }
+
+  /**
+   * Open the book's local EPUB when the annotations carry XPointers that can be mapped onto it
+   */
+  private async getXPointerResolver(bookId: string, annotations: ImportedAnnotation[]): Promise<XPointerResolver | null> {
+    if (!annotations.some(annotation => annotation.xpointer)) {
+      return null;
+    }
+
+    const storedBook = await this.indexedDB.getBook(bookId);
+    if (!storedBook || storedBook.fileType !== 'epub' || !storedBook.fileData?.length) {
+      return null;
+    }
+
+    return XPointerResolver.fromEpub(storedBook.fileData);
+  }
+}
@@ -0,0 +1,253 @@
+// KOReader Sidecar Parser - Reads the metadata.<ext>.lua files KOReader keeps in each book's .sdr folder
+// Handles the current "annotations" list as well as the older "highlight" + "bookmarks" tables
+
+import { Highlight } from '@/lib/readers/shared';
+import { ImportedAnnotation } from './types';
+import { LuaValue, parseLuaTable } from './luaTable';
+
+type LuaTable = { [key: string]: LuaValue };
+
+const COLOR_MAP: Record<string, Highlight['color']> = {
+  yellow: 'yellow',
+  orange: 'yellow',
+  gray: 'yellow',
+  green: 'green',
+  olive: 'green',
+  cyan: 'blue',
+  blue: 'blue',
+  red: 'pink',
+  purple: 'pink'
+};
+
+// KOReader drawing styles other than the default "lighten"
+const DRAWER_STYLES: Record<string, Highlight['style']> = {
+  lighten: 'fill',
+  underscore: 'underline',
+  strikeout: 'strikethrough'
+};
+
+// Drawing styles with no highlight style of their own, kept as tags
+const DRAWER_TAGS: Record<string, string> = {
+  invert: 'inverted'
+};
+
+export class KOReaderSidecarParser {
+  /**
+   * Parse a KOReader sidecar file
+   * @param content - Contents of metadata.<ext>.lua
+   * @param fileName - Path of the sidecar (e.g. "Dune.sdr/metadata.epub.lua"), used when the file has no title
+   * @returns Highlights, notes and bookmarks for the sidecar's book
+   */
+  parse(content: string, fileName?: string): ImportedAnnotation[] {
+    const root = parseLuaTable(content);
+    if (!this.isTable(root)) {
+      throw new Error('KOReader sidecar does not contain a table');
+    }
+
+    const { title, author } = this.getBookInfo(root, fileName);
+
+    const entries = Array.isArray(root.annotations)
+      ? root.annotations.filter(this.isTable).map(entry => this.parseAnnotation(entry))
+      : this.parseLegacyHighlights(root);
+
+    return entries
+      .filter((entry): entry is Omit<ImportedAnnotation, 'bookTitle' | 'bookAuthor'> => entry !== null)
+      .map(entry => ({ ...entry, bookTitle: title, bookAuthor: author }));
+  }
+
+  private getBookInfo(root: LuaTable, fileName?: string): { title: string; author?: string } {
+    const docProps = this.isTable(root.doc_props) ? root.doc_props : {};
+    const stats = this.isTable(root.stats) ? root.stats : {};
+
+    const title =
+      this.getString(docProps.title) ||
+      this.getString(stats.title) ||
+      this.titleFromPath(this.getString(root.doc_path)) ||
+      this.titleFromPath(fileName?.replace(/\.sdr\/.*$/, '')) ||
+      'Untitled';
+
+    // Multiple authors are newline-separated
+    const authors = this.getString(docProps.authors) || this.getString(stats.authors);
+    const author = authors
+      ? authors.split('\n').map(name => name.trim()).filter(Boolean).join('; ')
+      : undefined;
+
+    return { title, author };
+  }
+
+  /**
+   * Current format: one entry per highlight/bookmark, notes inline
+   */
+  private parseAnnotation(entry: LuaTable): Omit<ImportedAnnotation, 'bookTitle' | 'bookAuthor'> | null {
+    const text = this.getString(entry.text) || '';
+    const note = this.getString(entry.note);
+    const hasSelection = entry.pos0 !== undefined && entry.pos1 !== undefined;
+
+    if (!hasSelection) {
+      return {
+        kind: 'bookmark',
+        text: '',
+        note,
+        pageNumber: this.getNumber(entry.pageno) ?? this.getNumber(entry.page),
+        chapter: this.getString(entry.chapter),
+        createdAt: this.parseDate(entry.datetime)
+      };
+    }
+
+    if (!text) {
+      return null;
+    }
+
+    return {
+      kind: 'highlight',
+      text,
+      note,
+      chapter: this.getString(entry.chapter),
+      createdAt: this.parseDate(entry.datetime),
+      color: this.mapColor(entry.color),
+      style: this.mapDrawerStyle(entry.drawer),
+      tags: this.mapDrawer(entry.drawer),
+      ...this.parsePositions(entry.pos0, entry.pos1, this.getNumber(entry.pageno) ?? this.getNumber(entry.page))
+    };
+  }
+
+  /**
+   * Older format: highlights grouped by page, with notes stored on the matching bookmark
+   */
+  private parseLegacyHighlights(root: LuaTable): Array<Omit<ImportedAnnotation, 'bookTitle' | 'bookAuthor'> | null> {
+    const bookmarks = Array.isArray(root.bookmarks) ? root.bookmarks.filter(this.isTable) : [];
+    const results: Array<Omit<ImportedAnnotation, 'bookTitle' | 'bookAuthor'> | null> = [];
+    const highlightTable = root.highlight;
+
+    const pages: Array<[number | undefined, LuaValue]> = Array.isArray(highlightTable)
+      ? highlightTable.map((items, index) => [index + 1, items])
+      : this.isTable(highlightTable)
+        ? Object.entries(highlightTable).map(([page, items]) => [Number(page) || undefined, items])
+        : [];
+
+    pages.forEach(([page, items]) => {
+      const list = Array.isArray(items) ? items : this.isTable(items) ? Object.values(items) : [];
+      list.filter(this.isTable).forEach(item => {
+        const text = this.getString(item.text);
+        if (!text || item.pos0 === undefined || item.pos1 === undefined) return;
+
+        const bookmark = bookmarks.find(candidate =>
+          this.samePosition(candidate.pos0, item.pos0) && this.samePosition(candidate.pos1, item.pos1)
+        );
+        const bookmarkText = bookmark ? this.getString(bookmark.text) : undefined;
+        const note = bookmarkText && bookmarkText !== this.getString(bookmark!.notes) && !/^Page \d+/.test(bookmarkText)
+          ? bookmarkText
+          : undefined;
+
+        results.push({
+          kind: 'highlight',
+          text,
+          note,
+          chapter: this.getString(item.chapter),
+          createdAt: this.parseDate(item.datetime),
+          color: this.mapColor(item.color),
+          style: this.mapDrawerStyle(item.drawer),
+          tags: this.mapDrawer(item.drawer),
+          ...this.parsePositions(item.pos0, item.pos1, page)
+        });
+      });
+    });
+
+    bookmarks
+      .filter(bookmark => !bookmark.highlighted && bookmark.pos0 === undefined)
+      .forEach(bookmark => {
+        results.push({
+          kind: 'bookmark',
+          text: '',
+          pageNumber: this.getNumber(bookmark.page),
+          chapter: this.getString(bookmark.chapter),
+          createdAt: this.parseDate(bookmark.datetime)
+        });
+      });
+
+    return results;
+  }
+
+  /**
+   * EPUB selections are XPointer strings; PDF selections are page coordinates
+   */
+  private parsePositions(
+    pos0: LuaValue,
+    pos1: LuaValue,
+    page?: number
+  ): Pick<ImportedAnnotation, 'xpointer' | 'rect' | 'pageNumber'> {
+    if (typeof pos0 === 'string' && typeof pos1 === 'string') {
+      return { xpointer: { start: pos0, end: pos1 }, pageNumber: page };
+    }
+
+    if (this.isTable(pos0) && this.isTable(pos1)) {
+      const pageNumber = this.getNumber(pos0.page) ?? page;
+      const x0 = this.getNumber(pos0.x) ?? 0;
+      const y0 = this.getNumber(pos0.y) ?? 0;
+      const x1 = this.getNumber(pos1.x) ?? x0;
+      const y1 = this.getNumber(pos1.y) ?? y0;
+
+      if (pageNumber !== undefined) {
+        return {
+          pageNumber,
+          rect: {
+            pageNumber,
+            x: Math.min(x0, x1),
+            y: Math.min(y0, y1),
+            width: Math.abs(x1 - x0),
+            height: Math.abs(y1 - y0)
+          }
+        };
+      }
+    }
+
+    return { pageNumber: page };
+  }
+
+  private samePosition(a: LuaValue | undefined, b: LuaValue | undefined): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  private mapColor(value: LuaValue | undefined): Highlight['color'] | undefined {
+    const color = this.getString(value);
+    return color ? COLOR_MAP[color.toLowerCase()] : undefined;
+  }
+
+  private mapDrawerStyle(value: LuaValue | undefined): Highlight['style'] | undefined {
+    const drawer = this.getString(value);
+    return drawer ? DRAWER_STYLES[drawer] : undefined;
+  }
+
+  private mapDrawer(value: LuaValue | undefined): string[] | undefined {
+    const drawer = this.getString(value);
+    return drawer && DRAWER_TAGS[drawer] ? [DRAWER_TAGS[drawer]] : undefined;
+  }
+
+  /**
+   * KOReader writes local times as "YYYY-MM-DD HH:MM:SS"
+   */
+  private parseDate(value: LuaValue | undefined): Date | undefined {
+    const text = this.getString(value);
+    if (!text) return undefined;
+    const date = new Date(text.replace(' ', 'T'));
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  private titleFromPath(path?: string): string | undefined {
+    if (!path) return undefined;
+    const name = path.split(/[\\/]/).pop() || '';
+    return name.replace(/\.[^.]+$/, '').trim() || undefined;
+  }
+
+  private isTable(value: LuaValue | undefined): value is LuaTable {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private getString(value: LuaValue | undefined): string | undefined {
+    return typeof value === 'string' && value.trim() ? value : undefined;
+  }
+
+  private getNumber(value: LuaValue | undefined): number | undefined {
+    return typeof value === 'number' ? value : undefined;
+  }
+}
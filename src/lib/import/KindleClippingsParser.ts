@@ -0,0 +1,211 @@
+// Kindle Clippings Parser - Reads the "My Clippings.txt" file written by Kindle devices
+// Produces highlights (with their notes attached), standalone notes and bookmarks
+
+import { AnnotationKind, ImportedAnnotation } from './types';
+import { normalizeText } from './utils';
+
+const ENTRY_SEPARATOR = '==========';
+
+export class KindleClippingsParser {
+  /**
+   * Parse the contents of a My Clippings.txt file
+   * @param content - Raw file contents
+   * @returns Annotations in file order, with notes merged into the highlights they belong to
+   */
+  parse(content: string): ImportedAnnotation[] {
+    const entries = content
+      .replace(/^\uFEFF/, '')
+      .replace(/\r\n?/g, '\n')
+      .split(ENTRY_SEPARATOR)
+      .map(entry => this.parseEntry(entry))
+      .filter((entry): entry is ImportedAnnotation => entry !== null);
+
+    return this.attachNotes(this.removeSuperseded(entries));
+  }
+
+  /**
+   * Parse one entry: title line, metadata line, blank line, then the clipped text
+   */
+  private parseEntry(entry: string): ImportedAnnotation | null {
+    const lines = entry.split('\n').map(line => line.replace(/^\uFEFF/, '').trim());
+    while (lines.length > 0 && !lines[0]) {
+      lines.shift();
+    }
+
+    if (lines.length < 2) {
+      return null;
+    }
+
+    const { title, author } = this.parseTitleLine(lines[0]);
+    const metadata = this.parseMetadataLine(lines[1]);
+    if (!title || !metadata) {
+      return null;
+    }
+
+    const text = lines.slice(2).join('\n').trim();
+    if (metadata.kind !== 'bookmark' && !text) {
+      return null;
+    }
+
+    return {
+      kind: metadata.kind,
+      bookTitle: title,
+      bookAuthor: author,
+      text,
+      location: metadata.location,
+      pageNumber: metadata.pageNumber,
+      createdAt: metadata.createdAt
+    };
+  }
+
+  /**
+   * Split "Title (Author)" - the author is the last parenthesized group, if any
+   */
+  private parseTitleLine(line: string): { title: string; author?: string } {
+    const match = line.match(/^(.*?)\s*\(([^()]*)\)\s*$/);
+    if (match && match[1]) {
+      return { title: match[1].trim(), author: match[2].trim() || undefined };
+    }
+    return { title: line.trim() };
+  }
+
+  /**
+   * Parse lines such as
+   * "- Your Highlight on page 12 | Location 170-172 | Added on Monday, March 4, 2019 10:12:09 PM"
+   * "- Highlight Loc. 1250-54  | Added on Thursday, April 26, 2012, 08:33 PM"
+   */
+  private parseMetadataLine(line: string): {
+    kind: AnnotationKind;
+    location?: { start: number; end: number };
+    pageNumber?: number;
+    createdAt?: Date;
+  } | null {
+    const parts = line.replace(/^-\s*/, '').split('|').map(part => part.trim());
+
+    const kind = this.parseKind(parts[0]);
+    if (!kind) {
+      return null;
+    }
+
+    let location: { start: number; end: number } | undefined;
+    let pageNumber: number | undefined;
+    let createdAt: Date | undefined;
+
+    for (const part of parts) {
+      const pageMatch = part.match(/\bpage\s+(\d+)/i);
+      if (pageMatch) {
+        pageNumber = parseInt(pageMatch[1], 10);
+      }
+
+      const locationMatch = part.match(/\b(?:location|loc\.?)\s+(\d+)(?:-(\d+))?/i);
+      if (locationMatch) {
+        location = this.parseLocation(locationMatch[1], locationMatch[2]);
+      }
+
+      const dateMatch = part.match(/added on\s+(.+)$/i);
+      if (dateMatch) {
+        createdAt = this.parseDate(dateMatch[1]);
+      }
+    }
+
+    return { kind, location, pageNumber, createdAt };
+  }
+
+  private parseKind(label: string): AnnotationKind | null {
+    if (/highlight/i.test(label)) return 'highlight';
+    if (/note/i.test(label)) return 'note';
+    if (/bookmark/i.test(label)) return 'bookmark';
+    return null;
+  }
+
+  /**
+   * Older devices abbreviate the end location ("1250-54" means 1250-1254)
+   */
+  private parseLocation(startValue: string, endValue?: string): { start: number; end: number } {
+    const start = parseInt(startValue, 10);
+    if (!endValue) {
+      return { start, end: start };
+    }
+
+    let end = parseInt(endValue, 10);
+    if (end < start && endValue.length < startValue.length) {
+      end = parseInt(startValue.slice(0, startValue.length - endValue.length) + endValue, 10);
+    }
+
+    return { start, end: Math.max(start, end) };
+  }
+
+  private parseDate(value: string): Date | undefined {
+    const cleaned = value
+      .replace(/^[A-Za-z]+,\s*/, '') // Weekday
+      .replace(/(\d{4}),/, '$1');
+    const date = new Date(cleaned);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  /**
+   * Kindle keeps the old clipping when a highlight is extended or shortened;
+   * keep only the latest clipping for any overlapping span
+   */
+  private removeSuperseded(entries: ImportedAnnotation[]): ImportedAnnotation[] {
+    const superseded = new Set<ImportedAnnotation>();
+
+    entries.forEach((entry, index) => {
+      if (entry.kind !== 'highlight' || !entry.location) return;
+
+      for (let i = index + 1; i < entries.length; i++) {
+        const later = entries[i];
+        if (
+          later.kind === 'highlight' &&
+          later.location &&
+          later.bookTitle === entry.bookTitle &&
+          later.location.start <= entry.location.end &&
+          entry.location.start <= later.location.end &&
+          this.textsOverlap(entry.text, later.text)
+        ) {
+          superseded.add(entry);
+          break;
+        }
+      }
+    });
+
+    return entries.filter(entry => !superseded.has(entry));
+  }
+
+  private textsOverlap(a: string, b: string): boolean {
+    const normalizedA = normalizeText(a);
+    const normalizedB = normalizeText(b);
+    return normalizedA.includes(normalizedB) || normalizedB.includes(normalizedA);
+  }
+
+  /**
+   * Notes are stored as separate entries at the end location of their highlight
+   */
+  private attachNotes(entries: ImportedAnnotation[]): ImportedAnnotation[] {
+    const highlights = entries.filter(entry => entry.kind === 'highlight');
+
+    return entries.filter(entry => {
+      if (entry.kind !== 'note' || !entry.location) {
+        return true;
+      }
+
+      const noteLocation = entry.location.start;
+      const candidates = highlights.filter(candidate =>
+        candidate.bookTitle === entry.bookTitle &&
+        candidate.location &&
+        candidate.location.start <= noteLocation &&
+        noteLocation <= candidate.location.end
+      );
+      const highlight =
+        candidates.find(candidate => candidate.location!.end === noteLocation) ||
+        candidates[candidates.length - 1];
+
+      if (!highlight) {
+        return true;
+      }
+
+      highlight.note = highlight.note ? `${highlight.note}\n\n${entry.text}` : entry.text;
+      return false;
+    });
+  }
+}
@@ -0,0 +1,168 @@
+// Kobo Database Parser - Reads annotations and reading state from a copy of KoboReader.sqlite
+// Books are the content rows with ContentType 6; Bookmark rows point at them through VolumeID
+
+import { Highlight } from '@/lib/readers/shared';
+import { ImportedAnnotation, ImportedReadingState } from './types';
+import { SQLiteReader, SQLiteRow, SQLiteValue } from './SQLiteReader';
+
+const CONTENT_TYPE_BOOK = 6;
+
+const READ_STATUS_READING = 1;
+const READ_STATUS_FINISHED = 2;
+
+// Highlight colours on colour e-ink devices, stored as an index
+const COLOR_MAP: Record<number, Highlight['color']> = {
+  0: 'yellow',
+  1: 'pink',
+  2: 'blue',
+  3: 'green'
+};
+
+/**
+ * A book as recorded by the device, with how far it has been read
+ */
+export interface KoboVolume {
+  contentId: string;
+  title: string;
+  author?: string;
+  isbn?: string;
+  readingState: ImportedReadingState;
+}
+
+export interface KoboDatabase {
+  volumes: KoboVolume[];
+  annotations: ImportedAnnotation[];
+}
+
+export class KoboDatabaseParser {
+  /**
+   * Parse a Kobo device database
+   * @param data - Contents of KoboReader.sqlite
+   * @returns Every book on the device and the annotations made in them
+   */
+  parse(data: Uint8Array): KoboDatabase {
+    const database = SQLiteReader.open(data);
+    if (!database.hasTable('content') || !database.hasTable('Bookmark')) {
+      throw new Error('Not a Kobo database: content or Bookmark table missing');
+    }
+
+    const volumes = new Map<string, KoboVolume>();
+    const chapterTitles = new Map<string, string>();
+
+    database.readTable('content').forEach(row => {
+      const contentId = this.getString(row.ContentID);
+      if (!contentId) return;
+
+      if (this.getNumber(row.ContentType) === CONTENT_TYPE_BOOK) {
+        const title = this.getString(row.Title) || this.getString(row.BookTitle);
+        if (title) {
+          volumes.set(contentId, {
+            contentId,
+            title,
+            author: this.getString(row.Attribution),
+            isbn: this.getString(row.ISBN),
+            readingState: this.parseReadingState(row)
+          });
+        }
+      } else {
+        const chapterTitle = this.getString(row.Title);
+        if (chapterTitle) {
+          chapterTitles.set(contentId, chapterTitle);
+        }
+      }
+    });
+
+    const annotations: ImportedAnnotation[] = [];
+
+    database.readTable('Bookmark').forEach(row => {
+      const volume = volumes.get(this.getString(row.VolumeID) || '');
+      if (!volume || this.isTrue(row.Hidden)) return;
+
+      const annotation = this.parseBookmark(row, chapterTitles);
+      if (annotation) {
+        annotations.push({ ...annotation, bookTitle: volume.title, bookAuthor: volume.author });
+      }
+    });
+
+    return {
+      volumes: Array.from(volumes.values()),
+      annotations
+    };
+  }
+
+  /**
+   * Bookmark rows hold highlights (Text), notes (Annotation) and dog-ears (neither).
+   * Older firmware has no Type column, so the kind is inferred from what is filled in
+   */
+  private parseBookmark(
+    row: SQLiteRow,
+    chapterTitles: Map<string, string>
+  ): Omit<ImportedAnnotation, 'bookTitle' | 'bookAuthor'> | null {
+    const text = this.getString(row.Text)?.trim();
+    const note = this.getString(row.Annotation)?.trim() || undefined;
+    const type = this.getString(row.Type)?.toLowerCase();
+    const contentId = this.getString(row.ContentID);
+
+    const common = {
+      sourceId: this.getString(row.BookmarkID),
+      chapter: contentId ? chapterTitles.get(contentId) : undefined,
+      createdAt: this.parseDate(row.DateCreated)
+    };
+
+    if (type === 'dogear' || (!text && !note)) {
+      return { kind: 'bookmark', text: '', ...common };
+    }
+
+    if (!text) {
+      return { kind: 'note', text: note!, ...common };
+    }
+
+    const color = this.getNumber(row.Color);
+
+    return {
+      kind: 'highlight',
+      text,
+      note,
+      color: color !== undefined ? COLOR_MAP[color] : undefined,
+      ...common
+    };
+  }
+
+  private parseReadingState(row: SQLiteRow): ImportedReadingState {
+    const readStatus = this.getNumber(row.ReadStatus);
+    const percentRead = this.getNumber(row.___PercentRead) ?? 0;
+
+    return {
+      progress: readStatus === READ_STATUS_FINISHED ? 100 : Math.max(0, Math.min(100, percentRead)),
+      lastRead: this.parseDate(row.DateLastRead),
+      status: readStatus === READ_STATUS_FINISHED
+        ? 'completed'
+        : readStatus === READ_STATUS_READING ? 'reading' : undefined
+    };
+  }
+
+  /**
+   * Kobo writes UTC timestamps, usually without a zone designator
+   */
+  private parseDate(value: SQLiteValue): Date | undefined {
+    const text = this.getString(value);
+    if (!text) return undefined;
+    const date = new Date(/(Z|[+-]\d{2}:?\d{2})$/.test(text) ? text : `${text}Z`);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  private isTrue(value: SQLiteValue): boolean {
+    return value === 1 || value === 'true';
+  }
+
+  private getString(value: SQLiteValue): string | undefined {
+    if (typeof value === 'number') return String(value);
+    return typeof value === 'string' && value.trim() ? value : undefined;
+  }
+
+  private getNumber(value: SQLiteValue): number | undefined {
+    if (typeof value === 'number') return value;
+    const number = typeof value === 'string' && value.trim() ? Number(value) : NaN;
+    return isNaN(number) ? undefined : number;
+  }
+}
@@ -0,0 +1,290 @@
+// SQLite Reader - Minimal read-only reader for SQLite database files
+// Walks table b-trees directly so device databases (e.g. KoboReader.sqlite) can be read without native modules.
+// Only rowid tables are supported, and changes still sitting in a -wal file are not seen.
+
+export type SQLiteValue = number | string | Uint8Array | null;
+export type SQLiteRow = Record<string, SQLiteValue>;
+
+const HEADER_MAGIC = 'SQLite format 3\0';
+
+const PAGE_INTERIOR_TABLE = 0x05;
+const PAGE_LEAF_TABLE = 0x0d;
+
+interface TableSchema {
+  name: string;
+  rootPage: number;
+  columns: string[];
+  rowidColumn?: string; // INTEGER PRIMARY KEY column, stored as the rowid
+}
+
+export class SQLiteReader {
+  private data: Uint8Array;
+  private view: DataView;
+  private pageSize: number;
+  private usableSize: number;
+  private textDecoder: TextDecoder;
+  private tables = new Map<string, TableSchema>();
+
+  private constructor(data: Uint8Array) {
+    this.data = data;
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    const magic = String.fromCharCode(...Array.from(data.subarray(0, 16)));
+    if (magic !== HEADER_MAGIC) {
+      throw new Error('Not an SQLite database');
+    }
+
+    const pageSize = this.view.getUint16(16);
+    this.pageSize = pageSize === 1 ? 65536 : pageSize;
+    this.usableSize = this.pageSize - data[20];
+
+    const encoding = this.view.getUint32(56);
+    this.textDecoder = new TextDecoder(encoding === 2 ? 'utf-16le' : encoding === 3 ? 'utf-16be' : 'utf-8');
+
+    this.loadSchema();
+  }
+
+  /**
+   * Open a database from its file contents
+   * @param data - Complete database file
+   * @returns A reader for the database
+   */
+  static open(data: Uint8Array): SQLiteReader {
+    return new SQLiteReader(data);
+  }
+
+  /**
+   * Check whether a table exists (case-insensitive, like SQLite)
+   */
+  hasTable(name: string): boolean {
+    return this.tables.has(name.toLowerCase());
+  }
+
+  /**
+   * Get the column names of a table, in declaration order
+   */
+  getColumns(name: string): string[] {
+    return this.getTable(name).columns;
+  }
+
+  /**
+   * Read every row of a table
+   * @param name - Table name
+   * @returns Rows keyed by column name; columns added after a row was written read as null
+   */
+  readTable(name: string): SQLiteRow[] {
+    const table = this.getTable(name);
+    const rows: SQLiteRow[] = [];
+
+    this.walkTable(table.rootPage, (rowid, values) => {
+      const row: SQLiteRow = {};
+      table.columns.forEach((column, index) => {
+        row[column] = index < values.length ? values[index] : null;
+      });
+      if (table.rowidColumn) {
+        row[table.rowidColumn] = rowid;
+      }
+      rows.push(row);
+    });
+
+    return rows;
+  }
+
+  private getTable(name: string): TableSchema {
+    const table = this.tables.get(name.toLowerCase());
+    if (!table) {
+      throw new Error(`Table not found: ${name}`);
+    }
+    return table;
+  }
+
+  /**
+   * Read sqlite_master (always rooted at page 1)
+   */
+  private loadSchema(): void {
+    this.walkTable(1, (_rowid, values) => {
+      const [type, name, , rootPage, sql] = values;
+      if (type !== 'table' || typeof name !== 'string' || typeof rootPage !== 'number' || typeof sql !== 'string') {
+        return;
+      }
+      if (/\)\s*WITHOUT\s+ROWID\s*;?\s*$/i.test(sql)) {
+        return;
+      }
+
+      const { columns, rowidColumn } = this.parseColumns(sql);
+      this.tables.set(name.toLowerCase(), { name, rootPage, columns, rowidColumn });
+    });
+  }
+
+  /**
+   * Pull column names out of a CREATE TABLE statement
+   */
+  private parseColumns(sql: string): { columns: string[]; rowidColumn?: string } {
+    const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+    const definitions: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let current = '';
+
+    for (const char of body) {
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === "'" || char === '`' || char === '[') {
+        quote = char === '[' ? ']' : char;
+      } else if (char === '(') {
+        depth++;
+      } else if (char === ')') {
+        depth--;
+      } else if (char === ',' && depth === 0) {
+        definitions.push(current.trim());
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+    if (current.trim()) {
+      definitions.push(current.trim());
+    }
+
+    const columns: string[] = [];
+    let rowidColumn: string | undefined;
+
+    definitions.forEach(definition => {
+      if (/^(CONSTRAINT|PRIMARY\s+KEY|UNIQUE|CHECK|FOREIGN\s+KEY)\b/i.test(definition)) {
+        return;
+      }
+
+      const nameMatch = definition.match(/^("([^"]|"")*"|`[^`]*`|\[[^\]]*\]|'[^']*'|\S+)/);
+      if (!nameMatch) return;
+
+      const name = nameMatch[1].replace(/^["`'[]|["`'\]]$/g, '').replace(/""/g, '"');
+      columns.push(name);
+
+      if (/^\S+\s+INTEGER\s+PRIMARY\s+KEY\b/i.test(definition.replace(nameMatch[1], 'c'))) {
+        rowidColumn = name;
+      }
+    });
+
+    return { columns, rowidColumn };
+  }
+
+  /**
+   * Visit every record of a table b-tree in rowid order
+   */
+  private walkTable(pageNumber: number, visit: (rowid: number, values: SQLiteValue[]) => void): void {
+    const pageOffset = (pageNumber - 1) * this.pageSize;
+    const headerOffset = pageNumber === 1 ? 100 : pageOffset;
+    const pageType = this.data[headerOffset];
+    const cellCount = this.view.getUint16(headerOffset + 3);
+
+    if (pageType === PAGE_INTERIOR_TABLE) {
+      for (let i = 0; i < cellCount; i++) {
+        const cellOffset = pageOffset + this.view.getUint16(headerOffset + 12 + i * 2);
+        this.walkTable(this.view.getUint32(cellOffset), visit);
+      }
+      this.walkTable(this.view.getUint32(headerOffset + 8), visit);
+      return;
+    }
+
+    if (pageType !== PAGE_LEAF_TABLE) {
+      throw new Error(`Unexpected b-tree page type ${pageType} on page ${pageNumber}`);
+    }
+
+    for (let i = 0; i < cellCount; i++) {
+      let offset = pageOffset + this.view.getUint16(headerOffset + 8 + i * 2);
+      const [payloadSize, payloadSizeLength] = this.readVarint(offset);
+      offset += payloadSizeLength;
+      const [rowid, rowidLength] = this.readVarint(offset);
+      offset += rowidLength;
+
+      visit(rowid, this.readRecord(this.readPayload(offset, payloadSize)));
+    }
+  }
+
+  /**
+   * Collect a cell's payload, following overflow pages when it does not fit on the page
+   */
+  private readPayload(offset: number, size: number): Uint8Array {
+    const maxLocal = this.usableSize - 35;
+    if (size <= maxLocal) {
+      return this.data.subarray(offset, offset + size);
+    }
+
+    const minLocal = Math.floor(((this.usableSize - 12) * 32) / 255) - 23;
+    const candidate = minLocal + ((size - minLocal) % (this.usableSize - 4));
+    const localSize = candidate <= maxLocal ? candidate : minLocal;
+
+    const payload = new Uint8Array(size);
+    payload.set(this.data.subarray(offset, offset + localSize), 0);
+
+    let written = localSize;
+    let overflowPage = this.view.getUint32(offset + localSize);
+    while (overflowPage !== 0 && written < size) {
+      const pageOffset = (overflowPage - 1) * this.pageSize;
+      const chunk = Math.min(size - written, this.usableSize - 4);
+      payload.set(this.data.subarray(pageOffset + 4, pageOffset + 4 + chunk), written);
+      written += chunk;
+      overflowPage = this.view.getUint32(pageOffset);
+    }
+
+    return payload;
+  }
+
+  /**
+   * Decode a record: a header of serial types followed by the values
+   */
+  private readRecord(payload: Uint8Array): SQLiteValue[] {
+    const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+    const [headerSize, headerSizeLength] = this.readVarint(0, payload);
+
+    const serialTypes: number[] = [];
+    let headerOffset = headerSizeLength;
+    while (headerOffset < headerSize) {
+      const [serialType, length] = this.readVarint(headerOffset, payload);
+      serialTypes.push(serialType);
+      headerOffset += length;
+    }
+
+    const values: SQLiteValue[] = [];
+    let offset = headerSize;
+
+    serialTypes.forEach(serialType => {
+      switch (serialType) {
+        case 0: values.push(null); break;
+        case 1: values.push(view.getInt8(offset)); offset += 1; break;
+        case 2: values.push(view.getInt16(offset)); offset += 2; break;
+        case 3: values.push((view.getInt8(offset) << 16) | view.getUint16(offset + 1)); offset += 3; break;
+        case 4: values.push(view.getInt32(offset)); offset += 4; break;
+        case 5: values.push(view.getInt16(offset) * 2 ** 32 + view.getUint32(offset + 2)); offset += 6; break;
+        case 6: values.push(Number(view.getBigInt64(offset))); offset += 8; break;
+        case 7: values.push(view.getFloat64(offset)); offset += 8; break;
+        case 8: values.push(0); break;
+        case 9: values.push(1); break;
+        default: {
+          const isText = serialType % 2 === 1;
+          const length = (serialType - (isText ? 13 : 12)) / 2;
+          const bytes = payload.subarray(offset, offset + length);
+          values.push(isText ? this.textDecoder.decode(bytes) : bytes.slice());
+          offset += length;
+        }
+      }
+    });
+
+    return values;
+  }
+
+  /**
+   * SQLite varint: up to 9 bytes, 7 bits each except the 9th which contributes 8
+   */
+  private readVarint(offset: number, bytes: Uint8Array = this.data): [number, number] {
+    let value = 0;
+    for (let i = 0; i < 8; i++) {
+      const byte = bytes[offset + i];
+      value = value * 128 + (byte & 0x7f);
+      if ((byte & 0x80) === 0) {
+        return [value, i + 1];
+      }
+    }
+    return [value * 256 + bytes[offset + 8], 9];
+  }
+}
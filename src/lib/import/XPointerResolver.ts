@@ -0,0 +1,219 @@
+// XPointer Resolver - Maps CREngine XPointers (used by KOReader) onto a book's EPUB
+// Walks the XPointer through the spine document and expresses the result as an EPUB CFI
+
+import type JSZip from 'jszip';
+import { CFIStep, Position, generateCFI, getSpineItemSteps } from '@/lib/readers/shared';
+import { normalizeText } from './utils';
+
+const CONTEXT_LENGTH = 50;
+
+interface SpineItem {
+  idref: string;
+  href: string;
+  steps: CFIStep[]; // CFI steps from the package document to the itemref
+}
+
+interface ResolvedPoint {
+  spineIndex: number;
+  node: Text;
+  offset: number;
+}
+
+export class XPointerResolver {
+  private zip: JSZip;
+  private spine: SpineItem[];
+  private documents = new Map<number, Document | null>();
+
+  private constructor(zip: JSZip, spine: SpineItem[]) {
+    this.zip = zip;
+    this.spine = spine;
+  }
+
+  /**
+   * Open an EPUB and read its spine
+   * @param fileData - EPUB file contents
+   * @returns A resolver, or null if the file is not a readable EPUB
+   */
+  static async fromEpub(fileData: Uint8Array): Promise<XPointerResolver | null> {
+    try {
+      const JSZipModule = (await import('jszip')).default;
+      const zip = await JSZipModule.loadAsync(fileData);
+      const parser = new DOMParser();
+
+      const container = await zip.file('META-INF/container.xml')?.async('text');
+      const opfPath = container
+        ? parser.parseFromString(container, 'application/xml').querySelector('rootfile')?.getAttribute('full-path')
+        : Object.keys(zip.files).find(name => name.endsWith('.opf'));
+      if (!opfPath) return null;
+
+      const opfText = await zip.file(opfPath)?.async('text');
+      if (!opfText) return null;
+
+      const opf = parser.parseFromString(opfText, 'application/xml');
+      const baseDir = opfPath.includes('/') ? opfPath.slice(0, opfPath.lastIndexOf('/') + 1) : '';
+      const manifest = new Map<string, string>();
+      opf.querySelectorAll('manifest > item').forEach(item => {
+        const id = item.getAttribute('id');
+        const href = item.getAttribute('href');
+        if (id && href) {
+          manifest.set(id, XPointerResolver.resolvePath(baseDir, decodeURIComponent(href)));
+        }
+      });
+
+      const spine: SpineItem[] = [];
+      opf.querySelectorAll('spine > itemref').forEach(itemref => {
+        const idref = itemref.getAttribute('idref');
+        const href = idref ? manifest.get(idref) : undefined;
+        if (idref && href) {
+          spine.push({ idref, href, steps: getSpineItemSteps(itemref) });
+        }
+      });
+
+      return spine.length > 0 ? new XPointerResolver(zip, spine) : null;
+    } catch (error) {
+      console.warn('XPointerResolver: Failed to open EPUB:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Resolve a selection to a position in the book
+   * @param xpointer - Start and end XPointers of the selection
+   * @param text - Selected text, used to check the match and extract context
+   * @returns A CFI-based position, or null when the XPointer cannot be followed
+   */
+  async resolve(xpointer: { start: string; end: string }, text: string): Promise<Position | null> {
+    const start = await this.resolvePoint(xpointer.start);
+    if (!start) return null;
+
+    const end = await this.resolvePoint(xpointer.end);
+    const spineItem = this.spine[start.spineIndex];
+
+    // A selection running into another spine document is kept as its start point
+    const range = start.node.ownerDocument!.createRange();
+    range.setStart(start.node, start.offset);
+    if (end && end.spineIndex === start.spineIndex) {
+      range.setEnd(end.node, end.offset);
+    }
+
+    const cfi = generateCFI(range, spineItem.steps, { root: start.node.ownerDocument!.documentElement });
+    if (!cfi) return null;
+
+    const { before, after, matches } = this.getContext(start, text);
+
+    return {
+      primary: {
+        type: 'cfi',
+        value: cfi,
+        textOffset: start.offset
+      },
+      fallback: {
+        textContent: text,
+        contextBefore: before,
+        contextAfter: after,
+        chapterId: spineItem.idref
+      },
+      confidence: matches ? 0.9 : 0.6
+    };
+  }
+
+  /**
+   * Follow an XPointer such as /body/DocFragment[12]/body/div/p[4]/text().15
+   */
+  private async resolvePoint(xpointer: string): Promise<ResolvedPoint | null> {
+    const match = xpointer.match(/^\/body\/DocFragment\[(\d+)\](.*?)(?:\.(\d+))?$/);
+    if (!match) return null;
+
+    const spineIndex = parseInt(match[1], 10) - 1;
+    const document = await this.getDocument(spineIndex);
+    if (!document) return null;
+
+    let node: Node = document.documentElement;
+    const steps = match[2].split('/').filter(Boolean);
+
+    for (const step of steps) {
+      const stepMatch = step.match(/^([^[]+)(?:\[(\d+)\])?$/);
+      if (!stepMatch) return null;
+
+      const [, name, indexValue] = stepMatch;
+      const index = indexValue ? parseInt(indexValue, 10) - 1 : 0;
+      const candidates: Node[] = name === 'text()'
+        // CREngine drops whitespace-only text nodes
+        ? Array.from(node.childNodes).filter(child => child.nodeType === Node.TEXT_NODE && child.textContent!.trim() !== '')
+        : Array.from(node.childNodes).filter(child =>
+            child.nodeType === Node.ELEMENT_NODE &&
+            (child as Element).localName.toLowerCase() === name.toLowerCase()
+          );
+
+      if (!candidates[index]) return null;
+      node = candidates[index];
+    }
+
+    const offset = match[3] ? parseInt(match[3], 10) : 0;
+
+    if (node.nodeType === Node.TEXT_NODE) {
+      return { spineIndex, node: node as Text, offset: Math.min(offset, (node as Text).length) };
+    }
+
+    // Pointer to an element: use the start of its first text
+    const walker = node.ownerDocument!.createTreeWalker(node, NodeFilter.SHOW_TEXT);
+    const firstText = walker.nextNode() as Text | null;
+    return firstText ? { spineIndex, node: firstText, offset: 0 } : null;
+  }
+
+  private async getDocument(spineIndex: number): Promise<Document | null> {
+    if (this.documents.has(spineIndex)) {
+      return this.documents.get(spineIndex)!;
+    }
+
+    const item = this.spine[spineIndex];
+    const content = item ? await this.zip.file(item.href)?.async('text') : undefined;
+    let document: Document | null = null;
+
+    if (content) {
+      const parser = new DOMParser();
+      document = parser.parseFromString(content, 'application/xhtml+xml');
+      if (document.querySelector('parsererror')) {
+        document = parser.parseFromString(content, 'text/html');
+      }
+    }
+
+    this.documents.set(spineIndex, document);
+    return document;
+  }
+
+  /**
+   * Text around the selection within its block, and whether the selection text is really there
+   */
+  private getContext(point: ResolvedPoint, text: string): { before: string; after: string; matches: boolean } {
+    const block = point.node.parentElement || point.node;
+    const walker = point.node.ownerDocument!.createTreeWalker(block, NodeFilter.SHOW_TEXT);
+    let blockOffset = 0;
+    let textNode: Node | null;
+
+    while ((textNode = walker.nextNode()) && textNode !== point.node) {
+      blockOffset += textNode.textContent!.length;
+    }
+    blockOffset += point.offset;
+
+    const blockText = block.textContent || '';
+    const selected = blockText.slice(blockOffset, blockOffset + text.length);
+    const expected = normalizeText(text).slice(0, 20);
+
+    return {
+      before: blockText.slice(Math.max(0, blockOffset - CONTEXT_LENGTH), blockOffset),
+      after: blockText.slice(blockOffset + text.length, blockOffset + text.length + CONTEXT_LENGTH),
+      matches: expected.length > 0 && normalizeText(selected).startsWith(expected)
+    };
+  }
+
+  private static resolvePath(baseDir: string, href: string): string {
+    const parts = (baseDir + href.split('#')[0]).split('/');
+    const resolved: string[] = [];
+    parts.forEach(part => {
+      if (part === '..') resolved.pop();
+      else if (part !== '.' && part !== '') resolved.push(part);
+    });
+    return resolved.join('/');
+  }
+}
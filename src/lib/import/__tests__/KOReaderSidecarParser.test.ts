@@ -0,0 +1,157 @@
+// KOReader sidecar parser tests, with metadata.<ext>.lua files in the current and the older layout
+
+import { KOReaderSidecarParser } from '../KOReaderSidecarParser';
+
+const CURRENT_SIDECAR = `-- ./Moby Dick.sdr/metadata.epub.lua
+return {
+    ["annotations"] = {
+        [1] = {
+            ["chapter"] = "Loomings",
+            ["color"] = "red",
+            ["datetime"] = "2024-03-01 20:15:00",
+            ["drawer"] = "underscore",
+            ["note"] = "Famous opening",
+            ["pageno"] = 3,
+            ["pos0"] = "/body/DocFragment[2]/body/p[1]/text().0",
+            ["pos1"] = "/body/DocFragment[2]/body/p[1]/text().16",
+            ["text"] = "Call me Ishmael.",
+        },
+        [2] = {
+            ["datetime"] = "2024-03-02 08:00:00",
+            ["drawer"] = "invert",
+            ["pageno"] = 40,
+            ["pos0"] = {
+                ["page"] = 40,
+                ["x"] = 120,
+                ["y"] = 300,
+            },
+            ["pos1"] = {
+                ["page"] = 40,
+                ["x"] = 20,
+                ["y"] = 340,
+            },
+            ["text"] = "A PDF selection",
+        },
+        [3] = {
+            ["chapter"] = "The Carpet-Bag",
+            ["datetime"] = "2024-03-03 09:30:00",
+            ["page"] = "/body/DocFragment[3]/body/p[1]/text().0",
+            ["pageno"] = 12,
+        },
+        [4] = {
+            ["pos0"] = "/body/DocFragment[3]/body/p[2]/text().0",
+            ["pos1"] = "/body/DocFragment[3]/body/p[2]/text().4",
+            ["text"] = "",
+        },
+    },
+    ["doc_props"] = {
+        ["authors"] = "Herman Melville\\nEditor Name",
+        ["title"] = "Moby Dick",
+    },
+}`;
+
+const LEGACY_SIDECAR = `return {
+    ["bookmarks"] = {
+        [1] = {
+            ["datetime"] = "2019-05-01 10:00:00",
+            ["highlighted"] = true,
+            ["notes"] = "Some old words",
+            ["page"] = "/body/DocFragment[4]/body/p[5]/text().0",
+            ["pos0"] = "/body/DocFragment[4]/body/p[5]/text().0",
+            ["pos1"] = "/body/DocFragment[4]/body/p[5]/text().14",
+            ["text"] = "My note on it",
+        },
+        [2] = {
+            ["datetime"] = "2019-05-02 11:00:00",
+            ["notes"] = "Page 9 Chapter Two",
+            ["page"] = 9,
+        },
+    },
+    ["highlight"] = {
+        [7] = {
+            [1] = {
+                ["chapter"] = "Chapter One",
+                ["datetime"] = "2019-05-01 10:00:00",
+                ["pos0"] = "/body/DocFragment[4]/body/p[5]/text().0",
+                ["pos1"] = "/body/DocFragment[4]/body/p[5]/text().14",
+                ["text"] = "Some old words",
+            },
+        },
+    },
+}`;
+
+describe('KOReaderSidecarParser', () => {
+  const parser = new KOReaderSidecarParser();
+
+  it('reads the current annotations list', () => {
+    const [epub, pdf, bookmark] = parser.parse(CURRENT_SIDECAR);
+
+    expect(epub).toEqual({
+      kind: 'highlight',
+      bookTitle: 'Moby Dick',
+      bookAuthor: 'Herman Melville; Editor Name',
+      text: 'Call me Ishmael.',
+      note: 'Famous opening',
+      chapter: 'Loomings',
+      createdAt: new Date(2024, 2, 1, 20, 15),
+      color: 'pink',
+      style: 'underline',
+      tags: undefined,
+      xpointer: {
+        start: '/body/DocFragment[2]/body/p[1]/text().0',
+        end: '/body/DocFragment[2]/body/p[1]/text().16'
+      },
+      pageNumber: 3
+    });
+
+    expect(pdf).toMatchObject({
+      kind: 'highlight',
+      tags: ['inverted'],
+      pageNumber: 40,
+      rect: { pageNumber: 40, x: 20, y: 300, width: 100, height: 40 }
+    });
+
+    expect(bookmark).toMatchObject({ kind: 'bookmark', text: '', pageNumber: 12, chapter: 'The Carpet-Bag' });
+  });
+
+  it('skips highlights without text', () => {
+    expect(parser.parse(CURRENT_SIDECAR)).toHaveLength(3);
+  });
+
+  it('reads the older highlight and bookmarks tables, taking notes from the matching bookmark', () => {
+    const annotations = parser.parse(LEGACY_SIDECAR, 'books/Old Book.sdr/metadata.epub.lua');
+
+    expect(annotations).toEqual([
+      {
+        kind: 'highlight',
+        bookTitle: 'Old Book',
+        bookAuthor: undefined,
+        text: 'Some old words',
+        note: 'My note on it',
+        chapter: 'Chapter One',
+        createdAt: new Date(2019, 4, 1, 10),
+        color: undefined,
+        style: undefined,
+        tags: undefined,
+        xpointer: {
+          start: '/body/DocFragment[4]/body/p[5]/text().0',
+          end: '/body/DocFragment[4]/body/p[5]/text().14'
+        },
+        pageNumber: 7
+      },
+      {
+        kind: 'bookmark',
+        bookTitle: 'Old Book',
+        bookAuthor: undefined,
+        text: '',
+        pageNumber: 9,
+        chapter: undefined,
+        createdAt: new Date(2019, 4, 2, 11)
+      }
+    ]);
+  });
+
+  it('throws for files that do not return a table', () => {
+    expect(() => parser.parse('return "nothing"')).toThrow('KOReader sidecar does not contain a table');
+  });
+});
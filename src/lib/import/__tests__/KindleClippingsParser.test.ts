@@ -0,0 +1,96 @@
+// Kindle clippings parser tests, with entries as written to My Clippings.txt by current and older devices,
+// byte order mark and Windows line endings included
+
+import { KindleClippingsParser } from '../KindleClippingsParser';
+
+const CLIPPINGS = [
+  '\uFEFFThe Pragmatic Programmer (Hunt, Andrew; Thomas, David)',
+  '- Your Highlight on page 12 | Location 170-172 | Added on Monday, March 4, 2019 10:12:09 PM',
+  '',
+  'Care about your craft.',
+  '==========',
+  'The Pragmatic Programmer (Hunt, Andrew; Thomas, David)',
+  '- Your Note on page 12 | Location 172 | Added on Monday, March 4, 2019 10:13:00 PM',
+  '',
+  'Why else spend your life on it?',
+  '==========',
+  'The Pragmatic Programmer (Hunt, Andrew; Thomas, David)',
+  '- Your Bookmark on page 20 | Location 301 | Added on Tuesday, March 5, 2019 8:00:00 AM',
+  '',
+  '',
+  '==========',
+  'Moby Dick (Herman Melville)',
+  '- Highlight Loc. 1250-54  | Added on Thursday, April 26, 2012, 08:33 PM',
+  '',
+  'Call me Ishmael.',
+  '==========',
+  'Moby Dick (Herman Melville)',
+  '- Your Highlight on Location 1250-1262 | Added on Friday, April 27, 2012 9:00:00 AM',
+  '',
+  'Call me Ishmael. Some years ago',
+  '==========',
+  'Notes from Nowhere',
+  '- Your Highlight on Location 5-6 | Added on Saturday, June 1, 2024 1:00:00 PM',
+  '',
+  'A book without an author.',
+  '=========='
+].join('\r\n');
+
+describe('KindleClippingsParser', () => {
+  const annotations = new KindleClippingsParser().parse(CLIPPINGS);
+
+  it('reads titles, authors, locations, pages and dates', () => {
+    expect(annotations[0]).toEqual({
+      kind: 'highlight',
+      bookTitle: 'The Pragmatic Programmer',
+      bookAuthor: 'Hunt, Andrew; Thomas, David',
+      text: 'Care about your craft.',
+      note: 'Why else spend your life on it?',
+      location: { start: 170, end: 172 },
+      pageNumber: 12,
+      createdAt: new Date(2019, 2, 4, 22, 12, 9)
+    });
+  });
+
+  it('attaches notes to the highlight ending at their location', () => {
+    expect(annotations.filter(annotation => annotation.kind === 'note')).toHaveLength(0);
+  });
+
+  it('keeps bookmarks, which have no text', () => {
+    expect(annotations[1]).toMatchObject({ kind: 'bookmark', text: '', location: { start: 301, end: 301 }, pageNumber: 20 });
+  });
+
+  it('keeps only the latest clipping of a highlight that was extended', () => {
+    const mobyDick = annotations.filter(annotation => annotation.bookTitle === 'Moby Dick');
+    expect(mobyDick).toHaveLength(1);
+    expect(mobyDick[0]).toMatchObject({ text: 'Call me Ishmael. Some years ago', location: { start: 1250, end: 1262 } });
+  });
+
+  it('reads abbreviated end locations and dates from older devices', () => {
+    const [older] = new KindleClippingsParser().parse(CLIPPINGS.split('==========')[3]);
+    expect(older.location).toEqual({ start: 1250, end: 1254 });
+    expect(older.createdAt).toEqual(new Date(2012, 3, 26, 20, 33));
+  });
+
+  it('reads titles without an author', () => {
+    expect(annotations[annotations.length - 1]).toMatchObject({ bookTitle: 'Notes from Nowhere', bookAuthor: undefined });
+  });
+
+  it('skips entries it cannot read', () => {
+    const parsed = new KindleClippingsParser().parse([
+      'Only a title line',
+      '==========',
+      'Some Book',
+      '- Your Clip on page 3 | Added on Monday, March 4, 2019 10:12:09 PM',
+      '',
+      'Unknown kind',
+      '==========',
+      'Some Book',
+      '- Your Highlight on page 3 | Added on Monday, March 4, 2019 10:12:09 PM',
+      '',
+      '',
+      '=========='
+    ].join('\n'));
+    expect(parsed).toEqual([]);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * @jest-environment node
+ */
+
+// SQLite reader tests, against a small database written by SQLite itself. The reader runs in the
+// Kobo import API route, so these run under Node
+//
+// fixtures/sample.sqlite uses 512-byte pages, so its 60 rows span interior and leaf pages and the
+// 3009-character title of row 7 runs over several overflow pages:
+//   CREATE TABLE notes (id INTEGER PRIMARY KEY, title TEXT NOT NULL, "Read Status" INTEGER DEFAULT 0,
+//     score REAL, data BLOB, CONSTRAINT title_unique UNIQUE (title))
+//   -- row i: ('Note i', i * i - 500, i / 4, bytes [i, 255 - i]); row 8 has "Read Status" 2^40
+//   -- and no score or data; row 9 has "Read Status" -1
+//   ALTER TABLE notes ADD COLUMN extra TEXT  -- then set to 'added' on row 60 only
+//   CREATE TABLE keyed (name TEXT PRIMARY KEY, value INTEGER) WITHOUT ROWID
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { SQLiteReader } from '../SQLiteReader';
+
+const FIXTURE = new Uint8Array(readFileSync(join(__dirname, 'fixtures', 'sample.sqlite')));
+
+describe('SQLiteReader', () => {
+  const database = SQLiteReader.open(FIXTURE);
+
+  it('reads the schema, ignoring table constraints and WITHOUT ROWID tables', () => {
+    expect(database.hasTable('notes')).toBe(true);
+    expect(database.hasTable('NOTES')).toBe(true);
+    expect(database.hasTable('keyed')).toBe(false);
+    expect(database.getColumns('notes')).toEqual(['id', 'title', 'Read Status', 'score', 'data', 'extra']);
+  });
+
+  it('reads every row in rowid order across interior pages', () => {
+    const rows = database.readTable('notes');
+    expect(rows).toHaveLength(60);
+    expect(rows.map(row => row.id)).toEqual(Array.from({ length: 60 }, (_, i) => i + 1));
+  });
+
+  it('decodes integers, floats, text, blobs and nulls', () => {
+    const rows = database.readTable('notes');
+    expect(rows[0]).toEqual({
+      id: 1,
+      title: 'Note 1',
+      'Read Status': -499,
+      score: 0.25,
+      data: new Uint8Array([1, 254]),
+      extra: null
+    });
+    expect(rows[7]['Read Status']).toBe(2 ** 40);
+    expect(rows[7].score).toBeNull();
+    expect(rows[7].data).toBeNull();
+    expect(rows[8]['Read Status']).toBe(-1);
+    expect(rows[59]['Read Status']).toBe(3100);
+    expect(rows[59].score).toBe(15);
+  });
+
+  it('follows overflow pages for values that do not fit on a page', () => {
+    const title = database.readTable('notes')[6].title;
+    expect(title).toBe('Überlang ' + 'abcdefghij'.repeat(300));
+  });
+
+  it('reads columns added after a row was written as null', () => {
+    const rows = database.readTable('notes');
+    expect(rows[58].extra).toBeNull();
+    expect(rows[59].extra).toBe('added');
+  });
+
+  it('throws for unknown tables and for files that are not SQLite databases', () => {
+    expect(() => database.readTable('missing')).toThrow('Table not found: missing');
+    expect(() => SQLiteReader.open(new TextEncoder().encode('SQLite format 2\0 and more'))).toThrow('Not an SQLite database');
+  });
+});
@@ -0,0 +1,86 @@
+// XPointer resolver tests: KOReader (CREngine) XPointers mapped onto a small EPUB
+
+import JSZip from 'jszip';
+import { XPointerResolver } from '../XPointerResolver';
+
+const CONTAINER = `<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`;
+
+// The spine is not the third child of the package here, so its step is not /6
+const PACKAGE_DOCUMENT = `<?xml version="1.0"?>
+<package version="3.0" xmlns="http://www.idpf.org/2007/opf">
+  <metadata></metadata>
+  <manifest>
+    <item id="chapter01" href="text/chapter01.xhtml" media-type="application/xhtml+xml"/>
+    <item id="chapter02" href="text/chapter02.xhtml" media-type="application/xhtml+xml"/>
+  </manifest>
+  <guide></guide>
+  <spine>
+    <itemref idref="chapter01"/>
+    <itemref id="chap02ref" idref="chapter02"/>
+  </spine>
+</package>`;
+
+const chapter = (body: string) => `<html xmlns="http://www.w3.org/1999/xhtml">
+  <head><title>Chapter</title></head>
+  <body id="body01">
+    ${body}
+  </body>
+</html>`;
+
+async function createResolver(): Promise<XPointerResolver> {
+  const zip = new JSZip();
+  zip.file('META-INF/container.xml', CONTAINER);
+  zip.file('OEBPS/content.opf', PACKAGE_DOCUMENT);
+  zip.file('OEBPS/text/chapter01.xhtml', chapter('<p>Opening.</p>'));
+  zip.file('OEBPS/text/chapter02.xhtml', chapter('<p>First.</p>\n    <p id="para02">Call me <em>Ishmael</em>. Some years ago</p>'));
+
+  const resolver = await XPointerResolver.fromEpub(await zip.generateAsync({ type: 'uint8array' }));
+  expect(resolver).not.toBeNull();
+  return resolver!;
+}
+
+describe('XPointerResolver', () => {
+  it('resolves a selection to a range CFI with the spine step from the package document', async () => {
+    const resolver = await createResolver();
+    const position = await resolver.resolve(
+      { start: '/body/DocFragment[2]/body/p[2]/text().5', end: '/body/DocFragment[2]/body/p[2]/text()[2].10' },
+      'me Ishmael. Some years'
+    );
+
+    expect(position).toEqual({
+      primary: {
+        type: 'cfi',
+        value: 'epubcfi(/8/4[chap02ref]!/4[body01]/4[para02],/1:5,/3:10)',
+        textOffset: 5
+      },
+      fallback: {
+        textContent: 'me Ishmael. Some years',
+        contextBefore: 'Call ',
+        contextAfter: ' ago',
+        chapterId: 'chapter02'
+      },
+      confidence: 0.9
+    });
+  });
+
+  it('keeps only the start of a selection that runs into the next spine document', async () => {
+    const resolver = await createResolver();
+    const position = await resolver.resolve(
+      { start: '/body/DocFragment[1]/body/p/text().0', end: '/body/DocFragment[2]/body/p/text().3' },
+      'Opening.'
+    );
+
+    expect(position?.primary?.value).toBe('epubcfi(/8/2!/4[body01]/2/1:0)');
+  });
+
+  it('returns null for XPointers that do not fit the book', async () => {
+    const resolver = await createResolver();
+    expect(await resolver.resolve({ start: '/body/DocFragment[9]/body/p/text().0', end: '' }, 'x')).toBeNull();
+    expect(await resolver.resolve({ start: '/body/DocFragment[2]/body/p[7]/text().0', end: '' }, 'x')).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+// Lua table reader tests, covering what KOReader writes to its sidecar and settings files
+
+import { parseLuaTable } from '../luaTable';
+
+describe('parseLuaTable', () => {
+  it('reads a KOReader-style chunk with comments', () => {
+    const source = [
+      '-- we can read Lua syntax here!',
+      'return {',
+      '    ["doc_props"] = {',
+      '        ["title"] = "Moby Dick",',
+      '        ["pages"] = 635,',
+      '    },',
+      '    ["percent_finished"] = 0.42,',
+      '    ["summary"] = {',
+      '        ["status"] = "reading",',
+      '    },',
+      '    --[[ a long',
+      '         comment ]]',
+      '    ["highlighted"] = true,',
+      '    ["missing"] = nil,',
+      '}'
+    ].join('\n');
+
+    expect(parseLuaTable(source)).toEqual({
+      doc_props: { title: 'Moby Dick', pages: 635 },
+      percent_finished: 0.42,
+      summary: { status: 'reading' },
+      highlighted: true,
+      missing: null
+    });
+  });
+
+  it('turns sequences into arrays and other tables into objects', () => {
+    expect(parseLuaTable('return { "a", "b"; "c" }')).toEqual(['a', 'b', 'c']);
+    expect(parseLuaTable('return { [2] = "b", [1] = "a" }')).toEqual(['a', 'b']);
+    expect(parseLuaTable('return { [1] = "a", [3] = "c" }')).toEqual({ 1: 'a', 3: 'c' });
+    expect(parseLuaTable('return { name = "x", "first" }')).toEqual({ name: 'x', 1: 'first' });
+    expect(parseLuaTable('return {}')).toEqual({});
+  });
+
+  it('reads numbers in every notation', () => {
+    expect(parseLuaTable('return { 12, -3, 0.5, .25, 1e3, 2.5E-1, 0x1F, -0x10 }'))
+      .toEqual([12, -3, 0.5, 0.25, 1000, 0.25, 31, -16]);
+  });
+
+  it('reads escapes in quoted strings', () => {
+    expect(parseLuaTable(String.raw`return "tab\there\nnew \"quoted\" \\ \x41\65\066 \z
+      joined"`)).toBe('tab\there\nnew "quoted" \\ AAB joined');
+    expect(parseLuaTable(`return 'it\\'s'`)).toBe("it's");
+  });
+
+  it('reads long bracket strings, leaving out a newline right after the opening bracket', () => {
+    expect(parseLuaTable('return [[\nfirst line\nsecond ]]')).toBe('first line\nsecond ');
+    expect(parseLuaTable('return [==[contains ]] and ]=]]==]')).toBe('contains ]] and ]=]');
+  });
+
+  it('reads a byte order mark and a bare value without return', () => {
+    expect(parseLuaTable('\uFEFF{ true, false }')).toEqual([true, false]);
+  });
+
+  it('throws with the position of malformed input', () => {
+    expect(() => parseLuaTable('return { "a" "b" }')).toThrow('Invalid Lua table at position 13: Expected "," or "}"');
+    expect(() => parseLuaTable('return "open')).toThrow('Unterminated string');
+    expect(() => parseLuaTable('return [[open')).toThrow('Unterminated long string');
+    expect(() => parseLuaTable('return { [true] = 1 }')).toThrow('Unsupported table key');
+    expect(() => parseLuaTable('return function() end')).toThrow('Unexpected token "function"');
+  });
+});
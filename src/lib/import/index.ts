@@ -0,0 +1,29 @@
+// Highlight Import - Main import file
+
+export { HighlightImporter } from './HighlightImporter';
+export { KindleClippingsParser } from './KindleClippingsParser';
+export { KOReaderSidecarParser } from './KOReaderSidecarParser';
+export { KoboDatabaseParser } from './KoboDatabaseParser';
+export { SQLiteReader } from './SQLiteReader';
+export { AnnotationMapper } from './AnnotationMapper';
+export { requestKoboImport } from './koboApi';
+export { XPointerResolver } from './XPointerResolver';
+export { parseLuaTable } from './luaTable';
+export { BookMatcher } from './BookMatcher';
+
+export type {
+  ImportSource,
+  AnnotationKind,
+  ImportedAnnotation,
+  ImportedReadingState,
+  BookMatch,
+  ImportPreviewBook,
+  ImportPreview,
+  ImportResult,
+  KoboImportReportBook,
+  KoboImportResponse
+} from './types';
+export type { AnnotationGroup } from './AnnotationMapper';
+export type { KoboVolume, KoboDatabase } from './KoboDatabaseParser';
+export type { SQLiteValue, SQLiteRow } from './SQLiteReader';
+export type { LuaValue } from './luaTable';
@@ -0,0 +1,60 @@
+// Kobo Import API Client - Uploads a KoboReader.sqlite copy to the import route
+// Restores the dates and library books that do not survive the JSON round trip
+
+import { Book } from '@/types';
+import { ImportedReadingState, KoboImportResponse } from './types';
+
+/**
+ * Ask the server to read a Kobo database
+ * @param file - Copy of .kobo/KoboReader.sqlite from the device
+ * @param books - Library books to match against
+ * @param dryRun - Only report what would be imported, without highlight records
+ * @returns The import report, plus preview entries ready for HighlightImporter when not a dry run
+ */
+export async function requestKoboImport(file: File, books: Book[], dryRun: boolean): Promise<KoboImportResponse> {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('books', JSON.stringify(books.map(book => ({ ...book, cover: undefined }))));
+  formData.append('dryRun', String(dryRun));
+
+  const response = await fetch('/api/import/kobo', {
+    method: 'POST',
+    body: formData
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to read Kobo database');
+  }
+
+  const result = data as KoboImportResponse;
+  const booksById = new Map(books.map(book => [book.id, book]));
+
+  result.report.forEach(reportBook => {
+    reportBook.readingState = reviveReadingState(reportBook.readingState);
+  });
+
+  result.books?.forEach(previewBook => {
+    if (previewBook.match) {
+      previewBook.match.book = booksById.get(previewBook.match.book.id) || previewBook.match.book;
+    }
+    if (previewBook.placeholder) {
+      previewBook.placeholder.uploadDate = new Date(previewBook.placeholder.uploadDate);
+    }
+    previewBook.readingState = reviveReadingState(previewBook.readingState);
+    previewBook.highlights.forEach(highlight => {
+      highlight.createdAt = new Date(highlight.createdAt);
+      highlight.updatedAt = new Date(highlight.updatedAt);
+      highlight.lastModified = new Date(highlight.lastModified);
+    });
+  });
+
+  return result;
+}
+
+function reviveReadingState(readingState?: ImportedReadingState): ImportedReadingState | undefined {
+  if (!readingState?.lastRead) {
+    return readingState;
+  }
+  return { ...readingState, lastRead: new Date(readingState.lastRead) };
+}
@@ -0,0 +1,227 @@
+// Lua table reader - Parses the data-only Lua files written by KOReader ("return { ... }")
+// Supports table constructors, strings (quoted and long brackets), numbers, booleans, nil and comments
+
+export type LuaValue = string | number | boolean | null | LuaValue[] | { [key: string]: LuaValue };
+
+/**
+ * Parse a Lua chunk of the form `return <expression>`
+ * @param source - File contents
+ * @returns The returned value; tables with keys 1..n become arrays, other tables become objects
+ */
+export function parseLuaTable(source: string): LuaValue {
+  const reader = new LuaReader(source);
+  return reader.readChunk();
+}
+
+class LuaReader {
+  private source: string;
+  private index = 0;
+
+  constructor(source: string) {
+    this.source = source.replace(/^\uFEFF/, '');
+  }
+
+  readChunk(): LuaValue {
+    this.skipWhitespace();
+    if (this.source.startsWith('return', this.index)) {
+      this.index += 'return'.length;
+    }
+    const value = this.readValue();
+    this.skipWhitespace();
+    return value;
+  }
+
+  private readValue(): LuaValue {
+    this.skipWhitespace();
+    const char = this.source[this.index];
+
+    if (char === '{') return this.readTable();
+    if (char === '"' || char === "'") return this.readQuotedString();
+    if (char === '[' && /^\[=*\[/.test(this.source.slice(this.index, this.index + 10))) return this.readLongString();
+    if (char === '-' || char === '.' || (char >= '0' && char <= '9')) return this.readNumber();
+
+    const word = this.readName();
+    if (word === 'true') return true;
+    if (word === 'false') return false;
+    if (word === 'nil') return null;
+
+    throw this.error(`Unexpected token "${word || char}"`);
+  }
+
+  private readTable(): LuaValue {
+    this.expect('{');
+    const entries: Array<[string | number, LuaValue]> = [];
+    let nextArrayIndex = 1;
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.source[this.index] === '}') {
+        this.index++;
+        break;
+      }
+
+      let key: string | number;
+      if (this.source[this.index] === '[' && !/^\[=*\[/.test(this.source.slice(this.index, this.index + 10))) {
+        this.index++;
+        const keyValue = this.readValue();
+        if (typeof keyValue !== 'string' && typeof keyValue !== 'number') {
+          throw this.error('Unsupported table key');
+        }
+        key = keyValue;
+        this.skipWhitespace();
+        this.expect(']');
+        this.skipWhitespace();
+        this.expect('=');
+      } else {
+        const start = this.index;
+        const name = this.readName();
+        this.skipWhitespace();
+        if (name && this.source[this.index] === '=' && this.source[this.index + 1] !== '=') {
+          this.index++;
+          key = name;
+        } else {
+          this.index = start;
+          key = nextArrayIndex++;
+        }
+      }
+
+      entries.push([key, this.readValue()]);
+
+      this.skipWhitespace();
+      const separator = this.source[this.index];
+      if (separator === ',' || separator === ';') {
+        this.index++;
+      } else if (separator !== '}') {
+        throw this.error('Expected "," or "}"');
+      }
+    }
+
+    return this.toJsValue(entries);
+  }
+
+  /**
+   * Sequences (keys exactly 1..n) become arrays; everything else becomes an object
+   */
+  private toJsValue(entries: Array<[string | number, LuaValue]>): LuaValue {
+    const numericKeys = entries.every(([key]) => typeof key === 'number' && Number.isInteger(key));
+    if (entries.length > 0 && numericKeys) {
+      const sorted = [...entries].sort((a, b) => (a[0] as number) - (b[0] as number));
+      if (sorted.every(([key], index) => key === index + 1)) {
+        return sorted.map(([, value]) => value);
+      }
+    }
+
+    const table: { [key: string]: LuaValue } = {};
+    entries.forEach(([key, value]) => {
+      table[String(key)] = value;
+    });
+    return table;
+  }
+
+  private readQuotedString(): string {
+    const quote = this.source[this.index++];
+    let result = '';
+
+    while (this.index < this.source.length) {
+      const char = this.source[this.index++];
+      if (char === quote) {
+        return result;
+      }
+      if (char !== '\\') {
+        result += char;
+        continue;
+      }
+
+      const escape = this.source[this.index++];
+      switch (escape) {
+        case 'n': result += '\n'; break;
+        case 't': result += '\t'; break;
+        case 'r': result += '\r'; break;
+        case 'a': result += '\x07'; break;
+        case 'b': result += '\b'; break;
+        case 'f': result += '\f'; break;
+        case 'v': result += '\v'; break;
+        case '\n': result += '\n'; break;
+        case 'x': {
+          result += String.fromCharCode(parseInt(this.source.substr(this.index, 2), 16));
+          this.index += 2;
+          break;
+        }
+        case 'z': {
+          while (/\s/.test(this.source[this.index] || '')) this.index++;
+          break;
+        }
+        default: {
+          if (escape >= '0' && escape <= '9') {
+            const digits = this.source.slice(this.index - 1).match(/^\d{1,3}/)![0];
+            this.index += digits.length - 1;
+            result += String.fromCharCode(parseInt(digits, 10));
+          } else {
+            result += escape;
+          }
+        }
+      }
+    }
+
+    throw this.error('Unterminated string');
+  }
+
+  private readLongString(): string {
+    const open = this.source.slice(this.index).match(/^\[(=*)\[/)!;
+    const close = `]${open[1]}]`;
+    const start = this.index + open[0].length;
+    const end = this.source.indexOf(close, start);
+    if (end === -1) {
+      throw this.error('Unterminated long string');
+    }
+    this.index = end + close.length;
+    // A newline directly after the opening bracket is not part of the string
+    return this.source.slice(start, end).replace(/^\r?\n/, '');
+  }
+
+  private readNumber(): number {
+    const match = this.source.slice(this.index).match(/^-?(0x[0-9a-fA-F]+|(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?)/);
+    if (!match) {
+      throw this.error('Invalid number');
+    }
+    this.index += match[0].length;
+    // Number() reads hex only without a sign
+    return match[0].startsWith('-') ? -Number(match[0].slice(1)) : Number(match[0]);
+  }
+
+  private readName(): string {
+    const match = this.source.slice(this.index).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (!match) return '';
+    this.index += match[0].length;
+    return match[0];
+  }
+
+  private skipWhitespace(): void {
+    for (;;) {
+      while (/\s/.test(this.source[this.index] || '')) this.index++;
+
+      if (!this.source.startsWith('--', this.index)) return;
+
+      const longComment = this.source.slice(this.index + 2).match(/^\[(=*)\[/);
+      if (longComment) {
+        const close = `]${longComment[1]}]`;
+        const end = this.source.indexOf(close, this.index);
+        this.index = end === -1 ? this.source.length : end + close.length;
+      } else {
+        const end = this.source.indexOf('\n', this.index);
+        this.index = end === -1 ? this.source.length : end + 1;
+      }
+    }
+  }
+
+  private expect(char: string): void {
+    if (this.source[this.index] !== char) {
+      throw this.error(`Expected "${char}"`);
+    }
+    this.index++;
+  }
+
+  private error(message: string): Error {
+    return new Error(`Invalid Lua table at position ${this.index}: ${message}`);
+  }
+}
@@ -0,0 +1,118 @@
+// Highlight Import Types
+// Source-agnostic shapes shared by the clippings parsers and the importer
+
+import { Book } from '@/types';
+import { Highlight } from '@/lib/readers/shared';
+
+export type ImportSource = 'kindle' | 'koreader' | 'kobo';
+
+export type AnnotationKind = 'highlight' | 'note' | 'bookmark';
+
+/**
+ * A single annotation as read from an external reader's export,
+ * before it has been matched to a book in the library
+ */
+export interface ImportedAnnotation {
+  kind: AnnotationKind;
+  sourceId?: string; // Stable ID assigned by the source device, when it has one
+  bookTitle: string;
+  bookAuthor?: string;
+  text: string;
+  note?: string;
+  location?: {
+    start: number;
+    end: number;
+  };
+  pageNumber?: number;
+  chapter?: string;
+  createdAt?: Date;
+  color?: Highlight['color'];
+  style?: Highlight['style'];
+  tags?: string[];
+  xpointer?: {
+    // CREngine XPointers, e.g. /body/DocFragment[12]/body/div/p[4]/text().15
+    start: string;
+    end: string;
+  };
+  rect?: {
+    // Page-space rectangle for PDF annotations
+    pageNumber: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+}
+
+/**
+ * Reading progress recorded by the source device for one book
+ */
+export interface ImportedReadingState {
+  progress: number; // 0-100
+  lastRead?: Date;
+  status?: Book['status'];
+}
+
+export interface BookMatch {
+  book: Book;
+  score: number; // 0-1 scale
+}
+
+/**
+ * Everything that will be written for one book if the import is confirmed
+ */
+export interface ImportPreviewBook {
+  key: string;
+  title: string;
+  author?: string;
+  match: BookMatch | null;
+  placeholder?: Book; // Created on commit when there is no match
+  highlights: Highlight[];
+  duplicates: number;
+  bookmarks: number;
+  readingState?: ImportedReadingState; // Applied to the matched book on commit
+}
+
+export interface ImportPreview {
+  source: ImportSource;
+  books: ImportPreviewBook[];
+  totalEntries: number;
+  newHighlights: number;
+  duplicates: number;
+  bookmarks: number;
+}
+
+export interface ImportResult {
+  booksCreated: number;
+  highlightsImported: number;
+  duplicatesSkipped: number;
+  progressUpdated: number;
+}
+
+/**
+ * Per-book summary of what a Kobo database import would change
+ */
+export interface KoboImportReportBook {
+  key: string;
+  title: string;
+  author?: string;
+  match: {
+    bookId: string;
+    title: string;
+    score: number;
+  } | null;
+  highlights: number;
+  notes: number;
+  bookmarks: number;
+  readingState?: ImportedReadingState;
+}
+
+/**
+ * Response of the Kobo import API route
+ */
+export interface KoboImportResponse {
+  dryRun: boolean;
+  totalEntries: number;
+  report: KoboImportReportBook[];
+  books?: ImportPreviewBook[]; // Highlight records, omitted on dry runs
+}
@@ -2,8 +2,21 @@
 // Implements intelligent merge strategies to preserve user intent without data loss
 
 import { Highlight, Conflict, Position } from './types';
+import { HighlightColorDefinition } from '@/types';
+import { DEFAULT_HIGHLIGHT_COLORS } from './palette';
+import { getHighlightStyle } from './styles';
+import { getNoteEntries, isPageNote, isRegionHighlight, mergeNoteThreads } from './notes';
 
 export class ConflictResolver {
+  private palette: HighlightColorDefinition[];
+
+  /**
+   * @param palette - The user's highlight colors; colors missing from it lose color merges
+   */
+  constructor(palette: HighlightColorDefinition[] = DEFAULT_HIGHLIGHT_COLORS) {
+    this.palette = palette;
+  }
+
   /**
    * Resolve conflicts between local and remote highlights
    * @param localHighlights - Highlights from local platform
@@ -79,7 +92,8 @@ export class ConflictResolver {
     }
     
     // Check if content is different
-    if (local.text !== remote.text || local.note !== remote.note) {
+    if (local.text !== remote.text ||
+        JSON.stringify(getNoteEntries(local)) !== JSON.stringify(getNoteEntries(remote))) {
       return true;
     }
     
@@ -88,8 +102,8 @@ export class ConflictResolver {
       return true;
     }
     
-    // Check if color is different
-    if (local.color !== remote.color) {
+    // Check if color or style is different
+    if (local.color !== remote.color || getHighlightStyle(local) !== getHighlightStyle(remote)) {
       return true;
     }
     
@@ -138,13 +152,114 @@ export class ConflictResolver {
     }
   }
 
+  /**
+   * Whether two highlights in a book mark the same passage, e.g. the same text imported twice from
+   * slightly different offsets: their texts overlap and they sit at the same position, page or chapter
+   */
+  isDuplicate(a: Highlight, b: Highlight): boolean {
+    if (a.id === b.id || a.bookId !== b.bookId) {
+      return false;
+    }
+
+    // Page notes and regions have no text to compare
+    if ([a, b].some(highlight => isPageNote(highlight) || isRegionHighlight(highlight) || !highlight.text.trim())) {
+      return false;
+    }
+
+    if (!this.textOverlaps(a.text, b.text)) {
+      return false;
+    }
+
+    return this.samePosition(a.position, b.position) ||
+      (!!a.pageNumber && a.pageNumber === b.pageNumber) ||
+      (!!a.chapter && a.chapter === b.chapter);
+  }
+
+  /**
+   * Group each book's highlights into clusters of duplicates
+   * @param highlights - Highlights to scan, from any number of books
+   * @param keptSeparate - Pair keys (see getPairKey) the user chose not to merge
+   * @returns Clusters of two or more highlights, each oldest first
+   */
+  findDuplicateClusters(highlights: Highlight[], keptSeparate: Set<string> = new Set()): Highlight[][] {
+    const byBook = new Map<string, Highlight[]>();
+    highlights.forEach(highlight => {
+      byBook.set(highlight.bookId, [...(byBook.get(highlight.bookId) || []), highlight]);
+    });
+
+    const clusters: Highlight[][] = [];
+    byBook.forEach(bookHighlights => {
+      // Union-find over duplicate pairs, so A~B and B~C end up in one cluster
+      const parent = bookHighlights.map((_, index) => index);
+      const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+
+      for (let i = 0; i < bookHighlights.length; i++) {
+        for (let j = i + 1; j < bookHighlights.length; j++) {
+          const a = bookHighlights[i];
+          const b = bookHighlights[j];
+          if (!keptSeparate.has(ConflictResolver.getPairKey(a.id, b.id)) && this.isDuplicate(a, b)) {
+            parent[find(j)] = find(i);
+          }
+        }
+      }
+
+      const groups = new Map<number, Highlight[]>();
+      bookHighlights.forEach((highlight, index) => {
+        const root = find(index);
+        groups.set(root, [...(groups.get(root) || []), highlight]);
+      });
+
+      groups.forEach(group => {
+        if (group.length > 1) {
+          clusters.push(group.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()));
+        }
+      });
+    });
+
+    return clusters;
+  }
+
+  /**
+   * Merge a cluster of duplicates into one highlight
+   * @param cluster - Duplicates of one passage
+   * @param keepId - Highlight whose text, position, color and style are kept (defaults to the oldest)
+   * @returns The kept highlight with the notes, tags and review history of the whole cluster
+   */
+  mergeDuplicates(cluster: Highlight[], keepId?: string): Highlight {
+    const kept = cluster.find(highlight => highlight.id === keepId) || cluster[0];
+    const now = new Date();
+
+    return cluster.reduce<Highlight>((merged, other) => other.id === kept.id ? merged : {
+      ...merged,
+      notes: mergeNoteThreads(getNoteEntries(merged), getNoteEntries(other)),
+      tags: this.mergeTags(merged.tags, other.tags),
+      reviewHistory: this.mergeReviewHistory(merged.reviewHistory, other.reviewHistory),
+      importance: Math.max(merged.importance || 0, other.importance || 0) || undefined
+    }, {
+      ...kept,
+      note: undefined,
+      notes: getNoteEntries(kept),
+      createdAt: new Date(Math.min(...cluster.map(highlight => new Date(highlight.createdAt).getTime()))),
+      updatedAt: now,
+      lastModified: now
+    });
+  }
+
+  /**
+   * Order-independent key for a pair of highlights
+   */
+  static getPairKey(a: string, b: string): string {
+    return [a, b].sort().join('|');
+  }
+
   /**
    * Merge metadata for same text, same position conflicts
    */
   private mergeMetadata(local: Highlight, remote: Highlight): Highlight {
     const merged: Highlight = {
       ...local,
-      note: this.mergeNotes(local.note, remote.note),
+      note: undefined,
+      notes: mergeNoteThreads(getNoteEntries(local), getNoteEntries(remote)),
       tags: this.mergeTags(local.tags, remote.tags),
       lastModified: new Date(Math.max(
         new Date(local.lastModified).getTime(),
@@ -159,6 +274,12 @@ export class ConflictResolver {
       merged.color = this.getMostRecentColor(local, remote);
     }
 
+    // Use the most recent style if different; a missing style reads as 'fill'
+    if (getHighlightStyle(local) !== getHighlightStyle(remote)) {
+      const remoteIsNewer = new Date(remote.lastModified).getTime() > new Date(local.lastModified).getTime();
+      merged.style = getHighlightStyle(remoteIsNewer ? remote : local);
+    }
+
     return merged;
   }
 
@@ -206,19 +327,6 @@ export class ConflictResolver {
     return local;
   }
 
-  /**
-   * Merge notes from both highlights
-   */
-  private mergeNotes(localNote?: string, remoteNote?: string): string {
-    if (!localNote && !remoteNote) return '';
-    if (!localNote) return remoteNote || '';
-    if (!remoteNote) return localNote;
-    if (localNote === remoteNote) return localNote;
-    
-    // Merge different notes
-    return `${localNote}\n---\n${remoteNote}`;
-  }
-
   /**
    * Merge tags from both highlights
    */
@@ -257,13 +365,15 @@ export class ConflictResolver {
   }
 
   /**
-   * Get the most recent color
+   * Get the most recent color, unless only the other one is still in the palette
    */
   private getMostRecentColor(local: Highlight, remote: Highlight): string {
     const localTime = new Date(local.lastModified).getTime();
     const remoteTime = new Date(remote.lastModified).getTime();
-    
-    return remoteTime > localTime ? remote.color : local.color;
+    const [newer, older] = remoteTime > localTime ? [remote.color, local.color] : [local.color, remote.color];
+
+    const inPalette = (colorId: string) => this.palette.some(color => color.id === colorId);
+    return !inPalette(newer) && inPalette(older) ? older : newer;
   }
 
   /**
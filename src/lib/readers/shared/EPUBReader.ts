@@ -1,8 +1,9 @@
 // Shared EPUB Reader - Core component for EPUB rendering and positioning
 // Provides consistent EPUB reading experience across web and mobile platforms
 
-import { RenderResult, Selection, Position, Highlight } from './types';
+import { RenderResult, Selection, Position, Highlight, HighlightStorage } from './types';
 import { HighlightManager } from './HighlightManager';
+import { ReviewScheduler } from './scheduling';
 import { PositionCalculator } from './PositionCalculator';
 
 export class SharedEPUBReader {
@@ -11,10 +12,10 @@ export class SharedEPUBReader {
   private highlightManager: HighlightManager;
   private positionCalculator: PositionCalculator;
 
-  constructor(epubData: Uint8Array) {
+  constructor(epubData: Uint8Array, storage?: HighlightStorage) {
     this.epubData = epubData;
     this.renderer = new EPUBRenderer(epubData);
-    this.highlightManager = new HighlightManager();
+    this.highlightManager = new HighlightManager(storage);
     this.positionCalculator = new PositionCalculator(this.renderer);
   }
 
@@ -53,7 +54,7 @@ export class SharedEPUBReader {
       pageNumber?: number;
       chapter?: string;
     } = {}
-  ): Highlight {
+  ): Promise<Highlight> {
     const position = this.getHighlightPosition(selection);
     
     return this.highlightManager.createHighlight({
@@ -92,7 +93,7 @@ export class SharedEPUBReader {
    * @param updates - Updates to apply
    * @returns Updated highlight
    */
-  updateHighlight(highlightId: string, updates: Partial<Highlight>): Highlight {
+  updateHighlight(highlightId: string, updates: Partial<Highlight>): Promise<Highlight> {
     return this.highlightManager.updateHighlight(highlightId, updates);
   }
 
@@ -100,8 +101,8 @@ export class SharedEPUBReader {
    * Delete a highlight
    * @param highlightId - Highlight ID
    */
-  deleteHighlight(highlightId: string): void {
-    this.highlightManager.deleteHighlight(highlightId);
+  deleteHighlight(highlightId: string): Promise<void> {
+    return this.highlightManager.deleteHighlight(highlightId);
   }
 
   /**
@@ -124,13 +125,13 @@ export class SharedEPUBReader {
   }
 
   /**
-   * Add a review record to a highlight
+   * Grade a review of a highlight and schedule the next one
    * @param highlightId - Highlight ID
-   * @param success - Whether the review was successful
-   * @param easeFactor - Ease factor for spaced repetition
+   * @param grade - Grade from REVIEW_GRADES for the scheduler
+   * @param scheduler - Spaced-repetition algorithm to schedule with
    */
-  addReviewRecord(highlightId: string, success: boolean, easeFactor: number = 2.5): void {
-    this.highlightManager.addReviewRecord(highlightId, success, easeFactor);
+  addReviewRecord(highlightId: string, grade: number, scheduler: ReviewScheduler = 'sm2'): Promise<void> {
+    return this.highlightManager.addReviewRecord(highlightId, grade, scheduler);
   }
 
   /**
@@ -1,34 +1,126 @@
 // Highlight Manager - Core component for managing highlights across platforms
 // Provides consistent highlight creation, updating, and management
+// Mutations are written through to the optional storage backend and broadcast to subscribers
+// Local edits are recorded in a revision log and can be undone and redone
+
+import {
+  Highlight,
+  Position,
+  ReviewRecord,
+  ClozeCard,
+  HighlightRevision,
+  HighlightStorage,
+  HighlightChangeEvent,
+  HighlightChangeListener
+} from './types';
+import { HighlightColorDefinition } from '@/types';
+import { DEFAULT_HIGHLIGHT_COLORS, getHighlightColor } from './palette';
+import { createNoteEntry, getNoteText, isMergedHighlight, isPageNote, isPurgedHighlight, isTrashedHighlight } from './notes';
+import { matchesTagFilter } from './tags';
+import { ReviewScheduler, compareForReview, migrateReviewHistory, scheduleReview } from './scheduling';
+
+// A local change as the undo stack sees it; null means the highlight did not exist
+interface HighlightChange {
+  before: Highlight | null;
+  after: Highlight | null;
+}
+
+// One undo step; a bulk edit is undone as a whole
+type UndoStep = HighlightChange[];
 
-import { Highlight, Position, ReviewRecord } from './types';
+const MAX_UNDO_STEPS = 100;
 
 export class HighlightManager {
   private highlights: Map<string, Highlight> = new Map();
+  private storage: HighlightStorage | null;
+  private listeners: Set<HighlightChangeListener> = new Set();
+  private palette: HighlightColorDefinition[] = DEFAULT_HIGHLIGHT_COLORS;
+  private undoStack: UndoStep[] = [];
+  private redoStack: UndoStep[] = [];
+  private sessionRevisions: HighlightRevision[] = []; // Used when storage has no revision log
+
+  /**
+   * @param storage - Optional persistent store; without it highlights live in memory only
+   */
+  constructor(storage?: HighlightStorage) {
+    this.storage = storage || null;
+  }
+
+  /**
+   * Set the user's highlight palette, used to label colors in statistics
+   * @param colors - Palette colors
+   */
+  setPalette(colors: HighlightColorDefinition[]): void {
+    this.palette = colors;
+  }
+
+  /**
+   * Get the highlight palette in use
+   * @returns Palette colors
+   */
+  getPalette(): HighlightColorDefinition[] {
+    return this.palette;
+  }
+
+  /**
+   * Subscribe to highlight changes
+   * @param listener - Called after every create, update, delete, load or sync
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: HighlightChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Load highlights from the storage backend into memory
+   * @param bookId - Optional book ID to limit loading
+   * @returns Loaded highlights
+   */
+  async loadFromStorage(bookId?: string): Promise<Highlight[]> {
+    if (!this.storage) {
+      return bookId ? this.getHighlightsForBook(bookId) : this.getAllHighlights();
+    }
+
+    const stored = bookId
+      ? await this.storage.getHighlightsForBook(bookId)
+      : await this.storage.getAllHighlights();
+
+    stored.forEach(highlight => {
+      this.highlights.set(highlight.id, highlight);
+    });
+
+    this.emit({ type: 'loaded', bookId });
+    return stored;
+  }
 
   /**
    * Create a new highlight
    * @param data - Highlight creation data
    * @returns Created highlight
    */
-  createHighlight(data: {
+  async createHighlight(data: {
     text: string;
     position: Position;
     color: string;
+    style?: Highlight['style'];
     platform: 'web' | 'mobile';
     bookId: string;
     note?: string;
     tags?: string[];
     pageNumber?: number;
     chapter?: string;
-  }): Highlight {
+  }): Promise<Highlight> {
     const now = new Date();
     const highlight: Highlight = {
       id: this.generateId(),
       bookId: data.bookId,
       text: data.text,
-      color: data.color as Highlight['color'],
-      note: data.note || '',
+      color: data.color,
+      style: data.style,
+      notes: data.note ? [createNoteEntry(data.note, data.platform)] : [],
       tags: data.tags || [],
       pageNumber: data.pageNumber,
       chapter: data.chapter,
@@ -41,17 +133,95 @@ export class HighlightManager {
       reviewHistory: []
     };
 
+    await this.persist(highlight);
     this.highlights.set(highlight.id, highlight);
+    await this.recordChange(null, highlight);
+    this.emit({ type: 'created', bookId: highlight.bookId, highlightId: highlight.id, highlight });
     return highlight;
   }
 
+  /**
+   * Create a page note: a note anchored to a location (EPUB chapter/CFI or PDF page and
+   * coordinates) rather than to selected text
+   * @param data - Page note creation data
+   * @returns Created page note
+   */
+  async createPageNote(data: {
+    bookId: string;
+    position: Position;
+    text: string;
+    color: string;
+    platform: 'web' | 'mobile';
+    pageNumber?: number;
+    chapter?: string;
+  }): Promise<Highlight> {
+    const now = new Date();
+    const pageNote: Highlight = {
+      id: this.generateId(),
+      bookId: data.bookId,
+      kind: 'page-note',
+      text: '',
+      color: data.color,
+      notes: [createNoteEntry(data.text, data.platform, undefined, now)],
+      tags: [],
+      pageNumber: data.pageNumber,
+      chapter: data.chapter,
+      position: data.position,
+      createdAt: now,
+      updatedAt: now,
+      lastModified: now,
+      platform: data.platform,
+      reviewHistory: []
+    };
+
+    await this.persist(pageNote);
+    this.highlights.set(pageNote.id, pageNote);
+    await this.recordChange(null, pageNote);
+    this.emit({ type: 'created', bookId: pageNote.bookId, highlightId: pageNote.id, highlight: pageNote });
+    return pageNote;
+  }
+
+  /**
+   * Save a highlight built elsewhere (e.g. by a renderer), inserting or replacing it
+   * @param highlight - Highlight to save
+   * @returns Saved highlight
+   */
+  async saveHighlight(highlight: Highlight): Promise<Highlight> {
+    const existing = this.highlights.get(highlight.id) || null;
+    const type = existing ? 'updated' : 'created';
+
+    await this.persist(highlight);
+    this.highlights.set(highlight.id, highlight);
+    await this.recordChange(existing, highlight);
+    this.emit({ type, bookId: highlight.bookId, highlightId: highlight.id, highlight });
+    return highlight;
+  }
+
+  /**
+   * Replace a batch of highlights with the result of a sync merge
+   * @param highlights - Merged highlights
+   * @param bookId - Book the batch belongs to
+   */
+  async applySyncedHighlights(highlights: Highlight[], bookId: string): Promise<void> {
+    for (const highlight of highlights) {
+      await this.persist(highlight);
+      if (isMergedHighlight(highlight) || isTrashedHighlight(highlight) || isPurgedHighlight(highlight)) {
+        this.highlights.delete(highlight.id);
+      } else {
+        this.highlights.set(highlight.id, highlight);
+      }
+    }
+
+    this.emit({ type: 'synced', bookId });
+  }
+
   /**
    * Update an existing highlight
    * @param id - Highlight ID
    * @param updates - Updates to apply
    * @returns Updated highlight
    */
-  updateHighlight(id: string, updates: Partial<Highlight>): Highlight {
+  async updateHighlight(id: string, updates: Partial<Highlight>): Promise<Highlight> {
     const existing = this.highlights.get(id);
     if (!existing) {
       throw new Error(`Highlight with id ${id} not found`);
@@ -67,20 +237,163 @@ export class HighlightManager {
       lastModified: new Date()
     };
 
+    await this.persist(updated);
     this.highlights.set(id, updated);
+    await this.recordChange(existing, updated);
+    this.emit({ type: 'updated', bookId: updated.bookId, highlightId: id, highlight: updated });
     return updated;
   }
 
   /**
-   * Delete a highlight
+   * Delete a highlight; it moves to the recycle bin until it is purged
    * @param id - Highlight ID
    */
-  deleteHighlight(id: string): void {
-    if (!this.highlights.has(id)) {
+  async deleteHighlight(id: string): Promise<void> {
+    const existing = this.highlights.get(id);
+    if (!existing) {
       throw new Error(`Highlight with id ${id} not found`);
     }
-    
-    this.highlights.delete(id);
+
+    await this.moveToTrash(existing);
+    await this.recordChange(existing, null);
+    this.emit({ type: 'deleted', bookId: existing.bookId, highlightId: id });
+  }
+
+  /**
+   * Update several highlights at once, written in one storage transaction, announced as one change
+   * (so it syncs once) and undone as one step
+   * @param ids - Highlight IDs
+   * @param updates - Updates to apply, or a function working them out per highlight
+   * @returns Updated highlights
+   */
+  async updateHighlights(
+    ids: string[],
+    updates: Partial<Highlight> | ((highlight: Highlight) => Partial<Highlight>)
+  ): Promise<Highlight[]> {
+    const existing = this.getExisting(ids);
+    const now = new Date();
+
+    const updated = existing.map(highlight => ({
+      ...highlight,
+      ...(typeof updates === 'function' ? updates(highlight) : updates),
+      id: highlight.id,
+      bookId: highlight.bookId,
+      createdAt: highlight.createdAt,
+      updatedAt: now,
+      lastModified: now
+    }));
+
+    await this.writeBatch(updated, updated.map(highlight => this.createRevision('updated', highlight)));
+    updated.forEach(highlight => this.highlights.set(highlight.id, highlight));
+    this.pushUndoStep(existing.map((before, index) => ({ before, after: updated[index] })));
+    this.emitBatch(updated.map(highlight => ({
+      type: 'updated',
+      bookId: highlight.bookId,
+      highlightId: highlight.id,
+      highlight
+    })));
+    return updated;
+  }
+
+  /**
+   * Move several highlights to the recycle bin at once, as one transaction, one change and one undo step
+   * @param ids - Highlight IDs
+   */
+  async deleteHighlights(ids: string[]): Promise<void> {
+    const existing = this.getExisting(ids);
+    const now = new Date();
+
+    await this.writeBatch(
+      existing.map(highlight => ({ ...highlight, deletedAt: now, updatedAt: now, lastModified: now })),
+      existing.map(highlight => this.createRevision('deleted', highlight))
+    );
+    existing.forEach(highlight => this.highlights.delete(highlight.id));
+    this.pushUndoStep(existing.map(before => ({ before, after: null })));
+    this.emitBatch(existing.map(highlight => ({
+      type: 'deleted',
+      bookId: highlight.bookId,
+      highlightId: highlight.id
+    })));
+  }
+
+  /**
+   * Whether there is a local change to undo
+   */
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /**
+   * Whether there is an undone change to redo
+   */
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Undo the most recent create, edit or delete, or bulk edit
+   * @returns The affected highlight ID (the first one for a bulk edit), or null when there was nothing to undo
+   */
+  async undo(): Promise<string | null> {
+    const step = this.undoStack.pop();
+    if (!step) {
+      return null;
+    }
+
+    await this.applyStates(step.map(change => ({ target: change.before, current: change.after })));
+    this.redoStack.push(step);
+    return (step[0].before || step[0].after)?.id || null;
+  }
+
+  /**
+   * Redo the most recently undone change
+   * @returns The affected highlight ID (the first one for a bulk edit), or null when there was nothing to redo
+   */
+  async redo(): Promise<string | null> {
+    const step = this.redoStack.pop();
+    if (!step) {
+      return null;
+    }
+
+    await this.applyStates(step.map(change => ({ target: change.after, current: change.before })));
+    this.undoStack.push(step);
+    return (step[0].after || step[0].before)?.id || null;
+  }
+
+  /**
+   * Get a highlight's edit history
+   * @param highlightId - Highlight ID
+   * @returns Revisions, oldest first
+   */
+  async getRevisions(highlightId: string): Promise<HighlightRevision[]> {
+    if (this.storage?.getHighlightRevisions) {
+      return this.storage.getHighlightRevisions(highlightId);
+    }
+    return this.sessionRevisions.filter(revision => revision.highlightId === highlightId);
+  }
+
+  /**
+   * Restore a highlight's text, notes, tags, color and style from an earlier revision; a deleted
+   * highlight is brought back whole. The restore itself can be undone
+   * @param revision - Revision to restore
+   * @returns Restored highlight
+   */
+  async restoreRevision(revision: HighlightRevision): Promise<Highlight> {
+    const { snapshot } = revision;
+    const now = new Date();
+
+    if (!this.highlights.has(snapshot.id)) {
+      return this.saveHighlight({ ...snapshot, updatedAt: now, lastModified: now });
+    }
+
+    return this.updateHighlight(snapshot.id, {
+      text: snapshot.text,
+      note: snapshot.note,
+      notes: snapshot.notes,
+      tags: snapshot.tags,
+      color: snapshot.color,
+      style: snapshot.style
+    });
   }
 
   /**
@@ -128,7 +441,7 @@ export class HighlightManager {
         
         return (
           highlight.text.toLowerCase().includes(normalizedQuery) ||
-          (highlight.note && highlight.note.toLowerCase().includes(normalizedQuery)) ||
+          getNoteText(highlight).toLowerCase().includes(normalizedQuery) ||
           highlight.tags.some(tag => tag.toLowerCase().includes(normalizedQuery))
         );
       })
@@ -137,11 +450,11 @@ export class HighlightManager {
 
   /**
    * Filter highlights by color
-   * @param color - Highlight color
+   * @param color - Palette color ID
    * @param bookId - Optional book ID to limit filter
    * @returns Array of highlights with the specified color
    */
-  filterByColor(color: Highlight['color'], bookId?: string): Highlight[] {
+  filterByColor(color: string, bookId?: string): Highlight[] {
     return Array.from(this.highlights.values())
       .filter(highlight => {
         if (bookId && highlight.bookId !== bookId) {
@@ -156,7 +469,7 @@ export class HighlightManager {
    * Filter highlights by tags
    * @param tags - Array of tags to filter by
    * @param bookId - Optional book ID to limit filter
-   * @returns Array of highlights with any of the specified tags
+   * @returns Array of highlights with any of the specified tags or a tag below one of them
    */
   filterByTags(tags: string[], bookId?: string): Highlight[] {
     return Array.from(this.highlights.values())
@@ -164,7 +477,7 @@ export class HighlightManager {
         if (bookId && highlight.bookId !== bookId) {
           return false;
         }
-        return tags.some(tag => highlight.tags.includes(tag));
+        return matchesTagFilter(highlight.tags, tags);
       })
       .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
   }
@@ -182,6 +495,11 @@ export class HighlightManager {
         if (bookId && highlight.bookId !== bookId) {
           return false;
         }
+
+        // Page notes have no passage to recall
+        if (isPageNote(highlight)) {
+          return false;
+        }
         
         // Get the last review record
         const lastReview = highlight.reviewHistory[highlight.reviewHistory.length - 1];
@@ -194,74 +512,95 @@ export class HighlightManager {
         // Check if it's time for review
         return new Date(lastReview.nextReview) <= now;
       })
-      .sort((a, b) => {
-        // Sort by importance and last review date
-        const importanceDiff = (b.importance || 3) - (a.importance || 3);
-        if (importanceDiff !== 0) return importanceDiff;
-        
-        const aLastReview = a.reviewHistory[a.reviewHistory.length - 1];
-        const bLastReview = b.reviewHistory[b.reviewHistory.length - 1];
-        
-        if (!aLastReview) return -1;
-        if (!bLastReview) return 1;
-        
-        return new Date(aLastReview.nextReview).getTime() - new Date(bLastReview.nextReview).getTime();
-      });
+      .sort(compareForReview);
   }
 
   /**
-   * Add a review record to a highlight
+   * Grade a review of a highlight and schedule the next one
    * @param highlightId - Highlight ID
-   * @param success - Whether the review was successful
-   * @param easeFactor - Ease factor for spaced repetition
+   * @param grade - Grade from REVIEW_GRADES for the scheduler
+   * @param scheduler - Spaced-repetition algorithm to schedule with
+   * @param duration - Seconds spent on the card, when timed
    */
-  addReviewRecord(highlightId: string, success: boolean, easeFactor: number = 2.5): void {
+  async addReviewRecord(
+    highlightId: string,
+    grade: number,
+    scheduler: ReviewScheduler = 'sm2',
+    duration?: number
+  ): Promise<void> {
     const highlight = this.highlights.get(highlightId);
     if (!highlight) {
       throw new Error(`Highlight with id ${highlightId} not found`);
     }
 
     const now = new Date();
-    const lastReview = highlight.reviewHistory[highlight.reviewHistory.length - 1];
-    
-    let interval: number;
-    if (!lastReview) {
-      // First review
-      interval = success ? 1 : 0; // 1 day if successful, 0 if not
-    } else {
-      // Calculate next interval based on spaced repetition algorithm
-      if (success) {
-        interval = Math.round((lastReview.interval || 1) * easeFactor);
-      } else {
-        interval = 0; // Review again today if unsuccessful
-      }
-    }
+    const history = migrateReviewHistory(highlight.reviewHistory) || highlight.reviewHistory;
+    const reviewRecord: ReviewRecord = {
+      id: this.generateId(),
+      ...scheduleReview(history, grade, scheduler, now),
+      duration
+    };
+
+    const updatedHighlight: Highlight = {
+      ...highlight,
+      reviewHistory: [...history, reviewRecord],
+      updatedAt: now,
+      lastModified: now
+    };
+
+    await this.persist(updatedHighlight);
+    this.highlights.set(highlightId, updatedHighlight);
+    this.emit({ type: 'updated', bookId: updatedHighlight.bookId, highlightId, highlight: updatedHighlight });
+  }
 
-    const nextReview = new Date(now.getTime() + interval * 24 * 60 * 60 * 1000);
+  /**
+   * Grade a review of one of a highlight's cloze cards and schedule the card's next review
+   * @param highlightId - Highlight ID
+   * @param card - The card; generated cards are stored on the highlight with their first review
+   * @param grade - Grade from REVIEW_GRADES for the scheduler
+   * @param scheduler - Spaced-repetition algorithm to schedule with
+   * @param duration - Seconds spent on the card, when timed
+   */
+  async addClozeReviewRecord(
+    highlightId: string,
+    card: ClozeCard,
+    grade: number,
+    scheduler: ReviewScheduler = 'sm2',
+    duration?: number
+  ): Promise<void> {
+    const highlight = this.highlights.get(highlightId);
+    if (!highlight) {
+      throw new Error(`Highlight with id ${highlightId} not found`);
+    }
 
+    const now = new Date();
+    const cards = highlight.clozeCards || [];
+    const stored = cards.find(existing => existing.id === card.id) || card;
     const reviewRecord: ReviewRecord = {
       id: this.generateId(),
-      date: now,
-      success,
-      nextReview,
-      interval,
-      easeFactor
+      ...scheduleReview(stored.reviewHistory, grade, scheduler, now),
+      duration
     };
 
     const updatedHighlight: Highlight = {
       ...highlight,
-      reviewHistory: [...highlight.reviewHistory, reviewRecord],
+      clozeCards: [
+        ...cards.filter(existing => existing.id !== card.id),
+        { ...stored, reviewHistory: [...stored.reviewHistory, reviewRecord] }
+      ],
       updatedAt: now,
       lastModified: now
     };
 
+    await this.persist(updatedHighlight);
     this.highlights.set(highlightId, updatedHighlight);
+    this.emit({ type: 'updated', bookId: updatedHighlight.bookId, highlightId, highlight: updatedHighlight });
   }
 
   /**
    * Get statistics for highlights
    * @param bookId - Optional book ID to limit statistics
-   * @returns Highlight statistics
+   * @returns Highlight statistics, with colors counted under their palette names
    */
   getStatistics(bookId?: string): {
     total: number;
@@ -285,8 +624,9 @@ export class HighlightManager {
     let reviewedHighlights = 0;
 
     highlights.forEach(highlight => {
-      // Count by color
-      byColor[highlight.color] = (byColor[highlight.color] || 0) + 1;
+      // Count by color label
+      const label = getHighlightColor(this.palette, highlight.color).name;
+      byColor[label] = (byColor[label] || 0) + 1;
 
       // Count by tags
       highlight.tags.forEach(tag => {
@@ -319,10 +659,12 @@ export class HighlightManager {
   }
 
   /**
-   * Clear all highlights (for testing or reset)
+   * Clear all in-memory highlights and undo history (for testing or reset); storage is left untouched
    */
   clearAll(): void {
     this.highlights.clear();
+    this.undoStack = [];
+    this.redoStack = [];
   }
 
   /**
@@ -333,6 +675,7 @@ export class HighlightManager {
     highlights.forEach(highlight => {
       this.highlights.set(highlight.id, highlight);
     });
+    this.emit({ type: 'loaded' });
   }
 
   /**
@@ -348,6 +691,190 @@ export class HighlightManager {
     return JSON.stringify(highlights, null, 2);
   }
 
+  /**
+   * Put highlights back into earlier states (null deletes) without touching the undo stacks.
+   * Timestamps are bumped so sync treats the result as the newest version
+   */
+  private async applyStates(changes: Array<{ target: Highlight | null; current: Highlight | null }>): Promise<void> {
+    const now = new Date();
+    const written: Highlight[] = [];
+    const revisions: HighlightRevision[] = [];
+    const events: HighlightChangeEvent[] = [];
+
+    changes.forEach(({ target, current }) => {
+      if (!target) {
+        if (!current || !this.highlights.has(current.id)) {
+          return;
+        }
+        written.push({ ...current, deletedAt: now, updatedAt: now, lastModified: now });
+        revisions.push(this.createRevision('deleted', current));
+        events.push({ type: 'deleted', bookId: current.bookId, highlightId: current.id });
+        return;
+      }
+
+      const restored: Highlight = { ...target, updatedAt: now, lastModified: now };
+      written.push(restored);
+      revisions.push(this.createRevision('restored', restored));
+      events.push({
+        type: this.highlights.has(restored.id) ? 'updated' : 'created',
+        bookId: restored.bookId,
+        highlightId: restored.id,
+        highlight: restored
+      });
+    });
+
+    await this.writeBatch(written, revisions);
+    written.forEach(highlight => {
+      if (isTrashedHighlight(highlight)) {
+        this.highlights.delete(highlight.id);
+      } else {
+        this.highlights.set(highlight.id, highlight);
+      }
+    });
+    this.emitBatch(events);
+  }
+
+  /**
+   * Look up highlights for a bulk edit; fails before anything is written if one is missing
+   */
+  private getExisting(ids: string[]): Highlight[] {
+    return ids.map(id => {
+      const existing = this.highlights.get(id);
+      if (!existing) {
+        throw new Error(`Highlight with id ${id} not found`);
+      }
+      return existing;
+    });
+  }
+
+  /**
+   * Push a local change onto the undo stack and log it as a revision
+   */
+  private async recordChange(before: Highlight | null, after: Highlight | null): Promise<void> {
+    this.pushUndoStep([{ before, after }]);
+
+    if (after) {
+      await this.storeRevision(before ? 'updated' : 'created', after);
+    } else if (before) {
+      await this.storeRevision('deleted', before);
+    }
+  }
+
+  private pushUndoStep(step: UndoStep): void {
+    this.undoStack.push(step);
+    if (this.undoStack.length > MAX_UNDO_STEPS) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  private createRevision(action: HighlightRevision['action'], snapshot: Highlight): HighlightRevision {
+    return {
+      id: `revision-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      highlightId: snapshot.id,
+      bookId: snapshot.bookId,
+      action,
+      snapshot,
+      createdAt: new Date()
+    };
+  }
+
+  /**
+   * Append to the revision log; a failure here never blocks the edit itself
+   */
+  private async storeRevision(action: HighlightRevision['action'], snapshot: Highlight): Promise<void> {
+    const revision = this.createRevision(action, snapshot);
+
+    if (!this.storage?.storeHighlightRevision) {
+      this.sessionRevisions.push(revision);
+      return;
+    }
+
+    try {
+      await this.storage.storeHighlightRevision(revision);
+    } catch (error) {
+      console.error('HighlightManager: Failed to store highlight revision:', error);
+    }
+  }
+
+  /**
+   * Write highlights and their revisions together: in one transaction when storage supports it,
+   * otherwise one at a time
+   */
+  private async writeBatch(highlights: Highlight[], revisions: HighlightRevision[]): Promise<void> {
+    const logsRevisions = !!this.storage?.storeHighlightRevision;
+    if (!logsRevisions) {
+      this.sessionRevisions.push(...revisions);
+    }
+
+    if (this.storage?.storeHighlights) {
+      await this.storage.storeHighlights(highlights, logsRevisions ? revisions : []);
+      return;
+    }
+
+    for (const highlight of highlights) {
+      await this.persist(highlight);
+    }
+    if (logsRevisions) {
+      for (const revision of revisions) {
+        try {
+          await this.storage!.storeHighlightRevision!(revision);
+        } catch (error) {
+          console.error('HighlightManager: Failed to store highlight revision:', error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Keep a deleted highlight in storage, marked as trashed, so the deletion syncs and can be undone from the trash
+   */
+  private async moveToTrash(highlight: Highlight): Promise<void> {
+    const now = new Date();
+    await this.persist({ ...highlight, deletedAt: now, updatedAt: now, lastModified: now });
+    this.highlights.delete(highlight.id);
+  }
+
+  /**
+   * Write a highlight through to storage, if configured
+   */
+  private async persist(highlight: Highlight): Promise<void> {
+    if (this.storage) {
+      await this.storage.storeHighlight(highlight);
+    }
+  }
+
+  /**
+   * Notify subscribers of one or more changes of the same kind; several are folded into a
+   * single event listing their highlight IDs
+   */
+  private emitBatch(events: HighlightChangeEvent[]): void {
+    if (events.length <= 1) {
+      events.forEach(event => this.emit(event));
+      return;
+    }
+
+    const bookIds = new Set(events.map(event => event.bookId));
+    this.emit({
+      type: events[0].type,
+      bookId: bookIds.size === 1 ? events[0].bookId : undefined,
+      highlightIds: events.map(event => event.highlightId!)
+    });
+  }
+
+  /**
+   * Notify subscribers of a change
+   */
+  private emit(event: HighlightChangeEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('HighlightManager: Change listener failed:', error);
+      }
+    });
+  }
+
   /**
    * Generate a unique ID
    */
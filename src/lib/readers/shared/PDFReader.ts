@@ -1,8 +1,9 @@
 // Shared PDF Reader - Core component for PDF rendering and positioning
 // Provides consistent PDF reading experience across web and mobile platforms
 
-import { RenderResult, Selection, Position, Highlight } from './types';
+import { RenderResult, Selection, Position, Highlight, HighlightStorage } from './types';
 import { HighlightManager } from './HighlightManager';
+import { ReviewScheduler } from './scheduling';
 import { PositionCalculator } from './PositionCalculator';
 
 export class SharedPDFReader {
@@ -11,10 +12,10 @@ export class SharedPDFReader {
   private highlightManager: HighlightManager;
   private positionCalculator: PositionCalculator;
 
-  constructor(pdfData: Uint8Array) {
+  constructor(pdfData: Uint8Array, storage?: HighlightStorage) {
     this.pdfData = pdfData;
     this.renderer = new PDFRenderer(pdfData);
-    this.highlightManager = new HighlightManager();
+    this.highlightManager = new HighlightManager(storage);
     this.positionCalculator = new PositionCalculator(undefined, this.renderer);
   }
 
@@ -52,7 +53,7 @@ export class SharedPDFReader {
       tags?: string[];
       pageNumber?: number;
     } = {}
-  ): Highlight {
+  ): Promise<Highlight> {
     const position = this.getHighlightPosition(selection);
     
     return this.highlightManager.createHighlight({
@@ -90,7 +91,7 @@ export class SharedPDFReader {
    * @param updates - Updates to apply
    * @returns Updated highlight
    */
-  updateHighlight(highlightId: string, updates: Partial<Highlight>): Highlight {
+  updateHighlight(highlightId: string, updates: Partial<Highlight>): Promise<Highlight> {
     return this.highlightManager.updateHighlight(highlightId, updates);
   }
 
@@ -98,8 +99,8 @@ export class SharedPDFReader {
    * Delete a highlight
    * @param highlightId - Highlight ID
    */
-  deleteHighlight(highlightId: string): void {
-    this.highlightManager.deleteHighlight(highlightId);
+  deleteHighlight(highlightId: string): Promise<void> {
+    return this.highlightManager.deleteHighlight(highlightId);
   }
 
   /**
@@ -122,13 +123,13 @@ export class SharedPDFReader {
   }
 
   /**
-   * Add a review record to a highlight
+   * Grade a review of a highlight and schedule the next one
    * @param highlightId - Highlight ID
-   * @param success - Whether the review was successful
-   * @param easeFactor - Ease factor for spaced repetition
+   * @param grade - Grade from REVIEW_GRADES for the scheduler
+   * @param scheduler - Spaced-repetition algorithm to schedule with
    */
-  addReviewRecord(highlightId: string, success: boolean, easeFactor: number = 2.5): void {
-    this.highlightManager.addReviewRecord(highlightId, success, easeFactor);
+  addReviewRecord(highlightId: string, grade: number, scheduler: ReviewScheduler = 'sm2'): Promise<void> {
+    return this.highlightManager.addReviewRecord(highlightId, grade, scheduler);
   }
 
   /**
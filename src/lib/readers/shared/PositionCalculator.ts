@@ -2,6 +2,7 @@
 // Implements 2-level fallback strategy: Primary (CFI/coordinates) + Fallback (text context)
 
 import { Position, Selection, EPUBRenderer, PDFRenderer } from './types';
+import { compareCFI, isValidCFI } from './cfi';
 
 export class PositionCalculator {
   private epubRenderer?: EPUBRenderer;
@@ -266,15 +267,10 @@ export class PositionCalculator {
   }
 
   /**
-   * Validate CFI
+   * Validate CFI against the EPUB CFI grammar
    */
   private validateCFI(cfi: string): boolean {
-    try {
-      // Basic CFI validation
-      return cfi.startsWith('epubcfi(') && cfi.endsWith(')');
-    } catch (error) {
-      return false;
-    }
+    return isValidCFI(cfi);
   }
 
   /**
@@ -328,7 +324,9 @@ export class PositionCalculator {
       if (pos1.primary && pos2.primary) {
         if (pos1.primary.type === pos2.primary.type) {
           if (pos1.primary.type === 'cfi') {
-            return pos1.primary.value === pos2.primary.value;
+            // Equal when they point to the same place, whatever their assertions say
+            return pos1.primary.value === pos2.primary.value ||
+              compareCFI(String(pos1.primary.value), String(pos2.primary.value)) === 0;
           } else if (pos1.primary.type === 'coordinates') {
             const coords1 = pos1.primary.value as any;
             const coords2 = pos2.primary.value as any;
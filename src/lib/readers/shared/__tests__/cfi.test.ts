@@ -0,0 +1,318 @@
+// CFI tests, using the examples and sample documents of the EPUB Canonical Fragment Identifier spec
+
+import {
+  CFIContentOptions,
+  CFINodeFilter,
+  compareCFI,
+  generateCFI,
+  getCFIDocumentSteps,
+  getSpineItemSteps,
+  isValidCFI,
+  parseCFI,
+  resolveCFI,
+  serializeCFI,
+  sortCFIs
+} from '../cfi';
+
+const PACKAGE_DOCUMENT = `<?xml version="1.0"?>
+<package version="3.0" unique-identifier="bookid" xmlns="http://www.idpf.org/2007/opf">
+  <metadata></metadata>
+  <manifest>
+    <item id="titlepage" href="titlepage.xhtml" media-type="application/xhtml+xml"/>
+    <item id="chapter01" href="chapter01.xhtml" media-type="application/xhtml+xml"/>
+    <item id="chapter02" href="chapter02.xhtml" media-type="application/xhtml+xml"/>
+  </manifest>
+  <spine>
+    <itemref idref="titlepage" linear="yes"/>
+    <itemref id="chap01ref" idref="chapter01" linear="yes"/>
+    <itemref idref="chapter02" linear="yes"/>
+  </spine>
+</package>`;
+
+const CONTENT_DOCUMENT = `<html xmlns="http://www.w3.org/1999/xhtml">
+  <head>
+    <title>Chapter 1</title>
+  </head>
+  <body id="body01">
+    <p>One</p>
+    <p>Two</p>
+    <p>Three</p>
+    <p>Four</p>
+    <p id="para05">xxx<em>yyy</em>0123456789</p>
+    <p>Six</p>
+    <p>Seven</p>
+    <img id="svgimg" src="foo.svg" alt="An image"/>
+    <p>Nine</p>
+  </body>
+</html>`;
+
+function parseXML(source: string, type: DOMParserSupportedType): Document {
+  return new DOMParser().parseFromString(source, type);
+}
+
+function createRange(startNode: Node, startOffset: number, endNode: Node = startNode, endOffset: number = startOffset): Range {
+  const range = document.createRange();
+  range.setStart(startNode, startOffset);
+  range.setEnd(endNode, endOffset);
+  return range;
+}
+
+describe('parseCFI and serializeCFI', () => {
+  it.each([
+    'epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/3:10)',
+    'epubcfi(/6/4[chap01ref]!/4[body01]/16[svgimg])',
+    'epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/1:0)',
+    'epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/2/1:0)',
+    'epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/2/1:3)',
+    'epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/3:10[xx,y])',
+    'epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/3:10[;s=b])',
+    'epubcfi(/6/4[chap01ref]!/4[body01]/16[svgimg]@50:50)',
+    'epubcfi(/6/4[chap01ref]!/4[body01]/18[vid01]~23.5)',
+    'epubcfi(/6/4[chap01ref]!/4[body01]/18[vid01]~23.5@5.75:97.6)',
+    'epubcfi(/6/4[chap01ref]!/4[body01]/10[para05],/2/1:1,/3:4)',
+    'epubcfi(/6/14[chap05ref]!/4[body01]/10/2/1:3[2^[1^]])',
+    'epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/2/1,:0,:3)'
+  ])('round-trips %s', cfi => {
+    expect(isValidCFI(cfi)).toBe(true);
+    expect(serializeCFI(parseCFI(cfi))).toBe(cfi);
+  });
+
+  it('reads steps, id assertions and the indirection', () => {
+    expect(parseCFI('epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/3:10)').path).toEqual({
+      steps: [
+        { index: 6 },
+        { index: 4, id: 'chap01ref' },
+        { index: 4, id: 'body01', indirect: true },
+        { index: 10, id: 'para05' },
+        { index: 3 }
+      ],
+      offset: { character: 10 }
+    });
+  });
+
+  it('reads text location assertions and side bias', () => {
+    expect(parseCFI('epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/3:10[xx,y])').path.offset)
+      .toEqual({ character: 10, textBefore: 'xx', textAfter: 'y' });
+    expect(parseCFI('epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/3:10[;s=b])').path.offset)
+      .toEqual({ character: 10, sideBias: 'b' });
+  });
+
+  it('unescapes ^ in assertions and escapes them again when serializing', () => {
+    const parsed = parseCFI('epubcfi(/6/14[chap05ref]!/4[body01]/10/2/1:3[2^[1^]])');
+    expect(parsed.path.offset).toEqual({ character: 3, textBefore: '2[1]' });
+
+    parsed.path.steps[1].id = 'chap^05,(ref)';
+    expect(serializeCFI(parsed)).toBe('epubcfi(/6/14[chap^^05^,^(ref^)]!/4[body01]/10/2/1:3[2^[1^]])');
+  });
+
+  it('reads ranges as a common parent with start and end paths', () => {
+    const parsed = parseCFI('epubcfi(/6/4[chap01ref]!/4[body01]/10[para05],/2/1:1,/3:4)');
+    expect(parsed.range).toEqual({
+      start: { steps: [{ index: 2 }, { index: 1 }], offset: { character: 1 } },
+      end: { steps: [{ index: 3 }], offset: { character: 4 } }
+    });
+  });
+
+  it.each([
+    ['epubcfi()', 'Invalid CFI at 0'],
+    ['epubcfi(/6/4!)', 'Invalid CFI at'],
+    ['epubcfi(/6/4[chap)', 'unterminated assertion'],
+    ['epubcfi(/3/4)', 'Invalid CFI at'],
+    ['epubcfi(/06)', 'Invalid CFI at'],
+    ['epubcfi(/6/4,/2)', 'Invalid CFI at'],
+    ['epubcfi(/6/4[a(b])', 'unescaped "("'],
+    ['/6/4[chap01ref]!/4/2', 'expected epubcfi(...)']
+  ])('throws for malformed %s', (cfi, message) => {
+    expect(isValidCFI(cfi)).toBe(false);
+    expect(() => parseCFI(cfi)).toThrow(message);
+  });
+});
+
+describe('compareCFI and sortCFIs', () => {
+  const ordered = [
+    'epubcfi(/6/4[chap01ref]!/4[body01]/10[para05])',
+    'epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/1:0)',
+    'epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/2/1:0)',
+    'epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/2/1:3)',
+    'epubcfi(/6/4[chap01ref]!/4[body01]/10[para05],/2/1:3,/3:4)',
+    'epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/3:4)',
+    'epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/3:10)',
+    'epubcfi(/6/4[chap01ref]!/4[body01]/16[svgimg])',
+    'epubcfi(/6/14[chap05ref]!/4/2/1:0)'
+  ];
+
+  it('orders by spine item, then by position within the document', () => {
+    for (let i = 1; i < ordered.length; i++) {
+      expect(compareCFI(ordered[i - 1], ordered[i])).toBeLessThan(0);
+      expect(compareCFI(ordered[i], ordered[i - 1])).toBeGreaterThan(0);
+    }
+  });
+
+  it('orders steps numerically rather than as text', () => {
+    expect(compareCFI('epubcfi(/6/4!/4/2/1:0)', 'epubcfi(/6/4!/4/10/1:0)')).toBeLessThan(0);
+    expect(compareCFI('epubcfi(/6/4!/4/2/1:9)', 'epubcfi(/6/4!/4/2/1:10)')).toBeLessThan(0);
+  });
+
+  it('treats CFIs that differ only in assertions as the same location', () => {
+    expect(compareCFI(
+      'epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/3:10[xx,y])',
+      'epubcfi(/6/4!/4/10/3:10)'
+    )).toBe(0);
+  });
+
+  it('throws for malformed input', () => {
+    expect(() => compareCFI('epubcfi(/6/4!/4/2)', 'bogus')).toThrow('Invalid CFI');
+  });
+
+  it('sorts into reading order, with malformed CFIs last in their original order', () => {
+    const shuffled = [...ordered].reverse();
+    expect(sortCFIs(['bogus', ...shuffled, 'epubcfi(/6/4[x)'])).toEqual([...ordered, 'bogus', 'epubcfi(/6/4[x)']);
+  });
+});
+
+describe('generateCFI and resolveCFI', () => {
+  const packageDocument = parseXML(PACKAGE_DOCUMENT, 'application/xml');
+  const itemref = packageDocument.getElementsByTagName('itemref')[1];
+  const documentSteps = getSpineItemSteps(itemref);
+
+  let content: Document;
+  let options: CFIContentOptions;
+  let para05: Element;
+  let xxx: Text;
+  let yyy: Text;
+  let digits: Text;
+
+  beforeEach(() => {
+    content = parseXML(CONTENT_DOCUMENT, 'application/xhtml+xml');
+    options = { root: content.documentElement };
+    para05 = content.getElementById('para05')!;
+    [xxx, , digits] = Array.from(para05.childNodes) as Text[];
+    yyy = para05.querySelector('em')!.firstChild as Text;
+  });
+
+  it('finds the steps to a spine item', () => {
+    expect(documentSteps).toEqual([{ index: 6 }, { index: 4, id: 'chap01ref' }]);
+    expect(getCFIDocumentSteps('epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/3:10)')).toEqual(documentSteps);
+  });
+
+  it('generates the spec examples with id assertions', () => {
+    expect(generateCFI(createRange(digits, 10), documentSteps, options))
+      .toBe('epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/3:10)');
+    expect(generateCFI(createRange(xxx, 0), documentSteps, options))
+      .toBe('epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/1:0)');
+    expect(generateCFI(createRange(yyy, 3), documentSteps, options))
+      .toBe('epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/2/1:3)');
+  });
+
+  it('generates range CFIs with the common parent factored out', () => {
+    expect(generateCFI(createRange(yyy, 1, digits, 4), documentSteps, options))
+      .toBe('epubcfi(/6/4[chap01ref]!/4[body01]/10[para05],/2/1:1,/3:4)');
+    expect(generateCFI(createRange(yyy, 0, yyy, 3), documentSteps, options))
+      .toBe('epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/2/1,:0,:3)');
+  });
+
+  it('moves points between elements into the text around them', () => {
+    expect(generateCFI(createRange(para05, 1), documentSteps, options))
+      .toBe('epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/1:3)');
+    expect(generateCFI(createRange(para05, 2), documentSteps, options))
+      .toBe('epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/3:0)');
+  });
+
+  it('escapes special characters in generated id assertions', () => {
+    para05.setAttribute('id', 'para^05[x]');
+    const cfi = generateCFI(createRange(digits, 2), documentSteps, options);
+    expect(cfi).toBe('epubcfi(/6/4[chap01ref]!/4[body01]/10[para^^05^[x^]]/3:2)');
+
+    const range = resolveCFI(cfi!, options)!;
+    expect(range.startContainer).toBe(digits);
+    expect(range.startOffset).toBe(2);
+  });
+
+  it('resolves the spec examples', () => {
+    const text = resolveCFI('epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/3:10)', options)!;
+    expect(text.collapsed).toBe(true);
+    expect(text.startContainer).toBe(digits);
+    expect(text.startOffset).toBe(10);
+
+    const image = resolveCFI('epubcfi(/6/4[chap01ref]!/4[body01]/16[svgimg])', options)!;
+    expect(image.startContainer.childNodes[image.startOffset]).toBe(content.getElementById('svgimg'));
+  });
+
+  it('resolves ranges', () => {
+    const range = resolveCFI('epubcfi(/6/4[chap01ref]!/4[body01]/10[para05],/2/1:1,/3:4)', options)!;
+    expect(range.toString()).toBe('yy0123');
+  });
+
+  it('resolves CFIs with text location assertions and side bias', () => {
+    const range = resolveCFI('epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/3:4[23,45;s=a])', options)!;
+    expect(range.startContainer).toBe(digits);
+    expect(range.startOffset).toBe(4);
+  });
+
+  it('follows id assertions when the step indexes no longer match', () => {
+    content.body.insertBefore(content.createElementNS('http://www.w3.org/1999/xhtml', 'p'), content.body.firstChild);
+    const range = resolveCFI('epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/2/1:2)', options)!;
+    expect(range.startContainer).toBe(yyy);
+    expect(range.startOffset).toBe(2);
+  });
+
+  it('round-trips every character position', () => {
+    for (let offset = 0; offset <= digits.length; offset++) {
+      const range = resolveCFI(generateCFI(createRange(digits, offset), documentSteps, options)!, options)!;
+      expect(range.startContainer).toBe(digits);
+      expect(range.startOffset).toBe(offset);
+    }
+  });
+
+  it('returns null for CFIs that are malformed or do not fit the document', () => {
+    expect(resolveCFI('epubcfi(/6/4[chap', options)).toBeNull();
+    expect(resolveCFI('epubcfi(/6/4!/4/10/3:11)', options)).toBeNull();
+    expect(resolveCFI('epubcfi(/6/4!/4/40)', options)).toBeNull();
+  });
+
+  describe('with injected markup', () => {
+    // As the reader renders it: highlight marks split the text, and a heading it adds is not part of the book
+    const filter = (element: Element): CFINodeFilter => {
+      if (element.classList.contains('epub-highlight')) return 'skip';
+      if (element.classList.contains('epub-chapter-title')) return 'reject';
+      return 'accept';
+    };
+
+    beforeEach(() => {
+      const title = content.createElementNS('http://www.w3.org/1999/xhtml', 'h1');
+      title.setAttribute('class', 'epub-chapter-title');
+      title.textContent = 'Chapter 1';
+      content.body.insertBefore(title, content.body.firstChild);
+
+      // Wrap "2345" in a highlight mark
+      const mark = content.createElementNS('http://www.w3.org/1999/xhtml', 'mark');
+      mark.setAttribute('class', 'epub-highlight');
+      const highlighted = digits.splitText(2);
+      highlighted.splitText(4);
+      para05.replaceChild(mark, highlighted);
+      mark.appendChild(highlighted);
+
+      options = { root: content.documentElement, filter };
+    });
+
+    it('generates the same CFIs as for the original document', () => {
+      const mark = para05.querySelector('mark')!;
+      expect(generateCFI(createRange(mark.firstChild!, 1), documentSteps, options))
+        .toBe('epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/3:3)');
+      expect(generateCFI(createRange(yyy, 1, para05.lastChild!, 1), documentSteps, options))
+        .toBe('epubcfi(/6/4[chap01ref]!/4[body01]/10[para05],/2/1:1,/3:7)');
+    });
+
+    it('resolves into the split text', () => {
+      const range = resolveCFI('epubcfi(/6/4[chap01ref]!/4[body01]/10[para05],/3:3,/3:8)', options)!;
+      expect(range.startContainer.parentNode).toBe(para05.querySelector('mark'));
+      expect(range.startOffset).toBe(1);
+      expect(range.toString()).toBe('34567');
+    });
+
+    it('gives no CFI inside rejected elements', () => {
+      const title = content.querySelector('.epub-chapter-title')!;
+      expect(generateCFI(createRange(title.firstChild!, 0, title.firstChild!, 3), documentSteps, options)).toBeNull();
+    });
+  });
+});
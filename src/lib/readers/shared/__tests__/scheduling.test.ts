@@ -0,0 +1,148 @@
+// Review scheduling tests: SM-2 and FSRS intervals, difficulty and stability against values worked out
+// by hand from the FSRS-4.5 default parameters, and migration of records from before grading
+
+import { ReviewRecord } from '../types';
+import { migrateReviewHistory, ReviewScheduler, scheduleReview } from '../scheduling';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = new Date(2024, 0, 1, 9);
+
+const daysAfterStart = (days: number) => new Date(START.getTime() + days * DAY_MS);
+
+// Review an item with the given grades, one review every `gapDays`
+function review(grades: number[], scheduler: ReviewScheduler, gapDays: number = 1): ReviewRecord[] {
+  const history: ReviewRecord[] = [];
+  grades.forEach((grade, i) => {
+    history.push({ id: `r${i}`, ...scheduleReview(history, grade, scheduler, daysAfterStart(i * gapDays)) });
+  });
+  return history;
+}
+
+const legacyRecord = (id: string, success: boolean, day: number, interval: number): ReviewRecord => ({
+  id,
+  date: daysAfterStart(day),
+  success,
+  nextReview: daysAfterStart(day + interval),
+  interval,
+  easeFactor: 2.5
+});
+
+describe('scheduleReview with SM-2', () => {
+  it.each([
+    [0, 1, 1.7, 0, false],
+    [1, 1, 1.96, 0, false],
+    [2, 1, 2.18, 0, false],
+    [3, 1, 2.36, 1, true],
+    [4, 1, 2.5, 1, true],
+    [5, 1, 2.6, 1, true]
+  ])('schedules a first review graded %i', (grade, interval, easeFactor, repetitions, success) => {
+    const [record] = review([grade], 'sm2');
+    expect(record.interval).toBe(interval);
+    expect(record.easeFactor).toBeCloseTo(easeFactor, 10);
+    expect(record.repetitions).toBe(repetitions);
+    expect(record.success).toBe(success);
+    expect(record.nextReview).toEqual(new Date(START.getTime() + DAY_MS));
+  });
+
+  it('steps from 1 to 6 days, then multiplies by the ease factor', () => {
+    expect(review([4, 4, 4, 4], 'sm2').map(record => record.interval)).toEqual([1, 6, 15, 38]);
+    expect(review([5, 5, 5], 'sm2').map(record => record.interval)).toEqual([1, 6, 16]);
+  });
+
+  it('starts the item over after a failed recall', () => {
+    const last = review([4, 4, 4, 2], 'sm2').pop()!;
+    expect(last).toMatchObject({ interval: 1, repetitions: 0, success: false });
+  });
+
+  it('keeps the ease factor at 1.3 or above', () => {
+    const [first, ...rest] = review([0, 0, 0, 0], 'sm2').map(record => record.easeFactor);
+    expect(first).toBeCloseTo(1.7, 10);
+    expect(rest).toEqual([1.3, 1.3, 1.3]);
+  });
+
+  it('rejects grades outside the scale', () => {
+    expect(() => scheduleReview([], 6, 'sm2')).toThrow('6 is not a valid SM-2 grade');
+    expect(() => scheduleReview([], 0, 'fsrs')).toThrow('0 is not a valid FSRS grade');
+  });
+});
+
+describe('scheduleReview with FSRS', () => {
+  it.each([
+    [1, 0.4872, 7.6214, 1],
+    [2, 1.4003, 6.3916, 1],
+    [3, 3.7145, 5.1618, 4],
+    [4, 13.8206, 3.932, 14]
+  ])('starts an item graded %i with the default stability and difficulty', (grade, stability, difficulty, interval) => {
+    const [record] = review([grade], 'fsrs');
+    expect(record.stability).toBeCloseTo(stability, 10);
+    expect(record.difficulty).toBeCloseTo(difficulty, 10);
+    expect(record.interval).toBe(interval);
+  });
+
+  it('grows stability on a recall when due', () => {
+    const [, second] = review([3, 3], 'fsrs', 4);
+    expect(second.stability).toBeCloseTo(14.8081, 4);
+    expect(second.difficulty).toBeCloseTo(5.1618, 4);
+    expect(second.interval).toBe(15);
+  });
+
+  it('drops stability on a lapse', () => {
+    const [, lapse] = review([3, 1], 'fsrs', 4);
+    expect(lapse.stability).toBeCloseTo(1.4332, 4);
+    expect(lapse.difficulty).toBeCloseTo(6.9012, 4);
+    expect(lapse).toMatchObject({ interval: 1, repetitions: 0, success: false });
+  });
+
+  it('never raises stability on a lapse, however long the gap', () => {
+    const [, lapse] = review([1, 1], 'fsrs', 100);
+    expect(lapse.stability).toBe(0.4872);
+  });
+
+  it('keeps difficulty between 1 and 10', () => {
+    const hardest = review(Array(60).fill(1), 'fsrs').map(record => record.difficulty!);
+    const easiest = review(Array(60).fill(4), 'fsrs').map(record => record.difficulty!);
+
+    expect(Math.max(...hardest)).toBe(10);
+    expect(hardest[hardest.length - 1]).toBe(10);
+    expect(Math.min(...easiest)).toBe(1);
+    expect(easiest[easiest.length - 1]).toBe(1);
+  });
+});
+
+describe('migrateReviewHistory', () => {
+  it('grades legacy successes 4 and failures 1 as SM-2 reviews, counting repetitions', () => {
+    const history = [
+      legacyRecord('a', true, 0, 1),
+      legacyRecord('b', true, 1, 6),
+      legacyRecord('c', false, 7, 1),
+      legacyRecord('d', true, 8, 1)
+    ];
+
+    expect(migrateReviewHistory(history)).toEqual([
+      { ...history[0], scheduler: 'sm2', grade: 4, repetitions: 1 },
+      { ...history[1], scheduler: 'sm2', grade: 4, repetitions: 2 },
+      { ...history[2], scheduler: 'sm2', grade: 1, repetitions: 0 },
+      { ...history[3], scheduler: 'sm2', grade: 4, repetitions: 1 }
+    ]);
+  });
+
+  it('returns null when every record already has a scheduler', () => {
+    expect(migrateReviewHistory(review([4, 4], 'sm2'))).toBeNull();
+    expect(migrateReviewHistory([])).toBeNull();
+  });
+
+  it('continues the repetition count of graded records', () => {
+    const [graded] = review([4], 'sm2');
+    const migrated = migrateReviewHistory([graded, legacyRecord('b', true, 1, 6)]);
+
+    expect(migrated![0]).toBe(graded);
+    expect(migrated![1]).toMatchObject({ scheduler: 'sm2', grade: 4, repetitions: 2 });
+  });
+
+  it('lets scheduling continue from a legacy history', () => {
+    const history = [legacyRecord('a', true, 0, 1), legacyRecord('b', true, 1, 6)];
+    const next = scheduleReview(history, 4, 'sm2', daysAfterStart(7));
+
+    expect(next).toMatchObject({ interval: 15, repetitions: 3, easeFactor: 2.5 });
+  });
+});
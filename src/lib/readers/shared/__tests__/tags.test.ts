@@ -0,0 +1,121 @@
+// Tag path tests: normalizing, filtering, renaming and building the tag tree
+
+import {
+  buildTagTree,
+  countTags,
+  flattenTagTree,
+  getParentTagPath,
+  getTagName,
+  isTagWithin,
+  matchesTagFilter,
+  normalizeTagPath,
+  renameTagInList,
+  renameTagPath,
+  validateTagRename
+} from '../tags';
+
+describe('tag paths', () => {
+  it.each([
+    [' a / /b/ ', 'a/b'],
+    ['philosophy/stoicism', 'philosophy/stoicism'],
+    ['/leading/', 'leading'],
+    [' / ', '']
+  ])('normalizes %j to %j', (path, expected) => {
+    expect(normalizeTagPath(path)).toBe(expected);
+  });
+
+  it('reads the name and parent of a path', () => {
+    expect(getTagName('philosophy/stoicism/seneca')).toBe('seneca');
+    expect(getTagName('philosophy')).toBe('philosophy');
+    expect(getParentTagPath('philosophy/stoicism/seneca')).toBe('philosophy/stoicism');
+    expect(getParentTagPath('philosophy')).toBe('');
+  });
+
+  it('treats a tag as within itself and its ancestors, but not within a tag sharing its prefix', () => {
+    expect(isTagWithin('philosophy', 'philosophy')).toBe(true);
+    expect(isTagWithin('philosophy/stoicism', 'philosophy')).toBe(true);
+    expect(isTagWithin('philosophy', 'philosophy/stoicism')).toBe(false);
+    expect(isTagWithin('philosophyish', 'philosophy')).toBe(false);
+  });
+
+  it('matches filters on any tag, children included', () => {
+    expect(matchesTagFilter(['history', 'philosophy/stoicism'], ['philosophy'])).toBe(true);
+    expect(matchesTagFilter(['philosophy'], ['philosophy/stoicism'])).toBe(false);
+    expect(matchesTagFilter(undefined, ['philosophy'])).toBe(false);
+    expect(matchesTagFilter(['philosophy'], [])).toBe(false);
+  });
+});
+
+describe('renaming tags', () => {
+  it('moves a tag and everything below it', () => {
+    expect(renameTagPath('philosophy/stoicism/seneca', 'philosophy/stoicism', 'ancient/stoics')).toBe('ancient/stoics/seneca');
+    expect(renameTagPath('philosophy/stoicism', 'philosophy/stoicism', 'stoicism')).toBe('stoicism');
+    expect(renameTagPath('philosophyish', 'philosophy', 'ideas')).toBe('philosophyish');
+  });
+
+  it('renames within a list, dropping the duplicates a merge creates', () => {
+    expect(renameTagInList(['a/x', 'b/x', 'c'], 'a', 'b')).toEqual(['b/x', 'c']);
+    expect(renameTagInList(['c'], 'a', 'b')).toBeNull();
+    expect(renameTagInList(undefined, 'a', 'b')).toBeNull();
+  });
+
+  it('normalizes the new path and refuses empty names and moves into itself', () => {
+    expect(validateTagRename('a', ' b / c ')).toBe('b/c');
+    expect(validateTagRename('a/b', 'a/b')).toBe('a/b');
+    expect(() => validateTagRename('a', ' / ')).toThrow('A tag needs a name');
+    expect(() => validateTagRename('a', 'a/b')).toThrow('A tag cannot be moved inside itself');
+  });
+});
+
+describe('buildTagTree', () => {
+  it('adds the tags above each path and sorts every level by name', () => {
+    const tree = buildTagTree(['philosophy/stoicism/seneca', 'history', 'philosophy/epicureanism', ' / ']);
+
+    expect(tree).toEqual([
+      { name: 'history', path: 'history', depth: 0, children: [] },
+      {
+        name: 'philosophy',
+        path: 'philosophy',
+        depth: 0,
+        children: [
+          { name: 'epicureanism', path: 'philosophy/epicureanism', depth: 1, children: [] },
+          {
+            name: 'stoicism',
+            path: 'philosophy/stoicism',
+            depth: 1,
+            children: [{ name: 'seneca', path: 'philosophy/stoicism/seneca', depth: 2, children: [] }]
+          }
+        ]
+      }
+    ]);
+  });
+
+  it('flattens the tree with parents before their children', () => {
+    const paths = flattenTagTree(buildTagTree(['b/c', 'a', 'b/a/x'])).map(node => node.path);
+    expect(paths).toEqual(['a', 'b', 'b/a', 'b/a/x', 'b/c']);
+  });
+});
+
+describe('countTags', () => {
+  const items = [
+    { tags: ['philosophy/stoicism', 'philosophy/stoicism/seneca'] },
+    { tags: ['philosophy'] },
+    {}
+  ];
+
+  it('counts only the tags on each item by default', () => {
+    expect(countTags(items)).toEqual({
+      'philosophy/stoicism': 1,
+      'philosophy/stoicism/seneca': 1,
+      philosophy: 1
+    });
+  });
+
+  it('counts each item once under every tag above its tags', () => {
+    expect(countTags(items, true)).toEqual({
+      'philosophy/stoicism': 1,
+      'philosophy/stoicism/seneca': 1,
+      philosophy: 2
+    });
+  });
+});
@@ -0,0 +1,626 @@
+// EPUB CFI - Parses, compares, generates and resolves EPUB Canonical Fragment Identifiers
+// Follows the EPUB CFI 1.1 grammar; paths go from the package document through the spine into a content document
+
+export interface CFIStep {
+  index: number; // Even for elements, odd for the text before, between and after them
+  id?: string; // Id assertion, e.g. /4[body01]
+  indirect?: boolean; // Reached through "!", into the document the previous step references
+}
+
+export interface CFIOffset {
+  character?: number;
+  temporal?: number; // Seconds into audio or video
+  spatial?: [number, number]; // x:y, 0-100 across the element
+  textBefore?: string; // Text location assertion [before,after]
+  textAfter?: string;
+  sideBias?: 'a' | 'b'; // Whether the location sticks to the content after or before it
+}
+
+export interface CFIPath {
+  steps: CFIStep[];
+  offset?: CFIOffset;
+}
+
+export interface ParsedCFI {
+  path: CFIPath; // The location, or the common parent of a range
+  range?: { start: CFIPath; end: CFIPath }; // Range ends, relative to the parent path
+}
+
+// 'reject' leaves out an element with everything in it, such as UI the reader adds to a chapter;
+// 'skip' leaves out only the element itself, such as a highlight wrapped around part of the text
+export type CFINodeFilter = 'accept' | 'reject' | 'skip';
+
+export interface CFIContentOptions {
+  root: Node; // Where the content steps start from
+  rootSteps?: CFIStep[]; // Steps from the content document's root element down to root
+  filter?: (element: Element) => CFINodeFilter;
+}
+
+interface ChildStep {
+  index: number;
+  element?: Element; // Set on even steps
+  texts: Text[]; // Text of odd steps; several nodes when the text is split
+}
+
+interface DOMPoint {
+  node: Node;
+  offset: number;
+}
+
+const SPECIAL_CHARACTERS = /[\^[\](),;=]/g;
+
+/**
+ * Parse a CFI
+ * @param cfi - CFI such as epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/3:10)
+ * @returns The parsed location or range
+ * @throws When the CFI does not follow the grammar
+ */
+export function parseCFI(cfi: string): ParsedCFI {
+  const match = cfi.match(/^epubcfi\(([\s\S]*)\)$/);
+  if (!match) {
+    throw new Error('Invalid CFI: expected epubcfi(...)');
+  }
+
+  const body = match[1];
+  let position = 0;
+
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid CFI at ${position}: ${reason}`);
+  };
+
+  const readNumber = (pattern: RegExp): number => {
+    const number = pattern.exec(body.slice(position));
+    if (!number) {
+      return fail('expected a number');
+    }
+    position += number[0].length;
+    return Number(number[0]);
+  };
+  const readInteger = () => readNumber(/^(0|[1-9]\d*)/);
+  const readDecimal = () => readNumber(/^(0|[1-9]\d*)(\.\d+)?/);
+
+  // [value,value;name=value], with ^ escaping the special characters
+  const readAssertion = (): { values: string[]; parameters: Record<string, string> } => {
+    const groups: string[][] = [['']];
+    position++;
+
+    while (position < body.length && body[position] !== ']') {
+      const group = groups[groups.length - 1];
+      let char = body[position++];
+
+      if (char === '^') {
+        if (position >= body.length) fail('nothing to escape');
+        char = body[position++];
+      } else if (char === ',') {
+        group.push('');
+        continue;
+      } else if (char === ';') {
+        groups.push(['']);
+        continue;
+      } else if ('[()'.includes(char)) {
+        fail(`unescaped "${char}" in assertion`);
+      }
+      group[group.length - 1] += char;
+    }
+
+    if (body[position] !== ']') fail('unterminated assertion');
+    position++;
+
+    const [values, ...parameterGroups] = groups;
+    const parameters: Record<string, string> = {};
+    parameterGroups.forEach(group => {
+      const [name, ...value] = group.join(',').split('=');
+      parameters[name.trim()] = value.join('=');
+    });
+    return { values, parameters };
+  };
+
+  const readOffset = (): CFIOffset | undefined => {
+    const offset: CFIOffset = {};
+
+    if (body[position] === ':') {
+      position++;
+      offset.character = readInteger();
+    } else {
+      if (body[position] === '~') {
+        position++;
+        offset.temporal = readDecimal();
+      }
+      if (body[position] === '@') {
+        position++;
+        const x = readDecimal();
+        if (body[position] !== ':') fail('expected ":" in spatial offset');
+        position++;
+        offset.spatial = [x, readDecimal()];
+      }
+      if (offset.temporal === undefined && !offset.spatial) {
+        return undefined;
+      }
+    }
+
+    if (body[position] === '[') {
+      const { values, parameters } = readAssertion();
+      if (values[0]) offset.textBefore = values[0];
+      if (values[1]) offset.textAfter = values[1];
+      if (parameters.s === 'a' || parameters.s === 'b') offset.sideBias = parameters.s;
+    }
+    return offset;
+  };
+
+  const readPath = (): CFIPath => {
+    const steps: CFIStep[] = [];
+    let indirect = false;
+
+    while (body[position] === '/' || body[position] === '!') {
+      if (body[position] === '!') {
+        if (indirect) fail('unexpected "!"');
+        indirect = true;
+        position++;
+        continue;
+      }
+
+      position++;
+      const step: CFIStep = { index: readInteger() };
+      if (indirect) {
+        step.indirect = true;
+        indirect = false;
+      }
+      if (body[position] === '[') {
+        const id = readAssertion().values[0];
+        if (id) step.id = id;
+      }
+      steps.push(step);
+    }
+
+    if (indirect) fail('expected a step after "!"');
+    const offset = readOffset();
+    if (steps.length === 0 && !offset) fail('expected a step or offset');
+    return offset ? { steps, offset } : { steps };
+  };
+
+  if (body[position] !== '/') fail('expected a step');
+  const path = readPath();
+  let range: ParsedCFI['range'];
+
+  if (body[position] === ',') {
+    if (path.offset) fail('a range parent cannot have an offset');
+    position++;
+    const start = readPath();
+    if (body[position] !== ',') fail('expected ","');
+    position++;
+    range = { start, end: readPath() };
+  }
+
+  if (position < body.length) fail(`unexpected "${body[position]}"`);
+
+  const parsed = range ? { path, range } : { path };
+
+  // Text steps have nothing below them
+  [getStart(parsed), getEnd(parsed)].forEach(full => {
+    if (full.steps.slice(0, -1).some(step => step.index % 2 === 1)) {
+      fail('a text step must be the last step');
+    }
+  });
+
+  return parsed;
+}
+
+/**
+ * Whether a string is a well-formed CFI
+ */
+export function isValidCFI(cfi: string): boolean {
+  try {
+    parseCFI(cfi);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Write a parsed CFI back out, escaping assertion values
+ */
+export function serializeCFI(parsed: ParsedCFI): string {
+  const body = parsed.range
+    ? `${pathToString(parsed.path)},${pathToString(parsed.range.start)},${pathToString(parsed.range.end)}`
+    : pathToString(parsed.path);
+  return `epubcfi(${body})`;
+}
+
+/**
+ * Order two CFIs by where they start in the book, then by where they end
+ * @returns Negative when a comes first, positive when b does, 0 when they are the same location
+ * @throws When either CFI is malformed
+ */
+export function compareCFI(a: string, b: string): number {
+  const parsedA = parseCFI(a);
+  const parsedB = parseCFI(b);
+  return comparePaths(getStart(parsedA), getStart(parsedB)) || comparePaths(getEnd(parsedA), getEnd(parsedB));
+}
+
+/**
+ * Sort CFIs into reading order; malformed ones go last, in their original order
+ */
+export function sortCFIs(cfis: string[]): string[] {
+  const valid = cfis.filter(isValidCFI);
+  const invalid = cfis.filter(cfi => !isValidCFI(cfi));
+  return [...valid.sort(compareCFI), ...invalid];
+}
+
+/**
+ * Steps to the content document a CFI points into, e.g. /6/4[chap01ref] for epubcfi(/6/4[chap01ref]!/4/2/1:3)
+ * @returns The steps before the last indirection, or null for a malformed CFI or one without indirection
+ */
+export function getCFIDocumentSteps(cfi: string): CFIStep[] | null {
+  try {
+    const { steps } = getStart(parseCFI(cfi));
+    const indirection = getLastIndirection(steps);
+    return indirection > 0 ? steps.slice(0, indirection) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Steps from a package document's root to one of its spine itemrefs, e.g. /6/4[chap01ref]
+ */
+export function getSpineItemSteps(itemref: Element): CFIStep[] {
+  const root = itemref.ownerDocument.documentElement;
+  return getNodeSteps(itemref, { root }) || [];
+}
+
+/**
+ * Build the CFI of a DOM range within a content document
+ * @param range - Range to describe; a collapsed range gives a location rather than a range
+ * @param documentSteps - Steps to the content document in the package, from getSpineItemSteps
+ * @param options - Where the content document starts and which nodes are not part of it
+ * @returns The CFI, or null when the range is not within the content
+ */
+export function generateCFI(range: Range, documentSteps: CFIStep[], options: CFIContentOptions): string | null {
+  const start = getPointPath(range.startContainer, range.startOffset, options);
+  const end = range.collapsed ? start : getPointPath(range.endContainer, range.endOffset, options);
+  if (!start || !end) {
+    return null;
+  }
+
+  const toBookSteps = (steps: CFIStep[]) => documentSteps.length > 0
+    ? [...documentSteps, ...steps.map((step, index) => index === 0 ? { ...step, indirect: true } : step)]
+    : steps;
+  const startSteps = toBookSteps(start.steps);
+  const endSteps = toBookSteps(end.steps);
+
+  if (comparePaths(start, end) === 0) {
+    return serializeCFI({ path: { steps: startSteps, offset: start.offset } });
+  }
+
+  let common = 0;
+  while (
+    common < startSteps.length &&
+    common < endSteps.length &&
+    startSteps[common].index === endSteps[common].index &&
+    !startSteps[common].indirect === !endSteps[common].indirect
+  ) {
+    common++;
+  }
+
+  return serializeCFI({
+    path: { steps: startSteps.slice(0, common) },
+    range: {
+      start: { steps: startSteps.slice(common), offset: start.offset },
+      end: { steps: endSteps.slice(common), offset: end.offset }
+    }
+  });
+}
+
+/**
+ * Find the DOM range a CFI describes within a content document. Id assertions take precedence
+ * over step indexes when they disagree
+ * @param cfi - CFI into the content document options.root stands in for
+ * @param options - Where the content document starts and which nodes are not part of it
+ * @returns The range (collapsed for a location), or null when the CFI does not fit the content
+ */
+export function resolveCFI(cfi: string, options: CFIContentOptions): Range | null {
+  let parsed: ParsedCFI;
+  try {
+    parsed = parseCFI(cfi);
+  } catch {
+    return null;
+  }
+
+  const start = resolvePoint(getStart(parsed), options);
+  const end = parsed.range ? resolvePoint(getEnd(parsed), options) : start;
+  if (!start || !end) {
+    return null;
+  }
+
+  const document = options.root.ownerDocument || (options.root as Document);
+  const range = document.createRange();
+  range.setStart(start.node, start.offset);
+  range.setEnd(end.node, end.offset);
+  return range;
+}
+
+function escapeValue(value: string): string {
+  return value.replace(SPECIAL_CHARACTERS, '^$&');
+}
+
+function pathToString(path: CFIPath): string {
+  const steps = path.steps
+    .map(step => `${step.indirect ? '!' : ''}/${step.index}${step.id ? `[${escapeValue(step.id)}]` : ''}`)
+    .join('');
+  return steps + (path.offset ? offsetToString(path.offset) : '');
+}
+
+function offsetToString(offset: CFIOffset): string {
+  let text = '';
+  if (offset.character !== undefined) text += `:${offset.character}`;
+  if (offset.temporal !== undefined) text += `~${offset.temporal}`;
+  if (offset.spatial) text += `@${offset.spatial[0]}:${offset.spatial[1]}`;
+
+  if (offset.textBefore || offset.textAfter || offset.sideBias) {
+    text += `[${escapeValue(offset.textBefore || '')}` +
+      `${offset.textAfter ? `,${escapeValue(offset.textAfter)}` : ''}` +
+      `${offset.sideBias ? `;s=${offset.sideBias}` : ''}]`;
+  }
+  return text;
+}
+
+function getStart(parsed: ParsedCFI): CFIPath {
+  return parsed.range
+    ? { steps: [...parsed.path.steps, ...parsed.range.start.steps], offset: parsed.range.start.offset }
+    : parsed.path;
+}
+
+function getEnd(parsed: ParsedCFI): CFIPath {
+  return parsed.range
+    ? { steps: [...parsed.path.steps, ...parsed.range.end.steps], offset: parsed.range.end.offset }
+    : parsed.path;
+}
+
+function getLastIndirection(steps: CFIStep[]): number {
+  for (let i = steps.length - 1; i >= 0; i--) {
+    if (steps[i].indirect) return i;
+  }
+  return -1;
+}
+
+/**
+ * Document order of two full paths: an element comes before everything inside it
+ */
+function comparePaths(a: CFIPath, b: CFIPath): number {
+  for (let i = 0; i < Math.min(a.steps.length, b.steps.length); i++) {
+    if (a.steps[i].index !== b.steps[i].index) {
+      return a.steps[i].index - b.steps[i].index;
+    }
+  }
+  if (a.steps.length !== b.steps.length) {
+    return a.steps.length - b.steps.length;
+  }
+
+  const offsetA = a.offset || {};
+  const offsetB = b.offset || {};
+  const spatialA = offsetA.spatial || [0, 0];
+  const spatialB = offsetB.spatial || [0, 0];
+  return (offsetA.character || 0) - (offsetB.character || 0) ||
+    (offsetA.temporal || 0) - (offsetB.temporal || 0) ||
+    spatialA[1] - spatialB[1] ||
+    spatialA[0] - spatialB[0];
+}
+
+function isText(node: Node): node is Text {
+  return node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE;
+}
+
+function getFilter(node: Node, options: CFIContentOptions): CFINodeFilter {
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return isText(node) ? 'accept' : 'reject';
+  }
+  return options.filter ? options.filter(node as Element) : 'accept';
+}
+
+/**
+ * Children that count towards steps, with skipped elements replaced by their own children
+ */
+function getContentChildren(parent: Node, options: CFIContentOptions): Node[] {
+  return Array.from(parent.childNodes).flatMap(child => {
+    const filter = getFilter(child, options);
+    if (filter === 'reject') return [];
+    return filter === 'skip' ? getContentChildren(child, options) : [child];
+  });
+}
+
+/**
+ * The steps under a node: odd text steps around every element, even when there is no text
+ */
+function getChildSteps(parent: Node, options: CFIContentOptions): ChildStep[] {
+  const steps: ChildStep[] = [{ index: 1, texts: [] }];
+  getContentChildren(parent, options).forEach(child => {
+    const last = steps[steps.length - 1];
+    if (isText(child)) {
+      last.texts.push(child);
+    } else {
+      steps.push(
+        { index: last.index + 1, element: child as Element, texts: [] },
+        { index: last.index + 2, texts: [] }
+      );
+    }
+  });
+  return steps;
+}
+
+/**
+ * The node's parent as far as steps go, looking past skipped elements
+ */
+function getContentParent(node: Node, options: CFIContentOptions): Node | null {
+  let parent = node.parentNode;
+  while (parent && parent !== options.root && getFilter(parent, options) === 'skip') {
+    parent = parent.parentNode;
+  }
+  return parent;
+}
+
+/**
+ * Steps to the node's parent, and the node's own step under it
+ */
+function locate(node: Node, options: CFIContentOptions): { parentSteps: CFIStep[]; step: ChildStep } | null {
+  const parent = getContentParent(node, options);
+  const parentSteps = parent && getNodeSteps(parent, options);
+  if (!parent || !parentSteps) {
+    return null;
+  }
+
+  const step = getChildSteps(parent, options)
+    .find(child => child.element === node || child.texts.includes(node as Text));
+  return step ? { parentSteps, step } : null;
+}
+
+/**
+ * Steps from the root to an element or text node; null when it is outside the root or left out
+ */
+function getNodeSteps(node: Node, options: CFIContentOptions): CFIStep[] | null {
+  if (node === options.root) {
+    return [...(options.rootSteps || [])];
+  }
+
+  const location = locate(node, options);
+  if (!location) {
+    return null;
+  }
+
+  const id = location.step.element?.getAttribute('id');
+  return [...location.parentSteps, id ? { index: location.step.index, id } : { index: location.step.index }];
+}
+
+/**
+ * A DOM boundary point as a path ending in a text step and character offset. Points between
+ * children are moved into the text around them
+ */
+function getPointPath(container: Node, offset: number, options: CFIContentOptions): CFIPath | null {
+  if (isText(container)) {
+    const location = locate(container, options);
+    if (!location) {
+      return null;
+    }
+
+    const before = location.step.texts.slice(0, location.step.texts.indexOf(container));
+    return {
+      steps: [...location.parentSteps, { index: location.step.index }],
+      offset: { character: getTextLength(before) + offset }
+    };
+  }
+
+  const children = Array.from(container.childNodes);
+  let next = offset;
+  while (next < children.length && getFilter(children[next], options) === 'reject') {
+    next++;
+  }
+
+  const after = children[next];
+  if (after && (isText(after) || getFilter(after, options) === 'skip')) {
+    return getPointPath(after, 0, options);
+  }
+  if (after) {
+    // Just before an element: the end of the text step in front of it
+    const location = locate(after, options);
+    const parent = location && getContentParent(after, options);
+    const textStep = parent && getChildSteps(parent, options).find(child => child.index === location.step.index - 1);
+    return location && textStep
+      ? { steps: [...location.parentSteps, { index: textStep.index }], offset: { character: getTextLength(textStep.texts) } }
+      : null;
+  }
+
+  // At the end of a skipped element, carry on after it
+  if (container !== options.root && getFilter(container, options) === 'skip' && container.parentNode) {
+    return getPointPath(container.parentNode, Array.from(container.parentNode.childNodes).indexOf(container as ChildNode) + 1, options);
+  }
+
+  const containerSteps = getNodeSteps(container, options);
+  if (!containerSteps) {
+    return null;
+  }
+  const last = getChildSteps(container, options).pop()!;
+  return { steps: [...containerSteps, { index: last.index }], offset: { character: getTextLength(last.texts) } };
+}
+
+function getTextLength(texts: Text[]): number {
+  return texts.reduce((length, text) => length + text.length, 0);
+}
+
+/**
+ * Follow a full path to a DOM boundary point, starting from the content document's steps
+ */
+function resolvePoint(path: CFIPath, options: CFIContentOptions): DOMPoint | null {
+  const rootSteps = options.rootSteps || [];
+  const steps = path.steps.slice(Math.max(0, getLastIndirection(path.steps)));
+  if (rootSteps.some((step, index) => steps[index]?.index !== step.index)) {
+    return null;
+  }
+
+  let parent: Node = options.root;
+  const contentSteps = steps.slice(rootSteps.length);
+  for (let i = 0; i < contentSteps.length; i++) {
+    const step = contentSteps[i];
+    const isLast = i === contentSteps.length - 1;
+    const childSteps = getChildSteps(parent, options);
+    const childStep = childSteps.find(child => child.index === step.index);
+
+    if (step.index % 2 === 1) {
+      return isLast && childStep ? getTextPoint(childStep, childSteps, parent, path.offset?.character || 0) : null;
+    }
+
+    let element = childStep?.element;
+    if (step.id && element?.getAttribute('id') !== step.id) {
+      element = findElementById(step.id, options) || element;
+    }
+    if (!element) {
+      return null;
+    }
+    if (isLast) {
+      return getBoundary(element, 0);
+    }
+    parent = element;
+  }
+
+  return { node: parent, offset: 0 };
+}
+
+/**
+ * The character offset within a text step, which may be split over several nodes
+ */
+function getTextPoint(step: ChildStep, siblings: ChildStep[], parent: Node, character: number): DOMPoint | null {
+  let remaining = character;
+  for (const text of step.texts) {
+    if (remaining <= text.length) {
+      return { node: text, offset: remaining };
+    }
+    remaining -= text.length;
+  }
+  if (remaining > 0) {
+    return null;
+  }
+
+  // No text at all: the boundary between the elements around the step
+  const next = siblings.find(sibling => sibling.index === step.index + 1)?.element;
+  const previous = siblings.find(sibling => sibling.index === step.index - 1)?.element;
+  if (next) return getBoundary(next, 0);
+  if (previous) return getBoundary(previous, 1);
+  return { node: parent, offset: parent.childNodes.length };
+}
+
+/**
+ * The boundary point just before (0) or just after (1) a node
+ */
+function getBoundary(node: Node, side: 0 | 1): DOMPoint {
+  const parent = node.parentNode!;
+  return { node: parent, offset: Array.from(parent.childNodes).indexOf(node as ChildNode) + side };
+}
+
+function findElementById(id: string, options: CFIContentOptions): Element | null {
+  const root = options.root as Element | Document;
+  if (typeof root.querySelectorAll !== 'function') {
+    return null;
+  }
+
+  const element = Array.from(root.querySelectorAll('[id]')).find(candidate => candidate.getAttribute('id') === id);
+  return element && getNodeSteps(element, options) ? element : null;
+}
@@ -0,0 +1,100 @@
+// Daily Digest - Picks highlights to resurface each day
+// Weighted by importance, time since the highlight was last seen and favorite books, plus "on this day"
+// highlights from earlier years; the same inputs on the same day always give the same picks
+
+import { Highlight } from './types';
+import { isPageNote } from './notes';
+
+export interface DigestOptions {
+  count: number;
+  date: Date; // Day the digest is for; seeds the random picks
+  favoriteBookIds: Set<string>;
+  lastSeen: Map<string, Date>; // When each highlight was last shown or reviewed, before this day
+}
+
+export interface DigestPick {
+  highlight: Highlight;
+  yearsAgo?: number; // Set for "on this day" picks
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FAVORITE_WEIGHT = 2;
+const MAX_STALE_DAYS = 180; // Beyond this, time since last seen stops adding weight
+
+/**
+ * Pick the day's highlights: "on this day" ones first (up to half the digest), then a weighted
+ * random draw from the rest
+ * @param highlights - Highlights to pick from; hidden ones should already be left out
+ */
+export function buildDailyDigest(highlights: Highlight[], options: DigestOptions): DigestPick[] {
+  const random = createRandom(`${options.date.getFullYear()}-${options.date.getMonth()}-${options.date.getDate()}`);
+  const candidates = highlights
+    .filter(highlight => !isPageNote(highlight))
+    .sort((a, b) => a.id.localeCompare(b.id)); // Stable input order for the seeded draw
+
+  const onThisDay = candidates
+    .map(highlight => ({ highlight, yearsAgo: getYearsAgo(highlight, options.date) }))
+    .filter((pick): pick is Required<DigestPick> => pick.yearsAgo !== null);
+  const anniversaries = drawWeighted(onThisDay, pick => getWeight(pick.highlight, options), random)
+    .slice(0, Math.ceil(options.count / 2));
+
+  const picked = new Set(anniversaries.map(pick => pick.highlight.id));
+  const resurfaced = drawWeighted(
+    candidates.filter(highlight => !picked.has(highlight.id)),
+    highlight => getWeight(highlight, options),
+    random
+  )
+    .slice(0, options.count - anniversaries.length)
+    .map(highlight => ({ highlight }));
+
+  return [...anniversaries, ...resurfaced];
+}
+
+/**
+ * Weight of a highlight in the draw: importance, times how long it has gone unseen, doubled for
+ * favorite books
+ */
+function getWeight(highlight: Highlight, options: DigestOptions): number {
+  const seen = options.lastSeen.get(highlight.id) || new Date(highlight.createdAt);
+  const staleDays = Math.min(MAX_STALE_DAYS, Math.max(0, (options.date.getTime() - seen.getTime()) / DAY_MS));
+  const favorite = options.favoriteBookIds.has(highlight.bookId) ? FAVORITE_WEIGHT : 1;
+  return (highlight.importance || 3) * (1 + staleDays / 30) * favorite;
+}
+
+/**
+ * Whole years since the highlight was made, when it was made on this month and day of an earlier year
+ */
+function getYearsAgo(highlight: Highlight, date: Date): number | null {
+  const created = new Date(highlight.createdAt);
+  const years = date.getFullYear() - created.getFullYear();
+  return years > 0 && created.getMonth() === date.getMonth() && created.getDate() === date.getDate()
+    ? years
+    : null;
+}
+
+/**
+ * Order items by a weighted random draw without replacement (Efraimidis-Spirakis keys)
+ */
+function drawWeighted<T>(items: T[], getItemWeight: (item: T) => number, random: () => number): T[] {
+  return items
+    .map(item => ({ item, key: Math.pow(random(), 1 / Math.max(getItemWeight(item), Number.EPSILON)) }))
+    .sort((a, b) => b.key - a.key)
+    .map(entry => entry.item);
+}
+
+/**
+ * Seeded pseudo-random numbers in [0, 1) (mulberry32, seeded from a string hash)
+ */
+function createRandom(seed: string): () => number {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 2654435761);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -7,6 +7,85 @@ export { PositionCalculator } from './PositionCalculator';
 export { ConflictResolver } from './ConflictResolver';
 export { HighlightManager } from './HighlightManager';
 export { OfflineManager } from './OfflineManager';
+export {
+  DEFAULT_HIGHLIGHT_COLORS,
+  getHighlightColor,
+  findHighlightColor,
+  withAlpha
+} from './palette';
+export {
+  HIGHLIGHT_STYLES,
+  getHighlightStyle,
+  getHighlightStyleName,
+  getHighlightStyleCSS
+} from './styles';
+export type { HighlightStyleCSS } from './styles';
+export {
+  isPageNote,
+  isRegionHighlight,
+  isMergedHighlight,
+  isTrashedHighlight,
+  isPurgedHighlight,
+  toPurgedHighlight,
+  isTrashExpired,
+  getDaysUntilPurge,
+  getDisplayText,
+  createNoteEntry,
+  getNoteEntries,
+  getNoteThread,
+  getNoteText,
+  addNoteEntry,
+  editNoteEntry,
+  removeNoteEntry,
+  mergeNoteThreads
+} from './notes';
+export {
+  TAG_SEPARATOR,
+  normalizeTagPath,
+  getTagName,
+  getParentTagPath,
+  isTagWithin,
+  matchesTagFilter,
+  renameTagPath,
+  renameTagInList,
+  validateTagRename,
+  buildTagTree,
+  countTags,
+  flattenTagTree
+} from './tags';
+export type { TagTreeNode } from './tags';
+export {
+  REVIEW_SCHEDULER_NAMES,
+  REVIEW_GRADES,
+  isPassingGrade,
+  scheduleReview,
+  compareForReview,
+  migrateReviewHistory
+} from './scheduling';
+export type { ReviewScheduler, ReviewGrade } from './scheduling';
+export {
+  parseCFI,
+  serializeCFI,
+  isValidCFI,
+  compareCFI,
+  sortCFIs,
+  getCFIDocumentSteps,
+  getSpineItemSteps,
+  generateCFI,
+  resolveCFI
+} from './cfi';
+export type { CFIStep, CFIOffset, CFIPath, ParsedCFI, CFINodeFilter, CFIContentOptions } from './cfi';
+export { buildDailyDigest } from './digest';
+export type { DigestOptions, DigestPick } from './digest';
+export { filterReviewHighlights, computeReviewAnalytics } from './reviewAnalytics';
+export type {
+  ReviewAnalytics,
+  ReviewAnalyticsFilter,
+  RetentionBucket,
+  ForecastDay,
+  ReviewTimeSpent,
+  HardHighlight
+} from './reviewAnalytics';
 
 // Export all types
 export type {
@@ -14,7 +93,10 @@ export type {
   Selection,
   Position,
   Highlight,
+  HighlightNote,
+  HighlightRevision,
   ReviewRecord,
+  ClozeCard,
   Conflict,
   SyncOperation,
   CachedBook,
@@ -22,6 +104,9 @@ export type {
   EPUBRenderer,
   PDFRenderer,
   HighlightManager as IHighlightManager,
+  HighlightStorage,
+  HighlightChangeEvent,
+  HighlightChangeListener,
   PositionCalculator as IPositionCalculator,
   ConflictResolver as IConflictResolver,
   OfflineManager as IOfflineManager
@@ -38,6 +123,9 @@ export type {
   ApiResponse,
   PaginatedResponse,
   HighlightColor,
+  HighlightStyle,
+  HighlightColorDefinition,
+  HighlightPalette,
   BookFormat,
   Platform,
   Theme,
@@ -0,0 +1,200 @@
+// Highlight Notes - Threaded, timestamped note entries on a highlight
+// Entries are merged by ID during sync; deleted entries stay behind as tombstones so they are not resurrected
+// Page notes are highlights without selected text, anchored to a position and carrying only a thread;
+// region highlights are clipped PDF areas, carrying an image instead of text; merged highlights are
+// tombstones left behind when duplicates are merged, and trashed highlights wait in the recycle bin
+// until they are purged, which leaves a tombstone as well
+
+import { Highlight, HighlightNote } from './types';
+
+type NoteHolder = Pick<Highlight, 'id' | 'note' | 'notes' | 'platform' | 'createdAt'>;
+
+/**
+ * Whether a highlight is a free-floating page note rather than a text highlight
+ */
+export function isPageNote(highlight: Pick<Highlight, 'kind'>): boolean {
+  return highlight.kind === 'page-note';
+}
+
+/**
+ * Whether a highlight is a clipped PDF region rather than a text highlight
+ */
+export function isRegionHighlight(highlight: Pick<Highlight, 'kind'>): boolean {
+  return highlight.kind === 'region';
+}
+
+/**
+ * Whether a highlight was merged into another one and only remains as a tombstone
+ */
+export function isMergedHighlight(highlight: Pick<Highlight, 'mergedInto'>): boolean {
+  return !!highlight.mergedInto;
+}
+
+/**
+ * Whether a highlight has been deleted and sits in the recycle bin
+ */
+export function isTrashedHighlight(highlight: Pick<Highlight, 'deletedAt' | 'purgedAt'>): boolean {
+  return !!highlight.deletedAt && !highlight.purgedAt;
+}
+
+/**
+ * Whether a highlight was purged from the recycle bin and only remains as a tombstone
+ */
+export function isPurgedHighlight(highlight: Pick<Highlight, 'purgedAt'>): boolean {
+  return !!highlight.purgedAt;
+}
+
+/**
+ * The tombstone a highlight leaves when it is purged: everything it said is dropped, the record
+ * itself stays so that copies on other devices are dropped too instead of being synced back
+ */
+export function toPurgedHighlight(highlight: Highlight, now: Date = new Date()): Highlight {
+  return {
+    ...highlight,
+    text: '',
+    image: undefined,
+    note: undefined,
+    notes: [],
+    tags: [],
+    reviewHistory: [],
+    clozeCards: undefined,
+    position: {
+      ...highlight.position,
+      fallback: { ...highlight.position.fallback, textContent: '', contextBefore: '', contextAfter: '' }
+    },
+    purgedAt: now,
+    updatedAt: now,
+    lastModified: now
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether something moved to the recycle bin at the given time is due to be purged
+ * @param deletedAt - When it was moved to the recycle bin
+ * @param retentionDays - Days items stay in the recycle bin
+ */
+export function isTrashExpired(deletedAt: Date, retentionDays: number, now: Date = new Date()): boolean {
+  return now.getTime() - new Date(deletedAt).getTime() >= retentionDays * DAY_MS;
+}
+
+/**
+ * Whole days left before something in the recycle bin is purged
+ */
+export function getDaysUntilPurge(deletedAt: Date, retentionDays: number, now: Date = new Date()): number {
+  return Math.max(0, Math.ceil((new Date(deletedAt).getTime() + retentionDays * DAY_MS - now.getTime()) / DAY_MS));
+}
+
+/**
+ * Create a new note entry
+ * @param text - Note text
+ * @param platform - Platform the note was written on
+ * @param id - Entry ID (generated when omitted)
+ * @param createdAt - Creation time (now when omitted)
+ */
+export function createNoteEntry(
+  text: string,
+  platform: HighlightNote['platform'],
+  id: string = `note-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  createdAt: Date = new Date()
+): HighlightNote {
+  return { id, text, platform, createdAt, updatedAt: createdAt };
+}
+
+/**
+ * All note entries on a highlight, including tombstones. A legacy single `note` string is
+ * read as one entry with an ID derived from the highlight, so every device converts it identically
+ */
+export function getNoteEntries(highlight: NoteHolder): HighlightNote[] {
+  if (highlight.notes) {
+    return highlight.notes;
+  }
+  if (highlight.note && highlight.note.trim()) {
+    return [createNoteEntry(highlight.note, highlight.platform, `${highlight.id}-note`, new Date(highlight.createdAt))];
+  }
+  return [];
+}
+
+/**
+ * Visible note entries on a highlight, oldest first
+ */
+export function getNoteThread(highlight: NoteHolder): HighlightNote[] {
+  return getNoteEntries(highlight)
+    .filter(entry => !entry.deletedAt)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+}
+
+/**
+ * Note thread as plain text, for search and export
+ * @param separator - Placed between entries
+ */
+export function getNoteText(highlight: NoteHolder, separator: string = '\n\n'): string {
+  return getNoteThread(highlight).map(entry => entry.text).join(separator);
+}
+
+/**
+ * Short text to show for a highlight in lists: the quoted passage, the note of a page note,
+ * or a label for a clipped region
+ */
+export function getDisplayText(highlight: NoteHolder & Pick<Highlight, 'kind' | 'text' | 'pageNumber'>): string {
+  if (isPageNote(highlight)) {
+    return `📝 ${getNoteText(highlight, ' / ')}`;
+  }
+  if (isRegionHighlight(highlight)) {
+    return `🖼️ Clipped region${highlight.pageNumber ? ` on page ${highlight.pageNumber}` : ''}`;
+  }
+  return `"${highlight.text}"`;
+}
+
+/**
+ * Append an entry to a thread
+ * @returns The new entries
+ */
+export function addNoteEntry(entries: HighlightNote[], text: string, platform: HighlightNote['platform']): HighlightNote[] {
+  return [...entries, createNoteEntry(text, platform)];
+}
+
+/**
+ * Change the text of one entry
+ * @returns The new entries
+ */
+export function editNoteEntry(entries: HighlightNote[], noteId: string, text: string): HighlightNote[] {
+  return entries.map(entry => (entry.id === noteId ? { ...entry, text, updatedAt: new Date() } : entry));
+}
+
+/**
+ * Delete one entry, leaving a tombstone
+ * @returns The new entries
+ */
+export function removeNoteEntry(entries: HighlightNote[], noteId: string): HighlightNote[] {
+  const now = new Date();
+  return entries.map(entry => (entry.id === noteId ? { ...entry, text: '', updatedAt: now, deletedAt: now } : entry));
+}
+
+/**
+ * Union two threads by entry ID; when both sides have an entry, the most recently updated wins
+ * @returns Merged entries, oldest first
+ */
+export function mergeNoteThreads(local: HighlightNote[], remote: HighlightNote[]): HighlightNote[] {
+  const merged = new Map<string, HighlightNote>();
+
+  [...local, ...remote].forEach(entry => {
+    const existing = merged.get(entry.id);
+    if (!existing) {
+      merged.set(entry.id, entry);
+      return;
+    }
+
+    const entryTime = new Date(entry.updatedAt).getTime();
+    const existingTime = new Date(existing.updatedAt).getTime();
+    // On a tie a deletion wins, so both devices settle on the same result
+    if (entryTime > existingTime || (entryTime === existingTime && entry.deletedAt && !existing.deletedAt)) {
+      merged.set(entry.id, entry);
+    }
+  });
+
+  return Array.from(merged.values()).sort((a, b) =>
+    new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+}
@@ -0,0 +1,53 @@
+// Highlight Palette - Default colors and lookups for user-defined highlight colors
+// Highlights store a palette color ID; names and hex values come from the user's palette
+
+import { HighlightColorDefinition } from '@/types';
+
+// The four original colors keep their IDs so highlights created before palettes still resolve
+export const DEFAULT_HIGHLIGHT_COLORS: HighlightColorDefinition[] = [
+  { id: 'yellow', name: 'Important', meaning: 'Key passages worth remembering', hex: '#FDE047' },
+  { id: 'blue', name: 'Definition', meaning: 'Terms and concepts', hex: '#93C5FD' },
+  { id: 'pink', name: 'Disagree', meaning: 'Claims to question or argue with', hex: '#F9A8D4' },
+  { id: 'green', name: 'Idea', meaning: 'Ideas to act on or explore', hex: '#86EFAC' }
+];
+
+const UNKNOWN_COLOR_HEX = '#D1D5DB';
+
+/**
+ * Look up a highlight's color in a palette
+ * @param colors - Palette colors
+ * @param colorId - Value of Highlight.color
+ * @returns The palette entry, or a neutral entry named after the ID when the color has been removed
+ */
+export function getHighlightColor(colors: HighlightColorDefinition[], colorId: string): HighlightColorDefinition {
+  return colors.find(color => color.id === colorId) || {
+    id: colorId,
+    name: colorId,
+    hex: UNKNOWN_COLOR_HEX
+  };
+}
+
+/**
+ * Find the palette entry an unknown color value most likely refers to, by ID, name or hex
+ * @returns The matching entry, or undefined
+ */
+export function findHighlightColor(colors: HighlightColorDefinition[], value: string): HighlightColorDefinition | undefined {
+  const normalized = value.trim().toLowerCase();
+  return colors.find(color =>
+    color.id.toLowerCase() === normalized ||
+    color.name.toLowerCase() === normalized ||
+    color.hex.toLowerCase() === normalized
+  );
+}
+
+/**
+ * Hex color with an alpha channel, for translucent highlight fills
+ * @param hex - #RGB or #RRGGBB
+ * @param alpha - 0-1
+ */
+export function withAlpha(hex: string, alpha: number): string {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(char => char + char).join('') : value.slice(0, 6);
+  const alphaHex = Math.round(Math.max(0, Math.min(1, alpha)) * 255).toString(16).padStart(2, '0');
+  return `#${full}${alphaHex}`;
+}
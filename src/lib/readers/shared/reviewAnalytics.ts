@@ -0,0 +1,194 @@
+// Review Analytics - Retention by interval, due-review forecast, time spent and the hardest highlights
+// Everything is derived from the review records of highlights and their cloze cards
+
+import { ClozeCard, Highlight, ReviewRecord } from './types';
+import { isPageNote } from './notes';
+import { matchesTagFilter } from './tags';
+
+export interface ReviewAnalyticsFilter {
+  bookId?: string;
+  tags?: string[]; // Highlights with any of these tags, or tags below them
+}
+
+export interface RetentionBucket {
+  label: string;
+  minDays: number;
+  maxDays: number | null; // Exclusive; null for the open-ended last bucket
+  reviews: number;
+  passed: number;
+  retention: number | null; // Share of reviews passed; null when there were none
+}
+
+export interface ForecastDay {
+  date: Date; // Start of the day
+  due: number; // Day 0 includes everything overdue and everything never reviewed
+}
+
+export interface ReviewTimeSpent {
+  totalSeconds: number;
+  last30DaysSeconds: number;
+  timedReviews: number; // Reviews from before timing are left out of the average
+  averageSeconds: number;
+}
+
+export interface HardHighlight {
+  highlight: Highlight;
+  card?: ClozeCard; // Set when the lapses are on one of the highlight's cloze cards
+  lapses: number;
+  reviews: number;
+}
+
+export interface ReviewAnalytics {
+  highlights: number;
+  totalReviews: number;
+  retention: RetentionBucket[];
+  forecast: ForecastDay[];
+  timeSpent: ReviewTimeSpent;
+  hardest: HardHighlight[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FORECAST_DAYS = 30;
+const HARDEST_LIMIT = 10;
+
+// Days since the previous review of the same card
+const RETENTION_BUCKETS: Array<Pick<RetentionBucket, 'label' | 'minDays' | 'maxDays'>> = [
+  { label: '1 day', minDays: 0, maxDays: 2 },
+  { label: '2-6 days', minDays: 2, maxDays: 7 },
+  { label: '1-2 weeks', minDays: 7, maxDays: 14 },
+  { label: '2-4 weeks', minDays: 14, maxDays: 30 },
+  { label: '1-3 months', minDays: 30, maxDays: 90 },
+  { label: '3+ months', minDays: 90, maxDays: null }
+];
+
+/**
+ * Highlights the analytics cover: reviewable ones in the book and with the tags asked for
+ */
+export function filterReviewHighlights(highlights: Highlight[], filter: ReviewAnalyticsFilter = {}): Highlight[] {
+  const tags = filter.tags && filter.tags.length > 0 ? filter.tags : null;
+  return highlights
+    .filter(highlight => !isPageNote(highlight))
+    .filter(highlight => !filter.bookId || highlight.bookId === filter.bookId)
+    .filter(highlight => !tags || matchesTagFilter(highlight.tags, tags));
+}
+
+/**
+ * Compute review analytics for a set of highlights
+ * @param highlights - Highlights to analyse; hidden ones should already be left out
+ * @param filter - Optional book and tag filter
+ * @param getCards - The cloze cards a highlight is reviewed as, generated ones included, so the
+ * forecast matches the review queue (ClozeCardService.getCards); without cards the highlight is
+ * reviewed itself
+ */
+export function computeReviewAnalytics(
+  highlights: Highlight[],
+  filter: ReviewAnalyticsFilter = {},
+  getCards: (highlight: Highlight) => ClozeCard[] = highlight => highlight.clozeCards || [],
+  now: Date = new Date()
+): ReviewAnalytics {
+  const selected = filterReviewHighlights(highlights, filter);
+  const today = startOfDay(now);
+  const monthAgo = new Date(today.getTime() - FORECAST_DAYS * DAY_MS);
+
+  const retention: RetentionBucket[] = RETENTION_BUCKETS.map(bucket => ({
+    ...bucket,
+    reviews: 0,
+    passed: 0,
+    retention: null
+  }));
+  const forecast: ForecastDay[] = Array.from({ length: FORECAST_DAYS }, (_, day) => ({
+    date: addDays(today, day),
+    due: 0
+  }));
+  const timeSpent: ReviewTimeSpent = { totalSeconds: 0, last30DaysSeconds: 0, timedReviews: 0, averageSeconds: 0 };
+  const hardest: HardHighlight[] = [];
+  let totalReviews = 0;
+
+  selected.forEach(highlight => {
+    const cards = highlight.clozeCards || [];
+    const histories: Array<{ card?: ClozeCard; history: ReviewRecord[] }> = [
+      { history: highlight.reviewHistory },
+      ...cards.map(card => ({ card, history: card.reviewHistory }))
+    ];
+
+    histories.forEach(({ card, history }) => {
+      let lapses = 0;
+      let learned = false;
+
+      history.forEach((record, index) => {
+        totalReviews++;
+
+        if (index > 0) {
+          const days = (new Date(record.date).getTime() - new Date(history[index - 1].date).getTime()) / DAY_MS;
+          const bucket = retention.find(candidate =>
+            days >= candidate.minDays && (candidate.maxDays === null || days < candidate.maxDays));
+          if (bucket) {
+            bucket.reviews++;
+            bucket.passed += record.success ? 1 : 0;
+          }
+        }
+
+        // A lapse is forgetting a card that had been recalled before
+        if (!record.success && learned) {
+          lapses++;
+        }
+        learned = learned || record.success;
+
+        if (record.duration !== undefined) {
+          timeSpent.totalSeconds += record.duration;
+          timeSpent.timedReviews++;
+          if (new Date(record.date) >= monthAgo) {
+            timeSpent.last30DaysSeconds += record.duration;
+          }
+        }
+      });
+
+      if (lapses > 0) {
+        hardest.push({ highlight, card, lapses, reviews: history.length });
+      }
+    });
+
+    // Once a highlight has cloze cards, they are scheduled instead of the highlight
+    const scheduled = getCards(highlight);
+    const schedules = scheduled.length > 0
+      ? scheduled.map(card => card.reviewHistory)
+      : [highlight.reviewHistory];
+    schedules.forEach(history => {
+      const lastReview = history[history.length - 1];
+      const day = lastReview
+        ? Math.max(0, Math.round((startOfDay(new Date(lastReview.nextReview)).getTime() - today.getTime()) / DAY_MS))
+        : 0;
+      if (day < FORECAST_DAYS) {
+        forecast[day].due++;
+      }
+    });
+  });
+
+  retention.forEach(bucket => {
+    bucket.retention = bucket.reviews > 0 ? bucket.passed / bucket.reviews : null;
+  });
+  timeSpent.averageSeconds = timeSpent.timedReviews > 0 ? timeSpent.totalSeconds / timeSpent.timedReviews : 0;
+
+  return {
+    highlights: selected.length,
+    totalReviews,
+    retention,
+    forecast,
+    timeSpent,
+    hardest: hardest
+      .sort((a, b) => b.lapses - a.lapses || b.lapses / b.reviews - a.lapses / a.reviews)
+      .slice(0, HARDEST_LIMIT)
+  };
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
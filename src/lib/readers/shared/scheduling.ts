@@ -0,0 +1,231 @@
+// Review Scheduling - Spaced repetition for highlight review, with SM-2 or FSRS
+// Every review record carries the scheduler state after that review, so the next one only needs the last record
+
+import { ReviewRecord } from './types';
+
+export type ReviewScheduler = NonNullable<ReviewRecord['scheduler']>;
+
+export interface ReviewGrade {
+  value: number; // Stored on ReviewRecord.grade
+  label: string;
+  description: string;
+}
+
+export const REVIEW_SCHEDULER_NAMES: Record<ReviewScheduler, string> = {
+  sm2: 'SM-2',
+  fsrs: 'FSRS'
+};
+
+// SM-2 grades recall quality 0-5; FSRS rates it 1-4
+export const REVIEW_GRADES: Record<ReviewScheduler, ReviewGrade[]> = {
+  sm2: [
+    { value: 0, label: 'Blackout', description: 'No recollection at all' },
+    { value: 1, label: 'Wrong', description: 'Wrong, but familiar once seen' },
+    { value: 2, label: 'Almost', description: 'Wrong, but it came back easily' },
+    { value: 3, label: 'Hard', description: 'Right, with serious difficulty' },
+    { value: 4, label: 'Good', description: 'Right, after some hesitation' },
+    { value: 5, label: 'Easy', description: 'Right, without effort' }
+  ],
+  fsrs: [
+    { value: 1, label: 'Again', description: 'Forgotten' },
+    { value: 2, label: 'Hard', description: 'Recalled with serious difficulty' },
+    { value: 3, label: 'Good', description: 'Recalled after some hesitation' },
+    { value: 4, label: 'Easy', description: 'Recalled without effort' }
+  ]
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_INTERVAL_DAYS = 36500;
+
+const SM2_INITIAL_EASE = 2.5;
+const SM2_MIN_EASE = 1.3;
+
+// Records from before grading only know whether the review succeeded
+const LEGACY_SUCCESS_GRADE = 4;
+const LEGACY_FAILURE_GRADE = 1;
+
+// FSRS-4.5 default parameters
+const FSRS_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755
+];
+const FSRS_DECAY = -0.5;
+const FSRS_FACTOR = 19 / 81; // Makes recall 90% after `stability` days
+const FSRS_DESIRED_RETENTION = 0.9;
+
+type SchedulerState = Pick<ReviewRecord, 'interval' | 'easeFactor' | 'repetitions' | 'stability' | 'difficulty'>;
+
+/**
+ * Whether a grade counts as a successful recall
+ */
+export function isPassingGrade(grade: number, scheduler: ReviewScheduler): boolean {
+  return scheduler === 'sm2' ? grade >= 3 : grade >= 2;
+}
+
+/**
+ * Schedule the next review of an item
+ * @param history - The item's review records so far, oldest first; legacy records are fine
+ * @param grade - Grade from REVIEW_GRADES for the scheduler
+ * @param scheduler - Algorithm to schedule with
+ * @returns The new review record, without an ID
+ */
+export function scheduleReview(
+  history: ReviewRecord[],
+  grade: number,
+  scheduler: ReviewScheduler,
+  now: Date = new Date()
+): Omit<ReviewRecord, 'id'> {
+  if (!REVIEW_GRADES[scheduler].some(option => option.value === grade)) {
+    throw new Error(`${grade} is not a valid ${REVIEW_SCHEDULER_NAMES[scheduler]} grade`);
+  }
+
+  const records = migrateReviewHistory(history) || history;
+  const previous = records.length > 0 ? records[records.length - 1] : null;
+  const state = scheduler === 'sm2'
+    ? scheduleSM2(previous, grade)
+    : scheduleFSRS(previous, grade, now);
+
+  return {
+    ...state,
+    date: now,
+    success: isPassingGrade(grade, scheduler),
+    nextReview: new Date(now.getTime() + state.interval * DAY_MS),
+    scheduler,
+    grade
+  };
+}
+
+/**
+ * Review order: more important items first, then never-reviewed ones, then the longest overdue
+ */
+export function compareForReview(
+  a: { importance?: number; reviewHistory: ReviewRecord[] },
+  b: { importance?: number; reviewHistory: ReviewRecord[] }
+): number {
+  const importanceDiff = (b.importance || 3) - (a.importance || 3);
+  if (importanceDiff !== 0) return importanceDiff;
+
+  const aLastReview = a.reviewHistory[a.reviewHistory.length - 1];
+  const bLastReview = b.reviewHistory[b.reviewHistory.length - 1];
+
+  if (!aLastReview || !bLastReview) {
+    return (aLastReview ? 1 : 0) - (bLastReview ? 1 : 0);
+  }
+
+  return new Date(aLastReview.nextReview).getTime() - new Date(bLastReview.nextReview).getTime();
+}
+
+/**
+ * Fill in the grade and scheduler state on records from before grading, keeping their dates and
+ * intervals so nothing becomes due earlier or later than it was
+ * @returns The migrated history, or null when there was nothing to migrate
+ */
+export function migrateReviewHistory(history: ReviewRecord[]): ReviewRecord[] | null {
+  if (history.every(record => record.scheduler)) {
+    return null;
+  }
+
+  let repetitions = 0;
+  return history.map(record => {
+    repetitions = record.success ? repetitions + 1 : 0;
+    if (record.scheduler) {
+      repetitions = record.repetitions ?? repetitions;
+      return record;
+    }
+
+    return {
+      ...record,
+      scheduler: 'sm2',
+      grade: record.success ? LEGACY_SUCCESS_GRADE : LEGACY_FAILURE_GRADE,
+      repetitions,
+      easeFactor: record.easeFactor || SM2_INITIAL_EASE
+    };
+  });
+}
+
+/**
+ * SM-2: the ease factor adapts to every grade; a failed recall starts the item over
+ */
+function scheduleSM2(previous: ReviewRecord | null, grade: number): SchedulerState {
+  const ease = previous?.easeFactor || SM2_INITIAL_EASE;
+  const repetitions = previous?.repetitions ?? 0;
+  const passed = isPassingGrade(grade, 'sm2');
+
+  let interval: number;
+  if (!passed || repetitions === 0) {
+    interval = 1;
+  } else if (repetitions === 1) {
+    interval = 6;
+  } else {
+    interval = Math.round(Math.max(previous?.interval || 1, 1) * ease);
+  }
+
+  return {
+    interval: Math.min(interval, MAX_INTERVAL_DAYS),
+    easeFactor: Math.max(SM2_MIN_EASE, ease + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)),
+    repetitions: passed ? repetitions + 1 : 0
+  };
+}
+
+/**
+ * FSRS: tracks how long the memory lasts (stability) and how hard the item is (difficulty), and
+ * schedules the next review for when recall is expected to drop to the desired retention
+ */
+function scheduleFSRS(previous: ReviewRecord | null, grade: number, now: Date): SchedulerState {
+  const w = FSRS_WEIGHTS;
+  const passed = isPassingGrade(grade, 'fsrs');
+
+  let stability: number;
+  let difficulty: number;
+  if (!previous) {
+    stability = w[grade - 1];
+    difficulty = initialDifficulty(grade);
+  } else {
+    // Items last scheduled by SM-2 start from their current interval
+    const hasState = previous.scheduler === 'fsrs' && previous.stability && previous.difficulty;
+    const lastStability = hasState ? previous.stability! : Math.max(previous.interval, w[0]);
+    const lastDifficulty = hasState ? previous.difficulty! : initialDifficulty(3);
+
+    const elapsedDays = Math.max(0, (now.getTime() - new Date(previous.date).getTime()) / DAY_MS);
+    const retrievability = Math.pow(1 + FSRS_FACTOR * elapsedDays / lastStability, FSRS_DECAY);
+
+    if (passed) {
+      const hardPenalty = grade === 2 ? w[15] : 1;
+      const easyBonus = grade === 4 ? w[16] : 1;
+      stability = lastStability * (
+        Math.exp(w[8]) *
+        (11 - lastDifficulty) *
+        Math.pow(lastStability, -w[9]) *
+        (Math.exp(w[10] * (1 - retrievability)) - 1) *
+        hardPenalty *
+        easyBonus + 1
+      );
+    } else {
+      stability = Math.min(lastStability, w[11] *
+        Math.pow(lastDifficulty, -w[12]) *
+        (Math.pow(lastStability + 1, w[13]) - 1) *
+        Math.exp(w[14] * (1 - retrievability)));
+    }
+
+    // Difficulty moves with the grade and reverts slowly towards that of a first "Good"
+    difficulty = clampDifficulty(w[7] * initialDifficulty(3) + (1 - w[7]) * (lastDifficulty - w[6] * (grade - 3)));
+  }
+
+  const interval = stability / FSRS_FACTOR * (Math.pow(FSRS_DESIRED_RETENTION, 1 / FSRS_DECAY) - 1);
+
+  return {
+    interval: Math.min(Math.max(1, Math.round(interval)), MAX_INTERVAL_DAYS),
+    easeFactor: previous?.easeFactor || SM2_INITIAL_EASE, // Kept for switching back to SM-2
+    repetitions: passed ? (previous?.repetitions ?? 0) + 1 : 0,
+    stability,
+    difficulty
+  };
+}
+
+function initialDifficulty(grade: number): number {
+  return clampDifficulty(FSRS_WEIGHTS[4] - (grade - 3) * FSRS_WEIGHTS[5]);
+}
+
+function clampDifficulty(difficulty: number): number {
+  return Math.min(10, Math.max(1, difficulty));
+}
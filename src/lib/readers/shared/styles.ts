@@ -0,0 +1,72 @@
+// Highlight Styles - How a highlight's color is drawn: as a fill or as a line under, through or below the text
+// Highlights without a style are fills, which is how every highlight was drawn before styles existed
+
+import { HighlightStyle } from '@/types';
+import { Highlight } from './types';
+import { withAlpha } from './palette';
+
+export const HIGHLIGHT_STYLES: Array<{ id: HighlightStyle; name: string; symbol: string }> = [
+  { id: 'fill', name: 'Fill', symbol: 'A' },
+  { id: 'underline', name: 'Underline', symbol: 'U' },
+  { id: 'strikethrough', name: 'Strikethrough', symbol: 'S' },
+  { id: 'squiggle', name: 'Squiggle', symbol: '~' }
+];
+
+// CSS properties that draw a style; usable as a React style object or assigned to element.style
+export interface HighlightStyleCSS {
+  backgroundColor?: string;
+  textDecorationLine?: string;
+  textDecorationStyle?: 'solid' | 'wavy';
+  textDecorationColor?: string;
+  textDecorationThickness?: string;
+  textUnderlineOffset?: string;
+}
+
+/**
+ * A highlight's style, with the 'fill' default applied
+ */
+export function getHighlightStyle(highlight: Pick<Highlight, 'style'>): HighlightStyle {
+  return highlight.style || 'fill';
+}
+
+/**
+ * Display name of a style, for exports and labels
+ */
+export function getHighlightStyleName(style: HighlightStyle): string {
+  return HIGHLIGHT_STYLES.find(candidate => candidate.id === style)?.name || style;
+}
+
+/**
+ * CSS that draws a highlight in the given style and color
+ * @param style - Highlight style
+ * @param hex - Palette color hex
+ */
+export function getHighlightStyleCSS(style: HighlightStyle, hex: string): HighlightStyleCSS {
+  switch (style) {
+    case 'underline':
+      return {
+        textDecorationLine: 'underline',
+        textDecorationStyle: 'solid',
+        textDecorationColor: hex,
+        textDecorationThickness: '3px',
+        textUnderlineOffset: '3px'
+      };
+    case 'strikethrough':
+      return {
+        textDecorationLine: 'line-through',
+        textDecorationStyle: 'solid',
+        textDecorationColor: hex,
+        textDecorationThickness: '2px'
+      };
+    case 'squiggle':
+      return {
+        textDecorationLine: 'underline',
+        textDecorationStyle: 'wavy',
+        textDecorationColor: hex,
+        textDecorationThickness: '2px',
+        textUnderlineOffset: '3px'
+      };
+    default:
+      return { backgroundColor: withAlpha(hex, 0.5) };
+  }
+}
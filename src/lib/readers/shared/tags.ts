@@ -0,0 +1,159 @@
+// Hierarchical Tags - Tags on books and highlights are paths such as "philosophy/stoicism/seneca"
+// A tag belongs to every tag above it, so filtering on "philosophy" also finds "philosophy/stoicism"
+
+export const TAG_SEPARATOR = '/';
+
+// One tag in the tree; intermediate tags exist even when nothing is tagged with them directly
+export interface TagTreeNode {
+  name: string; // Last path segment, e.g. "seneca"
+  path: string; // Full path, e.g. "philosophy/stoicism/seneca"
+  depth: number;
+  children: TagTreeNode[];
+}
+
+/**
+ * Tidy a tag path: trims every segment and drops empty ones, so " a / /b/ " becomes "a/b"
+ */
+export function normalizeTagPath(path: string): string {
+  return path
+    .split(TAG_SEPARATOR)
+    .map(segment => segment.trim())
+    .filter(Boolean)
+    .join(TAG_SEPARATOR);
+}
+
+/**
+ * Last segment of a tag path
+ */
+export function getTagName(path: string): string {
+  const segments = path.split(TAG_SEPARATOR);
+  return segments[segments.length - 1];
+}
+
+/**
+ * Path of the tag directly above, or '' for a top-level tag
+ */
+export function getParentTagPath(path: string): string {
+  const index = path.lastIndexOf(TAG_SEPARATOR);
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+/**
+ * Whether a tag is the given tag or sits anywhere below it
+ * @param tag - Tag to test
+ * @param ancestor - Tag filtered or renamed on
+ */
+export function isTagWithin(tag: string, ancestor: string): boolean {
+  return tag === ancestor || tag.startsWith(ancestor + TAG_SEPARATOR);
+}
+
+/**
+ * Whether any of an item's tags matches any of the filter tags, children included
+ * @param tags - Tags on a book or highlight
+ * @param filters - Tags to filter on
+ */
+export function matchesTagFilter(tags: string[] | undefined, filters: string[]): boolean {
+  return (tags || []).some(tag => filters.some(filter => isTagWithin(tag, filter)));
+}
+
+/**
+ * Move one tag, and everything below it, to a new path
+ * @param tag - Tag to rewrite
+ * @param from - Path being renamed
+ * @param to - New path
+ * @returns The rewritten tag, or the tag unchanged when it is not within `from`
+ */
+export function renameTagPath(tag: string, from: string, to: string): string {
+  return isTagWithin(tag, from) ? to + tag.slice(from.length) : tag;
+}
+
+/**
+ * Rename a tag in a list of tags, dropping duplicates the rename creates
+ * @returns The new tags, or null when none of them changed
+ */
+export function renameTagInList(tags: string[] | undefined, from: string, to: string): string[] | null {
+  if (!tags || !tags.some(tag => isTagWithin(tag, from))) {
+    return null;
+  }
+  return [...new Set(tags.map(tag => renameTagPath(tag, from, to)))];
+}
+
+/**
+ * Check a rename or move before applying it
+ * @returns The normalized new path
+ */
+export function validateTagRename(from: string, to: string): string {
+  const target = normalizeTagPath(to);
+  if (!target) {
+    throw new Error('A tag needs a name');
+  }
+  if (target !== from && isTagWithin(target, from)) {
+    throw new Error('A tag cannot be moved inside itself');
+  }
+  return target;
+}
+
+/**
+ * Build the tag tree from tag paths
+ * @param paths - Tags in use; tags above them are added as needed
+ * @returns Top-level tags, each level sorted by name
+ */
+export function buildTagTree(paths: string[]): TagTreeNode[] {
+  const nodes = new Map<string, TagTreeNode>();
+  const roots: TagTreeNode[] = [];
+
+  const getNode = (path: string): TagTreeNode => {
+    const existing = nodes.get(path);
+    if (existing) return existing;
+
+    const parentPath = getParentTagPath(path);
+    const parent = parentPath ? getNode(parentPath) : null;
+    const node: TagTreeNode = {
+      name: getTagName(path),
+      path,
+      depth: parent ? parent.depth + 1 : 0,
+      children: []
+    };
+    nodes.set(path, node);
+    (parent ? parent.children : roots).push(node);
+    return node;
+  };
+
+  paths.map(normalizeTagPath).filter(Boolean).forEach(getNode);
+
+  const sortLevel = (level: TagTreeNode[]) => {
+    level.sort((a, b) => a.name.localeCompare(b.name));
+    level.forEach(node => sortLevel(node.children));
+  };
+  sortLevel(roots);
+
+  return roots;
+}
+
+/**
+ * Count how many items carry each tag
+ * @param items - Books or highlights
+ * @param includeParents - Also count each item once under every tag above its tags
+ */
+export function countTags(items: Array<{ tags?: string[] }>, includeParents: boolean = false): Record<string, number> {
+  const counts: Record<string, number> = {};
+  items.forEach(item => {
+    const paths = new Set<string>();
+    (item.tags || []).forEach(tag => {
+      for (let path = tag; path; path = includeParents ? getParentTagPath(path) : '') {
+        paths.add(path);
+      }
+    });
+    paths.forEach(path => {
+      counts[path] = (counts[path] || 0) + 1;
+    });
+  });
+  return counts;
+}
+
+/**
+ * Every node of a tree, parents before their children
+ */
+export function flattenTagTree(nodes: TagTreeNode[]): TagTreeNode[] {
+  return nodes.flatMap(node => [node, ...flattenTagTree(node.children)]);
+}
@@ -49,9 +49,13 @@ export interface Position {
 export interface Highlight {
   id: string;
   bookId: string;
+  kind?: 'highlight' | 'page-note' | 'region'; // Defaults to 'highlight'
   text: string;
-  color: 'yellow' | 'blue' | 'pink' | 'green';
-  note?: string;
+  image?: string; // PNG data URL of a region's clipped area
+  color: string; // Palette color ID
+  style?: 'fill' | 'underline' | 'strikethrough' | 'squiggle'; // Defaults to 'fill'
+  note?: string; // Legacy single note; read through getNoteThread
+  notes?: HighlightNote[];
   tags: string[];
   pageNumber?: number;
   chapter?: string;
@@ -62,6 +66,38 @@ export interface Highlight {
   platform: 'web' | 'mobile';
   importance?: number;
   reviewHistory: ReviewRecord[];
+  clozeCards?: ClozeCard[]; // Stored once marked or first reviewed; until then key-term cards are generated on the fly
+  mergedInto?: string; // ID of the highlight this one was merged into; kept as a tombstone so sync does not bring it back
+  deletedAt?: Date; // In the recycle bin since then; purged once the retention period has passed
+  purgedAt?: Date; // Deleted for good then; its content is dropped, but it stays as a tombstone so sync does not bring it back
+}
+
+export interface HighlightNote {
+  id: string;
+  text: string;
+  platform: 'web' | 'mobile';
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt?: Date; // Tombstone, kept so the deletion survives sync
+}
+
+// One entry in a highlight's edit history
+export interface HighlightRevision {
+  id: string;
+  highlightId: string;
+  bookId: string;
+  action: 'created' | 'updated' | 'deleted' | 'restored';
+  snapshot: Highlight; // The highlight after the change; for 'deleted', as it was before
+  createdAt: Date;
+}
+
+// A fill-in-the-blank card cut from a highlight, with its own review schedule
+export interface ClozeCard {
+  id: string;
+  term: string; // Blanked in the highlight text
+  source: 'marked' | 'auto'; // Marked by the user, or picked from the highlight's key terms
+  createdAt: Date;
+  reviewHistory: ReviewRecord[];
 }
 
 export interface ReviewRecord {
@@ -71,6 +107,12 @@ export interface ReviewRecord {
   nextReview: Date;
   interval: number;
   easeFactor: number;
+  scheduler?: 'sm2' | 'fsrs'; // Unset on records from before scheduling was selectable
+  grade?: number; // SM-2 quality 0-5, or FSRS rating 1-4
+  repetitions?: number; // Successful reviews in a row
+  stability?: number; // FSRS: days until recall drops to 90%
+  difficulty?: number; // FSRS: 1 (easiest) to 10 (hardest)
+  duration?: number; // Seconds from showing the card to grading it; unset when not timed
 }
 
 export interface Conflict {
@@ -148,15 +190,40 @@ export interface HighlightManager {
     tags?: string[];
     pageNumber?: number;
     chapter?: string;
-  }): Highlight;
+  }): Promise<Highlight>;
   
-  updateHighlight(id: string, updates: Partial<Highlight>): Highlight;
+  updateHighlight(id: string, updates: Partial<Highlight>): Promise<Highlight>;
   
-  deleteHighlight(id: string): void;
+  deleteHighlight(id: string): Promise<void>;
   
   getHighlightsForBook(bookId: string): Highlight[];
+
+  subscribe(listener: HighlightChangeListener): () => void;
 }
 
+// Persistent backing store for the highlight manager (IndexedDB on web)
+export interface HighlightStorage {
+  storeHighlight(highlight: Highlight): Promise<void>;
+  deleteHighlight(highlightId: string): Promise<void>;
+  getHighlightsForBook(bookId: string): Promise<Highlight[]>;
+  getAllHighlights(): Promise<Highlight[]>;
+  // Optional revision log; without it history is kept in memory for the session
+  storeHighlightRevision?(revision: HighlightRevision): Promise<void>;
+  getHighlightRevisions?(highlightId: string): Promise<HighlightRevision[]>;
+  // Optional batch write in one transaction; without it bulk edits are written one highlight at a time
+  storeHighlights?(highlights: Highlight[], revisions?: HighlightRevision[]): Promise<void>;
+}
+
+export interface HighlightChangeEvent {
+  type: 'created' | 'updated' | 'deleted' | 'loaded' | 'synced';
+  bookId?: string;
+  highlightId?: string;
+  highlightIds?: string[]; // Set instead of highlightId for bulk edits
+  highlight?: Highlight;
+}
+
+export type HighlightChangeListener = (event: HighlightChangeEvent) => void;
+
 export interface PositionCalculator {
   calculatePosition(selection: Selection, bookType: 'epub' | 'pdf'): Position;
   validatePosition(position: Position, bookType: 'epub' | 'pdf'): boolean;
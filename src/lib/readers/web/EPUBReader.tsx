@@ -1,44 +1,34 @@
 import React, { useState, useRef, useEffect, useCallback, useMemo, memo } from 'react';
-import { EPUBRenderer, ReadingSettings, ReadingTheme, TypographySettings } from './EPUBRenderer';
-import { Highlight, Selection } from '../shared';
+import { EPUBRenderer, ReadiumSelection, ReadingSettings, ReadingTheme, TypographySettings } from './EPUBRenderer';
+import { Highlight, HighlightColorDefinition, Position, DEFAULT_HIGHLIGHT_COLORS, isPageNote } from '../shared';
 import { ReadingHeader } from '@/components/reader/ReadingHeader';
 import { ReadingFooter } from '@/components/reader/ReadingFooter';
 import { ReadingSidebar } from '@/components/reader/ReadingSidebar';
+import { PageNoteEditor } from '@/components/reader/PageNoteEditor';
+import { HighlightStylePicker } from '@/components/reader/HighlightStylePicker';
+import { HighlightStyle } from '@/types';
 
 // Memoized Highlight Toolbar Component
-const HighlightToolbar = memo(({ onHighlightCreate, onClose }: {
+const HighlightToolbar = memo(({ colors, style, onStyleChange, onHighlightCreate, onClose }: {
+  colors: HighlightColorDefinition[];
+  style: HighlightStyle;
+  onStyleChange: (style: HighlightStyle) => void;
   onHighlightCreate: (color: Highlight['color']) => void;
   onClose: () => void;
 }) => (
   <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-white border rounded-lg shadow-lg p-2 flex gap-2 z-10">
-    <button
-      onClick={() => onHighlightCreate('yellow')}
-      className="px-3 py-1 bg-yellow-500 text-white rounded hover:bg-yellow-600 transition-colors"
-      title="Yellow highlight"
-    >
-      💛
-    </button>
-    <button
-      onClick={() => onHighlightCreate('blue')}
-      className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
-      title="Blue highlight"
-    >
-      💙
-    </button>
-    <button
-      onClick={() => onHighlightCreate('pink')}
-      className="px-3 py-1 bg-pink-500 text-white rounded hover:bg-pink-600 transition-colors"
-      title="Pink highlight"
-    >
-      💗
-    </button>
-    <button
-      onClick={() => onHighlightCreate('green')}
-      className="px-3 py-1 bg-green-500 text-white rounded hover:bg-green-600 transition-colors"
-      title="Green highlight"
-    >
-      💚
-    </button>
+    <HighlightStylePicker value={style} onChange={onStyleChange} hex="#4B5563" />
+    {colors.map(color => (
+      <button
+        key={color.id}
+        onClick={() => onHighlightCreate(color.id)}
+        className="px-3 py-1 rounded text-sm text-gray-900 hover:opacity-80 transition-opacity"
+        style={{ backgroundColor: color.hex }}
+        title={color.meaning ? `${color.name}: ${color.meaning}` : color.name}
+      >
+        {color.name}
+      </button>
+    ))}
     <button
       onClick={onClose}
       className="px-3 py-1 bg-gray-500 text-white rounded hover:bg-gray-600 transition-colors"
@@ -56,6 +46,10 @@ interface EPUBReaderProps {
   bookTitle?: string;
   bookAuthor?: string;
   highlights?: Highlight[];
+  palette?: HighlightColorDefinition[];
+  defaultHighlightColor?: string;
+  // Set to a new position object to jump there, e.g. when a highlight or link is clicked
+  navigationTarget?: Position | null;
   onHighlightCreate?: (highlight: Highlight) => void;
   onHighlightUpdate?: (highlight: Highlight) => void;
   onHighlightDelete?: (highlightId: string) => void;
@@ -67,13 +61,16 @@ export function EPUBReader({
   bookTitle = "Unknown Book",
   bookAuthor = "Unknown Author",
   highlights = [],
+  palette = DEFAULT_HIGHLIGHT_COLORS,
+  defaultHighlightColor,
+  navigationTarget,
   onHighlightCreate,
   onHighlightUpdate,
   onHighlightDelete
 }: EPUBReaderProps) {
   const [epubRenderer, setEpubRenderer] = useState<EPUBRenderer | null>(null);
   const epubRendererRef = useRef<EPUBRenderer | null>(null);
-  const [currentSelection, setCurrentSelection] = useState<Selection | null>(null);
+  const [currentSelection, setCurrentSelection] = useState<ReadiumSelection | null>(null);
   const [showHighlightToolbar, setShowHighlightToolbar] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isRendered, setIsRendered] = useState(false);
@@ -92,6 +89,9 @@ export function EPUBReader({
   const [showFooter, setShowFooter] = useState(true);
   const [justification, setJustification] = useState<'left' | 'justify'>('justify');
   const [pageLayout, setPageLayout] = useState<'single' | 'double' | 'three-column'>('single');
+  const [highlightStyle, setHighlightStyle] = useState<HighlightStyle>('fill');
+  const [showPageNoteEditor, setShowPageNoteEditor] = useState(false);
+  const [activePageNote, setActivePageNote] = useState<Highlight | null>(null);
   const contentRef = useRef<HTMLDivElement>(null);
   
   // Performance monitoring
@@ -218,6 +218,23 @@ export function EPUBReader({
     renderEPUB();
   }, [epubRenderer]);
 
+  // Jump to a requested position once the book is on screen
+  useEffect(() => {
+    if (!navigationTarget || !epubRenderer || !isRendered) return;
+
+    epubRenderer.navigateToPosition(navigationTarget)
+      .then(() => setCurrentChapter(epubRenderer.getCurrentChapter()))
+      .catch(error => console.error('EPUBReader: Failed to navigate to position:', error));
+  }, [navigationTarget, epubRenderer, isRendered]);
+
+  // Keep the drawn highlights and margin markers in step with the book's highlights
+  useEffect(() => {
+    if (!epubRenderer || !isRendered) return;
+
+    epubRenderer.setHighlights(highlights, palette);
+    epubRenderer.setPageNotes(highlights.filter(isPageNote), setActivePageNote);
+  }, [highlights, palette, epubRenderer, isRendered]);
+
   // Optimized text selection handler
   const handleTextSelection = useCallback(() => {
     if (!epubRenderer) return;
@@ -233,17 +250,17 @@ export function EPUBReader({
   }, [epubRenderer]);
 
   // Handle highlight creation
-  const handleHighlightCreate = async (color: Highlight['color'] = 'yellow') => {
+  const handleHighlightCreate = async (color: Highlight['color'] = defaultHighlightColor || palette[0].id) => {
     if (!currentSelection || !onHighlightCreate || !epubRenderer) return;
 
     try {
       // Create highlight using the shared highlight manager
-      const highlight = epubRenderer.createHighlight({
+      const highlight = await epubRenderer.createHighlight({
         text: currentSelection.toString(),
         position: {
           primary: {
             type: 'cfi',
-            value: `epubcfi(/6/2[${currentChapter}]!/4/2/1:${currentSelection.startOffset})`,
+            value: currentSelection.cfi || `epubcfi(/6/2[${currentChapter}]!/4/2/1:${currentSelection.startOffset})`,
             textOffset: currentSelection.startOffset
           },
           fallback: {
@@ -256,6 +273,7 @@ export function EPUBReader({
           confidence: 0.95
         },
         color,
+        style: highlightStyle,
         platform: 'web',
         bookId,
         note: '',
@@ -272,6 +290,31 @@ export function EPUBReader({
     }
   };
 
+  // Anchor a new page note to the paragraph at the top of the reading area. EPUBs have no fixed
+  // pages, so the note has no page number; chapters that are not spine documents have no CFI
+  const handlePageNoteSave = async (text: string) => {
+    if (!onHighlightCreate || !epubRenderer) return;
+
+    const anchor = epubRenderer.getVisibleAnchor();
+    const pageNote = await epubRenderer.createPageNote({
+      bookId,
+      position: {
+        primary: anchor.cfi ? { type: 'cfi', value: anchor.cfi } : undefined,
+        fallback: {
+          textContent: anchor.textContent,
+          chapterId: anchor.chapterId
+        },
+        confidence: anchor.textContent ? 0.8 : 0.5
+      },
+      text,
+      color: defaultHighlightColor || palette[0].id,
+      platform: 'web',
+      chapter: anchor.chapterId
+    });
+
+    onHighlightCreate(pageNote);
+  };
+
   // Optimized navigation handlers
   const handleNextPage = useCallback(async () => {
     if (!epubRenderer || !isRendered) return;
@@ -634,9 +677,23 @@ export function EPUBReader({
           )}
         </div>
         
+        {/* Page note button */}
+        {isRendered && onHighlightCreate && (
+          <button
+            onClick={() => setShowPageNoteEditor(true)}
+            className="absolute right-6 bottom-20 z-10 px-3 py-2 bg-white border rounded-full shadow-lg text-sm hover:bg-gray-50 transition-colors"
+            title="Add a note to this page"
+          >
+            📝 Add page note
+          </button>
+        )}
+
         {/* Highlight toolbar */}
         {showHighlightToolbar && currentSelection && (
           <HighlightToolbar
+            colors={palette}
+            style={highlightStyle}
+            onStyleChange={setHighlightStyle}
             onHighlightCreate={handleHighlightCreate}
             onClose={() => {
               setShowHighlightToolbar(false);
@@ -658,6 +715,17 @@ export function EPUBReader({
         />
       )}
 
+      <PageNoteEditor
+        isOpen={showPageNoteEditor || !!activePageNote}
+        locationLabel={chapters.find(c => c.id === (activePageNote?.chapter || currentChapter))?.title || 'This page'}
+        pageNote={activePageNote}
+        onSave={handlePageNoteSave}
+        onClose={() => {
+          setShowPageNoteEditor(false);
+          setActivePageNote(null);
+        }}
+      />
+
       {/* Sidebar */}
       <ReadingSidebar
         isOpen={showSidebar}
@@ -1,5 +1,18 @@
 import { HighlightManager } from '../shared/HighlightManager';
 import { Highlight, Position } from '../shared/types';
+import { getNoteText, isPageNote } from '../shared/notes';
+import { getHighlightColor } from '../shared/palette';
+import { getHighlightStyle, getHighlightStyleCSS } from '../shared/styles';
+import {
+  CFIContentOptions,
+  CFINodeFilter,
+  CFIStep,
+  generateCFI,
+  getCFIDocumentSteps,
+  getSpineItemSteps,
+  resolveCFI
+} from '../shared/cfi';
+import { HighlightColorDefinition } from '@/types';
 
 export interface ReadiumRenderResult {
   content: string;
@@ -35,6 +48,7 @@ export interface ReadiumSelection {
   toString(): string;
   startOffset: number;
   endOffset: number;
+  cfi?: string; // Range CFI of the selection, when it is within a spine document
   context?: {
     before: string;
     after: string;
@@ -89,6 +103,9 @@ export class EPUBRenderer {
   private startReadingTime: number = 0;
   private bookmarks: Set<string> = new Set();
   private metadata: any = {};
+
+  // Spine documents in reading order, with the CFI steps to each from the package document
+  private spine: Array<{ href: string; steps: CFIStep[] }> = [];
   
   // Track elements added to document for proper cleanup
   private addedElements: Set<HTMLElement> = new Set();
@@ -102,6 +119,13 @@ export class EPUBRenderer {
   private lastScrollTime: number = 0;
   private scrollThrottleDelay: number = 16; // ~60fps
 
+  // Elements a page note can be anchored beside
+  private static readonly BLOCK_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, li, blockquote';
+
+  // Page notes shown as margin markers, and what to do when one is clicked
+  private pageNotes: Highlight[] = [];
+  private onPageNoteClick: ((pageNote: Highlight) => void) | null = null;
+
   constructor() {
     console.log('EPUBRenderer: Constructor called');
     this.highlightManager = new HighlightManager();
@@ -271,6 +295,20 @@ export class EPUBRenderer {
         description
       };
 
+      // Spine, for the first steps of CFIs
+      const manifest = new Map<string, string>();
+      opfDoc.querySelectorAll('manifest > item').forEach(item => {
+        const id = item.getAttribute('id');
+        const href = item.getAttribute('href');
+        if (id && href) {
+          manifest.set(id, this.resolvePath(decodeURIComponent(href), opfPath));
+        }
+      });
+      this.spine = Array.from(opfDoc.querySelectorAll('spine > itemref')).flatMap(itemref => {
+        const href = manifest.get(itemref.getAttribute('idref') || '');
+        return href ? [{ href, steps: getSpineItemSteps(itemref) }] : [];
+      });
+
       // Extract cover image
       const coverId = opfDoc.querySelector('metadata meta[name="cover"]')?.getAttribute('content');
       if (coverId) {
@@ -421,6 +459,8 @@ export class EPUBRenderer {
         await this.navigateToChapter(this.chapters[0].id);
       }
 
+      this.renderPageNoteMarkers();
+
       // Start reading analytics
       this.startReadingAnalytics();
 
@@ -726,6 +766,44 @@ export class EPUBRenderer {
         transform: scale(1.1);
       }
 
+      /* Highlights; color and style are set inline per highlight */
+      .epub-highlight {
+        background-color: transparent;
+        color: inherit;
+        border-radius: 2px;
+      }
+
+      /* Page note margin markers */
+      .epub-page-note-anchor {
+        position: relative;
+      }
+
+      .epub-page-note-marker {
+        position: absolute;
+        left: -1.75rem;
+        width: 1.25rem;
+        height: 1.25rem;
+        border: none;
+        border-radius: 4px;
+        font-size: 12px;
+        line-height: 1.25rem;
+        text-align: center;
+        text-indent: 0;
+        cursor: pointer;
+        opacity: 0.85;
+        transition: all 0.2s ease;
+      }
+
+      /* Drawn with CSS so the marker adds nothing to the paragraph's text */
+      .epub-page-note-marker::before {
+        content: '\\1F4DD';
+      }
+
+      .epub-page-note-marker:hover {
+        opacity: 1;
+        transform: scale(1.1);
+      }
+
       /* Responsive design */
       @media (max-width: 768px) {
         .epub-reader-container {
@@ -886,12 +964,12 @@ export class EPUBRenderer {
       // Process images and other resources
       await this.processChapterResources(body, chapter.href);
 
-      // Wrap in chapter div with proper styling
+      // Wrap in chapter div with proper styling. The body content follows the title directly, so
+      // that apart from the title the chapter element holds the same nodes as the document's body
+      const bodyId = body.getAttribute('id');
       const chapterHtml = `
-        <div class="epub-chapter" data-chapter="${chapter.id}">
-          <h1>${chapter.title}</h1>
-          ${body.innerHTML}
-        </div>
+        <div class="epub-chapter" data-chapter="${chapter.id}"${bodyId ? ` data-body-id="${bodyId}"` : ''}>` +
+        `<h1 class="epub-chapter-title">${chapter.title}</h1>${body.innerHTML}</div>
       `;
 
       console.log('EPUBRenderer: Chapter rendered successfully');
@@ -1022,6 +1100,7 @@ export class EPUBRenderer {
         toString: () => selection.toString(),
         startOffset: selection.anchorOffset || 0,
         endOffset: selection.focusOffset || 0,
+        cfi: (selection.rangeCount > 0 && this.calculateCFI(selection.getRangeAt(0))) || undefined,
         context: {
           before: selection.anchorNode?.parentElement?.textContent?.substring(0, 50) || '',
           after: selection.focusNode?.parentElement?.textContent?.substring(50) || ''
@@ -1366,6 +1445,294 @@ export class EPUBRenderer {
     }
   }
 
+  /**
+   * Navigate to a highlight position: open its chapter, then scroll its text into view
+   */
+  async navigateToPosition(position: Position): Promise<void> {
+    if (!this.container) {
+      throw new Error('EPUB not rendered');
+    }
+
+    const chapterId = this.getPositionChapterId(position);
+    if (chapterId && this.chapters.some(ch => ch.id === chapterId)) {
+      await this.navigateToChapter(chapterId);
+    }
+
+    const range = this.resolvePositionRange(position);
+    const target = range?.startContainer.parentElement;
+    if (target) {
+      target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      return;
+    }
+
+    const searchText = position.fallback.textContent.trim().slice(0, 80);
+    if (!searchText) {
+      return;
+    }
+
+    const scope = (chapterId && this.container.querySelector(`[data-chapter="${chapterId}"]`)) || this.container;
+    const walker = document.createTreeWalker(scope, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      if (node.textContent?.includes(searchText) && node.parentElement) {
+        node.parentElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        return;
+      }
+    }
+
+    console.warn('EPUBRenderer: Highlight text not found for navigation:', searchText);
+  }
+
+  /**
+   * Draw highlights in the text, each in its palette color and style
+   * @param highlights - Highlights for this book; page notes are left to setPageNotes
+   * @param palette - Palette the highlight colors are looked up in
+   */
+  setHighlights(highlights: Highlight[], palette: HighlightColorDefinition[]): void {
+    if (!this.container) return;
+
+    // Unwrap the marks from the previous pass
+    this.container.querySelectorAll('mark.epub-highlight').forEach(mark => {
+      const parent = mark.parentNode;
+      if (!parent) return;
+      while (mark.firstChild) {
+        parent.insertBefore(mark.firstChild, mark);
+      }
+      parent.removeChild(mark);
+      parent.normalize();
+    });
+
+    highlights.filter(highlight => !isPageNote(highlight)).forEach(highlight => {
+      const range = this.findHighlightRange(highlight);
+      if (!range) return;
+
+      const mark = document.createElement('mark');
+      mark.className = 'epub-highlight';
+      mark.dataset.highlightId = highlight.id;
+      Object.assign(mark.style, getHighlightStyleCSS(
+        getHighlightStyle(highlight),
+        getHighlightColor(palette, highlight.color).hex
+      ));
+      range.surroundContents(mark);
+    });
+  }
+
+  /**
+   * Locate a highlight's text within a single text node of its chapter, by its CFI or else by
+   * searching for the text. Text spanning several nodes is marked from its start to the end of
+   * the first node
+   */
+  private findHighlightRange(highlight: Highlight): Range | null {
+    if (!this.container) return null;
+
+    const text = highlight.text.trim();
+    if (!text) return null;
+
+    const resolved = this.resolvePositionRange(highlight.position);
+    const startText = resolved?.startContainer.nodeType === Node.TEXT_NODE ? resolved.startContainer as Text : null;
+    if (resolved && startText && resolved.startOffset < startText.length) {
+      if (resolved.endContainer !== startText) {
+        resolved.setEnd(startText, startText.length);
+      }
+      return resolved;
+    }
+
+    const chapterId = this.getPositionChapterId(highlight.position);
+    const scope = (chapterId && this.container.querySelector(`[data-chapter="${chapterId}"]`)) || this.container;
+    const prefix = text.slice(0, 80);
+
+    const walker = document.createTreeWalker(scope, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      const content = node.textContent || '';
+      if (node.parentElement?.closest('mark.epub-highlight')) continue;
+
+      const start = content.indexOf(text) >= 0 ? content.indexOf(text) : content.indexOf(prefix);
+      if (start < 0) continue;
+
+      const range = document.createRange();
+      range.setStart(node, start);
+      range.setEnd(node, Math.min(content.length, start + text.length));
+      return range;
+    }
+
+    return null;
+  }
+
+  /**
+   * CFI of a range in the rendered book, into the spine document its chapter was rendered from
+   * @param range - Range within one chapter
+   * @returns The CFI, or null when the chapter is not a spine document or the range leaves it
+   */
+  calculateCFI(range: Range): string | null {
+    const start = range.startContainer;
+    const chapterElement = (start.nodeType === Node.ELEMENT_NODE ? start as Element : start.parentElement)
+      ?.closest<HTMLElement>('.epub-chapter');
+    const chapter = chapterElement && this.chapters.find(ch => ch.id === chapterElement.dataset.chapter);
+    const spineItem = chapter && this.getChapterSpineItem(chapter);
+    if (!chapterElement || !spineItem) return null;
+
+    return generateCFI(range, spineItem.steps, this.getCFIOptions(chapterElement));
+  }
+
+  /**
+   * The range a position's CFI points to in its rendered chapter, when that range still holds
+   * the position's text
+   */
+  private resolvePositionRange(position: Position): Range | null {
+    if (!this.container || position.primary?.type !== 'cfi') return null;
+
+    const chapter = this.chapters.find(ch => ch.id === this.getPositionChapterId(position));
+    const chapterElement = chapter && this.getChapterSpineItem(chapter)
+      ? this.container.querySelector<HTMLElement>(`[data-chapter="${chapter.id}"]`)
+      : null;
+    if (!chapterElement) return null;
+
+    const range = resolveCFI(String(position.primary.value), this.getCFIOptions(chapterElement));
+    const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+    const expected = normalize(position.fallback.textContent).slice(0, 20);
+    if (!range || range.collapsed || !expected || !normalize(range.toString()).startsWith(expected)) {
+      return null;
+    }
+    return range;
+  }
+
+  /**
+   * The chapter a position is in. CFIs from before spine-based CFIs name the chapter in the
+   * spine step's assertion; others are matched to the chapter rendered from their spine document
+   */
+  private getPositionChapterId(position: Position): string | undefined {
+    const documentSteps = position.primary?.type === 'cfi'
+      ? getCFIDocumentSteps(String(position.primary.value))
+      : null;
+
+    if (documentSteps) {
+      const assertion = documentSteps[documentSteps.length - 1].id;
+      if (assertion && this.chapters.some(ch => ch.id === assertion)) {
+        return assertion;
+      }
+
+      const spineItem = this.spine.find(item =>
+        item.steps.length === documentSteps.length &&
+        item.steps.every((step, index) => step.index === documentSteps[index].index)
+      );
+      const chapter = spineItem && this.chapters.find(ch => this.getChapterSpineItem(ch) === spineItem);
+      if (chapter) {
+        return chapter.id;
+      }
+    }
+
+    return position.fallback.chapterId;
+  }
+
+  /**
+   * The spine document a chapter was rendered from
+   */
+  private getChapterSpineItem(chapter: { href?: string }): { href: string; steps: CFIStep[] } | undefined {
+    const file = decodeURIComponent((chapter.href || '').split('#')[0]).replace(/^\.\//, '');
+    if (!file) return undefined;
+    return this.spine.find(item => item.href === file || item.href.endsWith(`/${file}`));
+  }
+
+  /**
+   * CFI content of a rendered chapter: the chapter element stands in for the document's body,
+   * the second element under <html>
+   */
+  private getCFIOptions(chapterElement: HTMLElement): CFIContentOptions {
+    const bodyId = chapterElement.dataset.bodyId;
+    return {
+      root: chapterElement,
+      rootSteps: [bodyId ? { index: 4, id: bodyId } : { index: 4 }],
+      filter: EPUBRenderer.filterCFIElement
+    };
+  }
+
+  /**
+   * Leave the title and margin markers the renderer adds out of CFIs, and look through the marks
+   * wrapped around highlights
+   */
+  private static filterCFIElement(element: Element): CFINodeFilter {
+    if (element.matches('mark.epub-highlight')) return 'skip';
+    return element.matches('.epub-chapter-title, .epub-page-note-marker') ? 'reject' : 'accept';
+  }
+
+  /**
+   * Where a page note made right now should be anchored: the current chapter and the
+   * first block of text visible at the top of the reading area, or the start of the chapter
+   * when no text is visible
+   */
+  getVisibleAnchor(): { chapterId: string; textContent: string; cfi?: string } {
+    const anchor: { chapterId: string; textContent: string; cfi?: string } = {
+      chapterId: this.currentChapter,
+      textContent: ''
+    };
+    if (!this.container) {
+      return anchor;
+    }
+
+    const chapterElement = this.container.querySelector(`[data-chapter="${this.currentChapter}"]`);
+    if (!chapterElement) {
+      return anchor;
+    }
+
+    const top = this.container.getBoundingClientRect().top;
+    const blocks = Array.from(chapterElement.querySelectorAll<HTMLElement>(EPUBRenderer.BLOCK_SELECTOR));
+    const visible = blocks.find(block => block.getBoundingClientRect().bottom > top && block.textContent?.trim());
+    anchor.textContent = visible?.textContent?.trim().slice(0, 200) || '';
+
+    const range = document.createRange();
+    range.setStart(visible || chapterElement, 0);
+    anchor.cfi = this.calculateCFI(range) || undefined;
+    return anchor;
+  }
+
+  /**
+   * Show page notes as markers in the left margin, next to the paragraph each is anchored to
+   * @param pageNotes - Page notes for this book
+   * @param onClick - Called with the page note when its marker is clicked
+   */
+  setPageNotes(pageNotes: Highlight[], onClick: (pageNote: Highlight) => void): void {
+    this.pageNotes = pageNotes;
+    this.onPageNoteClick = onClick;
+    this.renderPageNoteMarkers();
+  }
+
+  /**
+   * Replace the margin markers with ones for the current page notes
+   */
+  private renderPageNoteMarkers(): void {
+    if (!this.container) return;
+
+    this.container.querySelectorAll('.epub-page-note-marker').forEach(marker => marker.remove());
+
+    const markersPerBlock = new Map<HTMLElement, number>();
+    this.pageNotes.forEach(pageNote => {
+      const chapterId = this.getPositionChapterId(pageNote.position);
+      const chapterElement = chapterId && this.container?.querySelector<HTMLElement>(`[data-chapter="${chapterId}"]`);
+      if (!chapterElement) return;
+
+      // Anchor to the paragraph the note was written at, or the chapter heading when it is gone
+      const anchorText = pageNote.position.fallback.textContent.trim().slice(0, 80);
+      const blocks = Array.from(chapterElement.querySelectorAll<HTMLElement>(EPUBRenderer.BLOCK_SELECTOR));
+      const block = (anchorText && blocks.find(candidate => candidate.textContent?.includes(anchorText))) || blocks[0];
+      if (!block) return;
+
+      const index = markersPerBlock.get(block) || 0;
+      markersPerBlock.set(block, index + 1);
+
+      const marker = document.createElement('button');
+      marker.className = 'epub-page-note-marker';
+      marker.title = getNoteText(pageNote, ' / ') || 'Page note';
+      marker.style.top = `${index * 1.5}rem`;
+      marker.style.backgroundColor = this.readingSettings.theme.highlight;
+      marker.addEventListener('click', event => {
+        event.stopPropagation();
+        this.onPageNoteClick?.(pageNote);
+      });
+
+      block.classList.add('epub-page-note-anchor');
+      block.prepend(marker);
+    });
+  }
+
   /**
    * Navigate to next page
    */
@@ -1572,21 +1939,37 @@ export class EPUBRenderer {
   /**
    * Create a highlight using the shared highlight manager
    */
-  createHighlight(data: {
+  async createHighlight(data: {
     text: string;
     position: Position;
     color: string;
+    style?: Highlight['style'];
     platform: 'web' | 'mobile';
     bookId: string;
     note?: string;
     tags?: string[];
     pageNumber?: number;
     chapter?: string;
-  }): Highlight {
+  }): Promise<Highlight> {
     console.log('EPUBRenderer: Creating highlight:', data);
     return this.highlightManager.createHighlight(data);
   }
 
+  /**
+   * Create a page note using the shared highlight manager
+   */
+  async createPageNote(data: {
+    bookId: string;
+    position: Position;
+    text: string;
+    color: string;
+    platform: 'web' | 'mobile';
+    pageNumber?: number;
+    chapter?: string;
+  }): Promise<Highlight> {
+    return this.highlightManager.createPageNote(data);
+  }
+
   /**
    * Destroy the renderer and clean up resources with performance optimization
    */
@@ -4,13 +4,33 @@
 // Uses the shared reader library for consistent cross-platform behavior
 
 import React, { useState, useRef, useEffect } from 'react';
-import { SharedPDFReader, Highlight, Selection } from '../shared';
+import {
+  SharedPDFReader,
+  Highlight,
+  HighlightColorDefinition,
+  Position,
+  Selection,
+  DEFAULT_HIGHLIGHT_COLORS,
+  getHighlightColor,
+  getHighlightStyle,
+  getHighlightStyleCSS,
+  getNoteText,
+  createNoteEntry,
+  isPageNote,
+  isRegionHighlight
+} from '../shared';
 import { PDFRenderer } from './PDFRenderer';
+import { PageNoteEditor } from '@/components/reader/PageNoteEditor';
+import { HighlightStylePicker } from '@/components/reader/HighlightStylePicker';
+import { HighlightStyle } from '@/types';
 
 interface PDFReaderProps {
   bookData: Uint8Array;
   bookId: string;
   highlights?: Highlight[];
+  palette?: HighlightColorDefinition[];
+  // Set to a new position object to jump there, e.g. when a highlight or link is clicked
+  navigationTarget?: Position | null;
   onHighlightCreate?: (highlight: Highlight) => void;
   onHighlightUpdate?: (highlight: Highlight) => void;
   onHighlightDelete?: (highlightId: string) => void;
@@ -20,6 +40,8 @@ export function PDFReader({
   bookData,
   bookId,
   highlights = [],
+  palette = DEFAULT_HIGHLIGHT_COLORS,
+  navigationTarget,
   onHighlightCreate,
   onHighlightUpdate,
   onHighlightDelete
@@ -31,6 +53,12 @@ export function PDFReader({
   const [isLoading, setIsLoading] = useState(true);
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(0);
+  const [highlightStyle, setHighlightStyle] = useState<HighlightStyle>('fill');
+  // Page note: the next click sets where the note goes. Region: a drag clips an area of the page
+  const [activeTool, setActiveTool] = useState<'page-note' | 'region' | null>(null);
+  const [regionStart, setRegionStart] = useState<{ x: number; y: number } | null>(null);
+  const [pageNoteTarget, setPageNoteTarget] = useState<{ pageNumber: number; x: number; y: number } | null>(null);
+  const [activePageNote, setActivePageNote] = useState<Highlight | null>(null);
   const contentRef = useRef<HTMLDivElement>(null);
 
   // Initialize the PDF renderer and shared reader
@@ -64,8 +92,27 @@ export function PDFReader({
     initializeReader();
   }, [bookData]);
 
+  // Jump to a requested position once the PDF is loaded
+  useEffect(() => {
+    if (!navigationTarget || !pdfRenderer || isLoading) return;
+
+    pdfRenderer.navigateToPosition(navigationTarget)
+      .then(() => setCurrentPage(pdfRenderer.getCurrentPage()))
+      .catch(error => console.error('PDFReader: Failed to navigate to position:', error));
+  }, [navigationTarget, pdfRenderer, isLoading]);
+
+  // Keep the page note markers and region outlines in step with the document's page notes
+  useEffect(() => {
+    if (!pdfRenderer) return;
+
+    pdfRenderer.setPageNotes(highlights.filter(isPageNote), setActivePageNote);
+    pdfRenderer.setRegionHighlights(highlights.filter(isRegionHighlight), palette);
+  }, [highlights, palette, pdfRenderer]);
+
   // Handle text selection
   const handleTextSelection = () => {
+    if (activeTool) return;
+
     const selection = window.getSelection();
     if (selection && selection.toString().trim()) {
       const mockSelection: Selection = {
@@ -97,7 +144,8 @@ export function PDFReader({
         bookId,
         text: currentSelection.toString(),
         color,
-        note: '',
+        style: highlightStyle,
+        notes: [],
         tags: [],
         pageNumber: currentPage,
         chapter: `Page ${currentPage}`,
@@ -138,6 +186,133 @@ export function PDFReader({
     }
   };
 
+  // Pick the spot for a new page note
+  const handleContentClick = (event: React.MouseEvent) => {
+    if (activeTool !== 'page-note' || !pdfRenderer) return;
+
+    const coords = pdfRenderer.getPageCoordinates(event.clientX, event.clientY);
+    if (coords) {
+      setPageNoteTarget(coords);
+      setActiveTool(null);
+    }
+  };
+
+  // Region tool: drag out a rectangle on the page
+  const handleRegionMouseDown = (event: React.MouseEvent) => {
+    if (activeTool !== 'region' || !pdfRenderer) return;
+
+    const coords = pdfRenderer.getPageCoordinates(event.clientX, event.clientY);
+    if (coords) {
+      event.preventDefault();
+      setRegionStart(coords);
+    }
+  };
+
+  const getDraggedRegion = (event: React.MouseEvent) => {
+    const end = regionStart && pdfRenderer?.getPageCoordinates(event.clientX, event.clientY, true);
+    if (!regionStart || !end) return null;
+
+    return {
+      x: Math.min(regionStart.x, end.x),
+      y: Math.min(regionStart.y, end.y),
+      width: Math.abs(end.x - regionStart.x),
+      height: Math.abs(end.y - regionStart.y)
+    };
+  };
+
+  const handleRegionMouseMove = (event: React.MouseEvent) => {
+    const region = getDraggedRegion(event);
+    if (region && pdfRenderer) {
+      pdfRenderer.setSelectionRegion(region);
+    }
+  };
+
+  const handleRegionMouseUp = (event: React.MouseEvent) => {
+    const region = getDraggedRegion(event);
+    setRegionStart(null);
+    pdfRenderer?.setSelectionRegion(null);
+    if (!region || !pdfRenderer || !onHighlightCreate) return;
+
+    // Ignore clicks and tiny drags
+    if (region.width < 5 || region.height < 5) return;
+
+    const image = pdfRenderer.captureRegion(region);
+    if (!image) return;
+
+    const now = new Date();
+    const pageNumber = pdfRenderer.getCurrentPage();
+    const regionHighlight: Highlight = {
+      id: `region-${Date.now()}`,
+      bookId,
+      kind: 'region',
+      text: '',
+      image,
+      color: palette[0].id,
+      notes: [],
+      tags: [],
+      pageNumber,
+      chapter: `Page ${pageNumber}`,
+      position: {
+        primary: {
+          type: 'coordinates',
+          value: { pageNumber, ...region }
+        },
+        fallback: {
+          textContent: '',
+          chapterId: `page-${pageNumber}`,
+          pageNumber
+        },
+        confidence: 1
+      },
+      createdAt: now,
+      updatedAt: now,
+      lastModified: now,
+      platform: 'web',
+      importance: 1,
+      reviewHistory: []
+    };
+
+    onHighlightCreate(regionHighlight);
+    setActiveTool(null);
+  };
+
+  // Handle page note creation; coordinates are in PDF units so they survive zoom changes
+  const handlePageNoteSave = async (text: string) => {
+    if (!pageNoteTarget || !onHighlightCreate) return;
+
+    const now = new Date();
+    const pageNote: Highlight = {
+      id: `page-note-${Date.now()}`,
+      bookId,
+      kind: 'page-note',
+      text: '',
+      color: palette[0].id,
+      notes: [createNoteEntry(text, 'web', undefined, now)],
+      tags: [],
+      pageNumber: pageNoteTarget.pageNumber,
+      chapter: `Page ${pageNoteTarget.pageNumber}`,
+      position: {
+        primary: {
+          type: 'coordinates',
+          value: { ...pageNoteTarget, width: 0, height: 0 }
+        },
+        fallback: {
+          textContent: '',
+          chapterId: `page-${pageNoteTarget.pageNumber}`,
+          pageNumber: pageNoteTarget.pageNumber
+        },
+        confidence: 1
+      },
+      createdAt: now,
+      updatedAt: now,
+      lastModified: now,
+      platform: 'web',
+      reviewHistory: []
+    };
+
+    onHighlightCreate(pageNote);
+  };
+
   // Handle highlight click
   const handleHighlightClick = (highlight: Highlight) => {
     if (pdfRenderer) {
@@ -185,20 +360,16 @@ export function PDFReader({
   // Render highlights for current page
   const renderHighlights = () => {
     const pageHighlights = highlights.filter(highlight => 
-      highlight.pageNumber === currentPage
+      highlight.pageNumber === currentPage && !isPageNote(highlight) && !isRegionHighlight(highlight)
     );
 
     return pageHighlights.map(highlight => (
       <div
         key={highlight.id}
-        className={`absolute cursor-pointer transition-opacity hover:opacity-80 ${
-          highlight.color === 'yellow' ? 'bg-yellow-200' :
-          highlight.color === 'blue' ? 'bg-blue-200' :
-          highlight.color === 'pink' ? 'bg-pink-200' :
-          'bg-green-200'
-        }`}
+        className="absolute cursor-pointer transition-opacity hover:opacity-80"
+        style={getHighlightStyleCSS(getHighlightStyle(highlight), getHighlightColor(palette, highlight.color).hex)}
         onClick={() => handleHighlightClick(highlight)}
-        title={highlight.note || highlight.text}
+        title={getNoteText(highlight) || highlight.text}
       >
         {highlight.text}
       </div>
@@ -257,14 +428,38 @@ export function PDFReader({
             className="w-16 px-2 py-1 border border-gray-300 rounded text-center"
           />
           <span className="text-sm">of {totalPages}</span>
+          {onHighlightCreate && (
+            <>
+              <button
+                onClick={() => setActiveTool(activeTool === 'page-note' ? null : 'page-note')}
+                className={`ml-2 px-3 py-1 rounded text-sm ${activeTool === 'page-note' ? 'bg-yellow-400 text-gray-900' : 'bg-white border border-gray-300'}`}
+                title="Add a note to this page"
+              >
+                {activeTool === 'page-note' ? 'Click on the page...' : '📝 Add page note'}
+              </button>
+              <button
+                onClick={() => setActiveTool(activeTool === 'region' ? null : 'region')}
+                className={`px-3 py-1 rounded text-sm ${activeTool === 'region' ? 'bg-yellow-400 text-gray-900' : 'bg-white border border-gray-300'}`}
+                title="Clip a figure, chart or equation"
+              >
+                {activeTool === 'region' ? 'Drag over the page...' : '✂️ Clip region'}
+              </button>
+            </>
+          )}
         </div>
       </div>
 
       {/* Main content area */}
       <div
         ref={contentRef}
-        className="pdf-content p-8 max-w-4xl mx-auto bg-white min-h-[600px]"
-        onMouseUp={handleTextSelection}
+        className={`pdf-content p-8 max-w-4xl mx-auto bg-white min-h-[600px] ${activeTool ? 'cursor-crosshair' : ''}`}
+        onMouseDown={handleRegionMouseDown}
+        onMouseMove={handleRegionMouseMove}
+        onMouseUp={(event) => {
+          handleRegionMouseUp(event);
+          handleTextSelection();
+        }}
+        onClick={handleContentClick}
       />
 
       {/* Highlight overlay */}
@@ -276,26 +471,16 @@ export function PDFReader({
       {showHighlightToolbar && currentSelection && (
         <div className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 z-50">
           <div className="bg-white rounded-lg shadow-lg border p-2 flex gap-2">
-            <button
-              onClick={() => handleHighlightCreate('yellow')}
-              className="w-8 h-8 bg-yellow-200 rounded hover:bg-yellow-300 transition-colors"
-              title="Yellow highlight"
-            />
-            <button
-              onClick={() => handleHighlightCreate('blue')}
-              className="w-8 h-8 bg-blue-200 rounded hover:bg-blue-300 transition-colors"
-              title="Blue highlight"
-            />
-            <button
-              onClick={() => handleHighlightCreate('pink')}
-              className="w-8 h-8 bg-pink-200 rounded hover:bg-pink-300 transition-colors"
-              title="Pink highlight"
-            />
-            <button
-              onClick={() => handleHighlightCreate('green')}
-              className="w-8 h-8 bg-green-200 rounded hover:bg-green-300 transition-colors"
-              title="Green highlight"
-            />
+            <HighlightStylePicker value={highlightStyle} onChange={setHighlightStyle} hex="#4B5563" />
+            {palette.map(color => (
+              <button
+                key={color.id}
+                onClick={() => handleHighlightCreate(color.id)}
+                className="w-8 h-8 rounded hover:opacity-80 transition-opacity"
+                style={{ backgroundColor: color.hex }}
+                title={color.meaning ? `${color.name}: ${color.meaning}` : color.name}
+              />
+            ))}
             <button
               onClick={() => {
                 setCurrentSelection(null);
@@ -310,6 +495,17 @@ export function PDFReader({
         </div>
       )}
 
+      <PageNoteEditor
+        isOpen={!!pageNoteTarget || !!activePageNote}
+        locationLabel={`Page ${activePageNote?.pageNumber || pageNoteTarget?.pageNumber || currentPage}`}
+        pageNote={activePageNote}
+        onSave={handlePageNoteSave}
+        onClose={() => {
+          setPageNoteTarget(null);
+          setActivePageNote(null);
+        }}
+      />
+
       {/* Selection info (for debugging) */}
       {currentSelection && (
         <div className="fixed bottom-4 left-4 bg-black bg-opacity-75 text-white p-2 rounded text-sm">
@@ -1,6 +1,11 @@
 // PDF Renderer using PDF.js
 // Provides PDF rendering functionality for the web platform
 
+import { Highlight } from '../shared/types';
+import { getNoteText } from '../shared/notes';
+import { getHighlightColor, withAlpha } from '../shared/palette';
+import { HighlightColorDefinition } from '@/types';
+
 // PDF.js imports - only on client side
 let pdfjsLib: any = null;
 
@@ -45,6 +50,13 @@ export class PDFRenderer {
   private container: HTMLElement | null = null;
   private canvas: HTMLCanvasElement | null = null;
   private context: CanvasRenderingContext2D | null = null;
+  private pageWidth: number = 0; // Current page width at scale 1, in PDF units
+  private markerLayer: HTMLDivElement | null = null;
+  private pageNotes: Highlight[] = [];
+  private onPageNoteClick: ((pageNote: Highlight) => void) | null = null;
+  private regionHighlights: Highlight[] = [];
+  private palette: HighlightColorDefinition[] = [];
+  private selectionRegion: { x: number; y: number; width: number; height: number } | null = null;
 
   constructor() {}
 
@@ -95,9 +107,17 @@ export class PDFRenderer {
       this.canvas.style.height = 'auto';
       this.canvas.style.display = 'block';
       
+      // Layer above the canvas for page note markers
+      this.markerLayer = document.createElement('div');
+      this.markerLayer.style.position = 'absolute';
+      this.markerLayer.style.inset = '0';
+      this.markerLayer.style.pointerEvents = 'none';
+
       // Clear container and add canvas
       container.innerHTML = '';
+      container.style.position = 'relative';
       container.appendChild(this.canvas);
+      container.appendChild(this.markerLayer);
 
       // Render first page
       await this.renderPage(this.currentPage);
@@ -142,6 +162,8 @@ export class PDFRenderer {
       
       await page.render(renderContext).promise;
       this.currentPage = pageNumber;
+      this.pageWidth = page.getViewport({ scale: 1 }).width;
+      this.renderOverlay();
     } catch (error) {
       console.error('Failed to render page:', error);
       throw error;
@@ -243,6 +265,154 @@ export class PDFRenderer {
     return this.currentPage;
   }
 
+  /**
+   * Convert a point on screen to coordinates on the current page, in PDF units
+   * @param clientX - Horizontal position in the viewport
+   * @param clientY - Vertical position in the viewport
+   * @param clamp - Move points outside the page onto its edge instead of rejecting them
+   * @returns Page coordinates, or null when the point is not on the page
+   */
+  getPageCoordinates(clientX: number, clientY: number, clamp: boolean = false): { pageNumber: number; x: number; y: number } | null {
+    if (!this.canvas || !this.pageWidth) {
+      return null;
+    }
+
+    const rect = this.canvas.getBoundingClientRect();
+    const outside = clientX < rect.left || clientX > rect.right || clientY < rect.top || clientY > rect.bottom;
+    if (outside && !clamp) {
+      return null;
+    }
+
+    const scale = rect.width / this.pageWidth;
+    return {
+      pageNumber: this.currentPage,
+      x: (Math.min(Math.max(clientX, rect.left), rect.right) - rect.left) / scale,
+      y: (Math.min(Math.max(clientY, rect.top), rect.bottom) - rect.top) / scale
+    };
+  }
+
+  /**
+   * Crop an area of the current page out of the rendered canvas
+   * @param region - Area in PDF units
+   * @returns PNG data URL, or null when nothing is rendered
+   */
+  captureRegion(region: { x: number; y: number; width: number; height: number }): string | null {
+    if (!this.canvas || !this.pageWidth) {
+      return null;
+    }
+
+    const scale = this.canvas.width / this.pageWidth;
+    const clip = document.createElement('canvas');
+    clip.width = Math.max(1, Math.round(region.width * scale));
+    clip.height = Math.max(1, Math.round(region.height * scale));
+
+    const context = clip.getContext('2d');
+    if (!context) {
+      return null;
+    }
+
+    context.drawImage(
+      this.canvas,
+      region.x * scale, region.y * scale, region.width * scale, region.height * scale,
+      0, 0, clip.width, clip.height
+    );
+    return clip.toDataURL('image/png');
+  }
+
+  /**
+   * Show page notes as markers on the page they belong to
+   * @param pageNotes - Page notes for this document
+   * @param onClick - Called with the page note when its marker is clicked
+   */
+  setPageNotes(pageNotes: Highlight[], onClick: (pageNote: Highlight) => void): void {
+    this.pageNotes = pageNotes;
+    this.onPageNoteClick = onClick;
+    this.renderOverlay();
+  }
+
+  /**
+   * Outline region highlights on the page they belong to
+   * @param regions - Region highlights for this document
+   * @param palette - Palette the outline colors are looked up in
+   */
+  setRegionHighlights(regions: Highlight[], palette: HighlightColorDefinition[]): void {
+    this.regionHighlights = regions;
+    this.palette = palette;
+    this.renderOverlay();
+  }
+
+  /**
+   * Show the area being dragged out with the region tool
+   * @param region - Area in PDF units, or null to hide it
+   */
+  setSelectionRegion(region: { x: number; y: number; width: number; height: number } | null): void {
+    this.selectionRegion = region;
+    this.renderOverlay();
+  }
+
+  /**
+   * Redraw the overlay for the current page: region outlines, the region being selected and page note markers
+   */
+  private renderOverlay(): void {
+    const { markerLayer, canvas } = this;
+    if (!markerLayer || !canvas || !this.pageWidth) return;
+
+    markerLayer.innerHTML = '';
+    const scale = canvas.clientWidth / this.pageWidth;
+    const onPage = (highlight: Highlight) => {
+      const coords = highlight.position.primary?.type === 'coordinates' ? highlight.position.primary.value : null;
+      return coords && typeof coords === 'object' && coords.pageNumber === this.currentPage ? coords : null;
+    };
+    const placeBox = (box: HTMLElement, region: { x: number; y: number; width: number; height: number }) => {
+      box.style.position = 'absolute';
+      box.style.left = `${canvas.offsetLeft + region.x * scale}px`;
+      box.style.top = `${canvas.offsetTop + region.y * scale}px`;
+      box.style.width = `${region.width * scale}px`;
+      box.style.height = `${region.height * scale}px`;
+    };
+
+    this.regionHighlights.forEach(region => {
+      const coords = onPage(region);
+      if (!coords) return;
+
+      const hex = getHighlightColor(this.palette, region.color).hex;
+      const outline = document.createElement('div');
+      placeBox(outline, coords);
+      outline.style.border = `2px solid ${hex}`;
+      outline.style.backgroundColor = withAlpha(hex, 0.15);
+      outline.title = getNoteText(region, ' / ') || 'Clipped region';
+      markerLayer.appendChild(outline);
+    });
+
+    if (this.selectionRegion) {
+      const selection = document.createElement('div');
+      placeBox(selection, this.selectionRegion);
+      selection.style.border = '2px dashed #2563EB';
+      selection.style.backgroundColor = 'rgba(37, 99, 235, 0.1)';
+      markerLayer.appendChild(selection);
+    }
+
+    this.pageNotes.forEach(pageNote => {
+      const coords = onPage(pageNote);
+      if (!coords) return;
+
+      const marker = document.createElement('button');
+      marker.textContent = '📝';
+      marker.title = getNoteText(pageNote, ' / ') || 'Page note';
+      marker.style.position = 'absolute';
+      marker.style.left = `${canvas.offsetLeft + coords.x * scale}px`;
+      marker.style.top = `${canvas.offsetTop + coords.y * scale}px`;
+      marker.style.transform = 'translate(-50%, -50%)';
+      marker.style.pointerEvents = 'auto';
+      marker.style.cursor = 'pointer';
+      marker.addEventListener('click', event => {
+        event.stopPropagation();
+        this.onPageNoteClick?.(pageNote);
+      });
+      markerLayer.appendChild(marker);
+    });
+  }
+
   /**
    * Get current page
    */
@@ -368,6 +538,11 @@ export class PDFRenderer {
     }
     this.canvas = null;
     this.context = null;
+    this.markerLayer = null;
+    this.pageNotes = [];
+    this.onPageNoteClick = null;
+    this.regionHighlights = [];
+    this.selectionRegion = null;
     this.container = null;
     this.pdfDocument = null;
   }
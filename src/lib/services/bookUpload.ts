@@ -2,6 +2,7 @@
 // Handles book upload, processing, and storage
 
 import { Book } from '@/types';
+import { TAG_SEPARATOR, getTagName, matchesTagFilter, validateTagRename } from '@/lib/readers/shared';
 import { IndexedDBService, StoredBook } from '@/lib/storage/indexedDB';
 import { GoogleDriveService } from '@/lib/services/googleDriveService';
 import { CoverManager } from './coverManager';
@@ -501,6 +502,38 @@ export class BookUploadService {
     return await this.indexedDB.deleteTag(id);
   }
 
+  /**
+   * Rename a tag; tags below it and every book and highlight using them follow
+   * @param from - Current tag path
+   * @param to - New tag path
+   * @returns The normalized new path
+   */
+  async renameTag(from: string, to: string): Promise<string> {
+    const target = validateTagRename(from, to);
+    if (target !== from) {
+      await this.indexedDB.renameTagPath(from, target);
+    }
+    return target;
+  }
+
+  /**
+   * Move a tag, with everything below it, under another tag
+   * @param path - Tag to move
+   * @param parentPath - New parent tag, or '' for the top level
+   * @returns The tag's new path
+   */
+  async moveTag(path: string, parentPath: string): Promise<string> {
+    const name = getTagName(path);
+    return this.renameTag(path, parentPath ? `${parentPath}${TAG_SEPARATOR}${name}` : name);
+  }
+
+  /**
+   * Count how many highlights carry each tag or a tag below it
+   */
+  async getHighlightTagCounts(): Promise<Record<string, number>> {
+    return await this.indexedDB.getHighlightTagCounts();
+  }
+
   // ===== BOOK METADATA EDITING =====
 
   /**
@@ -623,7 +656,7 @@ export class BookUploadService {
 
       if (filters.tags && filters.tags.length > 0) {
         books = books.filter(book => 
-          book.tags?.some(tag => filters.tags!.includes(tag))
+          matchesTagFilter(book.tags, filters.tags!)
         );
       }
 
@@ -738,13 +771,32 @@ export class BookUploadService {
   }
 
   /**
-   * Get all books (Drive only - no local storage)
+   * Get metadata-only books created by highlight imports
+   */
+  async getPlaceholderBooks(): Promise<Book[]> {
+    const storedBooks = await this.indexedDB.getAllBooks();
+    return storedBooks.filter(book => book.isPlaceholder);
+  }
+
+  /**
+   * IDs of books in the recycle bin, or purged from it, which the library no longer shows
+   */
+  private async getTrashedBookIds(): Promise<Set<string>> {
+    const entries = await this.indexedDB.getAllTrashedBooks();
+    return new Set(entries.filter(entry => entry.state !== 'restored').map(entry => entry.id));
+  }
+
+  /**
+   * Get all books (Drive books plus placeholder books from imports - no other local storage)
    */
   async getAllBooksWithDrive(driveService?: GoogleDriveService): Promise<Book[]> {
     try {
+      const hiddenBookIds = await this.getTrashedBookIds();
+      const placeholderBooks = (await this.getPlaceholderBooks()).filter(book => !hiddenBookIds.has(book.id));
+
       if (!driveService) {
         console.warn('BookUploadService: No Google Drive service available');
-        return [];
+        return placeholderBooks;
       }
 
       console.log('BookUploadService: Getting books from Google Drive...');
@@ -753,12 +805,14 @@ export class BookUploadService {
       const driveFiles = await driveService.listBooks();
       console.log('BookUploadService: Drive files returned:', driveFiles.length);
       
-      const remoteBooks = driveFiles.map(file => GoogleDriveService.driveFileToBook(file));
+      const remoteBooks = driveFiles
+        .map(file => GoogleDriveService.driveFileToBook(file))
+        .filter(book => !hiddenBookIds.has(book.id));
 
       console.log('BookUploadService: Converted to books:', remoteBooks.length);
       console.log('BookUploadService: Book details:', remoteBooks.map(b => ({ id: b.id, title: b.title, isFromDrive: b.isFromDrive })));
       
-      return remoteBooks;
+      return [...remoteBooks, ...placeholderBooks];
     } catch (error) {
       console.error('BookUploadService: Failed to get books from Drive:', error);
       return [];
@@ -0,0 +1,244 @@
+// Cloze Card Service
+// Turns highlights into fill-in-the-blank cards, from words the user marked or else from key terms
+
+import { ReviewScheduler } from '@/types';
+import {
+  ClozeCard,
+  Highlight,
+  HighlightManager,
+  compareForReview,
+  getNoteText,
+  getTagName,
+  isPageNote,
+  isRegionHighlight
+} from '@/lib/readers/shared';
+import { buildClozeSegments, extractMarkedTerms } from '@/lib/export';
+import { ReviewItem, getReviewHistory } from './reviewService';
+
+const MAX_AUTO_CARDS = 3;
+
+const UPPERCASE = 'A-ZÀ-ÖØ-Þ';
+const WORD_CHARS = `A-Za-zÀ-ÖØ-öø-ÿ0-9'’-`;
+const CAPITALIZED_PHRASE = new RegExp(`[${UPPERCASE}][${WORD_CHARS}]*(?:\\s+[${UPPERCASE}][${WORD_CHARS}]*)*`, 'g');
+const NUMBER = /\d+(?:[.,:]\d+)*%?/g;
+const SENTENCE_START = /(?:^|[.!?…]["”’)]?\s+)["“‘'(]?$/;
+
+// Capitalized only because they open a sentence
+const SENTENCE_OPENERS = new Set([
+  'a', 'an', 'the', 'this', 'that', 'these', 'those', 'in', 'on', 'at', 'by', 'for', 'from', 'of', 'to',
+  'and', 'but', 'or', 'so', 'if', 'when', 'while', 'after', 'before', 'as', 'it', 'we', 'he', 'she', 'they'
+]);
+
+/**
+ * Terms worth blanking in a highlight, best first: words matching its tags, then capitalized
+ * phrases, then numbers; each group in text order
+ */
+export function findKeyTerms(highlight: Pick<Highlight, 'text' | 'tags'>): string[] {
+  const text = highlight.text;
+  const terms: string[] = [];
+  const add = (term: string) => {
+    const trimmed = term.trim();
+    if (trimmed && !terms.some(existing => existing.toLowerCase() === trimmed.toLowerCase())) {
+      terms.push(trimmed);
+    }
+  };
+
+  highlight.tags
+    .map(tag => getTagName(tag).replace(/[-_]+/g, ' ').trim())
+    .filter(Boolean)
+    .map(name => text.match(new RegExp(`\\b${escapeRegExp(name)}\\b`, 'i')))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+    .forEach(match => add(match[0]));
+
+  for (const match of text.matchAll(CAPITALIZED_PHRASE)) {
+    let words = match[0].split(/\s+/);
+    if (SENTENCE_START.test(text.slice(0, match.index))) {
+      if (words.length === 1) continue;
+      if (SENTENCE_OPENERS.has(words[0].toLowerCase())) {
+        words = words.slice(1);
+      }
+    }
+
+    const phrase = words.join(' ').replace(/['’-]+$/, '');
+    if (phrase.length > 1) {
+      add(phrase);
+    }
+  }
+
+  for (const match of text.matchAll(NUMBER)) {
+    add(match[0]);
+  }
+
+  return terms;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export class ClozeCardService {
+  private highlightManager: HighlightManager;
+
+  constructor(highlightManager: HighlightManager) {
+    this.highlightManager = highlightManager;
+  }
+
+  /**
+   * A highlight's cloze cards: one per term the user marked (in review or with ==marks== in the
+   * note), or when nothing is marked, up to three key terms. Cards already stored keep their history.
+   * Highlights already on a review schedule of their own get no key-term cards, so upgrading does
+   * not turn them into new cards due today
+   * @returns No cards for page notes, clipped regions and highlights without a usable term
+   */
+  getCards(highlight: Highlight): ClozeCard[] {
+    if (isPageNote(highlight) || isRegionHighlight(highlight)) {
+      return [];
+    }
+
+    const stored = highlight.clozeCards || [];
+    const marked = [
+      ...stored.filter(card => card.source === 'marked').map(card => card.term),
+      ...extractMarkedTerms(getNoteText(highlight))
+    ];
+
+    let terms: string[];
+    if (marked.length > 0) {
+      terms = marked;
+    } else if (highlight.reviewHistory.length > 0 && !stored.some(card => card.source === 'auto')) {
+      terms = [];
+    } else {
+      // Auto cards that have been reviewed stay ahead of newly found terms
+      const keyTerms = findKeyTerms(highlight);
+      const reviewed = stored
+        .filter(card => card.source === 'auto')
+        .map(card => card.term)
+        .filter(term => keyTerms.some(keyTerm => keyTerm.toLowerCase() === term.toLowerCase()));
+      terms = [...reviewed, ...keyTerms];
+    }
+
+    const cards: ClozeCard[] = [];
+    terms.forEach(term => {
+      const id = this.getCardId(highlight.id, term);
+      if (cards.some(card => card.id === id) || !buildClozeSegments(highlight.text, [term])) {
+        return;
+      }
+      cards.push(stored.find(card => card.id === id) || {
+        id,
+        term,
+        source: marked.length > 0 ? 'marked' : 'auto',
+        createdAt: new Date(),
+        reviewHistory: []
+      });
+    });
+
+    return marked.length > 0 ? cards : cards.slice(0, MAX_AUTO_CARDS);
+  }
+
+  /**
+   * Everything due for review: each due cloze card, or the highlight itself when it has no cards.
+   * Sorted like HighlightManager.getHighlightsForReview, by importance and then how overdue
+   */
+  getDueItems(now: Date = new Date()): ReviewItem[] {
+    return this.highlightManager.getAllHighlights()
+      .flatMap(highlight => this.getItems(highlight))
+      .filter(item => this.getDueTime(item) <= now.getTime())
+      .map(item => ({ item, importance: item.highlight.importance, reviewHistory: getReviewHistory(item) }))
+      .sort(compareForReview)
+      .map(({ item }) => item);
+  }
+
+  /**
+   * For each highlight with anything to review, the time its first item falls due, by the same rule
+   * as getDueItems. Lets the review reminder count due highlights later without building the cards
+   */
+  getNextDueTimes(): number[] {
+    return this.highlightManager.getAllHighlights()
+      .map(highlight => this.getItems(highlight))
+      .filter(items => items.length > 0)
+      .map(items => Math.min(...items.map(item => this.getDueTime(item))));
+  }
+
+  /**
+   * Grade an item, scheduling the cloze card or the highlight it stands for
+   * @param duration - Seconds spent on the card, when timed
+   */
+  async review(item: ReviewItem, grade: number, scheduler: ReviewScheduler, duration?: number): Promise<void> {
+    if (item.card) {
+      await this.highlightManager.addClozeReviewRecord(item.highlight.id, item.card, grade, scheduler, duration);
+    } else {
+      await this.highlightManager.addReviewRecord(item.highlight.id, grade, scheduler, duration);
+    }
+  }
+
+  /**
+   * Blank a term of the highlight text on its own card. Once anything is marked, the highlight's
+   * cards are the marked terms only
+   * @param term - Words from the highlight text
+   */
+  async markTerm(highlightId: string, term: string): Promise<Highlight> {
+    const highlight = this.getHighlight(highlightId);
+    const trimmed = term.trim();
+    const segment = buildClozeSegments(highlight.text, [trimmed])?.find(part => part.clozeIndex);
+    if (!segment) {
+      throw new Error(`"${trimmed}" is not in the highlight text`);
+    }
+
+    const id = this.getCardId(highlight.id, segment.text);
+    const stored = highlight.clozeCards || [];
+    const existing = stored.find(card => card.id === id);
+    const marked: ClozeCard = existing
+      ? { ...existing, source: 'marked' }
+      : { id, term: segment.text, source: 'marked', createdAt: new Date(), reviewHistory: [] };
+
+    return this.highlightManager.updateHighlight(highlight.id, {
+      clozeCards: [...stored.filter(card => card.id !== id), marked]
+    });
+  }
+
+  /**
+   * Remove a term marked in review; terms marked in the note are removed by editing the note
+   */
+  async unmarkTerm(highlightId: string, cardId: string): Promise<Highlight> {
+    const highlight = this.getHighlight(highlightId);
+    return this.highlightManager.updateHighlight(highlight.id, {
+      clozeCards: (highlight.clozeCards || []).filter(card => card.id !== cardId)
+    });
+  }
+
+  /**
+   * Each cloze card of a highlight, or the highlight itself when it has none
+   */
+  private getItems(highlight: Highlight): ReviewItem[] {
+    if (isPageNote(highlight)) {
+      return [];
+    }
+
+    const cards = this.getCards(highlight);
+    return cards.length > 0 ? cards.map(card => ({ highlight, card })) : [{ highlight }];
+  }
+
+  /**
+   * Never reviewed items are due from the start
+   */
+  private getDueTime(item: ReviewItem): number {
+    const history = getReviewHistory(item);
+    const lastReview = history[history.length - 1];
+    return lastReview ? new Date(lastReview.nextReview).getTime() : 0;
+  }
+
+  private getHighlight(highlightId: string): Highlight {
+    const highlight = this.highlightManager.getHighlight(highlightId);
+    if (!highlight) {
+      throw new Error(`Highlight with id ${highlightId} not found`);
+    }
+    return highlight;
+  }
+
+  /**
+   * The same term gets the same card on every device
+   */
+  private getCardId(highlightId: string, term: string): string {
+    return `${highlightId}-cloze-${term.trim().toLowerCase()}`;
+  }
+}
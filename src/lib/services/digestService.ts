@@ -0,0 +1,111 @@
+// Digest Service
+// Builds each day's digest of resurfaced highlights once and keeps it, so it stays the same all day
+
+import { Book, HighlightDigest } from '@/types';
+import { Highlight, buildDailyDigest } from '@/lib/readers/shared';
+import { IndexedDBService } from '@/lib/storage/indexedDB';
+import { PreferencesService } from './preferencesService';
+import { getReviewDayKey } from './reviewService';
+
+export interface DigestEntry {
+  highlight: Highlight;
+  book: Book | null;
+  yearsAgo?: number; // Set for "on this day" highlights
+}
+
+export class DigestService {
+  private indexedDB: IndexedDBService;
+  private preferences: PreferencesService;
+
+  constructor(indexedDB: IndexedDBService) {
+    this.indexedDB = indexedDB;
+    this.preferences = new PreferencesService(indexedDB);
+  }
+
+  async getDigestSize(): Promise<number> {
+    return (await this.preferences.getPreferences()).dailyDigestSize;
+  }
+
+  /**
+   * @param size - Highlights per day, at least 1
+   */
+  async setDigestSize(size: number): Promise<void> {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error('Digest size must be a whole number of at least 1');
+    }
+    await this.preferences.updatePreferences({ dailyDigestSize: size });
+  }
+
+  /**
+   * The day's digest, built the first time it is asked for (or after the size changes) and stored.
+   * Highlights deleted since are left out rather than replaced
+   */
+  async getDigest(date: Date = new Date()): Promise<DigestEntry[]> {
+    const day = getReviewDayKey(date);
+    const [highlights, books, digests, size] = await Promise.all([
+      this.indexedDB.getAllHighlights(),
+      this.indexedDB.getAllBooks(),
+      this.indexedDB.getAllDigests(),
+      this.getDigestSize()
+    ]);
+    const highlightsById = new Map(highlights.map(highlight => [highlight.id, highlight]));
+    const booksById = new Map<string, Book>(books.map(book => [book.id, book]));
+
+    let digest = digests.find(existing => existing.date === day);
+    if (!digest || digest.size !== size) {
+      const startOfDay = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+      const picks = buildDailyDigest(highlights, {
+        count: size,
+        date: startOfDay,
+        favoriteBookIds: new Set(books.filter(book => book.isFavorite).map(book => book.id)),
+        lastSeen: this.getLastSeen(highlights, digests.filter(existing => existing.date < day), startOfDay)
+      });
+
+      digest = {
+        date: day,
+        highlightIds: picks.map(pick => pick.highlight.id),
+        onThisDayIds: picks.filter(pick => pick.yearsAgo).map(pick => pick.highlight.id),
+        size,
+        createdAt: new Date()
+      };
+      await this.indexedDB.storeDigest(digest);
+    }
+
+    const onThisDay = new Set(digest.onThisDayIds);
+    return digest.highlightIds
+      .map(id => highlightsById.get(id))
+      .filter((highlight): highlight is Highlight => highlight !== undefined)
+      .map(highlight => ({
+        highlight,
+        book: booksById.get(highlight.bookId) || null,
+        yearsAgo: onThisDay.has(highlight.id)
+          ? date.getFullYear() - new Date(highlight.createdAt).getFullYear()
+          : undefined
+      }));
+  }
+
+  /**
+   * When each highlight was last shown in a digest or reviewed, before the given moment
+   */
+  private getLastSeen(highlights: Highlight[], digests: HighlightDigest[], before: Date): Map<string, Date> {
+    const lastSeen = new Map<string, Date>();
+    const see = (id: string, date: Date) => {
+      const previous = lastSeen.get(id);
+      if (!previous || previous < date) {
+        lastSeen.set(id, date);
+      }
+    };
+
+    digests.forEach(digest => {
+      const [year, month, day] = digest.date.split('-').map(Number);
+      digest.highlightIds.forEach(id => see(id, new Date(year, month - 1, day)));
+    });
+    highlights.forEach(highlight => {
+      highlight.reviewHistory
+        .map(record => new Date(record.date))
+        .filter(reviewed => reviewed < before)
+        .forEach(reviewed => see(highlight.id, reviewed));
+    });
+    return lastSeen;
+  }
+}
@@ -0,0 +1,105 @@
+// Highlight Dedup Service
+// Finds highlights that mark the same passage twice (e.g. after imports and re-syncs) and merges them
+
+import { Highlight, ConflictResolver } from '@/lib/readers/shared';
+import { IndexedDBService } from '@/lib/storage/indexedDB';
+import { GoogleDriveService } from './googleDriveService';
+import { HighlightLinkService } from './highlightLinkService';
+import { HighlightSyncService } from './highlightSyncService';
+import { PreferencesService } from './preferencesService';
+
+// Highlights in one book that look like the same passage
+export interface DuplicateCluster {
+  id: string; // Stable for the same set of highlights
+  bookId: string;
+  highlights: Highlight[]; // Oldest first
+}
+
+export class HighlightDedupService {
+  private indexedDB: IndexedDBService;
+  private driveService: GoogleDriveService | null;
+  private preferences: PreferencesService;
+  private resolver = new ConflictResolver();
+
+  constructor(indexedDB: IndexedDBService, driveService?: GoogleDriveService | null) {
+    this.indexedDB = indexedDB;
+    // When provided, merges are synced to Drive straight away
+    this.driveService = driveService || null;
+    this.preferences = new PreferencesService(indexedDB);
+  }
+
+  /**
+   * Scan the library for duplicate highlights, skipping pairs the user chose to keep separate
+   * @param bookId - Optional book ID to limit the scan
+   */
+  async findDuplicates(bookId?: string): Promise<DuplicateCluster[]> {
+    const [highlights, preferences] = await Promise.all([
+      bookId ? this.indexedDB.getHighlightsForBook(bookId) : this.indexedDB.getAllHighlights(),
+      this.preferences.getPreferences()
+    ]);
+
+    return this.resolver
+      .findDuplicateClusters(highlights, new Set(preferences.keptSeparateHighlights || []))
+      .map(cluster => ({
+        id: cluster.map(highlight => highlight.id).sort().join('|'),
+        bookId: cluster[0].bookId,
+        highlights: cluster
+      }));
+  }
+
+  /**
+   * Merge a cluster into one highlight. The others stay behind as tombstones pointing at it,
+   * so the merge carries over to other devices instead of being undone by their copies
+   * @param cluster - Cluster to merge
+   * @param keepId - Highlight whose text and position are kept (defaults to the oldest)
+   * @returns The merged highlight
+   */
+  async mergeCluster(cluster: DuplicateCluster, keepId?: string): Promise<Highlight> {
+    const merged = this.resolver.mergeDuplicates(cluster.highlights, keepId);
+    const links = new HighlightLinkService(this.indexedDB);
+
+    await this.indexedDB.storeHighlight(merged);
+    for (const highlight of cluster.highlights) {
+      if (highlight.id === merged.id) continue;
+
+      await this.indexedDB.storeHighlight({
+        ...highlight,
+        mergedInto: merged.id,
+        updatedAt: merged.lastModified,
+        lastModified: merged.lastModified
+      });
+      await links.moveLinks(highlight.id, merged);
+    }
+
+    await this.sync(cluster.bookId);
+    return merged;
+  }
+
+  /**
+   * Remember that a cluster's highlights are distinct, so later scans leave them alone
+   * @param cluster - Cluster to keep as it is
+   */
+  async keepSeparate(cluster: DuplicateCluster): Promise<void> {
+    const preferences = await this.preferences.getPreferences();
+    const pairs = new Set(preferences.keptSeparateHighlights || []);
+
+    cluster.highlights.forEach((a, index) => {
+      cluster.highlights.slice(index + 1).forEach(b => pairs.add(ConflictResolver.getPairKey(a.id, b.id)));
+    });
+
+    await this.preferences.updatePreferences({ keptSeparateHighlights: Array.from(pairs) });
+  }
+
+  private async sync(bookId: string): Promise<void> {
+    if (!this.driveService) return;
+
+    try {
+      const syncService = new HighlightSyncService(this.indexedDB, this.driveService);
+      await syncService.initialize();
+      await syncService.syncToDrive(bookId);
+    } catch (error) {
+      // The merge is stored locally and goes up with the book's next sync
+      console.error('HighlightDedupService: Failed to sync merged highlights:', error);
+    }
+  }
+}
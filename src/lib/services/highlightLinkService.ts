@@ -0,0 +1,199 @@
+// Highlight Link Service
+// Links highlights to each other across books; each link shows up on its target as a backlink
+
+import { HighlightLink } from '@/types';
+import { Highlight } from '@/lib/readers/shared';
+import { IndexedDBService } from '@/lib/storage/indexedDB';
+
+export const HIGHLIGHT_LINK_RELATIONS = ['answers', 'contradicts', 'supports', 'expands on', 'related to'];
+
+// A link as seen from one of its highlights
+export interface ResolvedHighlightLink {
+  link: HighlightLink;
+  highlightId: string; // The highlight in the book being viewed
+  direction: 'outgoing' | 'incoming'; // Incoming links are backlinks
+  other: Highlight;
+  otherBookTitle: string;
+}
+
+export class HighlightLinkService {
+  private indexedDB: IndexedDBService;
+
+  constructor(indexedDB: IndexedDBService) {
+    this.indexedDB = indexedDB;
+  }
+
+  /**
+   * Link one highlight to another
+   * @param source - Highlight the link starts from
+   * @param target - Highlight the link points to
+   * @param relation - How the source relates to the target, e.g. "answers"
+   * @returns The new link
+   */
+  async createLink(source: Highlight, target: Highlight, relation: string): Promise<HighlightLink> {
+    const label = relation.trim();
+    if (!label) {
+      throw new Error('A link needs a relation');
+    }
+    if (source.id === target.id) {
+      throw new Error('A highlight cannot be linked to itself');
+    }
+
+    const existing = await this.indexedDB.getHighlightLinksFor(source.id);
+    if (existing.some(link =>
+      !link.deletedAt &&
+      link.sourceHighlightId === source.id &&
+      link.targetHighlightId === target.id &&
+      link.relation === label
+    )) {
+      throw new Error('These highlights are already linked this way');
+    }
+
+    const now = new Date();
+    const link: HighlightLink = {
+      id: `link-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      sourceHighlightId: source.id,
+      sourceBookId: source.bookId,
+      targetHighlightId: target.id,
+      targetBookId: target.bookId,
+      relation: label,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.indexedDB.storeHighlightLinks([link]);
+    return link;
+  }
+
+  /**
+   * Remove a link, leaving a tombstone for sync
+   * @param linkId - Link ID
+   */
+  async deleteLink(linkId: string): Promise<void> {
+    const link = (await this.indexedDB.getAllHighlightLinks()).find(candidate => candidate.id === linkId);
+    if (!link) {
+      throw new Error(`Highlight link with id ${linkId} not found`);
+    }
+
+    await this.indexedDB.storeHighlightLinks([this.tombstone(link)]);
+  }
+
+  /**
+   * Remove every link from or to a highlight, e.g. once the highlight is purged from the trash
+   * @param highlightId - Highlight ID
+   * @returns Number of links removed
+   */
+  async removeLinksForHighlight(highlightId: string): Promise<number> {
+    const links = (await this.indexedDB.getHighlightLinksFor(highlightId)).filter(link => !link.deletedAt);
+    if (links.length > 0) {
+      await this.indexedDB.storeHighlightLinks(links.map(link => this.tombstone(link)));
+    }
+    return links.length;
+  }
+
+  /**
+   * Point every link from or to a highlight at another one, e.g. after merging duplicates.
+   * Links that would end up joining a highlight to itself are removed
+   * @param fromId - Highlight the links currently use
+   * @param to - Highlight they should use instead
+   * @returns Number of links changed
+   */
+  async moveLinks(fromId: string, to: Highlight): Promise<number> {
+    const links = (await this.indexedDB.getHighlightLinksFor(fromId)).filter(link => !link.deletedAt);
+    const now = new Date();
+
+    const moved = links.map(link => {
+      const updated: HighlightLink = { ...link, updatedAt: now };
+      if (link.sourceHighlightId === fromId) {
+        updated.sourceHighlightId = to.id;
+        updated.sourceBookId = to.bookId;
+      }
+      if (link.targetHighlightId === fromId) {
+        updated.targetHighlightId = to.id;
+        updated.targetBookId = to.bookId;
+      }
+      return updated.sourceHighlightId === updated.targetHighlightId ? this.tombstone(link) : updated;
+    });
+
+    if (moved.length > 0) {
+      await this.indexedDB.storeHighlightLinks(moved);
+    }
+    return moved.length;
+  }
+
+  /**
+   * Links and backlinks for every highlight in a book, with the highlight at the other end.
+   * Links whose other highlight is not stored on this device are left out
+   * @param bookId - Book being viewed
+   */
+  async getLinksForBook(bookId: string): Promise<ResolvedHighlightLink[]> {
+    const links = (await this.indexedDB.getAllHighlightLinks()).filter(link =>
+      !link.deletedAt && (link.sourceBookId === bookId || link.targetBookId === bookId)
+    );
+    if (links.length === 0) {
+      return [];
+    }
+
+    const [highlights, books] = await Promise.all([
+      this.indexedDB.getAllHighlights(),
+      this.indexedDB.getAllBooks()
+    ]);
+    const highlightsById = new Map(highlights.map(highlight => [highlight.id, highlight]));
+    const titlesById = new Map(books.map(book => [book.id, book.title]));
+    const resolved: ResolvedHighlightLink[] = [];
+
+    const addSide = (link: HighlightLink, highlightId: string, otherId: string, direction: ResolvedHighlightLink['direction']) => {
+      const other = highlightsById.get(otherId);
+      if (!other || !highlightsById.has(highlightId)) {
+        return;
+      }
+      resolved.push({
+        link,
+        highlightId,
+        direction,
+        other,
+        otherBookTitle: titlesById.get(other.bookId) || 'Unknown book'
+      });
+    };
+
+    links.forEach(link => {
+      if (link.sourceBookId === bookId) {
+        addSide(link, link.sourceHighlightId, link.targetHighlightId, 'outgoing');
+      }
+      if (link.targetBookId === bookId) {
+        addSide(link, link.targetHighlightId, link.sourceHighlightId, 'incoming');
+      }
+    });
+
+    return resolved;
+  }
+
+  /**
+   * Merge links from another device into local storage; the most recently updated copy
+   * of each link wins, so removals carry over as tombstones
+   * @param remoteLinks - Links from sync
+   * @returns All links after the merge, ready to upload
+   */
+  async applySyncedLinks(remoteLinks: HighlightLink[]): Promise<HighlightLink[]> {
+    const merged = new Map((await this.indexedDB.getAllHighlightLinks()).map(link => [link.id, link]));
+    const changed: HighlightLink[] = [];
+
+    remoteLinks.forEach(remote => {
+      const local = merged.get(remote.id);
+      if (!local || new Date(remote.updatedAt).getTime() > new Date(local.updatedAt).getTime()) {
+        merged.set(remote.id, remote);
+        changed.push(remote);
+      }
+    });
+
+    if (changed.length > 0) {
+      await this.indexedDB.storeHighlightLinks(changed);
+    }
+    return Array.from(merged.values());
+  }
+
+  private tombstone(link: HighlightLink): HighlightLink {
+    const now = new Date();
+    return { ...link, updatedAt: now, deletedAt: now };
+  }
+}
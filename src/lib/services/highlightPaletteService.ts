@@ -0,0 +1,157 @@
+// Highlight Palette Service
+// Stores the user's highlight colors in preferences and keeps highlights pointing at colors that exist
+
+import { HighlightColorDefinition, HighlightPalette } from '@/types';
+import {
+  Highlight,
+  HighlightManager,
+  DEFAULT_HIGHLIGHT_COLORS,
+  findHighlightColor
+} from '@/lib/readers/shared';
+import { IndexedDBService } from '@/lib/storage/indexedDB';
+import { PreferencesService } from './preferencesService';
+
+export class HighlightPaletteService {
+  private indexedDB: IndexedDBService;
+  private preferences: PreferencesService;
+  private highlightManager: HighlightManager | null;
+
+  constructor(indexedDB: IndexedDBService, highlightManager?: HighlightManager) {
+    this.indexedDB = indexedDB;
+    this.preferences = new PreferencesService(indexedDB);
+    // When provided, recolored highlights the manager has loaded are written through it
+    this.highlightManager = highlightManager || null;
+  }
+
+  /**
+   * Get the user's palette, or the default one if it has never been customized
+   */
+  async getPalette(): Promise<HighlightPalette> {
+    const preferences = await this.preferences.getPreferences();
+    return preferences.highlightPalette || {
+      colors: DEFAULT_HIGHLIGHT_COLORS,
+      updatedAt: new Date(0) // Any synced palette is newer
+    };
+  }
+
+  /**
+   * Get the color new highlights are created with
+   */
+  async getDefaultColorId(): Promise<string> {
+    const [preferences, palette] = await Promise.all([this.preferences.getPreferences(), this.getPalette()]);
+    return palette.colors.some(color => color.id === preferences.defaultHighlightColor)
+      ? preferences.defaultHighlightColor
+      : palette.colors[0].id;
+  }
+
+  /**
+   * Save an edited palette; highlights using a removed color move to the default color
+   * @param colors - New palette colors
+   * @param defaultColorId - Color for new highlights (defaults to the current one, or the first color)
+   * @returns The saved palette
+   */
+  async savePalette(colors: HighlightColorDefinition[], defaultColorId?: string): Promise<HighlightPalette> {
+    this.validate(colors);
+
+    const palette: HighlightPalette = { colors, updatedAt: new Date() };
+    await this.store(palette, defaultColorId);
+    return palette;
+  }
+
+  /**
+   * Adopt a palette from another device if it is newer than the local one
+   * @param palette - Palette from sync
+   * @returns Whether the local palette changed
+   */
+  async applySyncedPalette(palette: HighlightPalette): Promise<boolean> {
+    const local = await this.getPalette();
+    if (new Date(palette.updatedAt).getTime() <= new Date(local.updatedAt).getTime()) {
+      return false;
+    }
+
+    this.validate(palette.colors);
+    await this.store({ colors: palette.colors, updatedAt: new Date(palette.updatedAt) });
+    return true;
+  }
+
+  /**
+   * One-time migration from the fixed four colors: saves the default palette to preferences and
+   * maps any highlight whose color is not in it (e.g. a name or hex from an import) onto a palette color
+   * @returns Number of highlights that were recolored
+   */
+  async migrate(): Promise<number> {
+    const preferences = await this.preferences.getPreferences();
+    if (preferences.highlightPalette) {
+      return 0;
+    }
+
+    const palette = await this.getPalette();
+    await this.preferences.updatePreferences({ highlightPalette: palette });
+    return this.remapHighlights(palette.colors, await this.getDefaultColorId());
+  }
+
+  private async store(palette: HighlightPalette, defaultColorId?: string): Promise<void> {
+    const preferences = await this.preferences.getPreferences();
+    const requestedDefault = defaultColorId || preferences.defaultHighlightColor;
+    const defaultColor = palette.colors.some(color => color.id === requestedDefault)
+      ? requestedDefault
+      : palette.colors[0].id;
+
+    await this.preferences.updatePreferences({
+      highlightPalette: palette,
+      defaultHighlightColor: defaultColor
+    });
+
+    this.highlightManager?.setPalette(palette.colors);
+    await this.remapHighlights(palette.colors, defaultColor);
+  }
+
+  /**
+   * Point highlights with colors outside the palette at the closest palette color
+   */
+  private async remapHighlights(colors: HighlightColorDefinition[], defaultColorId: string): Promise<number> {
+    const highlights = await this.indexedDB.getAllHighlights();
+    let remapped = 0;
+
+    for (const highlight of highlights) {
+      if (colors.some(color => color.id === highlight.color)) {
+        continue;
+      }
+
+      const now = new Date();
+      const updated: Highlight = {
+        ...highlight,
+        color: findHighlightColor(colors, highlight.color)?.id || defaultColorId,
+        updatedAt: now,
+        lastModified: now
+      };
+
+      if (this.highlightManager?.getHighlight(highlight.id)) {
+        await this.highlightManager.saveHighlight(updated);
+      } else {
+        await this.indexedDB.storeHighlight(updated);
+      }
+      remapped++;
+    }
+
+    if (remapped > 0) {
+      console.log('HighlightPaletteService: Moved', remapped, 'highlights onto palette colors');
+    }
+    return remapped;
+  }
+
+  private validate(colors: HighlightColorDefinition[]): void {
+    if (colors.length === 0) {
+      throw new Error('A highlight palette needs at least one color');
+    }
+
+    const ids = new Set(colors.map(color => color.id));
+    if (ids.size !== colors.length) {
+      throw new Error('Highlight palette color IDs must be unique');
+    }
+
+    if (colors.some(color => !color.name.trim() || !/^#[0-9a-f]{3}([0-9a-f]{3})?$/i.test(color.hex))) {
+      throw new Error('Every highlight color needs a name and a hex value');
+    }
+  }
+}
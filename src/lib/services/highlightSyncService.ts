@@ -1,9 +1,20 @@
 // Highlight Sync Service
 // Handles synchronization of highlights between local storage and Google Drive
 
-import { Highlight } from '@/lib/readers/shared';
+import {
+  Highlight,
+  HighlightManager,
+  getNoteEntries,
+  mergeNoteThreads,
+  isPurgedHighlight,
+  isTrashExpired,
+  toPurgedHighlight
+} from '@/lib/readers/shared';
+import { HighlightLink, HighlightPalette, TrashedBook } from '@/types';
 import { IndexedDBService } from '@/lib/storage/indexedDB';
 import { GoogleDriveService } from './googleDriveService';
+import { HighlightLinkService } from './highlightLinkService';
+import { PreferencesService } from './preferencesService';
 
 export interface SyncStatus {
   isSyncing: boolean;
@@ -19,9 +30,14 @@ export interface SyncResult {
   errors: string[];
 }
 
+const PALETTE_FILE_NAME = 'highlight-palette.json';
+const LINKS_FILE_NAME = 'highlight-links.json'; // Links cross books, so they share one file
+const TRASH_FILE_NAME = 'trash.json'; // Books in the recycle bin
+
 export class HighlightSyncService {
   private indexedDB: IndexedDBService;
   private driveService: GoogleDriveService;
+  private highlightManager: HighlightManager | null;
   private highlightsFolderId: string | null = null;
   private syncStatus: SyncStatus = {
     isSyncing: false,
@@ -30,9 +46,11 @@ export class HighlightSyncService {
     pendingChanges: 0
   };
 
-  constructor(indexedDB: IndexedDBService, driveService: GoogleDriveService) {
+  constructor(indexedDB: IndexedDBService, driveService: GoogleDriveService, highlightManager?: HighlightManager) {
     this.indexedDB = indexedDB;
     this.driveService = driveService;
+    // When provided, merged highlights are written through the manager so its subscribers see them
+    this.highlightManager = highlightManager || null;
   }
 
   /**
@@ -72,7 +90,7 @@ export class HighlightSyncService {
       console.log('HighlightSyncService: Starting sync to Drive for book:', bookId);
 
       // Get local highlights
-      const localHighlights = await this.indexedDB.getHighlightsForBook(bookId);
+      const localHighlights = await this.indexedDB.getHighlightsForBook(bookId, true);
       console.log('HighlightSyncService: Found', localHighlights.length, 'local highlights');
 
       // Get remote highlights
@@ -116,7 +134,7 @@ export class HighlightSyncService {
       console.log('HighlightSyncService: Found', remoteHighlights.length, 'remote highlights');
 
       // Get local highlights
-      const localHighlights = await this.indexedDB.getHighlightsForBook(bookId);
+      const localHighlights = await this.indexedDB.getHighlightsForBook(bookId, true);
       console.log('HighlightSyncService: Found', localHighlights.length, 'local highlights');
 
       // Perform sync
@@ -137,6 +155,117 @@ export class HighlightSyncService {
     }
   }
 
+  /**
+   * Sync the highlight palette with Google Drive; the most recently edited palette wins
+   * @param localPalette - Palette stored on this device
+   * @returns The winning palette (uploaded if it was the local one)
+   */
+  async syncPalette(localPalette: HighlightPalette): Promise<HighlightPalette> {
+    if (!this.highlightsFolderId) {
+      throw new Error('Highlights folder not initialized');
+    }
+
+    const files = await this.driveService.listFiles(this.highlightsFolderId, 'application/json');
+    const paletteFile = files.find(file => file.name === PALETTE_FILE_NAME);
+
+    if (paletteFile) {
+      const paletteData = await this.driveService.downloadFile(paletteFile.id);
+      const remote = JSON.parse(new TextDecoder().decode(paletteData)) as HighlightPalette;
+      const remotePalette = { ...remote, updatedAt: new Date(remote.updatedAt) };
+
+      if (remotePalette.updatedAt.getTime() >= new Date(localPalette.updatedAt).getTime()) {
+        console.log('HighlightSyncService: Using palette from Drive');
+        return remotePalette;
+      }
+    }
+
+    await this.driveService.uploadFile(
+      PALETTE_FILE_NAME,
+      new TextEncoder().encode(JSON.stringify(localPalette, null, 2)),
+      'application/json',
+      this.highlightsFolderId
+    );
+    console.log('HighlightSyncService: Uploaded palette to Drive');
+    return localPalette;
+  }
+
+  /**
+   * Sync links between highlights; runs alongside every highlight sync
+   * @returns All links after merging, including tombstones
+   */
+  async syncLinks(): Promise<HighlightLink[]> {
+    if (!this.highlightsFolderId) {
+      throw new Error('Highlights folder not initialized');
+    }
+
+    const files = await this.driveService.listFiles(this.highlightsFolderId, 'application/json');
+    const linksFile = files.find(file => file.name === LINKS_FILE_NAME);
+    let remoteLinks: HighlightLink[] = [];
+
+    if (linksFile) {
+      const linksData = await this.driveService.downloadFile(linksFile.id);
+      remoteLinks = (JSON.parse(new TextDecoder().decode(linksData)) as HighlightLink[]).map(link => ({
+        ...link,
+        createdAt: new Date(link.createdAt),
+        updatedAt: new Date(link.updatedAt),
+        deletedAt: link.deletedAt ? new Date(link.deletedAt) : undefined
+      }));
+    }
+
+    const mergedLinks = await new HighlightLinkService(this.indexedDB).applySyncedLinks(remoteLinks);
+
+    await this.driveService.uploadFile(
+      LINKS_FILE_NAME,
+      new TextEncoder().encode(JSON.stringify(mergedLinks, null, 2)),
+      'application/json',
+      this.highlightsFolderId
+    );
+    console.log('HighlightSyncService: Synced', mergedLinks.length, 'highlight links');
+    return mergedLinks;
+  }
+
+  /**
+   * Sync the recycle bin's book entries; the most recently updated copy of each entry wins
+   * @returns All entries after merging, including restored and purged ones
+   */
+  async syncTrash(): Promise<TrashedBook[]> {
+    if (!this.highlightsFolderId) {
+      throw new Error('Highlights folder not initialized');
+    }
+
+    const files = await this.driveService.listFiles(this.highlightsFolderId, 'application/json');
+    const trashFile = files.find(file => file.name === TRASH_FILE_NAME);
+    const merged = new Map((await this.indexedDB.getAllTrashedBooks()).map(entry => [entry.id, entry]));
+
+    if (trashFile) {
+      const trashData = await this.driveService.downloadFile(trashFile.id);
+      const remoteEntries = (JSON.parse(new TextDecoder().decode(trashData)) as TrashedBook[]).map(entry => ({
+        ...entry,
+        trashedAt: new Date(entry.trashedAt),
+        updatedAt: new Date(entry.updatedAt)
+      }));
+
+      const changed = remoteEntries.filter(remote => {
+        const local = merged.get(remote.id);
+        return !local || remote.updatedAt.getTime() > new Date(local.updatedAt).getTime();
+      });
+      changed.forEach(entry => merged.set(entry.id, entry));
+      if (changed.length > 0) {
+        await this.indexedDB.storeTrashedBooks(changed);
+      }
+    }
+
+    const mergedEntries = Array.from(merged.values());
+    await this.driveService.uploadFile(
+      TRASH_FILE_NAME,
+      new TextEncoder().encode(JSON.stringify(mergedEntries, null, 2)),
+      'application/json',
+      this.highlightsFolderId
+    );
+    console.log('HighlightSyncService: Synced', mergedEntries.length, 'trash entries');
+    return mergedEntries;
+  }
+
   /**
    * Get remote highlights from Google Drive
    */
@@ -166,7 +295,15 @@ export class HighlightSyncService {
         ...highlight,
         createdAt: new Date(highlight.createdAt),
         updatedAt: new Date(highlight.updatedAt),
-        lastModified: new Date(highlight.lastModified)
+        lastModified: new Date(highlight.lastModified),
+        deletedAt: highlight.deletedAt ? new Date(highlight.deletedAt) : undefined,
+        purgedAt: highlight.purgedAt ? new Date(highlight.purgedAt) : undefined,
+        notes: highlight.notes?.map(entry => ({
+          ...entry,
+          createdAt: new Date(entry.createdAt),
+          updatedAt: new Date(entry.updatedAt),
+          deletedAt: entry.deletedAt ? new Date(entry.deletedAt) : undefined
+        }))
       }));
 
     } catch (error) {
@@ -234,17 +371,24 @@ export class HighlightSyncService {
 
         if (local && remote) {
           // Both exist - check for conflicts
-          if (local.lastModified.getTime() > remote.lastModified.getTime()) {
+          if (isPurgedHighlight(local) || isPurgedHighlight(remote)) {
+            // Purging is final, however recently the other copy was edited
+            const purged = isPurgedHighlight(local) ? local : remote;
+            mergedHighlights.push(purged);
+            if (purged === remote) {
+              result.syncedHighlights++;
+            }
+          } else if (local.lastModified.getTime() > remote.lastModified.getTime()) {
             // Local is newer
-            mergedHighlights.push(local);
+            mergedHighlights.push(this.withMergedNotes(local, remote));
             result.syncedHighlights++;
           } else if (remote.lastModified.getTime() > local.lastModified.getTime()) {
             // Remote is newer
-            mergedHighlights.push(remote);
+            mergedHighlights.push(this.withMergedNotes(remote, local));
             result.syncedHighlights++;
           } else {
             // Same timestamp - use local
-            mergedHighlights.push(local);
+            mergedHighlights.push(this.withMergedNotes(local, remote));
           }
         } else if (local) {
           // Only local exists
@@ -257,13 +401,40 @@ export class HighlightSyncService {
         }
       }
 
+      // Highlights past their time in the recycle bin are purged, leaving tombstones here and on Drive
+      const { trashRetentionDays } = await new PreferencesService(this.indexedDB).getPreferences();
+      const now = new Date();
+      const resolvedHighlights = mergedHighlights.map(highlight =>
+        highlight.deletedAt && !isPurgedHighlight(highlight) && isTrashExpired(highlight.deletedAt, trashRetentionDays)
+          ? toPurgedHighlight(highlight, now)
+          : highlight
+      );
+
       // Update local storage
-      for (const highlight of mergedHighlights) {
-        await this.indexedDB.storeHighlight(highlight);
+      if (this.highlightManager) {
+        await this.highlightManager.applySyncedHighlights(resolvedHighlights, bookId);
+      } else {
+        for (const highlight of resolvedHighlights) {
+          await this.indexedDB.storeHighlight(highlight);
+        }
       }
 
       // Upload merged highlights to Drive
-      await this.uploadHighlights(mergedHighlights, bookId);
+      await this.uploadHighlights(resolvedHighlights, bookId);
+
+      try {
+        await this.syncLinks();
+      } catch (error) {
+        result.errors.push(`Failed to sync highlight links: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        console.error('HighlightSyncService: Link sync failed:', error);
+      }
+
+      try {
+        await this.syncTrash();
+      } catch (error) {
+        result.errors.push(`Failed to sync the recycle bin: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        console.error('HighlightSyncService: Trash sync failed:', error);
+      }
 
       console.log('HighlightSyncService: Sync completed successfully');
 
@@ -276,6 +447,18 @@ export class HighlightSyncService {
     return result;
   }
 
+  /**
+   * Keep the newer highlight, but with the note threads of both sides unioned by entry ID
+   * so notes added on different devices are not lost
+   */
+  private withMergedNotes(newer: Highlight, older: Highlight): Highlight {
+    return {
+      ...newer,
+      note: undefined,
+      notes: mergeNoteThreads(getNoteEntries(newer), getNoteEntries(older))
+    };
+  }
+
   /**
    * Auto-sync highlights (called when highlights are created/updated/deleted)
    */
@@ -312,7 +495,7 @@ export class HighlightSyncService {
    */
   async needsSync(bookId: string): Promise<boolean> {
     try {
-      const localHighlights = await this.indexedDB.getHighlightsForBook(bookId);
+      const localHighlights = await this.indexedDB.getHighlightsForBook(bookId, true);
       const remoteHighlights = await this.getRemoteHighlights(bookId);
 
       // Simple check - if counts are different, sync is needed
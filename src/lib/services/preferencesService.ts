@@ -0,0 +1,57 @@
+// Preferences Service
+// Reads and updates user preferences in IndexedDB, filling in defaults for anything not yet saved
+
+import { UserPreferences } from '@/types';
+import { IndexedDBService } from '@/lib/storage/indexedDB';
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  theme: 'light',
+  fontSize: 16,
+  fontFamily: 'Georgia',
+  lineSpacing: 1.6,
+  marginWidth: 40,
+  defaultHighlightColor: 'yellow',
+  autoSync: true,
+  syncInterval: 5,
+  reviewReminders: false,
+  reviewTime: '09:00',
+  reviewScheduler: 'sm2',
+  reviewNewCardsPerDay: 20,
+  reviewCardsPerDay: 100,
+  dailyDigestSize: 5,
+  startPage: 'home',
+  trashRetentionDays: 30,
+  exportFormat: 'markdown',
+  privacy: {
+    shareHighlights: false,
+    analytics: false,
+    crashReporting: false
+  }
+};
+
+export class PreferencesService {
+  private indexedDB: IndexedDBService;
+
+  constructor(indexedDB: IndexedDBService) {
+    this.indexedDB = indexedDB;
+  }
+
+  /**
+   * Get preferences, with defaults for any that have never been saved
+   */
+  async getPreferences(): Promise<UserPreferences> {
+    const stored = await this.indexedDB.getPreferences();
+    return { ...DEFAULT_PREFERENCES, ...stored };
+  }
+
+  /**
+   * Update some preferences, keeping the rest
+   * @param updates - Preferences to change
+   * @returns The full, updated preferences
+   */
+  async updatePreferences(updates: Partial<UserPreferences>): Promise<UserPreferences> {
+    const preferences = { ...(await this.getPreferences()), ...updates };
+    await this.indexedDB.storePreferences(preferences);
+    return preferences;
+  }
+}
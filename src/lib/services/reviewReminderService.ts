@@ -0,0 +1,177 @@
+// Review Reminder Service
+// Daily review reminder at UserPreferences.reviewTime: a notification from the review reminder service
+// worker, or, where notifications are blocked or unsupported, an in-app reminder while BookLever is open
+
+import { IndexedDBService } from '@/lib/storage/indexedDB';
+import { HighlightManager } from '@/lib/readers/shared';
+import { PreferencesService } from './preferencesService';
+import { ClozeCardService } from './clozeCardService';
+
+export type ReminderPermission = NotificationPermission | 'unsupported';
+
+export interface ReviewReminderSettings {
+  enabled: boolean;
+  reviewTime: string; // HH:MM, local time
+}
+
+const SERVICE_WORKER_URL = '/review-reminder-sw.js';
+const PERIODIC_SYNC_TAG = 'review-reminder';
+const PERIODIC_SYNC_INTERVAL = 60 * 60 * 1000; // Browsers decide the actual interval
+const REPLY_TIMEOUT = 5000;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Periodic background sync is not in the DOM typings yet
+interface PeriodicSyncRegistration extends ServiceWorkerRegistration {
+  periodicSync?: {
+    register(tag: string, options: { minInterval: number }): Promise<void>;
+    unregister(tag: string): Promise<void>;
+  };
+}
+
+/**
+ * The moment today's reminder is due
+ * @param reviewTime - HH:MM, local time
+ */
+export function getReminderTime(reviewTime: string, now: Date = new Date()): Date {
+  const [hours, minutes] = reviewTime.split(':').map(Number);
+  const time = new Date(now);
+  time.setHours(hours, minutes, 0, 0);
+  return time;
+}
+
+export class ReviewReminderService {
+  private indexedDB: IndexedDBService;
+  private preferences: PreferencesService;
+
+  constructor(indexedDB: IndexedDBService) {
+    this.indexedDB = indexedDB;
+    this.preferences = new PreferencesService(indexedDB);
+  }
+
+  /**
+   * Whether this browser can show notifications from a service worker
+   */
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && 'serviceWorker' in navigator && 'Notification' in window;
+  }
+
+  getPermission(): ReminderPermission {
+    return this.isSupported() ? Notification.permission : 'unsupported';
+  }
+
+  async getSettings(): Promise<ReviewReminderSettings> {
+    const preferences = await this.preferences.getPreferences();
+    return { enabled: preferences.reviewReminders, reviewTime: preferences.reviewTime };
+  }
+
+  /**
+   * Turn on the daily reminder, asking for notification permission if it has not been given or refused.
+   * A refusal keeps the reminder on, shown in the app instead
+   * @param reviewTime - HH:MM, local time
+   * @returns The notification permission the reminder ends up with
+   */
+  async enable(reviewTime: string): Promise<ReminderPermission> {
+    if (!TIME_PATTERN.test(reviewTime)) {
+      throw new Error('Reminder time must be a time of day, e.g. 09:00');
+    }
+
+    await this.preferences.updatePreferences({ reviewReminders: true, reviewTime });
+
+    if (this.getPermission() === 'default') {
+      try {
+        await Notification.requestPermission();
+      } catch (error) {
+        console.error('ReviewReminderService: Permission request failed:', error);
+      }
+    }
+    return this.start();
+  }
+
+  async disable(): Promise<void> {
+    await this.preferences.updatePreferences({ reviewReminders: false });
+    await this.start();
+  }
+
+  /**
+   * Hand the current settings to the service worker; called when the app opens and whenever they change
+   * @returns The notification permission; anything but 'granted' means reminders are shown in the app
+   */
+  async start(): Promise<ReminderPermission> {
+    const permission = this.getPermission();
+    if (permission === 'unsupported') {
+      return permission;
+    }
+
+    try {
+      const settings = await this.getSettings();
+      const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL) as PeriodicSyncRegistration;
+      const worker = registration.active || registration.waiting || registration.installing;
+      worker?.postMessage({
+        type: 'configure',
+        enabled: settings.enabled,
+        reviewTime: settings.reviewTime,
+        dueTimes: settings.enabled ? (await this.loadClozeCards()).getNextDueTimes() : []
+      });
+
+      if (registration.periodicSync) {
+        if (settings.enabled && permission === 'granted') {
+          await registration.periodicSync.register(PERIODIC_SYNC_TAG, { minInterval: PERIODIC_SYNC_INTERVAL });
+        } else {
+          await registration.periodicSync.unregister(PERIODIC_SYNC_TAG);
+        }
+      }
+    } catch (error) {
+      // Periodic sync is only granted to installed apps; the reminder still works while the app is open
+      console.error('ReviewReminderService: Failed to set up the service worker:', error);
+    }
+    return permission;
+  }
+
+  /**
+   * Ask the service worker to show today's reminder, if it is time and it has not been shown yet
+   * @returns Whether today's notification has been shown; when it has not, because notifications
+   * cannot be shown or nothing was due, the app should remind the user itself
+   */
+  async notify(): Promise<boolean> {
+    if (this.getPermission() !== 'granted') {
+      return false;
+    }
+
+    try {
+      const registration = await navigator.serviceWorker.ready;
+      const worker = registration.active;
+      if (!worker) {
+        return false;
+      }
+
+      const dueTimes = (await this.loadClozeCards()).getNextDueTimes();
+      return await new Promise<boolean>(resolve => {
+        const channel = new MessageChannel();
+        const timeout = setTimeout(() => resolve(false), REPLY_TIMEOUT);
+        channel.port1.onmessage = (event: MessageEvent<{ shown?: boolean }>) => {
+          clearTimeout(timeout);
+          resolve(event.data?.shown === true);
+        };
+        worker.postMessage({ type: 'check', dueTimes }, [channel.port2]);
+      });
+    } catch (error) {
+      console.error('ReviewReminderService: Failed to reach the service worker:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Number of highlights with a card due, as the review page finds them; the service worker counts
+   * from the due times this service hands it, so it arrives at the same number
+   */
+  async countDueHighlights(now: Date = new Date()): Promise<number> {
+    const due = (await this.loadClozeCards()).getDueItems(now);
+    return new Set(due.map(item => item.highlight.id)).size;
+  }
+
+  private async loadClozeCards(): Promise<ClozeCardService> {
+    const manager = new HighlightManager(this.indexedDB);
+    await manager.loadFromStorage();
+    return new ClozeCardService(manager);
+  }
+}
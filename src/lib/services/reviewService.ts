@@ -0,0 +1,212 @@
+// Review Service
+// Keeps the user's choice of spaced-repetition scheduler, daily review limits and streaks, and brings older review history up to date
+
+import { ReviewDay, ReviewScheduler } from '@/types';
+import { ClozeCard, Highlight, ReviewRecord, migrateReviewHistory } from '@/lib/readers/shared';
+import { IndexedDBService } from '@/lib/storage/indexedDB';
+import { PreferencesService } from './preferencesService';
+
+// One card in a review session: a highlight, or one of its cloze cards
+export interface ReviewItem {
+  highlight: Highlight;
+  card?: ClozeCard;
+}
+
+export interface DailyReviewLimits {
+  newCards: number; // Never-reviewed highlights introduced per day
+  reviews: number; // Cards graded per day, new ones included
+}
+
+export interface ReviewStreak {
+  current: number; // Consecutive days with reviews up to today, or up to yesterday if today has none yet
+  longest: number;
+}
+
+/**
+ * Local calendar date of a moment, as YYYY-MM-DD
+ */
+export function getReviewDayKey(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Review history of whichever card the item stands for
+ */
+export function getReviewHistory(item: ReviewItem): ReviewRecord[] {
+  return item.card ? item.card.reviewHistory : item.highlight.reviewHistory;
+}
+
+export class ReviewService {
+  private indexedDB: IndexedDBService;
+  private preferences: PreferencesService;
+
+  constructor(indexedDB: IndexedDBService) {
+    this.indexedDB = indexedDB;
+    this.preferences = new PreferencesService(indexedDB);
+  }
+
+  /**
+   * Scheduler used for new reviews
+   */
+  async getScheduler(): Promise<ReviewScheduler> {
+    return (await this.preferences.getPreferences()).reviewScheduler;
+  }
+
+  /**
+   * Switch scheduler; items carry on from their current interval rather than starting over
+   * @param scheduler - Scheduler to use for new reviews
+   */
+  async setScheduler(scheduler: ReviewScheduler): Promise<void> {
+    await this.preferences.updatePreferences({ reviewScheduler: scheduler });
+  }
+
+  /**
+   * One-time migration of review records from before grading: fills in grades and SM-2 state,
+   * leaving dates and intervals alone. Timestamps are not bumped, as every device migrates the
+   * same records the same way (and scheduling migrates any that arrive later through sync)
+   * @returns Number of highlights migrated
+   */
+  async migrate(): Promise<number> {
+    const migrated: Highlight[] = [];
+    (await this.indexedDB.getAllHighlights(true)).forEach(highlight => {
+      const reviewHistory = migrateReviewHistory(highlight.reviewHistory || []);
+      if (reviewHistory) {
+        migrated.push({ ...highlight, reviewHistory });
+      }
+    });
+
+    if (migrated.length > 0) {
+      await this.indexedDB.storeHighlights(migrated);
+      console.log('ReviewService: Migrated review history of', migrated.length, 'highlights');
+    }
+    return migrated.length;
+  }
+
+  /**
+   * Daily caps on new cards and on reviews
+   */
+  async getDailyLimits(): Promise<DailyReviewLimits> {
+    const preferences = await this.preferences.getPreferences();
+    return {
+      newCards: preferences.reviewNewCardsPerDay,
+      reviews: preferences.reviewCardsPerDay
+    };
+  }
+
+  /**
+   * Change the daily caps
+   * @param limits - Whole numbers; a new-card cap of 0 pauses new cards
+   */
+  async setDailyLimits(limits: DailyReviewLimits): Promise<void> {
+    if (!Number.isInteger(limits.newCards) || limits.newCards < 0) {
+      throw new Error('New cards per day must be a whole number of at least 0');
+    }
+    if (!Number.isInteger(limits.reviews) || limits.reviews < 1) {
+      throw new Error('Reviews per day must be a whole number of at least 1');
+    }
+
+    await this.preferences.updatePreferences({
+      reviewNewCardsPerDay: limits.newCards,
+      reviewCardsPerDay: limits.reviews
+    });
+  }
+
+  /**
+   * What has been reviewed so far today
+   */
+  async getToday(now: Date = new Date()): Promise<ReviewDay> {
+    const date = getReviewDayKey(now);
+    return (await this.indexedDB.getReviewDay(date)) || { date, reviews: 0, newCards: 0, updatedAt: now };
+  }
+
+  /**
+   * Count a graded card towards today's tally
+   * @param isNew - Whether this was the card's first review
+   * @returns Today's updated tally
+   */
+  async recordReview(isNew: boolean, now: Date = new Date()): Promise<ReviewDay> {
+    const today = await this.getToday(now);
+    const updated: ReviewDay = {
+      ...today,
+      reviews: today.reviews + 1,
+      newCards: today.newCards + (isNew ? 1 : 0),
+      updatedAt: now
+    };
+
+    await this.indexedDB.storeReviewDay(updated);
+    return updated;
+  }
+
+  /**
+   * Current and longest run of consecutive days with reviews
+   */
+  async getStreak(now: Date = new Date()): Promise<ReviewStreak> {
+    const dates = (await this.indexedDB.getAllReviewDays())
+      .filter(day => day.reviews > 0)
+      .map(day => day.date)
+      .sort();
+    const reviewed = new Set(dates);
+
+    let longest = 0;
+    let run = 0;
+    let previous: string | null = null;
+    dates.forEach(date => {
+      run = previous && getReviewDayKey(this.addDays(this.parseDayKey(previous), 1)) === date ? run + 1 : 1;
+      longest = Math.max(longest, run);
+      previous = date;
+    });
+
+    // Today only ends the streak once it is over
+    let day = reviewed.has(getReviewDayKey(now)) ? now : this.addDays(now, -1);
+    let current = 0;
+    while (reviewed.has(getReviewDayKey(day))) {
+      current++;
+      day = this.addDays(day, -1);
+    }
+
+    return { current, longest };
+  }
+
+  /**
+   * Today's session from the due items, in their order: stops at the review cap, and skips
+   * never-reviewed cards once the new-card cap is reached
+   * @param due - Items due for review, most urgent first
+   * @param today - What has been reviewed so far today
+   */
+  buildSession(due: ReviewItem[], today: ReviewDay, limits: DailyReviewLimits): ReviewItem[] {
+    let reviewsLeft = Math.max(0, limits.reviews - today.reviews);
+    let newCardsLeft = Math.max(0, limits.newCards - today.newCards);
+
+    const session: ReviewItem[] = [];
+    for (const item of due) {
+      if (reviewsLeft === 0) {
+        break;
+      }
+
+      const isNew = getReviewHistory(item).length === 0;
+      if (isNew && newCardsLeft === 0) {
+        continue;
+      }
+
+      session.push(item);
+      reviewsLeft--;
+      if (isNew) {
+        newCardsLeft--;
+      }
+    }
+    return session;
+  }
+
+  private parseDayKey(date: string): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+
+  private addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+  }
+}
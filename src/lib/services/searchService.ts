@@ -1,7 +1,7 @@
 // Search Service
 // Provides full-text search across books and highlights
 
-import { Highlight } from '@/lib/readers/shared';
+import { Highlight, getNoteText, isPageNote, matchesTagFilter } from '@/lib/readers/shared';
 import { Book } from '@/types';
 import { IndexedDBService } from '@/lib/storage/indexedDB';
 
@@ -24,7 +24,7 @@ export interface SearchFilters {
     start: Date;
     end: Date;
   };
-  highlightColors?: string[];
+  highlightColors?: string[]; // Palette color IDs
   tags?: string[];
   fileTypes?: ('epub' | 'pdf')[];
 }
@@ -65,7 +65,7 @@ export class SearchService {
       this.addToSearchHistory(query);
 
       // Get all books and highlights
-      const books = await this.indexedDB.getAllBooks();
+      const books = await this.getSearchableBooks();
       const allHighlights = await this.indexedDB.getAllHighlights();
 
       // Filter highlights by book IDs if specified
@@ -110,6 +110,18 @@ export class SearchService {
     }
   }
 
+  /**
+   * Stored books, leaving out those in the recycle bin or purged from it
+   */
+  private async getSearchableBooks(): Promise<Book[]> {
+    const [books, trashEntries] = await Promise.all([
+      this.indexedDB.getAllBooks(),
+      this.indexedDB.getAllTrashedBooks()
+    ]);
+    const hiddenBookIds = new Set(trashEntries.filter(entry => entry.state !== 'restored').map(entry => entry.id));
+    return books.filter(book => !hiddenBookIds.has(book.id));
+  }
+
   /**
    * Search within highlights
    */
@@ -129,7 +141,7 @@ export class SearchService {
 
       // Search in highlight text
       const highlightText = highlight.text.toLowerCase();
-      const noteText = (highlight.note || '').toLowerCase();
+      const noteText = getNoteText(highlight).toLowerCase();
       const combinedText = `${highlightText} ${noteText}`;
 
       // Calculate relevance score
@@ -154,15 +166,18 @@ export class SearchService {
 
       // Only include if there's a match
       if (matchCount > 0) {
+        // Page notes and clipped regions have no quoted text, so show the note instead
+        const pageNote = isPageNote(highlight);
+        const content = highlight.text || getNoteText(highlight, ' / ');
         const context = options?.includeContext 
-          ? this.generateContext(highlight.text, query, options.contextLength || 100)
+          ? this.generateContext(content, query, options.contextLength || 100)
           : undefined;
 
         results.push({
           id: `highlight-${highlight.id}`,
           type: 'highlight',
-          title: `Highlight from ${book.title}`,
-          content: highlight.text,
+          title: `${pageNote ? 'Page note in' : 'Highlight from'} ${book.title}`,
+          content,
           bookId: highlight.bookId,
           bookTitle: book.title,
           relevanceScore: score,
@@ -302,10 +317,9 @@ export class SearchService {
         }
       }
 
-      // Tags filter (if we implement tags later)
+      // Tags filter; a parent tag matches its children
       if (filters.tags && result.highlight) {
-        const highlightTags = result.highlight.tags || [];
-        if (!filters.tags.some(tag => highlightTags.includes(tag))) {
+        if (!matchesTagFilter(result.highlight.tags, filters.tags)) {
           return false;
         }
       }
@@ -333,7 +347,7 @@ export class SearchService {
 
     // Add suggestions based on book titles and authors
     try {
-      const books = await this.indexedDB.getAllBooks();
+      const books = await this.getSearchableBooks();
       const bookSuggestions = books
         .flatMap(book => [book.title, book.author])
         .filter(item => item.toLowerCase().includes(queryLower))
@@ -418,11 +432,11 @@ export class SearchService {
     totalSearchableContent: number;
   }> {
     try {
-      const books = await this.indexedDB.getAllBooks();
+      const books = await this.getSearchableBooks();
       const highlights = await this.indexedDB.getAllHighlights();
       
       const totalSearchableContent = highlights.reduce((total, highlight) => {
-        return total + highlight.text.length + (highlight.note?.length || 0);
+        return total + highlight.text.length + getNoteText(highlight).length;
       }, 0);
 
       return {
@@ -0,0 +1,219 @@
+// Trash Service
+// Recycle bin for deleted books and highlights: restores them, and purges them once the retention period has passed
+// Purged highlights leave a tombstone, which sync carries to every device so none of them brings the highlight back
+
+import { Book, TrashedBook } from '@/types';
+import { Highlight, isTrashedHighlight, isTrashExpired, toPurgedHighlight } from '@/lib/readers/shared';
+import { IndexedDBService } from '@/lib/storage/indexedDB';
+import { GoogleDriveService } from './googleDriveService';
+import { HighlightLinkService } from './highlightLinkService';
+import { HighlightSyncService } from './highlightSyncService';
+import { PreferencesService } from './preferencesService';
+
+export class TrashService {
+  private indexedDB: IndexedDBService;
+  private driveService: GoogleDriveService | null;
+  private preferences: PreferencesService;
+  private links: HighlightLinkService;
+
+  constructor(indexedDB: IndexedDBService, driveService?: GoogleDriveService | null) {
+    this.indexedDB = indexedDB;
+    // When provided, trash changes are synced to Drive straight away
+    this.driveService = driveService || null;
+    this.preferences = new PreferencesService(indexedDB);
+    this.links = new HighlightLinkService(indexedDB);
+  }
+
+  /**
+   * Days items stay in the trash before they are purged
+   */
+  async getRetentionDays(): Promise<number> {
+    return (await this.preferences.getPreferences()).trashRetentionDays;
+  }
+
+  /**
+   * Change how long items stay in the trash
+   * @param days - Whole days, at least 1
+   */
+  async setRetentionDays(days: number): Promise<void> {
+    if (!Number.isInteger(days) || days < 1) {
+      throw new Error('Items must stay in the trash for at least one day');
+    }
+    await this.preferences.updatePreferences({ trashRetentionDays: days });
+  }
+
+  /**
+   * Books in the trash, most recently deleted first
+   */
+  async getTrashedBooks(): Promise<TrashedBook[]> {
+    return (await this.indexedDB.getAllTrashedBooks())
+      .filter(entry => entry.state === 'trashed')
+      .sort((a, b) => new Date(b.trashedAt).getTime() - new Date(a.trashedAt).getTime());
+  }
+
+  /**
+   * IDs of the books in the trash, to hide them from the library
+   */
+  async getTrashedBookIds(): Promise<Set<string>> {
+    return new Set((await this.getTrashedBooks()).map(entry => entry.id));
+  }
+
+  /**
+   * Highlights in the trash that have not been purged yet, most recently deleted first
+   */
+  async getTrashedHighlights(): Promise<Highlight[]> {
+    const retentionDays = await this.getRetentionDays();
+    return (await this.indexedDB.getAllHighlights(true))
+      .filter(highlight => isTrashedHighlight(highlight) && !isTrashExpired(highlight.deletedAt!, retentionDays))
+      .sort((a, b) => new Date(b.deletedAt!).getTime() - new Date(a.deletedAt!).getTime());
+  }
+
+  /**
+   * Move a book, with its highlights, to the trash
+   * @param book - Book to delete
+   */
+  async trashBook(book: Book): Promise<void> {
+    const now = new Date();
+    await this.indexedDB.storeTrashedBooks([{
+      id: book.id,
+      title: book.title,
+      author: book.author,
+      driveFileId: book.driveFileId,
+      state: 'trashed',
+      trashedAt: now,
+      updatedAt: now
+    }]);
+
+    // Trashed with the same timestamp as the book, so restoring the book brings back exactly these
+    const highlights = await this.indexedDB.getHighlightsForBook(book.id);
+    for (const highlight of highlights) {
+      await this.indexedDB.storeHighlight({ ...highlight, deletedAt: now, updatedAt: now, lastModified: now });
+    }
+
+    await this.sync(highlights.length > 0 ? [book.id] : []);
+  }
+
+  /**
+   * Take a book, and the highlights deleted along with it, out of the trash
+   * @param entry - Trash entry of the book
+   */
+  async restoreBook(entry: TrashedBook): Promise<void> {
+    const now = new Date();
+    await this.indexedDB.storeTrashedBooks([{ ...entry, state: 'restored', updatedAt: now }]);
+
+    const trashedAt = new Date(entry.trashedAt).getTime();
+    const highlights = (await this.indexedDB.getHighlightsForBook(entry.id, true))
+      .filter(highlight => isTrashedHighlight(highlight) && new Date(highlight.deletedAt!).getTime() === trashedAt);
+    await this.restoreHighlights(highlights, false);
+
+    await this.sync(highlights.length > 0 ? [entry.id] : []);
+  }
+
+  /**
+   * Take highlights out of the trash
+   * @param highlights - Trashed highlights
+   */
+  async restoreHighlights(highlights: Highlight[], sync: boolean = true): Promise<void> {
+    const now = new Date();
+    for (const highlight of highlights.filter(isTrashedHighlight)) {
+      await this.indexedDB.storeHighlight({ ...highlight, deletedAt: undefined, updatedAt: now, lastModified: now });
+    }
+
+    if (sync) {
+      await this.sync(this.getBookIds(highlights));
+    }
+  }
+
+  /**
+   * Delete a book for good: its local copy, its highlights, their links and its file on Drive
+   * @param entry - Trash entry of the book
+   */
+  async purgeBook(entry: TrashedBook): Promise<void> {
+    // Trashed highlights keep their links, so restoring them brings those back; purging ends that
+    for (const highlight of await this.indexedDB.getHighlightsForBook(entry.id, true)) {
+      await this.links.removeLinksForHighlight(highlight.id);
+    }
+    await this.indexedDB.deleteBook(entry.id);
+
+    if (entry.driveFileId && this.driveService) {
+      try {
+        await this.driveService.deleteFile(entry.driveFileId);
+      } catch (error) {
+        // Most likely already removed by another device
+        console.error('TrashService: Failed to delete book file from Drive:', error);
+      }
+    }
+
+    await this.indexedDB.storeTrashedBooks([{ ...entry, state: 'purged', updatedAt: new Date() }]);
+    await this.sync([]);
+  }
+
+  /**
+   * Delete highlights from the trash for good, with their links, leaving tombstones that go up
+   * with the next sync
+   * @param highlights - Trashed highlights
+   */
+  async purgeHighlights(highlights: Highlight[]): Promise<void> {
+    const now = new Date();
+    const purged = highlights.filter(isTrashedHighlight);
+    for (const highlight of purged) {
+      await this.indexedDB.storeHighlight(toPurgedHighlight(highlight, now));
+      await this.links.removeLinksForHighlight(highlight.id);
+    }
+    await this.sync(this.getBookIds(purged));
+  }
+
+  /**
+   * Pick up books trashed, restored or purged on other devices
+   */
+  async syncFromDrive(): Promise<void> {
+    await this.sync([]);
+  }
+
+  /**
+   * Purge everything that has been in the trash longer than the retention period
+   * @returns Number of books and highlights purged
+   */
+  async purgeExpired(): Promise<{ books: number; highlights: number }> {
+    const retentionDays = await this.getRetentionDays();
+
+    const expiredBooks = (await this.getTrashedBooks())
+      .filter(entry => isTrashExpired(entry.trashedAt, retentionDays));
+    for (const entry of expiredBooks) {
+      await this.purgeBook(entry);
+    }
+
+    const expiredHighlights = (await this.indexedDB.getAllHighlights(true))
+      .filter(highlight => isTrashedHighlight(highlight) && isTrashExpired(highlight.deletedAt!, retentionDays));
+    await this.purgeHighlights(expiredHighlights);
+
+    return { books: expiredBooks.length, highlights: expiredHighlights.length };
+  }
+
+  /**
+   * Sync the trash, and the highlights of the given books, to Drive
+   */
+  private async sync(bookIds: string[]): Promise<void> {
+    if (!this.driveService) return;
+
+    try {
+      const syncService = new HighlightSyncService(this.indexedDB, this.driveService);
+      await syncService.initialize();
+      // Every highlight sync takes the trash and links along
+      if (bookIds.length === 0) {
+        await syncService.syncTrash();
+        await syncService.syncLinks();
+      }
+      for (const bookId of bookIds) {
+        await syncService.syncToDrive(bookId);
+      }
+    } catch (error) {
+      // Stored locally; goes up with the next sync
+      console.error('TrashService: Failed to sync trash:', error);
+    }
+  }
+
+  private getBookIds(highlights: Highlight[]): string[] {
+    return Array.from(new Set(highlights.map(highlight => highlight.bookId)));
+  }
+}
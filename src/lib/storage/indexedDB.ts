@@ -1,7 +1,16 @@
 // IndexedDB Service
 // Handles local storage for books, highlights, and user data
 
-import { Book, Highlight, UserPreferences, Collection, Tag } from '@/types';
+import { Book, Highlight, HighlightLink, HighlightRevision, TrashedBook, ReviewDay, HighlightDigest, UserPreferences, Collection, Tag } from '@/types';
+import {
+  countTags,
+  isMergedHighlight,
+  isPurgedHighlight,
+  isTagWithin,
+  isTrashedHighlight,
+  renameTagInList,
+  renameTagPath
+} from '@/lib/readers/shared';
 
 export interface StoredBook extends Book {
   fileData: Uint8Array;
@@ -28,7 +37,7 @@ export interface StorageStats {
 
 export class IndexedDBService {
   private dbName: string = 'BookLeverDB';
-  private version: number = 5; // Incremented to add collections and tags support
+  private version: number = 10; // Incremented to add the daily digest
   private db: IDBDatabase | null = null;
   private maxStorageSize: number = 2 * 1024 * 1024 * 1024; // 2GB
   private currentUserId: string | null = null;
@@ -135,6 +144,40 @@ export class IndexedDBService {
           syncStore.createIndex('priority', 'priority', { unique: false });
           syncStore.createIndex('timestamp', 'timestamp', { unique: false });
         }
+
+        // Create highlight links store (new in version 6)
+        if (!db.objectStoreNames.contains('highlightLinks')) {
+          console.log('Creating highlightLinks object store');
+          const linksStore = db.createObjectStore('highlightLinks', { keyPath: 'id' });
+          linksStore.createIndex('sourceHighlightId', 'sourceHighlightId', { unique: false });
+          linksStore.createIndex('targetHighlightId', 'targetHighlightId', { unique: false });
+        }
+
+        // Create highlight revisions store (new in version 7)
+        if (!db.objectStoreNames.contains('highlightRevisions')) {
+          console.log('Creating highlightRevisions object store');
+          const revisionsStore = db.createObjectStore('highlightRevisions', { keyPath: 'id' });
+          revisionsStore.createIndex('highlightId', 'highlightId', { unique: false });
+          revisionsStore.createIndex('createdAt', 'createdAt', { unique: false });
+        }
+
+        // Create trashed books store (new in version 8)
+        if (!db.objectStoreNames.contains('trashedBooks')) {
+          console.log('Creating trashedBooks object store');
+          db.createObjectStore('trashedBooks', { keyPath: 'id' });
+        }
+
+        // Create review days store (new in version 9)
+        if (!db.objectStoreNames.contains('reviewDays')) {
+          console.log('Creating reviewDays object store');
+          db.createObjectStore('reviewDays', { keyPath: 'date' });
+        }
+
+        // Create highlight digests store (new in version 10)
+        if (!db.objectStoreNames.contains('highlightDigests')) {
+          console.log('Creating highlightDigests object store');
+          db.createObjectStore('highlightDigests', { keyPath: 'date' });
+        }
       };
 
       request.onblocked = () => {
@@ -241,10 +284,31 @@ export class IndexedDBService {
     });
   }
 
+  /**
+   * Store several highlights, with their revisions, in one transaction; all of them are written or none
+   */
+  async storeHighlights(highlights: Highlight[], revisions: HighlightRevision[] = []): Promise<void> {
+    if (!this.db) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['highlights', 'highlightRevisions'], 'readwrite');
+      const highlightStore = transaction.objectStore('highlights');
+      const revisionStore = transaction.objectStore('highlightRevisions');
+      highlights.forEach(highlight => highlightStore.put(highlight));
+      revisions.forEach(revision => revisionStore.put(revision));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(new Error('Failed to store highlights'));
+    });
+  }
+
   /**
    * Get highlights for a book
+   * @param includeRemoved - Also return trashed highlights and tombstones of merged and purged ones, e.g. for sync
    */
-  async getHighlightsForBook(bookId: string): Promise<Highlight[]> {
+  async getHighlightsForBook(bookId: string, includeRemoved: boolean = false): Promise<Highlight[]> {
     if (!this.db) {
       throw new Error('IndexedDB not initialized');
     }
@@ -255,15 +319,16 @@ export class IndexedDBService {
       const index = store.index('bookId');
       const request = index.getAll(bookId);
 
-      request.onsuccess = () => resolve(request.result || []);
+      request.onsuccess = () => resolve(this.withoutRemoved(request.result || [], includeRemoved));
       request.onerror = () => reject(new Error('Failed to get highlights'));
     });
   }
 
   /**
    * Get all highlights
+   * @param includeRemoved - Also return trashed highlights and tombstones of merged and purged ones
    */
-  async getAllHighlights(): Promise<Highlight[]> {
+  async getAllHighlights(includeRemoved: boolean = false): Promise<Highlight[]> {
     if (!this.db) {
       throw new Error('IndexedDB not initialized');
     }
@@ -273,11 +338,37 @@ export class IndexedDBService {
       const store = transaction.objectStore('highlights');
       const request = store.getAll();
 
-      request.onsuccess = () => resolve(request.result || []);
+      request.onsuccess = () => resolve(this.withoutRemoved(request.result || [], includeRemoved));
       request.onerror = () => reject(new Error('Failed to get highlights'));
     });
   }
 
+  private withoutRemoved(highlights: Highlight[], includeRemoved: boolean): Highlight[] {
+    return includeRemoved
+      ? highlights
+      : highlights.filter(highlight =>
+        !isMergedHighlight(highlight) && !isTrashedHighlight(highlight) && !isPurgedHighlight(highlight)
+      );
+  }
+
+  /**
+   * Get a highlight by ID
+   */
+  async getHighlight(highlightId: string): Promise<Highlight | null> {
+    if (!this.db) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['highlights'], 'readonly');
+      const store = transaction.objectStore('highlights');
+      const request = store.get(highlightId);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(new Error('Failed to get highlight'));
+    });
+  }
+
   /**
    * Update a highlight
    */
@@ -336,6 +427,232 @@ export class IndexedDBService {
     });
   }
 
+  /**
+   * Append a revision to a highlight's edit history
+   */
+  async storeHighlightRevision(revision: HighlightRevision): Promise<void> {
+    if (!this.db) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['highlightRevisions'], 'readwrite');
+      const store = transaction.objectStore('highlightRevisions');
+      const request = store.put(revision);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to store highlight revision'));
+    });
+  }
+
+  /**
+   * Get a highlight's edit history, oldest first
+   */
+  async getHighlightRevisions(highlightId: string): Promise<HighlightRevision[]> {
+    if (!this.db) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['highlightRevisions'], 'readonly');
+      const store = transaction.objectStore('highlightRevisions');
+      const request = store.index('highlightId').getAll(highlightId);
+
+      request.onsuccess = () => {
+        const revisions: HighlightRevision[] = request.result || [];
+        resolve(revisions.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()));
+      };
+      request.onerror = () => reject(new Error('Failed to get highlight revisions'));
+    });
+  }
+
+  /**
+   * Store highlight links (including tombstones) in one transaction
+   */
+  async storeHighlightLinks(links: HighlightLink[]): Promise<void> {
+    if (!this.db) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['highlightLinks'], 'readwrite');
+      const store = transaction.objectStore('highlightLinks');
+      links.forEach(link => store.put(link));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(new Error('Failed to store highlight links'));
+    });
+  }
+
+  /**
+   * Get all highlight links, including tombstones
+   */
+  async getAllHighlightLinks(): Promise<HighlightLink[]> {
+    if (!this.db) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['highlightLinks'], 'readonly');
+      const store = transaction.objectStore('highlightLinks');
+      const request = store.getAll();
+
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(new Error('Failed to get highlight links'));
+    });
+  }
+
+  /**
+   * Get links from or to a highlight, including tombstones
+   */
+  async getHighlightLinksFor(highlightId: string): Promise<HighlightLink[]> {
+    if (!this.db) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['highlightLinks'], 'readonly');
+      const store = transaction.objectStore('highlightLinks');
+      const outgoing = store.index('sourceHighlightId').getAll(highlightId);
+      const incoming = store.index('targetHighlightId').getAll(highlightId);
+
+      transaction.oncomplete = () => {
+        // A self-link would appear in both lists
+        const links = new Map<string, HighlightLink>();
+        [...(outgoing.result || []), ...(incoming.result || [])].forEach(link => links.set(link.id, link));
+        resolve(Array.from(links.values()));
+      };
+      transaction.onerror = () => reject(new Error('Failed to get highlight links'));
+    });
+  }
+
+  /**
+   * Store recycle bin entries for books (including restored and purged ones) in one transaction
+   */
+  async storeTrashedBooks(entries: TrashedBook[]): Promise<void> {
+    if (!this.db) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['trashedBooks'], 'readwrite');
+      const store = transaction.objectStore('trashedBooks');
+      entries.forEach(entry => store.put(entry));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(new Error('Failed to store trashed books'));
+    });
+  }
+
+  /**
+   * Get all recycle bin entries for books, including restored and purged ones
+   */
+  async getAllTrashedBooks(): Promise<TrashedBook[]> {
+    if (!this.db) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['trashedBooks'], 'readonly');
+      const store = transaction.objectStore('trashedBooks');
+      const request = store.getAll();
+
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(new Error('Failed to get trashed books'));
+    });
+  }
+
+  /**
+   * Store the review tally for one day
+   */
+  async storeReviewDay(day: ReviewDay): Promise<void> {
+    if (!this.db) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['reviewDays'], 'readwrite');
+      const store = transaction.objectStore('reviewDays');
+      const request = store.put(day);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to store review day'));
+    });
+  }
+
+  /**
+   * Get the review tally for one day
+   * @param date - Local date, YYYY-MM-DD
+   */
+  async getReviewDay(date: string): Promise<ReviewDay | null> {
+    if (!this.db) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['reviewDays'], 'readonly');
+      const store = transaction.objectStore('reviewDays');
+      const request = store.get(date);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(new Error('Failed to get review day'));
+    });
+  }
+
+  /**
+   * Get the review tallies of every day with reviews, oldest first
+   */
+  async getAllReviewDays(): Promise<ReviewDay[]> {
+    if (!this.db) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['reviewDays'], 'readonly');
+      const store = transaction.objectStore('reviewDays');
+      const request = store.getAll();
+
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(new Error('Failed to get review days'));
+    });
+  }
+
+  /**
+   * Store the digest for one day
+   */
+  async storeDigest(digest: HighlightDigest): Promise<void> {
+    if (!this.db) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['highlightDigests'], 'readwrite');
+      const store = transaction.objectStore('highlightDigests');
+      const request = store.put(digest);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to store digest'));
+    });
+  }
+
+  /**
+   * Get every stored digest, oldest first
+   */
+  async getAllDigests(): Promise<HighlightDigest[]> {
+    if (!this.db) {
+      throw new Error('IndexedDB not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['highlightDigests'], 'readonly');
+      const store = transaction.objectStore('highlightDigests');
+      const request = store.getAll();
+
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(new Error('Failed to get digests'));
+    });
+  }
+
   /**
    * Store user preferences
    */
@@ -407,7 +724,7 @@ export class IndexedDBService {
       throw new Error('IndexedDB not initialized');
     }
 
-    const stores = ['books', 'highlights', 'preferences', 'syncQueue'];
+    const stores = ['books', 'highlights', 'preferences', 'syncQueue', 'highlightLinks', 'highlightRevisions', 'trashedBooks', 'reviewDays', 'highlightDigests'];
     
     for (const storeName of stores) {
       await new Promise<void>((resolve, reject) => {
@@ -429,7 +746,8 @@ export class IndexedDBService {
       throw new Error('IndexedDB not initialized');
     }
 
-    const books = await this.getAllBooks();
+    // Placeholder books hold no file data, only imported highlights
+    const books = (await this.getAllBooks()).filter(book => !book.isPlaceholder);
     
     if (books.length <= maxBooks) {
       return;
@@ -618,10 +936,10 @@ export class IndexedDBService {
 
     return new Promise((resolve, reject) => {
       try {
-        const transaction = this.db!.transaction(['books', 'highlights', 'bookCovers', 'preferences', 'syncQueue'], 'readwrite');
+        const transaction = this.db!.transaction(['books', 'highlights', 'bookCovers', 'preferences', 'syncQueue', 'highlightLinks', 'highlightRevisions', 'trashedBooks', 'reviewDays', 'highlightDigests'], 'readwrite');
         
         // Clear all object stores
-        const stores = ['books', 'highlights', 'bookCovers', 'preferences', 'syncQueue'];
+        const stores = ['books', 'highlights', 'bookCovers', 'preferences', 'syncQueue', 'highlightLinks', 'highlightRevisions', 'trashedBooks', 'reviewDays', 'highlightDigests'];
         let completed = 0;
         let hasError = false;
 
@@ -1071,4 +1389,82 @@ export class IndexedDBService {
       };
     });
   }
+
+  /**
+   * Rename or move a tag; every tag below it moves along, on every book and highlight
+   * @param from - Current tag path
+   * @param to - New tag path, already normalized
+   * @returns Number of books and highlights that changed
+   */
+  async renameTagPath(from: string, to: string): Promise<{ books: number; highlights: number }> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['tags', 'books', 'highlights'], 'readwrite');
+      const tagsStore = transaction.objectStore('tags');
+      const booksStore = transaction.objectStore('books');
+      const highlightsStore = transaction.objectStore('highlights');
+      const result = { books: 0, highlights: 0 };
+
+      const tagsRequest = tagsStore.getAll();
+      tagsRequest.onsuccess = () => {
+        const tags: Tag[] = tagsRequest.result || [];
+        const moving = tags.filter(tag => isTagWithin(tag.name, from));
+        const names = new Set(tags.filter(tag => !isTagWithin(tag.name, from)).map(tag => tag.name));
+
+        // Delete before re-adding, so a new name can reuse one that is being renamed away
+        moving.forEach(tag => tagsStore.delete(tag.id));
+        moving.forEach(tag => {
+          const name = renameTagPath(tag.name, from, to);
+          if (!names.has(name)) {
+            names.add(name);
+            tagsStore.put({ ...tag, name });
+          }
+        });
+      };
+
+      const booksRequest = booksStore.getAll();
+      booksRequest.onsuccess = () => {
+        (booksRequest.result || []).forEach(book => {
+          const tags = renameTagInList(book.tags, from, to);
+          if (tags) {
+            booksStore.put({ ...book, tags });
+            result.books++;
+          }
+        });
+      };
+
+      const highlightsRequest = highlightsStore.getAll();
+      highlightsRequest.onsuccess = () => {
+        const now = new Date();
+        (highlightsRequest.result || []).forEach((highlight: Highlight) => {
+          const tags = renameTagInList(highlight.tags, from, to);
+          if (tags) {
+            // Newer lastModified so the rename wins when the book next syncs
+            highlightsStore.put({ ...highlight, tags, updatedAt: now, lastModified: now });
+            result.highlights++;
+          }
+        });
+      };
+
+      transaction.oncomplete = () => {
+        console.log('Tag renamed:', from, '->', to, result);
+        resolve(result);
+      };
+
+      transaction.onerror = () => {
+        console.error('Failed to rename tag:', transaction.error);
+        reject(new Error(`Failed to rename tag: ${transaction.error?.message || 'Unknown error'}`));
+      };
+    });
+  }
+
+  /**
+   * Count how many highlights carry each tag or a tag below it
+   */
+  async getHighlightTagCounts(): Promise<Record<string, number>> {
+    return countTags(await this.getAllHighlights(), true);
+  }
 }
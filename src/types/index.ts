@@ -26,6 +26,7 @@ export interface Book {
   isFavorite?: boolean;
   isFromDrive?: boolean;
   isDownloaded?: boolean;
+  isPlaceholder?: boolean; // Metadata-only book created by an import, no file attached
   metadata?: {
     isbn?: string;
     publisher?: string;
@@ -41,9 +42,13 @@ export interface Book {
 export interface Highlight {
   id: string;
   bookId: string;
+  kind?: 'highlight' | 'page-note' | 'region'; // Page notes have no selected text, only a position; regions are clipped PDF areas
   text: string;
-  color: 'yellow' | 'blue' | 'pink' | 'green';
-  note?: string;
+  image?: string; // PNG data URL of a region's clipped area
+  color: string; // ID of a color in the user's HighlightPalette
+  style?: 'fill' | 'underline' | 'strikethrough' | 'squiggle'; // How the color is drawn; defaults to 'fill'
+  note?: string; // Legacy single note, superseded by notes
+  notes?: HighlightNote[]; // Threaded note entries, merged by ID during sync
   tags: string[];
   pageNumber?: number;
   chapter?: string;
@@ -54,6 +59,10 @@ export interface Highlight {
   platform: 'web' | 'mobile'; // Track which platform created the highlight
   importance?: number; // 1-5 scale
   reviewHistory: ReviewRecord[];
+  clozeCards?: ClozeCard[]; // Stored once marked or first reviewed; until then key-term cards are generated on the fly
+  mergedInto?: string; // ID of the highlight this one was merged into; kept as a tombstone so sync does not bring it back
+  deletedAt?: Date; // In the recycle bin since then; purged once the retention period has passed
+  purgedAt?: Date; // Deleted for good then; its content is dropped, but it stays as a tombstone so sync does not bring it back
 }
 
 export interface PositionMapping {
@@ -82,6 +91,35 @@ export interface PositionMapping {
   confidence: number; // 0-1 scale
 }
 
+// One entry in a highlight's note thread
+export interface HighlightNote {
+  id: string;
+  text: string;
+  platform: Platform;
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt?: Date; // Tombstone, kept so the deletion survives sync
+}
+
+// One entry in a highlight's edit history
+export interface HighlightRevision {
+  id: string;
+  highlightId: string;
+  bookId: string;
+  action: 'created' | 'updated' | 'deleted' | 'restored';
+  snapshot: Highlight; // The highlight after the change; for 'deleted', as it was before
+  createdAt: Date;
+}
+
+// A fill-in-the-blank card cut from a highlight, with its own review schedule
+export interface ClozeCard {
+  id: string;
+  term: string; // Blanked in the highlight text
+  source: 'marked' | 'auto'; // Marked by the user, or picked from the highlight's key terms
+  createdAt: Date;
+  reviewHistory: ReviewRecord[];
+}
+
 export interface ReviewRecord {
   id: string;
   date: Date;
@@ -89,6 +127,39 @@ export interface ReviewRecord {
   nextReview: Date;
   interval: number; // days
   easeFactor: number; // for spaced repetition
+  scheduler?: ReviewScheduler; // Unset on records from before scheduling was selectable
+  grade?: number; // SM-2 quality 0-5, or FSRS rating 1-4 (Again, Hard, Good, Easy)
+  repetitions?: number; // Successful reviews in a row
+  stability?: number; // FSRS: days until recall drops to 90%
+  difficulty?: number; // FSRS: 1 (easiest) to 10 (hardest)
+  duration?: number; // Seconds from showing the card to grading it; unset when not timed
+}
+
+// User-defined highlight colors, each with a meaning (e.g. "Definition", "Disagree")
+export interface HighlightColorDefinition {
+  id: string; // Stored on Highlight.color
+  name: string;
+  meaning?: string;
+  hex: string; // e.g. #FDE047
+}
+
+export interface HighlightPalette {
+  colors: HighlightColorDefinition[];
+  updatedAt: Date; // Newest palette wins when syncing
+}
+
+// A link from one highlight to another, possibly in a different book; shown on the
+// target as a backlink
+export interface HighlightLink {
+  id: string;
+  sourceHighlightId: string;
+  sourceBookId: string;
+  targetHighlightId: string;
+  targetBookId: string;
+  relation: string; // e.g. "answers", "contradicts"
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt?: Date; // Tombstone, kept so the removal survives sync
 }
 
 // Unified highlight file structure for Google Drive
@@ -111,10 +182,18 @@ export interface UserPreferences {
   lineSpacing: number;
   marginWidth: number;
   defaultHighlightColor: string;
+  highlightPalette?: HighlightPalette;
   autoSync: boolean;
   syncInterval: number; // minutes
   reviewReminders: boolean;
   reviewTime: string; // HH:MM format
+  reviewScheduler: 'sm2' | 'fsrs'; // Spaced-repetition algorithm for new reviews
+  reviewNewCardsPerDay: number; // Cap on never-reviewed highlights introduced each day
+  reviewCardsPerDay: number; // Cap on cards graded each day, new ones included
+  dailyDigestSize: number; // Highlights resurfaced each day on the home and library pages
+  startPage: 'home' | 'library'; // Where signed-in users land: the home page with the digest, or straight in the library
+  trashRetentionDays: number; // Days deleted books and highlights stay in the trash
+  keptSeparateHighlights?: string[]; // Highlight ID pairs ("a|b") the duplicate scan should not offer to merge again
   exportFormat: 'markdown' | 'json' | 'csv' | 'txt';
   privacy: {
     shareHighlights: boolean;
@@ -290,6 +369,37 @@ export interface PaginatedResponse<T> {
   };
 }
 
+// Recycle Bin
+// A deleted book waiting in the trash; the entry is synced so the deletion reaches every device
+export interface TrashedBook {
+  id: string; // Book ID
+  title: string;
+  author: string;
+  driveFileId?: string; // Removed from Drive when the book is purged
+  state: 'trashed' | 'restored' | 'purged'; // Restored and purged entries stay behind for sync
+  trashedAt: Date;
+  updatedAt: Date; // Newest entry wins when syncing
+}
+
+// Daily Review
+// What was reviewed on one calendar day; days with reviews make up the review streak
+export interface ReviewDay {
+  date: string; // Local date, YYYY-MM-DD
+  reviews: number; // Cards graded, new ones included
+  newCards: number; // Cards reviewed for the first time
+  updatedAt: Date;
+}
+
+// Daily Digest
+// The highlights resurfaced on one calendar day, kept so the day's digest stays the same
+export interface HighlightDigest {
+  date: string; // Local date, YYYY-MM-DD
+  highlightIds: string[]; // In display order
+  onThisDayIds: string[]; // Those highlighted on this date in an earlier year
+  size: number; // Digest size it was built for; fewer highlights may have been available
+  createdAt: Date;
+}
+
 // Collections and Tags
 export interface Collection {
   id: string;
@@ -378,9 +488,11 @@ export interface BulkBookOperation {
 
 // Export types for external use
 export type HighlightColor = Highlight['color'];
+export type HighlightStyle = NonNullable<Highlight['style']>;
 export type BookFormat = Book['fileType'];
 export type Platform = Highlight['platform'];
 export type Theme = UserPreferences['theme'];
 export type ExportFormat = UserPreferences['exportFormat'];
+export type ReviewScheduler = UserPreferences['reviewScheduler'];
 export type BookStatus = Book['status'];
 export type BookPriority = Book['priority'];